@@ -1,6 +1,9 @@
 'use client';
 import { Logo } from "@/components/icons";
 import { ModeToggle } from "@/components/mode-toggle";
+import { KeyboardShortcutsDialog } from "./keyboard-shortcuts-dialog";
+import { SettingsProfileMenu } from "./settings-profile-menu";
+import { StorageDashboard } from "./storage-dashboard";
 import { SidebarTrigger } from "@/components/ui/sidebar";
 
 interface HeaderProps {
@@ -19,7 +22,12 @@ export default function Header({ showSidebarTrigger = true }: HeaderProps) {
           UltimaMotion60
         </h1>
       </div>
-      <ModeToggle />
+      <div className="flex items-center gap-1">
+        <KeyboardShortcutsDialog />
+        <StorageDashboard />
+        <SettingsProfileMenu />
+        <ModeToggle />
+      </div>
     </header>
   );
 }
@@ -0,0 +1,147 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { Keyboard, RotateCcw, X } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogDescription,
+} from '@/components/ui/dialog';
+import { useAppContext } from '@/contexts/app-context';
+import { useToast } from '@/hooks/use-toast';
+import { cn } from '@/lib/utils';
+import {
+  SHORTCUT_COMMANDS,
+  SHORTCUT_GROUPS,
+  findShortcutCommand,
+  formatKeyCombo,
+  getKeyComboFromEvent,
+  shouldIgnoreShortcutEvent,
+  type ShortcutCommandId,
+} from '@/lib/keyboard-shortcuts';
+
+export function KeyboardShortcutsDialog() {
+  const { keymap, setShortcutBinding, resetKeymap } = useAppContext();
+  const { toast } = useToast();
+  const [isOpen, setIsOpen] = useState(false);
+  const [recordingId, setRecordingId] = useState<ShortcutCommandId | null>(null);
+
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (shouldIgnoreShortcutEvent(event)) return;
+      if (findShortcutCommand(keymap, event) !== 'show-shortcuts') return;
+      event.preventDefault();
+      setIsOpen(true);
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [keymap]);
+
+  const handleOpenChange = (open: boolean) => {
+    setIsOpen(open);
+    if (!open) setRecordingId(null);
+  };
+
+  const handleRecordKey = (id: ShortcutCommandId, event: React.KeyboardEvent) => {
+    event.preventDefault();
+    event.stopPropagation();
+    if (event.key === 'Escape') {
+      setRecordingId(null);
+      return;
+    }
+    const combo = getKeyComboFromEvent(event);
+    if (!combo) return;
+    const previousOwner = SHORTCUT_COMMANDS.find((command) => command.id !== id && keymap[command.id] === combo);
+    setShortcutBinding(id, combo);
+    setRecordingId(null);
+    if (previousOwner) {
+      toast({ title: 'Shortcut reassigned', description: `${formatKeyCombo(combo)} no longer triggers "${previousOwner.label}".` });
+    }
+  };
+
+  return (
+    <>
+      <Button variant="ghost" size="icon" title="Keyboard shortcuts" onClick={() => setIsOpen(true)}>
+        <Keyboard className="h-[1.2rem] w-[1.2rem] text-foreground" />
+        <span className="sr-only">Keyboard shortcuts</span>
+      </Button>
+
+      <Dialog open={isOpen} onOpenChange={handleOpenChange}>
+        <DialogContent
+          className="w-[calc(100%-0.5rem)] sm:max-w-[520px] bg-card border-none shadow-2xl p-3 sm:p-6 rounded-md sm:rounded-lg"
+          onEscapeKeyDown={(event) => {
+            // Escape cancels the recording instead of closing the dialog.
+            if (recordingId) event.preventDefault();
+          }}
+        >
+          <DialogHeader className="space-y-1">
+            <DialogTitle className="font-headline text-2xl tracking-tight text-foreground">
+              Keyboard Shortcuts
+            </DialogTitle>
+            <DialogDescription className="text-muted-foreground">
+              Shortcuts act on the selected tile, or on all tiles while sync is on. Click a key to change it.
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="max-h-[60vh] space-y-3 overflow-y-auto pr-1">
+            {SHORTCUT_GROUPS.map((group) => (
+              <section key={group} className="space-y-1">
+                <p className="text-[11px] font-semibold uppercase tracking-wider text-muted-foreground">{group}</p>
+                {SHORTCUT_COMMANDS.filter((command) => command.group === group).map((command) => {
+                  const isRecording = recordingId === command.id;
+                  const combo = keymap[command.id];
+                  return (
+                    <div key={command.id} className="flex items-center gap-2 text-xs">
+                      <span className="flex-1 text-foreground">{command.label}</span>
+                      <button
+                        type="button"
+                        className={cn(
+                          'min-w-[5.5rem] rounded border px-2 py-0.5 text-center font-mono text-[11px] transition-colors',
+                          isRecording
+                            ? 'border-primary bg-primary/15 text-primary'
+                            : combo
+                              ? 'border-border bg-secondary/60 text-foreground hover:bg-secondary'
+                              : 'border-dashed border-border text-muted-foreground hover:bg-secondary/60'
+                        )}
+                        onClick={() => setRecordingId(isRecording ? null : command.id)}
+                        onKeyDown={(event) => {
+                          if (isRecording) handleRecordKey(command.id, event);
+                        }}
+                        onBlur={() => {
+                          if (isRecording) setRecordingId(null);
+                        }}
+                        aria-label={`Change shortcut for ${command.label}`}
+                      >
+                        {isRecording ? 'Press keys…' : formatKeyCombo(combo)}
+                      </button>
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        className="h-6 w-6"
+                        disabled={!combo}
+                        onClick={() => setShortcutBinding(command.id, null)}
+                        title="Remove shortcut"
+                      >
+                        <X className="h-3.5 w-3.5" />
+                      </Button>
+                    </div>
+                  );
+                })}
+              </section>
+            ))}
+          </div>
+
+          <div className="flex justify-end">
+            <Button variant="outline" size="sm" className="h-8 text-xs" onClick={resetKeymap}>
+              <RotateCcw className="mr-1.5 h-3.5 w-3.5" />
+              Reset to defaults
+            </Button>
+          </div>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+}
@@ -0,0 +1,160 @@
+'use client';
+
+import { useRef, useState } from 'react';
+import { Check, Download, RotateCcw, Save, SlidersHorizontal, Trash2, Upload } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogDescription,
+} from '@/components/ui/dialog';
+import { useAppContext } from '@/contexts/app-context';
+import { useToast } from '@/hooks/use-toast';
+
+export function SettingsProfileMenu() {
+  const {
+    settingsProfiles,
+    activeSettingsProfileId,
+    saveSettingsProfile,
+    applySettingsProfile,
+    deleteSettingsProfile,
+    exportSettingsProfile,
+    importSettingsProfile,
+    resetSettingsToDefaults,
+  } = useAppContext();
+  const { toast } = useToast();
+  const [isSaveOpen, setIsSaveOpen] = useState(false);
+  const [profileName, setProfileName] = useState('');
+  const fileInputRef = useRef<HTMLInputElement | null>(null);
+  const activeProfile = settingsProfiles.find((profile) => profile.id === activeSettingsProfileId) ?? null;
+
+  const openSaveDialog = () => {
+    setProfileName(activeProfile?.name ?? '');
+    setIsSaveOpen(true);
+  };
+
+  const handleSave = () => {
+    const profile = saveSettingsProfile(profileName);
+    setIsSaveOpen(false);
+    toast({ title: 'Profile saved', description: `Current settings were saved as "${profile.name}".` });
+  };
+
+  const handleImport = async (file: File) => {
+    try {
+      const profile = await importSettingsProfile(file);
+      toast({ title: 'Profile imported', description: `"${profile.name}" is available in the profile menu.` });
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unknown import error.';
+      toast({ title: 'Import failed', description: message, variant: 'destructive' });
+    }
+  };
+
+  return (
+    <>
+      <DropdownMenu>
+        <DropdownMenuTrigger asChild>
+          <Button variant="ghost" size="icon" title={activeProfile ? `Profile: ${activeProfile.name}` : 'Settings profiles'}>
+            <SlidersHorizontal className="h-[1.2rem] w-[1.2rem] text-foreground" />
+            <span className="sr-only">Settings profiles</span>
+          </Button>
+        </DropdownMenuTrigger>
+        <DropdownMenuContent align="end" className="w-56">
+          <DropdownMenuLabel className="text-xs">Profiles</DropdownMenuLabel>
+          {settingsProfiles.length === 0 ? (
+            <p className="px-2 pb-1.5 text-[11px] text-muted-foreground">No saved profiles yet.</p>
+          ) : (
+            settingsProfiles.map((profile) => (
+              <DropdownMenuItem key={profile.id} onClick={() => applySettingsProfile(profile.id)}>
+                <Check className={profile.id === activeSettingsProfileId ? 'h-4 w-4' : 'h-4 w-4 opacity-0'} />
+                <span className="truncate">{profile.name}</span>
+              </DropdownMenuItem>
+            ))
+          )}
+          <DropdownMenuSeparator />
+          <DropdownMenuItem onClick={openSaveDialog}>
+            <Save className="h-4 w-4" />
+            Save current settings…
+          </DropdownMenuItem>
+          <DropdownMenuItem onClick={() => fileInputRef.current?.click()}>
+            <Upload className="h-4 w-4" />
+            Import profile…
+          </DropdownMenuItem>
+          {activeProfile && (
+            <>
+              <DropdownMenuItem onClick={() => exportSettingsProfile(activeProfile.id)}>
+                <Download className="h-4 w-4" />
+                Export &quot;{activeProfile.name}&quot;
+              </DropdownMenuItem>
+              <DropdownMenuItem onClick={() => deleteSettingsProfile(activeProfile.id)} className="text-destructive focus:text-destructive">
+                <Trash2 className="h-4 w-4" />
+                Delete &quot;{activeProfile.name}&quot;
+              </DropdownMenuItem>
+            </>
+          )}
+          <DropdownMenuSeparator />
+          <DropdownMenuItem onClick={resetSettingsToDefaults}>
+            <RotateCcw className="h-4 w-4" />
+            Reset to defaults
+          </DropdownMenuItem>
+        </DropdownMenuContent>
+      </DropdownMenu>
+
+      <input
+        ref={fileInputRef}
+        type="file"
+        accept="application/json,.json"
+        className="hidden"
+        onChange={(e) => {
+          const file = e.target.files?.[0];
+          e.target.value = '';
+          if (file) void handleImport(file);
+        }}
+      />
+
+      <Dialog open={isSaveOpen} onOpenChange={setIsSaveOpen}>
+        <DialogContent className="w-[calc(100%-0.5rem)] sm:max-w-[380px] bg-card border-none shadow-2xl p-3 sm:p-6 rounded-md sm:rounded-lg">
+          <DialogHeader className="space-y-1">
+            <DialogTitle className="font-headline text-2xl tracking-tight text-foreground">Save Profile</DialogTitle>
+            <DialogDescription className="text-muted-foreground">
+              Stores pose, overlay, drawing and playback settings. An existing profile with the same name is updated.
+            </DialogDescription>
+          </DialogHeader>
+          <form
+            className="space-y-3"
+            onSubmit={(e) => {
+              e.preventDefault();
+              handleSave();
+            }}
+          >
+            <Input
+              value={profileName}
+              onChange={(e) => setProfileName(e.target.value)}
+              placeholder="e.g. Sprint analysis"
+              aria-label="Profile name"
+              autoFocus
+            />
+            <div className="flex justify-end gap-2">
+              <Button type="button" variant="outline" size="sm" onClick={() => setIsSaveOpen(false)}>
+                Cancel
+              </Button>
+              <Button type="submit" size="sm" disabled={profileName.trim().length === 0}>
+                Save
+              </Button>
+            </div>
+          </form>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+}
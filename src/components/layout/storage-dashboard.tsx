@@ -0,0 +1,280 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import { AlertTriangle, HardDrive, Loader2, RefreshCw, ShieldCheck, Trash2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Progress } from '@/components/ui/progress';
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogDescription,
+} from '@/components/ui/dialog';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import { useAppContext } from '@/contexts/app-context';
+import { useToast } from '@/hooks/use-toast';
+import { getPoseProcessModelLabel } from '@/lib/pose/pose-model-label';
+import { formatPoseProcessingLabel } from '@/lib/pose/pose-preprocess-preset';
+import {
+  STORAGE_WARNING_RATIO,
+  buildStorageReport,
+  findAnalysesOlderThan,
+  findStaleAnalyses,
+  formatBytes,
+  requestPersistentStorage,
+  type PoseAnalysisUsage,
+  type StorageReport,
+} from '@/lib/storage-usage';
+
+interface PendingCleanup {
+  title: string;
+  ids: string[];
+}
+
+const STALE_REASON_LABELS: Record<NonNullable<PoseAnalysisUsage['staleReason']>, string> = {
+  orphaned: 'Clip deleted',
+  'trim-mismatch': 'Trim changed',
+};
+
+export function StorageDashboard() {
+  const { library, deletePoseAnalyses } = useAppContext();
+  const { toast } = useToast();
+  const [isOpen, setIsOpen] = useState(false);
+  const [report, setReport] = useState<StorageReport | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [olderThanDays, setOlderThanDays] = useState(30);
+  const [pendingCleanup, setPendingCleanup] = useState<PendingCleanup | null>(null);
+
+  const refresh = useCallback(async () => {
+    setIsLoading(true);
+    try {
+      setReport(await buildStorageReport(library));
+    } catch (error) {
+      console.error('Failed to build storage report', error);
+      toast({ title: 'Error', description: 'Could not read storage usage.', variant: 'destructive' });
+    } finally {
+      setIsLoading(false);
+    }
+  }, [library, toast]);
+
+  useEffect(() => {
+    if (isOpen) void refresh();
+  }, [isOpen, refresh]);
+
+  const estimate = report?.estimate ?? null;
+  const usageRatio = estimate && estimate.quotaBytes > 0 ? estimate.usageBytes / estimate.quotaBytes : 0;
+  const staleAnalyses = report ? findStaleAnalyses(report) : [];
+  const oldAnalyses = report ? findAnalysesOlderThan(report, olderThanDays) : [];
+
+  const handleRequestPersistence = async () => {
+    const granted = await requestPersistentStorage();
+    toast(granted
+      ? { title: 'Storage is persistent', description: 'The browser will not evict the library under storage pressure.' }
+      : { title: 'Persistence not granted', description: 'The browser may still clear data when the device runs low on space.', variant: 'destructive' });
+    await refresh();
+  };
+
+  const handleConfirmCleanup = async () => {
+    if (!pendingCleanup) return;
+    const { ids } = pendingCleanup;
+    setPendingCleanup(null);
+    const deleted = await deletePoseAnalyses(ids);
+    toast({ title: 'Storage cleaned up', description: `${deleted} pose analys${deleted === 1 ? 'is' : 'es'} deleted.` });
+    await refresh();
+  };
+
+  const renderAnalysis = (analysis: PoseAnalysisUsage) => (
+    <div key={analysis.id} className="flex items-center gap-2 pl-3 text-[11px] text-muted-foreground">
+      <span className="min-w-0 flex-1 truncate">
+        {`${formatPoseProcessingLabel(analysis.modelVariant, analysis.preprocessPreset, getPoseProcessModelLabel)} · ${analysis.frameCount} frames · ${new Date(analysis.createdAtMs).toLocaleDateString()}`}
+      </span>
+      {analysis.staleReason && (
+        <span className="rounded bg-amber-500/15 px-1.5 py-0.5 text-[10px] font-semibold text-amber-500">
+          {STALE_REASON_LABELS[analysis.staleReason]}
+        </span>
+      )}
+      <span className="w-16 text-right tabular-nums">{formatBytes(analysis.estimatedBytes)}</span>
+      <Button
+        variant="ghost"
+        size="icon"
+        className="h-6 w-6 text-red-400 hover:text-red-300"
+        onClick={() => setPendingCleanup({ title: 'Delete this pose analysis?', ids: [analysis.id] })}
+        title="Delete analysis"
+      >
+        <Trash2 className="h-3.5 w-3.5" />
+      </Button>
+    </div>
+  );
+
+  return (
+    <>
+      <Button variant="ghost" size="icon" title="Storage" onClick={() => setIsOpen(true)}>
+        <HardDrive className="h-[1.2rem] w-[1.2rem] text-foreground" />
+        <span className="sr-only">Storage</span>
+      </Button>
+
+      <Dialog open={isOpen} onOpenChange={setIsOpen}>
+        <DialogContent className="w-[calc(100%-0.5rem)] sm:max-w-[560px] bg-card border-none shadow-2xl p-3 sm:p-6 rounded-md sm:rounded-lg">
+          <DialogHeader className="space-y-1">
+            <DialogTitle className="flex items-center gap-2 font-headline text-2xl tracking-tight text-foreground">
+              Storage
+              {isLoading && <Loader2 className="h-4 w-4 animate-spin text-muted-foreground" />}
+            </DialogTitle>
+            <DialogDescription className="text-muted-foreground">
+              Clips and pose analyses are stored in this browser. Sizes of analyses are estimates.
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="space-y-4">
+            <section className="space-y-1.5">
+              {estimate ? (
+                <>
+                  <div className="flex items-center justify-between text-xs">
+                    <span className="font-medium text-foreground">
+                      {`${formatBytes(estimate.usageBytes)} of ${formatBytes(estimate.quotaBytes)} used`}
+                    </span>
+                    <span className="tabular-nums text-muted-foreground">{`${Math.round(usageRatio * 100)}%`}</span>
+                  </div>
+                  <Progress value={Math.min(100, usageRatio * 100)} className="h-2" />
+                  {usageRatio >= STORAGE_WARNING_RATIO && (
+                    <p className="flex items-center gap-1 text-[11px] text-amber-500">
+                      <AlertTriangle className="h-3.5 w-3.5" />
+                      Storage is nearly full. New clips may fail to save until space is freed.
+                    </p>
+                  )}
+                  <div className="flex items-center justify-between text-[11px] text-muted-foreground">
+                    <span className="flex items-center gap-1">
+                      <ShieldCheck className={estimate.persisted ? 'h-3.5 w-3.5 text-emerald-500' : 'h-3.5 w-3.5'} />
+                      {estimate.persisted ? 'Persistent storage granted' : 'Storage may be evicted by the browser'}
+                    </span>
+                    {!estimate.persisted && (
+                      <Button variant="outline" size="sm" className="h-7 text-xs" onClick={() => void handleRequestPersistence()}>
+                        Make persistent
+                      </Button>
+                    )}
+                  </div>
+                </>
+              ) : (
+                <p className="text-xs text-muted-foreground">This browser does not report storage usage.</p>
+              )}
+            </section>
+
+            <section className="space-y-2 rounded-md border border-border/60 bg-secondary/30 p-2">
+              <p className="text-[11px] font-semibold uppercase tracking-wider text-muted-foreground">Cleanup</p>
+              <div className="flex items-center gap-2">
+                <span className="text-xs text-foreground">Analyses older than</span>
+                <Input
+                  type="number"
+                  min={1}
+                  value={olderThanDays}
+                  onChange={(e) => setOlderThanDays(Math.max(1, Math.round(Number(e.target.value) || 1)))}
+                  className="h-7 w-16 text-xs"
+                  aria-label="Age in days"
+                />
+                <span className="flex-1 text-xs text-foreground">days</span>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  className="h-7 text-xs"
+                  disabled={oldAnalyses.length === 0}
+                  onClick={() => setPendingCleanup({
+                    title: `Delete ${oldAnalyses.length} analyses older than ${olderThanDays} days?`,
+                    ids: oldAnalyses.map((analysis) => analysis.id),
+                  })}
+                >
+                  {`Delete ${oldAnalyses.length}`}
+                </Button>
+              </div>
+              <div className="flex items-center gap-2">
+                <span className="flex-1 text-xs text-foreground">
+                  Stale cache entries (clip deleted or trim changed)
+                </span>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  className="h-7 text-xs"
+                  disabled={staleAnalyses.length === 0}
+                  onClick={() => setPendingCleanup({
+                    title: `Delete ${staleAnalyses.length} stale cache entries?`,
+                    ids: staleAnalyses.map((analysis) => analysis.id),
+                  })}
+                >
+                  {`Delete ${staleAnalyses.length}`}
+                </Button>
+              </div>
+            </section>
+
+            <section className="space-y-1">
+              <div className="flex items-center justify-between">
+                <p className="text-[11px] font-semibold uppercase tracking-wider text-muted-foreground">
+                  {report ? `By clip · ${formatBytes(report.totalBytes)}` : 'By clip'}
+                </p>
+                <Button variant="ghost" size="icon" className="h-6 w-6" onClick={() => void refresh()} title="Refresh">
+                  <RefreshCw className="h-3.5 w-3.5" />
+                </Button>
+              </div>
+              <div className="max-h-64 space-y-2 overflow-y-auto pr-1">
+                {report?.videos.map((item) => (
+                  <div key={item.video.id} className="space-y-0.5">
+                    <div className="flex items-center gap-2 text-xs">
+                      <span className="min-w-0 flex-1 truncate font-medium text-foreground">{item.video.name}</span>
+                      <span className="tabular-nums text-muted-foreground">{formatBytes(item.totalBytes)}</span>
+                    </div>
+                    <div className="flex items-center gap-2 pl-3 text-[11px] text-muted-foreground">
+                      <span className="flex-1">
+                        {item.sharesRecording ? 'Thumbnail · recording shared with another sub-clip' : 'Video and thumbnail'}
+                      </span>
+                      <span className="w-16 text-right tabular-nums">{formatBytes(item.videoBytes + item.thumbnailBytes)}</span>
+                      <span className="w-6" />
+                    </div>
+                    {item.analyses.map(renderAnalysis)}
+                  </div>
+                ))}
+                {report && report.orphanedAnalyses.length > 0 && (
+                  <div className="space-y-0.5">
+                    <p className="text-xs font-medium text-foreground">Analyses without a clip</p>
+                    {report.orphanedAnalyses.map(renderAnalysis)}
+                  </div>
+                )}
+                {report && report.videos.length === 0 && report.orphanedAnalyses.length === 0 && (
+                  <p className="text-xs text-muted-foreground">Nothing stored yet.</p>
+                )}
+              </div>
+            </section>
+          </div>
+        </DialogContent>
+      </Dialog>
+
+      <AlertDialog open={pendingCleanup !== null} onOpenChange={(open) => { if (!open) setPendingCleanup(null); }}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>{pendingCleanup?.title}</AlertDialogTitle>
+            <AlertDialogDescription>
+              Affected clips stay in the library and can be processed again later.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+              onClick={() => void handleConfirmCleanup()}
+            >
+              Delete
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </>
+  );
+}
@@ -0,0 +1,214 @@
+'use client';
+
+import { useRef, useState } from 'react';
+import { Loader2 } from 'lucide-react';
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogDescription,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Progress } from '@/components/ui/progress';
+import { Switch } from '@/components/ui/switch';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { useAppContext } from '@/contexts/app-context';
+import { useToast } from '@/hooks/use-toast';
+import {
+  EXPORT_CANCELLED_MESSAGE,
+  renderAnnotatedVideo,
+  type AnnotationLayers,
+  type DrawingViewport,
+} from '@/lib/annotated-video-render';
+import { extractThumbnail } from '@/lib/video-utils';
+import type { Drawing, Video } from '@/types';
+
+interface AnnotatedExportDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  video: Video;
+  drawings: Drawing[];
+  /** Media time the drawings are timed from; see DrawingCanvas */
+  drawingTimeOrigin: number;
+  /** Read at export time so the drawing coordinates match the tile's current size */
+  getDrawingViewport: () => DrawingViewport | null;
+}
+
+const EXPORT_RATES = [1, 0.5, 0.25, 0.125];
+
+const LAYER_OPTIONS: Array<{ key: keyof AnnotationLayers; label: string; description: string }> = [
+  { key: 'pose', label: 'Skeleton', description: 'Pose lines and joints from the processed analysis' },
+  { key: 'angles', label: 'Joint angles', description: 'Angles enabled in pose settings' },
+  { key: 'drawings', label: 'Drawings', description: 'Annotations visible on this tile' },
+  { key: 'chart', label: 'Angle chart', description: 'Trailing chart of the plotted angles' },
+];
+
+export function AnnotatedExportDialog({
+  open,
+  onOpenChange,
+  video,
+  drawings,
+  drawingTimeOrigin,
+  getDrawingViewport,
+}: AnnotatedExportDialogProps) {
+  const {
+    addVideoToLibrary,
+    loadPoseAnalysisForVideo,
+    poseVisibleAngles,
+    posePlottedAngles,
+    poseCustomAngles,
+    poseAngleMetrics,
+    poseMinVisibility,
+    poseStrainRules,
+  } = useAppContext();
+  const { toast } = useToast();
+  const [name, setName] = useState(`${video.name} (annotated)`);
+  const [rate, setRate] = useState(1);
+  const [layers, setLayers] = useState<AnnotationLayers>({ pose: true, angles: true, drawings: true, chart: false });
+  const [progress, setProgress] = useState<number | null>(null);
+  const abortRef = useRef<AbortController | null>(null);
+  const isRendering = progress !== null;
+
+  const handleOpenChange = (next: boolean) => {
+    if (!next && isRendering) return;
+    if (next) setName(`${video.name} (annotated)`);
+    onOpenChange(next);
+  };
+
+  const handleExport = async () => {
+    const controller = new AbortController();
+    abortRef.current = controller;
+    setProgress(0);
+    try {
+      const needsAnalysis = layers.pose || layers.angles || layers.chart;
+      const analysis = needsAnalysis ? await loadPoseAnalysisForVideo(video) : null;
+      if (needsAnalysis && !analysis && !layers.drawings) {
+        throw new Error('This clip has no processed pose data. Process it first or export drawings only.');
+      }
+
+      const trimStart = video.trimStart ?? 0;
+      const trimEnd = video.trimEnd ?? video.duration;
+      const chartAngles = poseAngleMetrics.filter((metric) => posePlottedAngles[metric.id]).map((metric) => metric.id);
+      const visibleAngles = poseAngleMetrics.filter((metric) => poseVisibleAngles[metric.id]).map((metric) => metric.id);
+
+      const rendered = await renderAnnotatedVideo(video.blob, {
+        trimStart,
+        trimEnd,
+        playbackRate: rate,
+        layers,
+        analysis,
+        angleIds: layers.chart && chartAngles.length > 0 ? chartAngles : visibleAngles,
+        customAngles: poseCustomAngles,
+        minVisibility: poseMinVisibility,
+        strainRules: poseStrainRules,
+        drawings,
+        drawingTimeOrigin,
+        drawingViewport: getDrawingViewport(),
+        onProgress: setProgress,
+        signal: controller.signal,
+      });
+
+      const { thumbnail } = await extractThumbnail(rendered.blob, 0);
+      await addVideoToLibrary({
+        name: name.trim() || `${video.name} (annotated)`,
+        blob: rendered.blob,
+        duration: rendered.durationSec,
+        thumbnail,
+      });
+      toast({ title: 'Export saved', description: `"${name.trim()}" was added to your library.` });
+      onOpenChange(false);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unknown export error.';
+      if (message !== EXPORT_CANCELLED_MESSAGE) {
+        toast({ title: 'Export failed', description: message, variant: 'destructive' });
+      }
+    } finally {
+      abortRef.current = null;
+      setProgress(null);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogContent
+        className="w-[calc(100%-0.5rem)] sm:max-w-[440px] bg-card border-none shadow-2xl p-3 sm:p-6 rounded-md sm:rounded-lg"
+        onClick={(e) => e.stopPropagation()}
+        onMouseDown={(e) => e.stopPropagation()}
+      >
+        <DialogHeader className="space-y-1">
+          <DialogTitle className="font-headline text-2xl tracking-tight text-foreground">Export Annotated Video</DialogTitle>
+          <DialogDescription className="text-muted-foreground">
+            Renders the trimmed clip with the selected overlays burned in and saves it to the library.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-3">
+          <Input value={name} onChange={(e) => setName(e.target.value)} disabled={isRendering} aria-label="Export name" />
+
+          {LAYER_OPTIONS.map((option) => (
+            <div key={option.key} className="flex items-center justify-between gap-3 rounded-md border border-border/60 bg-secondary/30 px-2.5 py-1.5">
+              <div>
+                <p className="text-xs font-medium text-foreground">{option.label}</p>
+                <p className="text-[10px] text-muted-foreground/80">{option.description}</p>
+              </div>
+              <Switch
+                checked={layers[option.key]}
+                onCheckedChange={(checked) => setLayers((prev) => ({ ...prev, [option.key]: checked }))}
+                disabled={isRendering}
+              />
+            </div>
+          ))}
+
+          <div className="flex items-center justify-between gap-3">
+            <p className="text-xs font-medium">Speed</p>
+            <Select value={rate.toString()} onValueChange={(value) => setRate(parseFloat(value))} disabled={isRendering}>
+              <SelectTrigger className="h-8 w-[110px] text-xs">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {EXPORT_RATES.map((value) => (
+                  <SelectItem key={value} value={value.toString()} className="text-xs">
+                    {value === 1 ? 'Real time' : `${value}x slow-mo`}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          {isRendering && (
+            <div className="space-y-1">
+              <Progress value={Math.round((progress ?? 0) * 100)} className="h-2" />
+              <p className="text-[10px] text-muted-foreground">
+                Rendering plays the clip in real time; keep this tab visible.
+              </p>
+            </div>
+          )}
+
+          <div className="flex justify-end gap-2">
+            {isRendering ? (
+              <Button variant="outline" size="sm" onClick={() => abortRef.current?.abort()}>
+                Cancel
+              </Button>
+            ) : (
+              <Button variant="outline" size="sm" onClick={() => onOpenChange(false)}>
+                Close
+              </Button>
+            )}
+            <Button size="sm" onClick={() => void handleExport()} disabled={isRendering || !Object.values(layers).some(Boolean)}>
+              {isRendering && <Loader2 className="mr-1.5 h-3.5 w-3.5 animate-spin" />}
+              Export
+            </Button>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,209 @@
+'use client';
+
+import { useRef, useState } from 'react';
+import { Loader2 } from 'lucide-react';
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogDescription,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Progress } from '@/components/ui/progress';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { useAppContext } from '@/contexts/app-context';
+import { useToast } from '@/hooks/use-toast';
+import { EXPORT_CANCELLED_MESSAGE } from '@/lib/annotated-video-render';
+import {
+  renderCompositeVideo,
+  type CompositeLayoutInput,
+  type CompositeTileInput,
+} from '@/lib/composite-video-render';
+import { getOverlayTopFilter } from '@/lib/overlay-filter';
+import { extractThumbnail } from '@/lib/video-utils';
+import type { Video } from '@/types';
+
+interface CompositeExportDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+const EXPORT_RATES = [1, 0.5, 0.25, 0.125];
+
+export function CompositeExportDialog({ open, onOpenChange }: CompositeExportDialogProps) {
+  const {
+    addVideoToLibrary,
+    slots,
+    layout,
+    compareViewMode,
+    canUseOverlayComparison,
+    syncOffsets,
+    zoomLevels,
+    panPositions,
+    isPortraitMode,
+    videoRefs,
+    overlayOpacity,
+    overlayBlendMode,
+    overlayTopColorFilter,
+    overlayTopBlackAndWhite,
+  } = useAppContext();
+  const { toast } = useToast();
+  const isOverlay = compareViewMode === 'overlay' && canUseOverlayComparison;
+  const defaultName = isOverlay ? 'Overlay comparison' : `${layout}-up comparison`;
+  const [name, setName] = useState(defaultName);
+  const [rate, setRate] = useState(1);
+  const [progress, setProgress] = useState<number | null>(null);
+  const abortRef = useRef<AbortController | null>(null);
+  const isRendering = progress !== null;
+
+  const handleOpenChange = (next: boolean) => {
+    if (!next && isRendering) return;
+    if (next) setName(defaultName);
+    onOpenChange(next);
+  };
+
+  const toTileInput = (video: Video, index: number): CompositeTileInput => ({
+    blob: video.blob,
+    trimStart: video.trimStart ?? 0,
+    trimEnd: video.trimEnd ?? video.duration,
+    syncOffset: syncOffsets[index] ?? 0,
+    zoom: zoomLevels[index] ?? 1,
+    pan: panPositions[index] ?? { x: 0, y: 0 },
+  });
+
+  const handleExport = async () => {
+    const controller = new AbortController();
+    abortRef.current = controller;
+    setProgress(0);
+    try {
+      const cellCount = layout === 4 ? 4 : 2;
+      // Overlay pairs the two filled slots wherever they sit, as the grid does.
+      const entries = (isOverlay ? slots : slots.slice(0, cellCount))
+        .map((video, index) => ({ video, index }))
+        .filter((entry): entry is { video: Video; index: number } => entry.video !== null);
+      if (entries.length === 0) throw new Error('Load videos into the grid first.');
+
+      // Pan is stored in on-screen pixels, so the export cell mirrors the current tile size.
+      const viewportRect = videoRefs.current[entries[0].index]?.parentElement?.getBoundingClientRect();
+      const viewport = viewportRect && viewportRect.width > 0 && viewportRect.height > 0
+        ? { width: viewportRect.width, height: viewportRect.height }
+        : { width: 16, height: 9 };
+
+      let compositeLayout: CompositeLayoutInput;
+      if (isOverlay) {
+        const [base, top] = entries;
+        if (!top) throw new Error('Overlay export needs two videos in the grid.');
+        compositeLayout = {
+          mode: 'overlay',
+          base: toTileInput(base.video, base.index),
+          top: toTileInput(top.video, top.index),
+          opacity: overlayOpacity,
+          blendMode: overlayBlendMode,
+          topFilter: getOverlayTopFilter(overlayTopColorFilter, overlayTopBlackAndWhite),
+        };
+      } else {
+        const tiles = slots.slice(0, cellCount).map((video, index) => (video ? toTileInput(video, index) : null));
+        compositeLayout = { mode: 'grid', columns: 2, rows: cellCount / 2, tiles };
+      }
+
+      const rendered = await renderCompositeVideo({
+        layout: compositeLayout,
+        viewport,
+        fit: isPortraitMode ? 'cover' : 'contain',
+        playbackRate: rate,
+        onProgress: setProgress,
+        signal: controller.signal,
+      });
+
+      const { thumbnail } = await extractThumbnail(rendered.blob, 0);
+      await addVideoToLibrary({
+        name: name.trim() || defaultName,
+        blob: rendered.blob,
+        duration: rendered.durationSec,
+        thumbnail,
+      });
+      toast({ title: 'Export saved', description: `"${name.trim() || defaultName}" was added to your library.` });
+      onOpenChange(false);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unknown export error.';
+      if (message !== EXPORT_CANCELLED_MESSAGE) {
+        toast({ title: 'Export failed', description: message, variant: 'destructive' });
+      }
+    } finally {
+      abortRef.current = null;
+      setProgress(null);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogContent
+        className="w-[calc(100%-0.5rem)] sm:max-w-[440px] bg-card border-none shadow-2xl p-3 sm:p-6 rounded-md sm:rounded-lg"
+        onClick={(e) => e.stopPropagation()}
+        onMouseDown={(e) => e.stopPropagation()}
+      >
+        <DialogHeader className="space-y-1">
+          <DialogTitle className="font-headline text-2xl tracking-tight text-foreground">Export Comparison Video</DialogTitle>
+          <DialogDescription className="text-muted-foreground">
+            {isOverlay
+              ? 'Renders the overlay view with its blend mode, opacity and color filter into one video.'
+              : 'Renders the visible tiles side by side with their sync offsets, zoom and pan into one video.'}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-3">
+          <Input value={name} onChange={(e) => setName(e.target.value)} disabled={isRendering} aria-label="Export name" />
+
+          <div className="flex items-center justify-between gap-3">
+            <p className="text-xs font-medium">Speed</p>
+            <Select value={rate.toString()} onValueChange={(value) => setRate(parseFloat(value))} disabled={isRendering}>
+              <SelectTrigger className="h-8 w-[110px] text-xs">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {EXPORT_RATES.map((value) => (
+                  <SelectItem key={value} value={value.toString()} className="text-xs">
+                    {value === 1 ? 'Real time' : `${value}x slow-mo`}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          {isRendering && (
+            <div className="space-y-1">
+              <Progress value={Math.round((progress ?? 0) * 100)} className="h-2" />
+              <p className="text-[10px] text-muted-foreground">
+                Rendering plays all clips in real time; keep this tab visible.
+              </p>
+            </div>
+          )}
+
+          <div className="flex justify-end gap-2">
+            {isRendering ? (
+              <Button variant="outline" size="sm" onClick={() => abortRef.current?.abort()}>
+                Cancel
+              </Button>
+            ) : (
+              <Button variant="outline" size="sm" onClick={() => onOpenChange(false)}>
+                Close
+              </Button>
+            )}
+            <Button size="sm" onClick={() => void handleExport()} disabled={isRendering}>
+              {isRendering && <Loader2 className="mr-1.5 h-3.5 w-3.5 animate-spin" />}
+              Export
+            </Button>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
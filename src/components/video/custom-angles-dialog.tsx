@@ -0,0 +1,149 @@
+'use client';
+
+import { useState } from 'react';
+import { Plus, Trash2 } from 'lucide-react';
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogDescription,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { useAppContext } from '@/contexts/app-context';
+import { CUSTOM_POSE_ANGLE_LIMIT, describeCustomPoseAngle } from '@/lib/pose/pose-angle-metrics';
+import { MEDIAPIPE_POSE_LANDMARK_LABELS } from '@/lib/pose/pose-landmark-names';
+
+interface CustomAnglesDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+const LANDMARK_SLOTS = [
+  { label: 'Point A', description: 'First ray end' },
+  { label: 'Vertex', description: 'Angle is measured here' },
+  { label: 'Point C', description: 'Second ray end' },
+];
+
+// Left shoulder – elbow – wrist, a ready-made example of the three slots.
+const DEFAULT_LANDMARKS: [number, number, number] = [11, 13, 15];
+
+export function CustomAnglesDialog({ open, onOpenChange }: CustomAnglesDialogProps) {
+  const { poseCustomAngles, addPoseCustomAngle, removePoseCustomAngle, poseAngleMetrics } = useAppContext();
+  const [label, setLabel] = useState('');
+  const [landmarks, setLandmarks] = useState<[number, number, number]>(DEFAULT_LANDMARKS);
+
+  const hasRepeatedLandmark = new Set(landmarks).size !== 3;
+  const isAtLimit = poseCustomAngles.length >= CUSTOM_POSE_ANGLE_LIMIT;
+
+  const updateLandmark = (slot: number, value: string) => {
+    setLandmarks((prev) => {
+      const next: [number, number, number] = [...prev];
+      next[slot] = Number(value);
+      return next;
+    });
+  };
+
+  const handleAdd = () => {
+    if (hasRepeatedLandmark || isAtLimit) return;
+    addPoseCustomAngle(label, landmarks);
+    setLabel('');
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="w-[calc(100%-0.5rem)] max-h-[calc(100svh-0.5rem)] overflow-y-auto sm:max-w-[560px] bg-card border-none shadow-2xl p-3 sm:p-6 rounded-md sm:rounded-lg">
+        <DialogHeader className="space-y-1">
+          <DialogTitle className="font-headline text-2xl tracking-tight text-foreground">Custom Angles</DialogTitle>
+          <DialogDescription className="text-muted-foreground">
+            Pick any three landmarks to measure the angle at the middle one. Custom angles can be shown on the pose
+            diagram and plotted like the built-in ones, and are saved with the settings profile.
+          </DialogDescription>
+        </DialogHeader>
+
+        <section className="space-y-2 rounded-md border border-border/50 bg-secondary/30 p-2">
+          <Input
+            value={label}
+            onChange={(e) => setLabel(e.target.value)}
+            placeholder={describeCustomPoseAngle({ landmarks })}
+            className="h-8 text-xs"
+            aria-label="Angle label"
+          />
+          <div className="grid grid-cols-1 gap-2 sm:grid-cols-3">
+            {LANDMARK_SLOTS.map((slot, index) => (
+              <div key={slot.label} className="space-y-1">
+                <p className="text-[10px] font-semibold uppercase tracking-[0.08em] text-muted-foreground/80" title={slot.description}>
+                  {slot.label}
+                </p>
+                <Select value={String(landmarks[index])} onValueChange={(value) => updateLandmark(index, value)}>
+                  <SelectTrigger className="h-8 px-2 text-xs" aria-label={`${slot.label} landmark`}>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent className="max-h-72">
+                    {MEDIAPIPE_POSE_LANDMARK_LABELS.map((name, landmarkIndex) => (
+                      <SelectItem key={name} value={String(landmarkIndex)} className="text-xs">
+                        {`${landmarkIndex} · ${name}`}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            ))}
+          </div>
+          <div className="flex items-center justify-between gap-2">
+            <p className="text-[10px] text-muted-foreground">
+              {hasRepeatedLandmark
+                ? 'Choose three different landmarks.'
+                : isAtLimit
+                  ? `Up to ${CUSTOM_POSE_ANGLE_LIMIT} custom angles.`
+                  : ''}
+            </p>
+            <Button size="sm" className="h-7 gap-1 px-2 text-xs" disabled={hasRepeatedLandmark || isAtLimit} onClick={handleAdd}>
+              <Plus className="h-3.5 w-3.5" />
+              Add angle
+            </Button>
+          </div>
+        </section>
+
+        <section className="space-y-1">
+          {poseCustomAngles.length === 0 ? (
+            <p className="text-xs text-muted-foreground">No custom angles yet.</p>
+          ) : (
+            poseCustomAngles.map((angle) => {
+              const metric = poseAngleMetrics.find((item) => item.id === angle.id);
+              return (
+                <div
+                  key={angle.id}
+                  className="flex items-center gap-2 rounded-md border border-border/50 bg-secondary/30 px-2 py-1.5"
+                >
+                  <span className="inline-block h-2 w-2 shrink-0 rounded-full" style={{ backgroundColor: metric?.chartColor }} />
+                  <div className="min-w-0 flex-1">
+                    <p className="truncate text-[11px] font-medium text-foreground">{angle.label}</p>
+                    <p className="truncate text-[10px] text-muted-foreground/80">{describeCustomPoseAngle(angle)}</p>
+                  </div>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    className="h-7 w-7 shrink-0 text-destructive hover:bg-destructive/10"
+                    onClick={() => removePoseCustomAngle(angle.id)}
+                    title="Delete angle"
+                  >
+                    <Trash2 className="h-3.5 w-3.5" />
+                  </Button>
+                </div>
+              );
+            })
+          )}
+        </section>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,56 @@
+'use client';
+
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import { useAppContext } from '@/contexts/app-context';
+import type { Video } from '@/types';
+
+interface DeleteVideoDialogProps {
+  /** Video awaiting confirmation; the dialog is open while this is set */
+  video: Video | null;
+  onOpenChange: (open: boolean) => void;
+  onConfirm: (video: Video) => void;
+}
+
+export function DeleteVideoDialog({ video, onOpenChange, onConfirm }: DeleteVideoDialogProps) {
+  const { getSessionsReferencingVideo } = useAppContext();
+  const sessions = video ? getSessionsReferencingVideo(video.id) : [];
+
+  return (
+    <AlertDialog open={video !== null} onOpenChange={onOpenChange}>
+      <AlertDialogContent onClick={(e) => e.stopPropagation()}>
+        <AlertDialogHeader>
+          <AlertDialogTitle>Delete &quot;{video?.name}&quot;?</AlertDialogTitle>
+          <AlertDialogDescription>
+            {`This clip is used in ${sessions.length} saved session${sessions.length === 1 ? '' : 's'}. `}
+            Those sessions will open without it, and its pose data, drawings and markers are deleted too.
+          </AlertDialogDescription>
+        </AlertDialogHeader>
+        <ul className="max-h-32 overflow-y-auto rounded-md border border-border/60 bg-secondary/30 px-3 py-2 text-xs text-foreground">
+          {sessions.map((session) => (
+            <li key={session.id} className="truncate">{session.name}</li>
+          ))}
+        </ul>
+        <AlertDialogFooter>
+          <AlertDialogCancel>Keep clip</AlertDialogCancel>
+          <AlertDialogAction
+            className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+            onClick={() => {
+              if (video) onConfirm(video);
+            }}
+          >
+            Delete anyway
+          </AlertDialogAction>
+        </AlertDialogFooter>
+      </AlertDialogContent>
+    </AlertDialog>
+  );
+}
@@ -2,7 +2,9 @@
 
 import React, { useRef, useState } from 'react';
 import { cn } from '@/lib/utils';
-import type { Drawing, DrawingType, Point } from '@/types';
+import { getDrawingTimeRange, isDrawingTimeScoped, isDrawingVisibleAt } from '@/lib/drawing-utils';
+import { useVideoFrameTime } from '@/hooks/use-video-frame-time';
+import type { Drawing, DrawingTimeScope, DrawingType, Point } from '@/types';
 
 interface DrawingCanvasProps {
   scale: number;
@@ -12,6 +14,15 @@ interface DrawingCanvasProps {
   isActive: boolean;
   drawings: Drawing[];
   onDrawingsChange: (drawings: Drawing[]) => void;
+  /** Video whose presented frame decides which time-scoped drawings show */
+  videoElement: HTMLVideoElement | null;
+  /**
+   * Subtracted from the video's media time to get the drawings' time base: zero for a clip's own
+   * drawings, the tile's sync origin for shared drawings so they follow the sync timeline.
+   */
+  timeOrigin: number;
+  timeScope: DrawingTimeScope;
+  holdSec: number;
 }
 
 export default function DrawingCanvas({
@@ -22,9 +33,17 @@ export default function DrawingCanvas({
   isActive,
   drawings,
   onDrawingsChange,
+  videoElement,
+  timeOrigin,
+  timeScope,
+  holdSec,
 }: DrawingCanvasProps) {
   const [currentDrawing, setCurrentDrawing] = useState<Drawing | null>(null);
   const containerRef = useRef<HTMLDivElement>(null);
+  // Only follow frames when some drawing's visibility can change with time.
+  const hasTimeScopedDrawings = drawings.some(isDrawingTimeScoped);
+  const frameTime = useVideoFrameTime(videoElement, hasTimeScopedDrawings);
+  const currentTime = frameTime - timeOrigin;
 
   const toLocal = (clientX: number, clientY: number) => {
     if (!containerRef.current) return { x: 0, y: 0 };
@@ -50,6 +69,7 @@ export default function DrawingCanvas({
     end: point,
     color,
     strokeWidth: 3,
+    ...getDrawingTimeRange(timeScope, (videoElement?.currentTime ?? 0) - timeOrigin, holdSec),
   });
 
   const handleMouseDown = (e: React.MouseEvent | React.TouchEvent) => {
@@ -298,7 +318,9 @@ export default function DrawingCanvas({
           transformOrigin: '50% 50%',
         }}
       >
-        {drawings.map((drawing) => renderDrawing(drawing))}
+        {drawings
+          .filter((drawing) => isDrawingVisibleAt(drawing, currentTime))
+          .map((drawing) => renderDrawing(drawing))}
         {currentDrawing && renderDrawing(currentDrawing, true)}
       </svg>
     </div>
@@ -2,7 +2,7 @@
 
 import React, { useEffect, useState } from 'react';
 import { Button } from '@/components/ui/button';
-import { Pencil, MoveUpRight, Circle, Trash2, Undo2, Minus, Square, Type, Activity, Settings2, X, Layers, Smartphone, Radio } from 'lucide-react';
+import { Pencil, MoveUpRight, Circle, Trash2, Undo2, Minus, Square, Type, Activity, Settings2, X, Layers, Smartphone, Radio, Clock, Infinity as InfinityIcon, GitCompareArrows, Film } from 'lucide-react';
 import {
     Popover,
     PopoverTrigger,
@@ -18,8 +18,13 @@ import {
 import { Switch } from '@/components/ui/switch';
 import { Slider } from '@/components/ui/slider';
 import { useAppContext, type OverlayBlendMode, type OverlayColorFilter } from '@/contexts/app-context';
-import { POSE_ANGLE_METRICS } from '@/lib/pose/pose-angle-metrics';
 import { cn } from '@/lib/utils';
+import { DtwCompareDialog } from './dtw-compare-dialog';
+import { CompositeExportDialog } from './composite-export-dialog';
+import { StrainRulesDialog } from './strain-rules-dialog';
+import { PoseAlertRulesDialog } from './pose-alert-rules-dialog';
+import { CustomAnglesDialog } from './custom-angles-dialog';
+import { POSE_ANGLE_METRIC_FAMILIES } from '@/lib/pose/pose-angle-metrics';
 import type { DrawingType, PoseAnalyzeScope } from '@/types';
 
 const SYNC_DRAWINGS_KEY = '__sync__';
@@ -64,6 +69,10 @@ export default function DrawingToolbar({ className }: DrawingToolbarProps) {
         setDrawingTool,
         drawingColor,
         setDrawingColor,
+        drawingTimeScope,
+        setDrawingTimeScope,
+        drawingHoldSec,
+        setDrawingHoldSec,
         drawings,
         setDrawingsForVideo,
         activeTileIndex,
@@ -82,10 +91,13 @@ export default function DrawingToolbar({ className }: DrawingToolbarProps) {
         setPoseShowCoG,
         poseShowCoGCharts,
         setPoseShowCoGCharts,
+        poseShowAngleRateCharts,
+        setPoseShowAngleRateCharts,
         poseVisibleAngles,
         setPoseAngleVisible,
         posePlottedAngles,
         setPoseAnglePlotted,
+        poseAngleMetrics,
         poseShowBodyLean,
         setPoseShowBodyLean,
         poseShowJumpHeight,
@@ -97,6 +109,7 @@ export default function DrawingToolbar({ className }: DrawingToolbarProps) {
         isSyncDrawingsEnabled,
         toggleSyncDrawings,
         // View controls
+        layout,
         isPortraitMode,
         togglePortraitMode,
         isSyncEnabled,
@@ -116,12 +129,19 @@ export default function DrawingToolbar({ className }: DrawingToolbarProps) {
 
     const [isPoseSettingsOpen, setIsPoseSettingsOpen] = useState(false);
     const [isOverlaySettingsOpen, setIsOverlaySettingsOpen] = useState(false);
+    const [isDtwCompareOpen, setIsDtwCompareOpen] = useState(false);
+    const [isCompositeExportOpen, setIsCompositeExportOpen] = useState(false);
+    const [isStrainRulesOpen, setIsStrainRulesOpen] = useState(false);
+    const [isAlertRulesOpen, setIsAlertRulesOpen] = useState(false);
+    const [isCustomAnglesOpen, setIsCustomAnglesOpen] = useState(false);
 
     const activeVideo = activeTileIndex !== null ? slots[activeTileIndex] : null;
     const effectiveDrawingId = isSyncDrawingsEnabled ? SYNC_DRAWINGS_KEY : (activeVideo?.id ?? '');
     const currentDrawings = activeVideo ? (drawings[effectiveDrawingId] || []) : [];
     const hasActiveVideo = !!activeVideo;
     const hasAnyVideo = slots.some((slot) => slot !== null);
+    const canCompareCurves = slots.filter((slot) => slot !== null).length >= 2;
+    const canExportComposite = (layout >= 2 || compareViewMode === 'overlay') && hasAnyVideo;
     const canEdit = isDrawingEnabled && hasActiveVideo;
     const canPose = hasAnyVideo;
 
@@ -332,6 +352,30 @@ export default function DrawingToolbar({ className }: DrawingToolbarProps) {
                         </PopoverContent>
                     </Popover>
                 )}
+
+                <Button
+                    variant="ghost"
+                    size="icon"
+                    onClick={() => setIsDtwCompareOpen(true)}
+                    className={cn(iconBtn(false), !canCompareCurves && 'opacity-50')}
+                    disabled={!canCompareCurves}
+                    title={canCompareCurves ? 'Compare joint-angle curves (time warped)' : 'Curve comparison requires 2 videos'}
+                >
+                    <GitCompareArrows className="h-4 w-4" />
+                </Button>
+                <DtwCompareDialog open={isDtwCompareOpen} onOpenChange={setIsDtwCompareOpen} />
+
+                <Button
+                    variant="ghost"
+                    size="icon"
+                    onClick={() => setIsCompositeExportOpen(true)}
+                    className={cn(iconBtn(false), !canExportComposite && 'opacity-50')}
+                    disabled={!canExportComposite}
+                    title={canExportComposite ? 'Export comparison video' : 'Comparison export requires a 2-up or 2x2 layout'}
+                >
+                    <Film className="h-4 w-4" />
+                </Button>
+                <CompositeExportDialog open={isCompositeExportOpen} onOpenChange={setIsCompositeExportOpen} />
             </div>
 
             {sep}
@@ -420,6 +464,77 @@ export default function DrawingToolbar({ className }: DrawingToolbarProps) {
                             </div>
                         </PopoverContent>
                     </Popover>
+
+                    {/* Time scope: whole clip vs pinned to the current frame */}
+                    <Popover>
+                        <PopoverTrigger asChild>
+                            <Button
+                                variant="ghost"
+                                size="icon"
+                                className={cn(
+                                    'h-9 w-9 rounded-md border transition-colors',
+                                    drawingTimeScope === 'frame'
+                                        ? 'border-primary/40 bg-primary/10 text-primary'
+                                        : 'border-border/70 text-foreground hover:bg-secondary',
+                                    !canEdit && 'opacity-40'
+                                )}
+                                disabled={!hasActiveVideo}
+                                title={drawingTimeScope === 'frame'
+                                    ? `Pinned to current frame (${drawingHoldSec.toFixed(1)}s hold)`
+                                    : 'Visible for whole clip'}
+                            >
+                                {drawingTimeScope === 'frame' ? <Clock className="h-4 w-4" /> : <InfinityIcon className="h-4 w-4" />}
+                            </Button>
+                        </PopoverTrigger>
+                        <PopoverContent className="w-64 p-3" align="start">
+                            <div className="space-y-3">
+                                <p className="text-xs font-semibold text-muted-foreground">New drawings are visible</p>
+                                <div className="grid grid-cols-2 gap-1.5">
+                                    <Button
+                                        variant="ghost"
+                                        size="sm"
+                                        className={cn(
+                                            'h-8 rounded-md border text-xs',
+                                            drawingTimeScope === 'clip'
+                                                ? 'border-primary/40 bg-primary/10 text-primary'
+                                                : 'border-border/70 hover:bg-secondary'
+                                        )}
+                                        onClick={() => setDrawingTimeScope('clip')}
+                                    >
+                                        Whole clip
+                                    </Button>
+                                    <Button
+                                        variant="ghost"
+                                        size="sm"
+                                        className={cn(
+                                            'h-8 rounded-md border text-xs',
+                                            drawingTimeScope === 'frame'
+                                                ? 'border-primary/40 bg-primary/10 text-primary'
+                                                : 'border-border/70 hover:bg-secondary'
+                                        )}
+                                        onClick={() => setDrawingTimeScope('frame')}
+                                    >
+                                        Pin to frame
+                                    </Button>
+                                </div>
+                                {drawingTimeScope === 'frame' && (
+                                    <div className="space-y-1.5">
+                                        <div className="flex items-center justify-between text-xs">
+                                            <span>Hold after frame</span>
+                                            <span className="font-mono text-muted-foreground">{drawingHoldSec.toFixed(1)}s</span>
+                                        </div>
+                                        <Slider
+                                            min={0}
+                                            max={5}
+                                            step={0.1}
+                                            value={[drawingHoldSec]}
+                                            onValueChange={([value]) => setDrawingHoldSec(value)}
+                                        />
+                                    </div>
+                                )}
+                            </div>
+                        </PopoverContent>
+                    </Popover>
                 </>
             )}
 
@@ -533,6 +648,7 @@ export default function DrawingToolbar({ className }: DrawingToolbarProps) {
                                 {[
                                     { label: 'Center of Gravity', desc: 'Segment-weighted body mass center marker', value: poseShowCoG, set: setPoseShowCoG },
                                     { label: 'Body Lean Chart', desc: 'True-time torso lean angle curve overlaid on video', value: poseShowCoGCharts, set: setPoseShowCoGCharts },
+                                    { label: 'Angular Rate Charts', desc: 'Velocity and acceleration of plotted angles from cached frames', value: poseShowAngleRateCharts, set: setPoseShowAngleRateCharts },
                                     { label: 'Body Lean', desc: 'Torso tilt from vertical', value: poseShowBodyLean, set: setPoseShowBodyLean },
                                     { label: 'Jump Height', desc: 'Vertical displacement from baseline', value: poseShowJumpHeight, set: setPoseShowJumpHeight },
                                 ].map(({ label, desc, value, set }) => (
@@ -544,41 +660,95 @@ export default function DrawingToolbar({ className }: DrawingToolbarProps) {
                                         <Switch checked={value} onCheckedChange={set} />
                                     </div>
                                 ))}
+                                <div className="flex items-center justify-between rounded-md border border-border/60 bg-secondary/30 px-2.5 py-1.5">
+                                    <div>
+                                        <p className="text-[11px] font-medium text-foreground">Strain Rules</p>
+                                        <p className="text-[10px] text-muted-foreground/80">Safe angle ranges and limb colours</p>
+                                    </div>
+                                    <Button
+                                        variant="outline"
+                                        size="sm"
+                                        className="h-7 text-xs"
+                                        onClick={() => {
+                                            setIsPoseSettingsOpen(false);
+                                            setIsStrainRulesOpen(true);
+                                        }}
+                                    >
+                                        Edit
+                                    </Button>
+                                </div>
+                                <div className="flex items-center justify-between rounded-md border border-border/60 bg-secondary/30 px-2.5 py-1.5">
+                                    <div>
+                                        <p className="text-[11px] font-medium text-foreground">Alert Rules</p>
+                                        <p className="text-[10px] text-muted-foreground/80">Thresholds flagged on the timeline</p>
+                                    </div>
+                                    <Button
+                                        variant="outline"
+                                        size="sm"
+                                        className="h-7 text-xs"
+                                        onClick={() => {
+                                            setIsPoseSettingsOpen(false);
+                                            setIsAlertRulesOpen(true);
+                                        }}
+                                    >
+                                        Edit
+                                    </Button>
+                                </div>
                                 <div className="rounded-md border border-border/60 bg-secondary/30 p-2">
-                                    <div className="mb-2">
-                                        <p className="text-[11px] font-medium text-foreground">Joint Angles</p>
-                                        <p className="text-[10px] text-muted-foreground/80">
-                                            Choose which knee, hip and elbow angles render on the pose diagram or plot over time
-                                        </p>
+                                    <div className="mb-2 flex items-start justify-between gap-2">
+                                        <div>
+                                            <p className="text-[11px] font-medium text-foreground">Angles</p>
+                                            <p className="text-[10px] text-muted-foreground/80">
+                                                Choose which angles render on the pose diagram or plot over time
+                                            </p>
+                                        </div>
+                                        <Button
+                                            variant="outline"
+                                            size="sm"
+                                            className="h-7 shrink-0 text-xs"
+                                            onClick={() => {
+                                                setIsPoseSettingsOpen(false);
+                                                setIsCustomAnglesOpen(true);
+                                            }}
+                                        >
+                                            Custom…
+                                        </Button>
                                     </div>
                                     <div className="mb-1 grid grid-cols-[1fr_auto_auto] items-center gap-3 px-1 text-[10px] font-semibold uppercase tracking-[0.08em] text-muted-foreground/80">
                                         <span>Angle</span>
                                         <span>Show</span>
                                         <span>Plot</span>
                                     </div>
-                                    <div className="space-y-1">
-                                        {POSE_ANGLE_METRICS.map((metric) => (
-                                            <div
-                                                key={metric.id}
-                                                className="grid grid-cols-[1fr_auto_auto] items-center gap-3 rounded-md border border-border/50 bg-background/20 px-2 py-1.5"
-                                            >
-                                                <div className="flex items-center gap-2">
-                                                    <span
-                                                        className="inline-block h-2 w-2 rounded-full"
-                                                        style={{ backgroundColor: metric.chartColor }}
-                                                    />
-                                                    <span className="text-[11px] font-medium text-foreground">{metric.label}</span>
-                                                </div>
-                                                <Switch
-                                                    checked={poseVisibleAngles[metric.id]}
-                                                    onCheckedChange={(checked) => setPoseAngleVisible(metric.id, checked)}
-                                                    aria-label={`Show ${metric.label}`}
-                                                />
-                                                <Switch
-                                                    checked={posePlottedAngles[metric.id]}
-                                                    onCheckedChange={(checked) => setPoseAnglePlotted(metric.id, checked)}
-                                                    aria-label={`Plot ${metric.label}`}
-                                                />
+                                    <div className="space-y-2">
+                                        {POSE_ANGLE_METRIC_FAMILIES.map((family) => (
+                                            <div key={family.id} className="space-y-1">
+                                                <p className="px-1 text-[10px] text-muted-foreground/80" title={family.description}>
+                                                    {family.label}
+                                                </p>
+                                                {poseAngleMetrics.filter((metric) => metric.family === family.id).map((metric) => (
+                                                    <div
+                                                        key={metric.id}
+                                                        className="grid grid-cols-[1fr_auto_auto] items-center gap-3 rounded-md border border-border/50 bg-background/20 px-2 py-1.5"
+                                                    >
+                                                        <div className="flex items-center gap-2">
+                                                            <span
+                                                                className="inline-block h-2 w-2 rounded-full"
+                                                                style={{ backgroundColor: metric.chartColor }}
+                                                            />
+                                                            <span className="text-[11px] font-medium text-foreground">{metric.label}</span>
+                                                        </div>
+                                                        <Switch
+                                                            checked={poseVisibleAngles[metric.id] === true}
+                                                            onCheckedChange={(checked) => setPoseAngleVisible(metric.id, checked)}
+                                                            aria-label={`Show ${metric.label}`}
+                                                        />
+                                                        <Switch
+                                                            checked={posePlottedAngles[metric.id] === true}
+                                                            onCheckedChange={(checked) => setPoseAnglePlotted(metric.id, checked)}
+                                                            aria-label={`Plot ${metric.label}`}
+                                                        />
+                                                    </div>
+                                                ))}
                                             </div>
                                         ))}
                                     </div>
@@ -587,6 +757,9 @@ export default function DrawingToolbar({ className }: DrawingToolbarProps) {
                         </div>
                     </PopoverContent>
                 </Popover>
+                <StrainRulesDialog open={isStrainRulesOpen} onOpenChange={setIsStrainRulesOpen} />
+                <PoseAlertRulesDialog open={isAlertRulesOpen} onOpenChange={setIsAlertRulesOpen} />
+                <CustomAnglesDialog open={isCustomAnglesOpen} onOpenChange={setIsCustomAnglesOpen} />
             </div>
 
             {sep}
@@ -0,0 +1,396 @@
+'use client';
+
+import { useEffect, useMemo, useState } from 'react';
+import { Loader2 } from 'lucide-react';
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogDescription,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { useAppContext } from '@/contexts/app-context';
+import { POSE_ANGLE_METRICS, getPoseAngleMetric } from '@/lib/pose/pose-angle-metrics';
+import {
+  buildAngleSeries,
+  buildPoseTimeWarp,
+  computeDtwAlignment,
+  computePhaseDifferences,
+  getDtwSampleFps,
+  getWarpedTargetSeries,
+  type AngleSeries,
+  type DtwAlignment,
+} from '@/lib/pose/pose-dtw';
+import { getVideoDimensions } from '@/lib/video-utils';
+import { cn } from '@/lib/utils';
+import type { PoseAngleMetricId, Video } from '@/types';
+
+interface DtwCompareDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+type DtwCompareResult = {
+  referenceIndex: number;
+  targetIndex: number;
+  reference: Video;
+  target: Video;
+  referenceSeries: AngleSeries;
+  targetSeries: AngleSeries;
+  alignment: DtwAlignment;
+};
+
+const DEFAULT_METRICS: PoseAngleMetricId[] = ['left-knee', 'right-knee', 'left-hip', 'right-hip'];
+const CHART_WIDTH = 320;
+const CHART_HEIGHT = 140;
+const REFERENCE_COLOR = '#22c55e';
+const TARGET_COLOR = '#a855f7';
+
+const buildCurvePath = (values: number[] | null, sampleFps: number, maxSec: number, minY: number, maxY: number) => {
+  if (!values || values.length < 2) return '';
+  const rangeY = Math.max(1, maxY - minY);
+  const points = values
+    .map((value, index) => {
+      if (!Number.isFinite(value)) return null;
+      const x = (index / sampleFps / Math.max(0.001, maxSec)) * CHART_WIDTH;
+      const y = CHART_HEIGHT - ((value - minY) / rangeY) * CHART_HEIGHT;
+      return `${x.toFixed(2)},${y.toFixed(2)}`;
+    })
+    .filter((point): point is string => point !== null);
+  return points.length > 1 ? `M ${points.join(' L ')}` : '';
+};
+
+const getValueRange = (curves: Array<number[] | null>) => {
+  const values = curves.flatMap((curve) => (curve ?? []).filter(Number.isFinite));
+  if (values.length === 0) return { min: 0, max: 180 };
+  const min = Math.min(...values);
+  const max = Math.max(...values);
+  const padding = Math.max(5, (max - min) * 0.1);
+  return { min: min - padding, max: max + padding };
+};
+
+function CurveChart({ title, paths, footer }: {
+  title: string;
+  paths: Array<{ d: string; color: string; dashed?: boolean }>;
+  footer: string;
+}) {
+  return (
+    <div className="flex-1 space-y-1">
+      <p className="text-[11px] font-semibold uppercase tracking-[0.08em] text-muted-foreground">{title}</p>
+      <svg
+        viewBox={`0 0 ${CHART_WIDTH} ${CHART_HEIGHT}`}
+        className="h-36 w-full rounded-md border border-border/70 bg-secondary/20"
+        preserveAspectRatio="none"
+      >
+        {paths.map((path, index) => (
+          <path
+            key={index}
+            d={path.d}
+            fill="none"
+            stroke={path.color}
+            strokeWidth={1.5}
+            strokeDasharray={path.dashed ? '4 3' : undefined}
+            vectorEffect="non-scaling-stroke"
+          />
+        ))}
+      </svg>
+      <p className="text-[10px] text-muted-foreground">{footer}</p>
+    </div>
+  );
+}
+
+export function DtwCompareDialog({ open, onOpenChange }: DtwCompareDialogProps) {
+  const {
+    slots,
+    markers,
+    loadPoseAnalysisForVideo,
+    poseTimeWarp,
+    setPoseTimeWarp,
+    canUseOverlayComparison,
+    setCompareViewMode,
+    isSyncEnabled,
+    toggleSync,
+  } = useAppContext();
+  const filledSlots = slots
+    .map((slot, index) => ({ slot, index }))
+    .filter((entry): entry is { slot: Video; index: number } => entry.slot !== null);
+
+  const [firstIndex, setFirstIndex] = useState<number | null>(null);
+  const [secondIndex, setSecondIndex] = useState<number | null>(null);
+  const [metricIds, setMetricIds] = useState<PoseAngleMetricId[]>(DEFAULT_METRICS);
+  const [chartMetricId, setChartMetricId] = useState<PoseAngleMetricId>('left-knee');
+  const [isComputing, setIsComputing] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [result, setResult] = useState<DtwCompareResult | null>(null);
+
+  useEffect(() => {
+    if (!open) return;
+    const available = slots
+      .map((slot, index) => (slot ? index : null))
+      .filter((index): index is number => index !== null);
+    setFirstIndex((prev) => (prev !== null && slots[prev] ? prev : available[0] ?? null));
+    setSecondIndex((prev) => (prev !== null && slots[prev] ? prev : available[1] ?? null));
+  }, [open, slots]);
+
+  const toggleMetric = (id: PoseAngleMetricId, checked: boolean) => {
+    setMetricIds((prev) => (checked ? [...prev, id] : prev.filter((item) => item !== id)));
+  };
+
+  const handleCompute = async () => {
+    if (firstIndex === null || secondIndex === null || firstIndex === secondIndex) return;
+    // The lower slot is the reference so a warped target never drives shared playback.
+    const referenceIndex = Math.min(firstIndex, secondIndex);
+    const targetIndex = Math.max(firstIndex, secondIndex);
+    const reference = slots[referenceIndex];
+    const target = slots[targetIndex];
+    if (!reference || !target) return;
+
+    setIsComputing(true);
+    setError(null);
+    setResult(null);
+    try {
+      const [referenceAnalysis, targetAnalysis, referenceSize, targetSize] = await Promise.all([
+        loadPoseAnalysisForVideo(reference),
+        loadPoseAnalysisForVideo(target),
+        getVideoDimensions(reference.blob),
+        getVideoDimensions(target.blob),
+      ]);
+      if (!referenceAnalysis || !targetAnalysis) {
+        throw new Error('Both clips need processed pose data. Process them first.');
+      }
+
+      const sampleFps = getDtwSampleFps(
+        (referenceAnalysis.trimEndMs - referenceAnalysis.trimStartMs) / 1000,
+        (targetAnalysis.trimEndMs - targetAnalysis.trimStartMs) / 1000
+      );
+      const referenceSeries = buildAngleSeries(referenceAnalysis, referenceSize.width || 1, referenceSize.height || 1, sampleFps);
+      const targetSeries = buildAngleSeries(targetAnalysis, targetSize.width || 1, targetSize.height || 1, sampleFps);
+      const alignment = computeDtwAlignment(referenceSeries, targetSeries, metricIds);
+      if (!alignment) {
+        throw new Error('None of the selected angles were detected in both clips.');
+      }
+
+      setResult({ referenceIndex, targetIndex, reference, target, referenceSeries, targetSeries, alignment });
+      if (!alignment.metricIds.includes(chartMetricId)) {
+        setChartMetricId(alignment.metricIds[0]);
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Comparison failed.');
+    } finally {
+      setIsComputing(false);
+    }
+  };
+
+  const chart = useMemo(() => {
+    if (!result) return null;
+    const { referenceSeries, targetSeries, alignment } = result;
+    const referenceCurve = referenceSeries.values[chartMetricId];
+    const targetCurve = targetSeries.values[chartMetricId];
+    const warpedCurve = getWarpedTargetSeries(alignment, targetSeries, chartMetricId);
+    const { min, max } = getValueRange([referenceCurve, targetCurve]);
+    const fps = alignment.sampleFps;
+    const referenceSec = (referenceSeries.length - 1) / fps;
+    const originalSec = Math.max(referenceSec, (targetSeries.length - 1) / fps);
+    return {
+      original: [
+        { d: buildCurvePath(referenceCurve, fps, originalSec, min, max), color: REFERENCE_COLOR },
+        { d: buildCurvePath(targetCurve, fps, originalSec, min, max), color: TARGET_COLOR, dashed: true },
+      ],
+      warped: [
+        { d: buildCurvePath(referenceCurve, fps, referenceSec, min, max), color: REFERENCE_COLOR },
+        { d: buildCurvePath(warpedCurve, fps, referenceSec, min, max), color: TARGET_COLOR, dashed: true },
+      ],
+      range: `${Math.round(min)}°–${Math.round(max)}°`,
+    };
+  }, [chartMetricId, result]);
+
+  const phases = useMemo(() => {
+    if (!result) return [];
+    const trimStart = result.reference.trimStart ?? 0;
+    const boundaries = (markers[result.reference.id] ?? []).map((marker) => marker.time - trimStart);
+    return computePhaseDifferences(result.alignment, result.referenceSeries, result.targetSeries, boundaries);
+  }, [markers, result]);
+
+  const isWarpApplied =
+    !!result &&
+    poseTimeWarp?.referenceVideoId === result.reference.id &&
+    poseTimeWarp.targetVideoId === result.target.id;
+
+  const handlePlayWarped = () => {
+    if (!result) return;
+    setPoseTimeWarp(buildPoseTimeWarp(result.alignment, {
+      referenceIndex: result.referenceIndex,
+      targetIndex: result.targetIndex,
+      referenceVideoId: result.reference.id,
+      targetVideoId: result.target.id,
+    }));
+    if (canUseOverlayComparison) {
+      setCompareViewMode('overlay');
+    } else if (!isSyncEnabled) {
+      toggleSync();
+    }
+    onOpenChange(false);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="w-[calc(100%-0.5rem)] max-h-[calc(100svh-0.5rem)] overflow-y-auto sm:max-w-[760px] bg-card border-none shadow-2xl p-3 sm:p-6 rounded-md sm:rounded-lg">
+        <DialogHeader className="space-y-1">
+          <DialogTitle className="font-headline text-2xl tracking-tight text-foreground">Compare Technique</DialogTitle>
+          <DialogDescription className="text-muted-foreground">
+            Aligns joint-angle curves with dynamic time warping so different tempos can be compared phase by phase.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="grid gap-3 sm:grid-cols-2">
+          {[
+            { label: 'Clip A', value: firstIndex, onChange: setFirstIndex },
+            { label: 'Clip B', value: secondIndex, onChange: setSecondIndex },
+          ].map(({ label, value, onChange }) => (
+            <div key={label} className="space-y-1">
+              <p className="text-[11px] font-semibold uppercase tracking-[0.08em] text-muted-foreground">{label}</p>
+              <Select
+                value={value !== null ? value.toString() : ''}
+                onValueChange={(next) => onChange(Number(next))}
+              >
+                <SelectTrigger className="h-8 text-xs">
+                  <SelectValue placeholder="Choose tile" />
+                </SelectTrigger>
+                <SelectContent>
+                  {filledSlots.map(({ slot, index }) => (
+                    <SelectItem key={index} value={index.toString()} className="text-xs">
+                      {`Tile ${index + 1} · ${slot.name}`}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          ))}
+        </div>
+
+        <div className="flex flex-wrap gap-x-4 gap-y-2">
+          {POSE_ANGLE_METRICS.map((metric) => (
+            <label key={metric.id} className="flex items-center gap-1.5 text-xs">
+              <Checkbox
+                checked={metricIds.includes(metric.id)}
+                onCheckedChange={(checked) => toggleMetric(metric.id, checked === true)}
+              />
+              {metric.label}
+            </label>
+          ))}
+        </div>
+
+        <div className="flex items-center gap-2">
+          <Button
+            size="sm"
+            onClick={() => void handleCompute()}
+            disabled={isComputing || firstIndex === null || secondIndex === null || firstIndex === secondIndex || metricIds.length === 0}
+          >
+            {isComputing && <Loader2 className="mr-1.5 h-3.5 w-3.5 animate-spin" />}
+            Compare
+          </Button>
+          {poseTimeWarp && (
+            <Button variant="outline" size="sm" onClick={() => setPoseTimeWarp(null)}>
+              Clear warped playback
+            </Button>
+          )}
+        </div>
+
+        {error && <p className="text-xs text-destructive">{error}</p>}
+
+        {result && chart && (
+          <div className="space-y-4">
+            <div className="flex flex-wrap items-center justify-between gap-2">
+              <div className="flex items-center gap-3 text-xs">
+                <span className="flex items-center gap-1.5">
+                  <span className="h-0.5 w-4" style={{ backgroundColor: REFERENCE_COLOR }} />
+                  {`Tile ${result.referenceIndex + 1} · ${result.reference.name}`}
+                </span>
+                <span className="flex items-center gap-1.5">
+                  <span className="h-0.5 w-4 border-t border-dashed" style={{ borderColor: TARGET_COLOR }} />
+                  {`Tile ${result.targetIndex + 1} · ${result.target.name}`}
+                </span>
+              </div>
+              <Select value={chartMetricId} onValueChange={(value) => setChartMetricId(value as PoseAngleMetricId)}>
+                <SelectTrigger className="h-8 w-[140px] text-xs">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {result.alignment.metricIds.map((id) => (
+                    <SelectItem key={id} value={id} className="text-xs">
+                      {getPoseAngleMetric(id)?.label ?? id}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div className="flex flex-col gap-3 sm:flex-row">
+              <CurveChart title="Original timing" paths={chart.original} footer={chart.range} />
+              <CurveChart
+                title={`Warped to Tile ${result.referenceIndex + 1}`}
+                paths={chart.warped}
+                footer={`Mean difference after warping: ${result.alignment.meanCostDeg.toFixed(1)}°`}
+              />
+            </div>
+
+            <div className="overflow-x-auto">
+              <table className="w-full text-xs">
+                <thead>
+                  <tr className="border-b border-border/70 text-left text-muted-foreground">
+                    <th className="py-1.5 pr-3 font-medium">Phase</th>
+                    {result.alignment.metricIds.map((id) => (
+                      <th key={id} className="py-1.5 pr-3 font-medium">{getPoseAngleMetric(id)?.label ?? id}</th>
+                    ))}
+                  </tr>
+                </thead>
+                <tbody>
+                  {phases.map((phase) => (
+                    <tr key={phase.label} className="border-b border-border/40">
+                      <td className="py-1.5 pr-3">
+                        <span className="font-medium">{phase.label}</span>
+                        <span className="ml-1.5 font-mono text-[10px] text-muted-foreground">
+                          {`${phase.startSec.toFixed(2)}–${phase.endSec.toFixed(2)}s`}
+                        </span>
+                      </td>
+                      {result.alignment.metricIds.map((id) => {
+                        const diff = phase.metrics[id];
+                        return (
+                          <td
+                            key={id}
+                            className={cn('py-1.5 pr-3 font-mono', diff && Math.abs(diff.meanDiffDeg) >= 10 && 'text-destructive')}
+                            title={diff ? `Max |Δ| ${diff.maxAbsDiffDeg.toFixed(1)}°` : undefined}
+                          >
+                            {diff ? `${diff.meanDiffDeg >= 0 ? '+' : ''}${diff.meanDiffDeg.toFixed(1)}°` : '—'}
+                          </td>
+                        );
+                      })}
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+              <p className="mt-1 text-[10px] text-muted-foreground">
+                {`Mean Tile ${result.targetIndex + 1} − Tile ${result.referenceIndex + 1} angle per phase. Markers on the reference clip define the phases; otherwise it is split into quarters.`}
+              </p>
+            </div>
+
+            <div className="flex justify-end">
+              <Button size="sm" onClick={handlePlayWarped} disabled={isWarpApplied}>
+                {isWarpApplied ? 'Warped playback active' : 'Play in warped time'}
+              </Button>
+            </div>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,242 @@
+'use client';
+
+import { useState } from 'react';
+import { Cpu, Loader2, Package, Star, Tags, Trash2, X } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Input } from '@/components/ui/input';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from '@/components/ui/alert-dialog';
+import { useAppContext } from '@/contexts/app-context';
+import { useToast } from '@/hooks/use-toast';
+import { parseTagInput } from '@/lib/library-filter';
+import { POSE_PROCESS_MENU_OPTIONS } from '@/lib/pose/pose-model-label';
+import { cn } from '@/lib/utils';
+import type { Video } from '@/types';
+
+interface LibraryBulkActionsProps {
+  selectedVideos: Video[];
+  /** Clips currently listed, used by "Select all" */
+  visibleVideos: Video[];
+  onSelectAll: (videos: Video[]) => void;
+  onClearSelection: () => void;
+  onDone: () => void;
+  onExport: (videos: Video[]) => void;
+  compact?: boolean;
+}
+
+export function LibraryBulkActions({
+  selectedVideos,
+  visibleVideos,
+  onSelectAll,
+  onClearSelection,
+  onDone,
+  onExport,
+  compact = false,
+}: LibraryBulkActionsProps) {
+  const {
+    removeVideoFromLibrary,
+    toggleFavorite,
+    updateVideoMetadata,
+    queuePoseProcessingForVideos,
+    getSessionsReferencingVideo,
+  } = useAppContext();
+  const { toast } = useToast();
+  const [busyLabel, setBusyLabel] = useState<string | null>(null);
+  const [tagInput, setTagInput] = useState('');
+  const [isTagOpen, setIsTagOpen] = useState(false);
+  const [isDeleteOpen, setIsDeleteOpen] = useState(false);
+  const count = selectedVideos.length;
+  const hasSelection = count > 0;
+  const allVisibleSelected = visibleVideos.length > 0 && visibleVideos.every((video) => selectedVideos.includes(video));
+  const allFavorite = hasSelection && selectedVideos.every((video) => video.isFavorite);
+  const referencedSessionCount = new Set(
+    selectedVideos.flatMap((video) => getSessionsReferencingVideo(video.id).map((session) => session.id))
+  ).size;
+  const iconButtonClass = compact ? 'h-7 w-7' : 'h-8 w-8';
+
+  // Runs one clip at a time so IndexedDB writes and state updates stay in order.
+  const runForEach = async (label: string, videos: Video[], action: (video: Video) => Promise<unknown>) => {
+    for (let index = 0; index < videos.length; index += 1) {
+      setBusyLabel(`${label} ${index + 1}/${videos.length}`);
+      await action(videos[index]);
+    }
+    setBusyLabel(null);
+  };
+
+  const handleFavorite = async () => {
+    const targets = selectedVideos.filter((video) => Boolean(video.isFavorite) === allFavorite);
+    await runForEach(allFavorite ? 'Unfavoriting' : 'Favoriting', targets, (video) => toggleFavorite(video.id));
+  };
+
+  const handleAddTags = async () => {
+    const tags = parseTagInput(tagInput);
+    if (tags.length === 0) return;
+    setIsTagOpen(false);
+    setTagInput('');
+    await runForEach('Tagging', selectedVideos, (video) =>
+      updateVideoMetadata(video.id, {
+        athlete: video.athlete,
+        tags: [...(video.tags ?? []), ...tags],
+        sessionDate: video.sessionDate,
+        notes: video.notes,
+      })
+    );
+    toast({ title: 'Tags Added', description: `${tags.join(', ')} · ${count} clip${count === 1 ? '' : 's'}` });
+  };
+
+  const handleDelete = async () => {
+    const targets = [...selectedVideos];
+    onClearSelection();
+    await runForEach('Deleting', targets, (video) => removeVideoFromLibrary(video.id));
+    toast({ title: 'Clips Deleted', description: `${targets.length} clip${targets.length === 1 ? '' : 's'} removed from the library.` });
+  };
+
+  return (
+    <div className={cn('flex items-center gap-1', compact ? 'px-3 pb-1' : 'pt-1')}>
+      <label className="flex min-w-0 flex-1 items-center gap-1.5 text-xs text-muted-foreground">
+        <Checkbox
+          checked={allVisibleSelected}
+          onCheckedChange={(checked) => (checked === true ? onSelectAll(visibleVideos) : onClearSelection())}
+          aria-label="Select all listed clips"
+        />
+        <span className="truncate">
+          {busyLabel ?? `${count} selected`}
+        </span>
+        {busyLabel && <Loader2 className="h-3 w-3 flex-shrink-0 animate-spin" />}
+      </label>
+
+      <Button
+        variant="ghost"
+        size="icon"
+        className={iconButtonClass}
+        disabled={!hasSelection || busyLabel !== null}
+        onClick={() => void handleFavorite()}
+        title={allFavorite ? 'Remove selected from favorites' : 'Add selected to favorites'}
+      >
+        <Star className={cn('h-4 w-4', allFavorite && 'fill-current text-yellow-400')} />
+      </Button>
+
+      <Popover open={isTagOpen} onOpenChange={setIsTagOpen}>
+        <PopoverTrigger asChild>
+          <Button
+            variant="ghost"
+            size="icon"
+            className={iconButtonClass}
+            disabled={!hasSelection || busyLabel !== null}
+            title="Tag selected"
+          >
+            <Tags className="h-4 w-4" />
+          </Button>
+        </PopoverTrigger>
+        <PopoverContent align="end" className="w-60 p-2">
+          <form
+            className="flex gap-1"
+            onSubmit={(e) => {
+              e.preventDefault();
+              void handleAddTags();
+            }}
+          >
+            <Input
+              value={tagInput}
+              onChange={(e) => setTagInput(e.target.value)}
+              placeholder="Tags, comma separated"
+              className="h-8 text-xs"
+              autoFocus
+            />
+            <Button type="submit" size="sm" className="h-8" disabled={parseTagInput(tagInput).length === 0}>
+              Add
+            </Button>
+          </form>
+        </PopoverContent>
+      </Popover>
+
+      <DropdownMenu>
+        <DropdownMenuTrigger asChild>
+          <Button
+            variant="ghost"
+            size="icon"
+            className={iconButtonClass}
+            disabled={!hasSelection || busyLabel !== null}
+            title="Queue pose preprocessing"
+          >
+            <Cpu className="h-4 w-4" />
+          </Button>
+        </DropdownMenuTrigger>
+        <DropdownMenuContent align="end">
+          {POSE_PROCESS_MENU_OPTIONS.map((option) => (
+            <DropdownMenuItem
+              key={`bulk-process-${option.variant}-${option.preset.id}`}
+              onSelect={() => queuePoseProcessingForVideos(selectedVideos, option.variant, option.preset.id)}
+            >
+              {`Process ${option.label}`}
+            </DropdownMenuItem>
+          ))}
+        </DropdownMenuContent>
+      </DropdownMenu>
+
+      <Button
+        variant="ghost"
+        size="icon"
+        className={iconButtonClass}
+        disabled={!hasSelection || busyLabel !== null}
+        onClick={() => onExport(selectedVideos)}
+        title="Export selected as a project bundle"
+      >
+        <Package className="h-4 w-4" />
+      </Button>
+
+      <Button
+        variant="ghost"
+        size="icon"
+        className={cn(iconButtonClass, 'text-red-400 hover:text-red-300')}
+        disabled={!hasSelection || busyLabel !== null}
+        onClick={() => setIsDeleteOpen(true)}
+        title="Delete selected"
+      >
+        <Trash2 className="h-4 w-4" />
+      </Button>
+
+      <Button variant="ghost" size="icon" className={iconButtonClass} onClick={onDone} title="Done selecting">
+        <X className="h-4 w-4" />
+      </Button>
+
+      <AlertDialog open={isDeleteOpen} onOpenChange={setIsDeleteOpen}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>{`Delete ${count} clip${count === 1 ? '' : 's'}?`}</AlertDialogTitle>
+            <AlertDialogDescription>
+              Their pose data, drawings and markers are deleted too.
+              {referencedSessionCount > 0 &&
+                ` ${referencedSessionCount} saved session${referencedSessionCount === 1 ? '' : 's'} will open without them.`}
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Keep clips</AlertDialogCancel>
+            <AlertDialogAction
+              className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+              onClick={() => void handleDelete()}
+            >
+              Delete
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+}
@@ -0,0 +1,151 @@
+'use client';
+
+import { Filter, Search, X } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Input } from '@/components/ui/input';
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  LIBRARY_GROUP_OPTIONS,
+  countActiveLibraryFilters,
+  formatSessionDate,
+  type LibraryFacets,
+  type LibraryFilter,
+  type LibraryGroupBy,
+} from '@/lib/library-filter';
+import { cn } from '@/lib/utils';
+
+interface LibraryFilterBarProps {
+  filter: LibraryFilter;
+  onFilterChange: (filter: LibraryFilter) => void;
+  facets: LibraryFacets;
+  groupBy: LibraryGroupBy;
+  onGroupByChange: (groupBy: LibraryGroupBy) => void;
+  /** Smaller controls for the mobile filmstrip header */
+  compact?: boolean;
+}
+
+type FacetKey = 'athletes' | 'tags' | 'sessionDates';
+
+const FACET_SECTIONS: Array<{ key: FacetKey; title: string; empty: string }> = [
+  { key: 'athletes', title: 'Athletes', empty: 'No athletes assigned yet.' },
+  { key: 'tags', title: 'Tags', empty: 'No tags yet.' },
+  { key: 'sessionDates', title: 'Session dates', empty: 'No session dates yet.' },
+];
+
+export function LibraryFilterBar({
+  filter,
+  onFilterChange,
+  facets,
+  groupBy,
+  onGroupByChange,
+  compact = false,
+}: LibraryFilterBarProps) {
+  const activeCount = countActiveLibraryFilters(filter);
+
+  const toggleFacetValue = (key: FacetKey, value: string, checked: boolean) => {
+    const current = filter[key];
+    onFilterChange({
+      ...filter,
+      [key]: checked ? [...current, value] : current.filter((item) => item !== value),
+    });
+  };
+
+  return (
+    <div className="flex items-center gap-1">
+      <div className="relative min-w-0 flex-1">
+        <Search className={cn('pointer-events-none absolute left-2 top-1/2 -translate-y-1/2 text-muted-foreground', compact ? 'h-3 w-3' : 'h-3.5 w-3.5')} />
+        <Input
+          value={filter.query}
+          onChange={(e) => onFilterChange({ ...filter, query: e.target.value })}
+          placeholder="Search name, athlete, tag, notes"
+          aria-label="Search library"
+          className={cn('pl-7 pr-7', compact ? 'h-7 text-xs' : 'h-8 text-sm')}
+        />
+        {filter.query && (
+          <button
+            type="button"
+            className="absolute right-2 top-1/2 -translate-y-1/2 text-muted-foreground hover:text-foreground"
+            onClick={() => onFilterChange({ ...filter, query: '' })}
+            title="Clear search"
+          >
+            <X className="h-3.5 w-3.5" />
+          </button>
+        )}
+      </div>
+
+      <Popover>
+        <PopoverTrigger asChild>
+          <Button
+            variant="ghost"
+            size="icon"
+            className={cn('relative flex-shrink-0', compact ? 'h-7 w-7' : 'h-8 w-8')}
+            title="Filter and group"
+          >
+            <Filter className={cn('h-4 w-4', activeCount > 0 || groupBy !== 'none' ? 'text-primary' : 'text-muted-foreground')} />
+            {activeCount > 0 && (
+              <span className="absolute -right-0.5 -top-0.5 flex h-3.5 min-w-3.5 items-center justify-center rounded-full bg-primary px-0.5 text-[9px] font-semibold text-primary-foreground">
+                {activeCount}
+              </span>
+            )}
+          </Button>
+        </PopoverTrigger>
+        <PopoverContent align="end" className="w-64 space-y-3 p-3">
+          <div className="space-y-1">
+            <p className="text-[11px] font-semibold uppercase tracking-wider text-muted-foreground">Group by</p>
+            <Select value={groupBy} onValueChange={(value) => onGroupByChange(value as LibraryGroupBy)}>
+              <SelectTrigger className="h-8 text-xs">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {LIBRARY_GROUP_OPTIONS.map((option) => (
+                  <SelectItem key={option.value} value={option.value} className="text-xs">
+                    {option.label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          {FACET_SECTIONS.map((section) => (
+            <div key={section.key} className="space-y-1">
+              <p className="text-[11px] font-semibold uppercase tracking-wider text-muted-foreground">{section.title}</p>
+              {facets[section.key].length === 0 ? (
+                <p className="text-[11px] text-muted-foreground/80">{section.empty}</p>
+              ) : (
+                <div className="max-h-28 space-y-0.5 overflow-y-auto">
+                  {facets[section.key].map((value) => (
+                    <label key={value} className="flex cursor-pointer items-center gap-2 rounded px-1 py-0.5 text-xs hover:bg-secondary/60">
+                      <Checkbox
+                        checked={filter[section.key].includes(value)}
+                        onCheckedChange={(checked) => toggleFacetValue(section.key, value, checked === true)}
+                      />
+                      <span className="truncate">{section.key === 'sessionDates' ? formatSessionDate(value) : value}</span>
+                    </label>
+                  ))}
+                </div>
+              )}
+            </div>
+          ))}
+
+          <Button
+            variant="outline"
+            size="sm"
+            className="w-full"
+            disabled={activeCount === 0}
+            onClick={() => onFilterChange({ ...filter, athletes: [], tags: [], sessionDates: [] })}
+          >
+            Clear filters
+          </Button>
+        </PopoverContent>
+      </Popover>
+    </div>
+  );
+}
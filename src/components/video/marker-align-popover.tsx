@@ -0,0 +1,136 @@
+'use client';
+
+import { useMemo, useState } from 'react';
+import { Crosshair } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import {
+  Popover,
+  PopoverContent,
+  PopoverTrigger,
+} from '@/components/ui/popover';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { useAppContext } from '@/contexts/app-context';
+import { formatMarkerTime } from '@/lib/marker-utils';
+import { cn } from '@/lib/utils';
+import type { Marker, Video } from '@/types';
+
+interface MarkerAlignPopoverProps {
+  entries: { index: number; slot: Video }[];
+  /** Receives the chosen marker for every tile, keyed by slot index */
+  onAlign: (selection: Record<number, Marker>) => void;
+  className?: string;
+}
+
+const normalizeLabel = (label: string) => label.trim().toLowerCase();
+
+export default function MarkerAlignPopover({ entries, onAlign, className }: MarkerAlignPopoverProps) {
+  const { markers } = useAppContext();
+  const [selectedIds, setSelectedIds] = useState<Record<number, string>>({});
+
+  // Labels present on every tile, e.g. "foot contact", so a single pick can fill all rows.
+  const sharedLabels = useMemo(() => {
+    if (entries.length < 2) return [];
+    const [first, ...rest] = entries.map(({ slot }) =>
+      new Set((markers[slot.id] ?? []).map((marker) => normalizeLabel(marker.label)).filter(Boolean))
+    );
+    return [...first].filter((label) => rest.every((labels) => labels.has(label)));
+  }, [entries, markers]);
+
+  const selection: Record<number, Marker> = {};
+  entries.forEach(({ index, slot }) => {
+    const marker = (markers[slot.id] ?? []).find((item) => item.id === selectedIds[index]);
+    if (marker) selection[index] = marker;
+  });
+  const canAlign = entries.length >= 2 && entries.every(({ index }) => selection[index]);
+
+  const handleSelectLabel = (label: string) => {
+    const next: Record<number, string> = {};
+    entries.forEach(({ index, slot }) => {
+      const marker = (markers[slot.id] ?? []).find((item) => normalizeLabel(item.label) === label);
+      if (marker) next[index] = marker.id;
+    });
+    setSelectedIds(next);
+  };
+
+  return (
+    <Popover>
+      <PopoverTrigger asChild>
+        <Button
+          variant="ghost"
+          size="icon"
+          className={cn('h-7 w-7 rounded-full text-white/90 hover:text-white hover:bg-white/15', className)}
+          title="Align tiles by markers"
+          disabled={entries.length < 2}
+        >
+          <Crosshair className="h-4 w-4" />
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent className="w-80 p-3" align="end">
+        <p className="text-sm font-semibold">Align by markers</p>
+        <p className="mt-1 text-xs text-muted-foreground">
+          Pick the same event in each clip. Sync offsets are set so every tile reaches it together.
+        </p>
+
+        {sharedLabels.length > 0 && (
+          <Select onValueChange={handleSelectLabel}>
+            <SelectTrigger className="mt-3 h-8 text-xs">
+              <SelectValue placeholder="Match by label" />
+            </SelectTrigger>
+            <SelectContent>
+              {sharedLabels.map((label) => (
+                <SelectItem key={label} value={label} className="text-xs">
+                  {label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        )}
+
+        <div className="mt-3 space-y-2">
+          {entries.map(({ index, slot }) => {
+            const slotMarkers = markers[slot.id] ?? [];
+            return (
+              <div key={index} className="space-y-1">
+                <p className="truncate text-xs font-medium">{`Tile ${index + 1} · ${slot.name}`}</p>
+                {slotMarkers.length === 0 ? (
+                  <p className="text-xs text-muted-foreground">No markers on this clip.</p>
+                ) : (
+                  <Select
+                    value={selectedIds[index] ?? ''}
+                    onValueChange={(markerId) => setSelectedIds((prev) => ({ ...prev, [index]: markerId }))}
+                  >
+                    <SelectTrigger className="h-8 text-xs">
+                      <SelectValue placeholder="Choose marker" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {slotMarkers.map((marker) => (
+                        <SelectItem key={marker.id} value={marker.id} className="text-xs">
+                          {`${formatMarkerTime(marker.time)} · ${marker.label}`}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                )}
+              </div>
+            );
+          })}
+        </div>
+
+        <Button
+          size="sm"
+          className="mt-3 w-full"
+          disabled={!canAlign}
+          onClick={() => onAlign(selection)}
+        >
+          Align tiles
+        </Button>
+      </PopoverContent>
+    </Popover>
+  );
+}
@@ -0,0 +1,125 @@
+'use client';
+
+import { Bookmark, BookmarkPlus, Trash2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Textarea } from '@/components/ui/textarea';
+import {
+  Popover,
+  PopoverContent,
+  PopoverTrigger,
+} from '@/components/ui/popover';
+import { MARKER_COLORS, useAppContext } from '@/contexts/app-context';
+import { formatMarkerTime } from '@/lib/marker-utils';
+import { cn } from '@/lib/utils';
+import type { Marker } from '@/types';
+
+interface MarkerPopoverProps {
+  videoId: string;
+  /** Media time of the tile the markers belong to, in seconds */
+  currentMediaTime: number;
+  onSeekToMarker: (marker: Marker) => void;
+  className?: string;
+}
+
+export default function MarkerPopover({
+  videoId,
+  currentMediaTime,
+  onSeekToMarker,
+  className,
+}: MarkerPopoverProps) {
+  const { markers, addMarker, updateMarker, removeMarker } = useAppContext();
+  const videoMarkers = markers[videoId] ?? [];
+
+  return (
+    <Popover>
+      <PopoverTrigger asChild>
+        <Button
+          variant="ghost"
+          size="icon"
+          className={cn('h-7 w-7 rounded-full text-white/90 hover:text-white hover:bg-white/20', className)}
+          onClick={(e) => e.stopPropagation()}
+          title="Markers ([ / ] to jump, M to add)"
+        >
+          <Bookmark className={cn('h-4 w-4', videoMarkers.length > 0 && 'fill-current')} />
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent
+        className="w-72 p-3"
+        align="end"
+        onClick={(e) => e.stopPropagation()}
+        onPointerDown={(e) => e.stopPropagation()}
+      >
+        <div className="flex items-center justify-between gap-2">
+          <p className="text-sm font-semibold">Markers</p>
+          <Button
+            variant="outline"
+            size="sm"
+            className="h-7 gap-1 px-2 text-xs"
+            onClick={() => addMarker(videoId, currentMediaTime)}
+          >
+            <BookmarkPlus className="h-3.5 w-3.5" />
+            {`Add at ${formatMarkerTime(currentMediaTime)}`}
+          </Button>
+        </div>
+
+        {videoMarkers.length === 0 ? (
+          <p className="mt-3 text-xs text-muted-foreground">No markers yet. Press M while paused on a key frame.</p>
+        ) : (
+          <div className="mt-3 max-h-72 space-y-3 overflow-y-auto pr-1">
+            {videoMarkers.map((marker) => (
+              <div key={marker.id} className="space-y-1.5 rounded-md border border-border/70 p-2">
+                <div className="flex items-center gap-1.5">
+                  <button
+                    type="button"
+                    className="shrink-0 font-mono text-[11px] text-primary hover:underline"
+                    onClick={() => onSeekToMarker(marker)}
+                    title="Seek to marker"
+                  >
+                    {formatMarkerTime(marker.time)}
+                  </button>
+                  <Input
+                    value={marker.label}
+                    onChange={(e) => updateMarker({ ...marker, label: e.target.value })}
+                    className="h-7 text-xs"
+                    aria-label="Marker label"
+                  />
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    className="h-7 w-7 shrink-0 text-destructive hover:bg-destructive/10"
+                    onClick={() => removeMarker(marker)}
+                    title="Delete marker"
+                  >
+                    <Trash2 className="h-3.5 w-3.5" />
+                  </Button>
+                </div>
+                <div className="flex gap-1.5">
+                  {MARKER_COLORS.map((color) => (
+                    <button
+                      key={color}
+                      type="button"
+                      className={cn(
+                        'h-4 w-4 rounded-full border border-border shadow-sm',
+                        marker.color === color && 'ring-2 ring-primary ring-offset-1'
+                      )}
+                      style={{ backgroundColor: color }}
+                      onClick={() => updateMarker({ ...marker, color })}
+                      aria-label={`Marker color ${color}`}
+                    />
+                  ))}
+                </div>
+                <Textarea
+                  value={marker.note ?? ''}
+                  onChange={(e) => updateMarker({ ...marker, note: e.target.value || undefined })}
+                  placeholder="Note"
+                  className="min-h-[48px] text-xs"
+                />
+              </div>
+            ))}
+          </div>
+        )}
+      </PopoverContent>
+    </Popover>
+  );
+}
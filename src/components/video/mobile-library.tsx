@@ -1,5 +1,5 @@
 'use client';
-import { useState, useRef, useEffect, useMemo } from 'react';
+import { Fragment, useState, useRef, useEffect, useMemo } from 'react';
 import { Button } from '@/components/ui/button';
 import { useAppContext } from '@/contexts/app-context';
 import {
@@ -7,25 +7,38 @@ import {
   POSE_PROCESS_MENU_OPTIONS,
 } from '@/lib/pose/pose-model-label';
 import { formatPoseProcessingLabel } from '@/lib/pose/pose-preprocess-preset';
-import { FilePlus, Trash2, PlusCircle, Video, ChevronUp, ChevronDown, Loader2, CheckCircle2, AlertTriangle, Square, Star } from 'lucide-react';
+import { FilePlus, Trash2, PlusCircle, Video, ChevronUp, ChevronDown, Loader2, CheckCircle2, AlertTriangle, Square, Star, Package, Tags, SearchX, ListChecks, CheckCircle } from 'lucide-react';
 import { useToast } from '@/hooks/use-toast';
+import { useLibraryFilter } from '@/hooks/use-library-filter';
+import { useLibrarySelection } from '@/hooks/use-library-selection';
 import { VideoRecorder } from './video-recorder';
 import { TrimDialog } from './trim-dialog';
-import { extractThumbnail } from '@/lib/video-utils';
+import { DeleteVideoDialog } from './delete-video-dialog';
+import { WorkspaceSessionList } from './workspace-session-list';
+import { ProjectBundleDialog } from './project-bundle-dialog';
+import { LibraryFilterBar } from './library-filter-bar';
+import { VideoDetailsDialog } from './video-details-dialog';
+import { SplitClipDialog } from './split-clip-dialog';
+import { LibraryBulkActions } from './library-bulk-actions';
+import { PoseBatchProgress } from './pose-batch-progress';
 import {
   DropdownMenu,
   DropdownMenuContent,
   DropdownMenuItem,
+  DropdownMenuSeparator,
   DropdownMenuTrigger,
 } from '@/components/ui/dropdown-menu';
-import type { PoseModelVariant, PosePreprocessPresetId } from '@/types';
+import { exportPoseAnalysis, type PoseAnalysisExportFileType } from '@/lib/pose/pose-analysis-export';
+import { createId } from '@/lib/utils';
+import type { ClipSegment, PoseModelVariant, PosePreprocessPresetId } from '@/types';
 
 export function MobileLibrary() {
   const DUPLICATE_ADD_WINDOW_MS = 450;
   const {
     library,
-    addVideoToLibrary,
+    addSubClipsToLibrary,
     removeVideoFromLibrary,
+    getSessionsReferencingVideo,
     setSlot,
     slots,
     isPoseEnabled,
@@ -34,9 +47,15 @@ export function MobileLibrary() {
     setPoseModelVariant,
     setPosePreprocessPreset,
     cancelPoseProcessing,
+    loadPoseAnalysisForVideo,
+    importPoseAnalysisForVideo,
     toggleFavorite,
+    poseStrainRules,
+    poseCustomAngles,
   } = useAppContext();
   const fileInputRef = useRef<HTMLInputElement>(null);
+  const poseImportInputRef = useRef<HTMLInputElement>(null);
+  const poseImportTargetRef = useRef<import('@/types').Video | null>(null);
   const { toast } = useToast();
   const scrollRef = useRef<HTMLDivElement>(null);
   const lastAddActionRef = useRef<{ videoId: string; atMs: number } | null>(null);
@@ -48,7 +67,13 @@ export function MobileLibrary() {
   const [pendingFile, setPendingFile] = useState<File | null>(null);
   const [isTrimOpen, setIsTrimOpen] = useState(false);
   const [nextSegmentIndex, setNextSegmentIndex] = useState(0);
+  const [pendingSourceId, setPendingSourceId] = useState<string | undefined>(undefined);
   const [showFavoritesOnly, setShowFavoritesOnly] = useState(false);
+  const [isBundleDialogOpen, setIsBundleDialogOpen] = useState(false);
+  const [bundleInitialIds, setBundleInitialIds] = useState<string[] | undefined>(undefined);
+  const [pendingDeleteVideo, setPendingDeleteVideo] = useState<import('@/types').Video | null>(null);
+  const [detailsVideo, setDetailsVideo] = useState<import('@/types').Video | null>(null);
+  const [splitVideo, setSplitVideo] = useState<import('@/types').Video | null>(null);
 
   const sortedLibrary = useMemo(() => {
     const toTimestamp = (value: Date | string | number | undefined) => {
@@ -78,9 +103,28 @@ export function MobileLibrary() {
     [showFavoritesOnly, sortedLibrary]
   );
 
+  const {
+    filter,
+    setFilter,
+    groupBy,
+    setGroupBy,
+    facets,
+    filteredVideos,
+    groups,
+    isFiltering,
+    clearFilter,
+  } = useLibraryFilter(displayedLibrary);
+  const selection = useLibrarySelection(library);
+
+  const openBundleDialog = (videos?: import('@/types').Video[]) => {
+    setBundleInitialIds(videos?.map((video) => video.id));
+    setIsBundleDialogOpen(true);
+  };
+
   useEffect(() => {
     if (pendingFile) {
       setNextSegmentIndex(0);
+      setPendingSourceId(createId());
     }
   }, [pendingFile]);
 
@@ -97,22 +141,14 @@ export function MobileLibrary() {
     if (fileInputRef.current) fileInputRef.current.value = "";
   };
 
-  const handleSaveTrimmed = async (name: string, trimStart: number, trimEnd: number) => {
+  const handleSaveTrimmed = async (segments: ClipSegment[]) => {
     if (!pendingFile) return;
 
-    const { duration, thumbnail } = await extractThumbnail(pendingFile, trimStart);
+    // Every save from this file references one stored copy of it.
+    await addSubClipsToLibrary(pendingFile, segments, pendingSourceId);
 
-    await addVideoToLibrary({
-      name,
-      blob: pendingFile,
-      duration,
-      trimStart,
-      trimEnd,
-      thumbnail,
-    });
-
-    toast({ title: 'Segment Saved' });
-    setNextSegmentIndex((prev) => prev + 1);
+    toast({ title: segments.length > 1 ? `${segments.length} Sub-clips Saved` : 'Segment Saved' });
+    setNextSegmentIndex((prev) => prev + segments.length);
   };
 
   const handleDialogClose = (open: boolean) => {
@@ -158,6 +194,15 @@ export function MobileLibrary() {
     }
   };
 
+  // Clips used by saved sessions need confirmation; others delete right away as before.
+  const handleDeleteVideo = (video: import('@/types').Video) => {
+    if (getSessionsReferencingVideo(video.id).length > 0) {
+      setPendingDeleteVideo(video);
+      return;
+    }
+    void removeVideoFromLibrary(video.id);
+  };
+
   const handleProcessPose = async (
     video: import('@/types').Video,
     modelVariant: PoseModelVariant,
@@ -176,6 +221,51 @@ export function MobileLibrary() {
     }
   };
 
+  const handleExportPoseAnalysis = async (
+    video: import('@/types').Video,
+    fileType: PoseAnalysisExportFileType
+  ) => {
+    try {
+      const analysis = await loadPoseAnalysisForVideo(video);
+      if (!analysis) {
+        toast({ title: 'No pose data', description: 'Process this clip before exporting pose data.', variant: 'destructive' });
+        return;
+      }
+      await exportPoseAnalysis(video, analysis, fileType, poseStrainRules, poseCustomAngles);
+      toast({ title: 'Pose Data Exported', description: `${analysis.frames.length} frames · ${fileType.toUpperCase()}` });
+    } catch (error) {
+      console.error('Pose export failed', error);
+      toast({ title: 'Pose export failed', variant: 'destructive' });
+    }
+  };
+
+  const handleRequestPoseImport = (video: import('@/types').Video) => {
+    poseImportTargetRef.current = video;
+    poseImportInputRef.current?.click();
+  };
+
+  const handlePoseImportFile = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    const video = poseImportTargetRef.current;
+    poseImportTargetRef.current = null;
+    if (poseImportInputRef.current) poseImportInputRef.current.value = "";
+    if (!file || !video) return;
+
+    try {
+      const result = await importPoseAnalysisForVideo(video, file);
+      const layoutLabel = result.layout === 'coco17' ? 'COCO-17' : 'MediaPipe-33';
+      const skipped = result.droppedFrameCount > 0 ? ` · ${result.droppedFrameCount} outside trim skipped` : '';
+      toast({ title: 'Keypoints Imported', description: `${result.frames.length} frames · ${layoutLabel}${skipped}` });
+    } catch (error) {
+      console.error('Keypoint import failed', error);
+      toast({
+        title: 'Keypoint import failed',
+        description: error instanceof Error ? error.message : undefined,
+        variant: 'destructive',
+      });
+    }
+  };
+
   const renderPoseStatus = (video: import('@/types').Video) => {
     const state = getPoseProcessingState(video.id);
 
@@ -207,6 +297,40 @@ export function MobileLibrary() {
                 {`Reprocess ${option.label}`}
               </DropdownMenuItem>
             ))}
+            <DropdownMenuSeparator />
+            <DropdownMenuItem
+              onSelect={(e) => {
+                e.stopPropagation();
+                handleRequestPoseImport(video);
+              }}
+            >
+              Import Keypoints…
+            </DropdownMenuItem>
+            <DropdownMenuItem
+              onSelect={(e) => {
+                e.stopPropagation();
+                void handleExportPoseAnalysis(video, 'json');
+              }}
+            >
+              Export JSON
+            </DropdownMenuItem>
+            <DropdownMenuItem
+              onSelect={(e) => {
+                e.stopPropagation();
+                void handleExportPoseAnalysis(video, 'csv');
+              }}
+            >
+              Export CSV
+            </DropdownMenuItem>
+            <DropdownMenuSeparator />
+            <DropdownMenuItem
+              onSelect={(e) => {
+                e.stopPropagation();
+                setSplitVideo(video);
+              }}
+            >
+              Split into Reps…
+            </DropdownMenuItem>
           </DropdownMenuContent>
         </DropdownMenu>
       );
@@ -280,6 +404,15 @@ export function MobileLibrary() {
                 {`Process ${option.label}`}
               </DropdownMenuItem>
             ))}
+            <DropdownMenuSeparator />
+            <DropdownMenuItem
+              onSelect={(e) => {
+                e.stopPropagation();
+                handleRequestPoseImport(video);
+              }}
+            >
+              Import Keypoints…
+            </DropdownMenuItem>
           </DropdownMenuContent>
         </DropdownMenu>
       );
@@ -311,6 +444,15 @@ export function MobileLibrary() {
               {`Process ${option.label}`}
             </DropdownMenuItem>
           ))}
+          <DropdownMenuSeparator />
+          <DropdownMenuItem
+            onSelect={(e) => {
+              e.stopPropagation();
+              handleRequestPoseImport(video);
+            }}
+          >
+            Import Keypoints…
+          </DropdownMenuItem>
         </DropdownMenuContent>
       </DropdownMenu>
     );
@@ -337,6 +479,24 @@ export function MobileLibrary() {
             >
               <Star className={`h-4 w-4 ${showFavoritesOnly ? 'text-yellow-400 fill-current' : ''}`} />
             </Button>
+            <Button
+              variant="ghost"
+              size="icon"
+              className="h-7 w-7"
+              title={selection.isSelecting ? 'Done selecting' : 'Select clips'}
+              onClick={selection.isSelecting ? selection.stopSelecting : selection.startSelecting}
+            >
+              <ListChecks className={`h-4 w-4 ${selection.isSelecting ? 'text-primary' : ''}`} />
+            </Button>
+            <Button
+              variant="ghost"
+              size="icon"
+              className="h-7 w-7"
+              title="Export or import a project bundle"
+              onClick={() => openBundleDialog()}
+            >
+              <Package className="h-4 w-4" />
+            </Button>
             <Button
               variant="ghost"
               size="icon"
@@ -353,6 +513,13 @@ export function MobileLibrary() {
               accept="video/*"
               className="hidden"
             />
+            <input
+              type="file"
+              ref={poseImportInputRef}
+              onChange={handlePoseImportFile}
+              accept=".json,.csv,application/json,text/csv"
+              className="hidden"
+            />
             <VideoRecorder />
             <Button
               variant="ghost"
@@ -368,9 +535,37 @@ export function MobileLibrary() {
         <div className="px-3 pb-1">
           <p className="text-[10px] text-muted-foreground">
             {showFavoritesOnly ? `Favorites · ${favoriteCount}` : `All clips · ${sortedLibrary.length}`}
+            {isFiltering && ` · ${filteredVideos.length} shown`}
           </p>
+          {!isCollapsed && (
+            <div className="pt-1">
+              <LibraryFilterBar
+                filter={filter}
+                onFilterChange={setFilter}
+                facets={facets}
+                groupBy={groupBy}
+                onGroupByChange={setGroupBy}
+                compact
+              />
+            </div>
+          )}
         </div>
 
+        {!isCollapsed && selection.isSelecting && (
+          <LibraryBulkActions
+            selectedVideos={selection.selectedVideos}
+            visibleVideos={filteredVideos}
+            onSelectAll={selection.selectAll}
+            onClearSelection={selection.clearSelection}
+            onDone={selection.stopSelecting}
+            onExport={openBundleDialog}
+            compact
+          />
+        )}
+        {!isCollapsed && <PoseBatchProgress compact />}
+
+        {!isCollapsed && <WorkspaceSessionList variant="strip" />}
+
         {/* Horizontal Filmstrip */}
         {!isCollapsed && (
           <div
@@ -378,99 +573,151 @@ export function MobileLibrary() {
             className="flex gap-3 overflow-x-auto px-3 pb-3 snap-x snap-mandatory scrollbar-thin scrollbar-thumb-muted-foreground/20 scrollbar-track-transparent"
             style={{ WebkitOverflowScrolling: 'touch' }}
           >
-            {displayedLibrary.length > 0 ? (
-              displayedLibrary.map((video) => (
-                <div
-                  key={video.id}
-                  className="group relative flex-shrink-0 w-[156px] snap-start cursor-pointer"
-                  onClick={() => { void handleAddToGrid(video); }}
-                >
-                  {/* Thumbnail */}
-                  <div className="w-full aspect-video bg-black/10 rounded-lg overflow-hidden border border-border/30 relative shadow-sm">
-                    {video.isFavorite && (
-                      <div className="absolute top-0.5 left-0.5 z-10 pointer-events-none">
-                        <Star className="h-3.5 w-3.5 text-yellow-400 fill-current drop-shadow" />
-                      </div>
-                    )}
-                    {video.thumbnail ? (
-                      <img
-                        src={video.thumbnail}
-                        alt={video.name}
-                        className="w-full h-full object-cover"
-                      />
-                    ) : (
-                      <div className="flex items-center justify-center h-full w-full bg-secondary/50">
-                        <Video className="w-6 h-6 text-muted-foreground/50" />
-                      </div>
-                    )}
-
-                    {/* Hover / touch overlay */}
-                    <div className="absolute inset-0 bg-black/0 group-active:bg-black/20 transition-colors" />
-
-                    {/* Quick Actions */}
-                    <div className="absolute top-0.5 right-0.5 flex gap-0.5 opacity-100 md:opacity-0 md:group-hover:opacity-100 transition-opacity">
-                      <Button
-                        size="icon"
-                        variant="ghost"
-                        className={`h-7 w-7 rounded bg-black/60 hover:bg-black/80 ${
-                          video.isFavorite
-                            ? 'text-yellow-400 hover:text-yellow-300'
-                            : 'text-white hover:text-yellow-300'
+            {filteredVideos.length > 0 ? (
+              groups.map((group) => (
+                <Fragment key={group.key}>
+                  {groupBy !== 'none' && (
+                    <div className="flex flex-shrink-0 items-center self-stretch pb-8">
+                      <p className="max-w-[72px] border-l-2 border-primary/60 pl-1.5 text-[10px] font-semibold uppercase leading-tight tracking-wider text-muted-foreground">
+                        {group.label}
+                        <span className="block font-normal normal-case">{`${group.videos.length} clip${group.videos.length === 1 ? '' : 's'}`}</span>
+                      </p>
+                    </div>
+                  )}
+                  {group.videos.map((video) => (
+                    <div
+                      key={`${group.key}:${video.id}`}
+                      className="group relative flex-shrink-0 w-[156px] snap-start cursor-pointer"
+                      onClick={() => {
+                        if (selection.isSelecting) selection.toggleSelected(video.id);
+                        else void handleAddToGrid(video);
+                      }}
+                    >
+                      {/* Thumbnail */}
+                      <div
+                        className={`w-full aspect-video bg-black/10 rounded-lg overflow-hidden border relative shadow-sm ${
+                          selection.isSelected(video.id) ? 'border-primary ring-2 ring-primary' : 'border-border/30'
                         }`}
-                        onClick={(e) => {
-                          e.stopPropagation();
-                          void toggleFavorite(video.id);
-                        }}
-                        title={video.isFavorite ? 'Remove from favorites' : 'Add to favorites'}
                       >
-                        <Star className={`h-3 w-3 ${video.isFavorite ? 'fill-current' : ''}`} />
-                      </Button>
-                      <Button
-                        size="icon"
-                        variant="ghost"
-                        className="h-7 w-7 bg-black/60 text-white hover:text-white hover:bg-black/80 rounded"
-                        onClick={(e) => {
-                          e.stopPropagation();
-                          void handleAddToGrid(video);
-                        }}
-                        title="Add to Grid"
-                      >
-                        <PlusCircle className="h-3 w-3" />
-                      </Button>
-                      <Button
-                        size="icon"
-                        variant="ghost"
-                        className="h-7 w-7 bg-black/60 text-red-400 hover:text-red-300 hover:bg-black/80 rounded"
-                        onClick={(e) => {
-                          e.stopPropagation();
-                          void removeVideoFromLibrary(video.id);
-                        }}
-                        title="Delete Video"
-                      >
-                        <Trash2 className="h-3 w-3" />
-                      </Button>
-                    </div>
+                        {selection.isSelecting && (
+                          <div className="absolute bottom-0.5 left-0.5 z-10 pointer-events-none">
+                            <CheckCircle
+                              className={`h-4 w-4 drop-shadow ${selection.isSelected(video.id) ? 'text-primary fill-background' : 'text-white/80'}`}
+                            />
+                          </div>
+                        )}
+                        {video.isFavorite && (
+                          <div className="absolute top-0.5 left-0.5 z-10 pointer-events-none">
+                            <Star className="h-3.5 w-3.5 text-yellow-400 fill-current drop-shadow" />
+                          </div>
+                        )}
+                        {video.thumbnail ? (
+                          <img
+                            src={video.thumbnail}
+                            alt={video.name}
+                            className="w-full h-full object-cover"
+                          />
+                        ) : (
+                          <div className="flex items-center justify-center h-full w-full bg-secondary/50">
+                            <Video className="w-6 h-6 text-muted-foreground/50" />
+                          </div>
+                        )}
+
+                        {/* Hover / touch overlay */}
+                        <div className="absolute inset-0 bg-black/0 group-active:bg-black/20 transition-colors" />
+
+                        {/* Quick Actions */}
+                        <div className="absolute top-0.5 right-0.5 flex gap-0.5 opacity-100 md:opacity-0 md:group-hover:opacity-100 transition-opacity">
+                          <Button
+                            size="icon"
+                            variant="ghost"
+                            className={`h-7 w-7 rounded bg-black/60 hover:bg-black/80 ${
+                              video.isFavorite
+                                ? 'text-yellow-400 hover:text-yellow-300'
+                                : 'text-white hover:text-yellow-300'
+                            }`}
+                            onClick={(e) => {
+                              e.stopPropagation();
+                              void toggleFavorite(video.id);
+                            }}
+                            title={video.isFavorite ? 'Remove from favorites' : 'Add to favorites'}
+                          >
+                            <Star className={`h-3 w-3 ${video.isFavorite ? 'fill-current' : ''}`} />
+                          </Button>
+                          <Button
+                            size="icon"
+                            variant="ghost"
+                            className="h-7 w-7 bg-black/60 text-white hover:text-white hover:bg-black/80 rounded"
+                            onClick={(e) => {
+                              e.stopPropagation();
+                              setDetailsVideo(video);
+                            }}
+                            title="Edit Details"
+                          >
+                            <Tags className="h-3 w-3" />
+                          </Button>
+                          <Button
+                            size="icon"
+                            variant="ghost"
+                            className="h-7 w-7 bg-black/60 text-white hover:text-white hover:bg-black/80 rounded"
+                            onClick={(e) => {
+                              e.stopPropagation();
+                              void handleAddToGrid(video);
+                            }}
+                            title="Add to Grid"
+                          >
+                            <PlusCircle className="h-3 w-3" />
+                          </Button>
+                          <Button
+                            size="icon"
+                            variant="ghost"
+                            className="h-7 w-7 bg-black/60 text-red-400 hover:text-red-300 hover:bg-black/80 rounded"
+                            onClick={(e) => {
+                              e.stopPropagation();
+                              handleDeleteVideo(video);
+                            }}
+                            title="Delete Video"
+                          >
+                            <Trash2 className="h-3 w-3" />
+                          </Button>
+                        </div>
+
+                        {/* Duration badge */}
+                        <div className="absolute bottom-0.5 right-0.5 bg-black/70 text-white text-[10px] px-1 py-0.5 rounded font-medium">
+                          {Math.round(video.duration)}s
+                        </div>
+                      </div>
 
-                    {/* Duration badge */}
-                    <div className="absolute bottom-0.5 right-0.5 bg-black/70 text-white text-[10px] px-1 py-0.5 rounded font-medium">
-                      {Math.round(video.duration)}s
+                      {/* Name */}
+                      <p className="text-[11px] font-medium text-foreground truncate mt-1 px-0.5" title={video.name}>
+                        {video.name}
+                      </p>
+                      {video.athlete && (
+                        <p className="text-[10px] text-muted-foreground truncate px-0.5" title={video.notes}>
+                          {video.athlete}
+                        </p>
+                      )}
+                      {video.trimStart !== undefined && (
+                        <p className="text-[9px] text-primary font-semibold uppercase tracking-wider opacity-80 px-0.5">
+                          Trimmed
+                        </p>
+                      )}
+                      <div className="px-0.5">
+                        {renderPoseStatus(video)}
+                      </div>
                     </div>
-                  </div>
-
-                  {/* Name */}
-                  <p className="text-[11px] font-medium text-foreground truncate mt-1 px-0.5" title={video.name}>
-                    {video.name}
-                  </p>
-                  {video.trimStart !== undefined && (
-                    <p className="text-[9px] text-primary font-semibold uppercase tracking-wider opacity-80 px-0.5">
-                      Trimmed
-                    </p>
-                  )}
-                  <div className="px-0.5">
-                    {renderPoseStatus(video)}
-                  </div>
-                </div>
+                  ))}
+                </Fragment>
               ))
+            ) : isFiltering ? (
+              <div className="flex items-center gap-3 py-4 px-2 w-full">
+                <SearchX className="w-8 h-8 text-muted-foreground/40 flex-shrink-0" />
+                <div className="flex-1">
+                  <p className="text-sm font-medium text-muted-foreground">No matching clips</p>
+                  <p className="text-xs text-muted-foreground/70">Try another search or clear the filters</p>
+                </div>
+                <Button variant="outline" size="sm" className="h-7 text-xs" onClick={clearFilter}>Clear</Button>
+              </div>
             ) : showFavoritesOnly ? (
               <div className="flex items-center gap-3 py-4 px-2 w-full">
                 <Star className="w-8 h-8 text-yellow-400/70 flex-shrink-0" />
@@ -503,6 +750,37 @@ export function MobileLibrary() {
         }
         onSave={handleSaveTrimmed}
       />
+
+      <ProjectBundleDialog
+        open={isBundleDialogOpen}
+        onOpenChange={setIsBundleDialogOpen}
+        initialSelectedIds={bundleInitialIds}
+      />
+
+      <VideoDetailsDialog
+        video={detailsVideo}
+        onOpenChange={(open) => {
+          if (!open) setDetailsVideo(null);
+        }}
+      />
+
+      <SplitClipDialog
+        video={splitVideo}
+        onOpenChange={(open) => {
+          if (!open) setSplitVideo(null);
+        }}
+      />
+
+      <DeleteVideoDialog
+        video={pendingDeleteVideo}
+        onOpenChange={(open) => {
+          if (!open) setPendingDeleteVideo(null);
+        }}
+        onConfirm={(video) => {
+          setPendingDeleteVideo(null);
+          void removeVideoFromLibrary(video.id);
+        }}
+      />
     </>
   );
 }
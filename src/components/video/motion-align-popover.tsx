@@ -0,0 +1,202 @@
+'use client';
+
+import { useState } from 'react';
+import { Loader2, Waves } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import {
+  Popover,
+  PopoverContent,
+  PopoverTrigger,
+} from '@/components/ui/popover';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { useAppContext } from '@/contexts/app-context';
+import {
+  MOTION_SIGNAL_OPTIONS,
+  buildMotionSignal,
+  estimateMotionAlignment,
+  type MotionAlignmentEstimate,
+  type MotionSignalKind,
+} from '@/lib/pose/pose-motion-alignment';
+import { cn } from '@/lib/utils';
+import type { Video } from '@/types';
+
+interface MotionAlignPopoverProps {
+  entries: { index: number; slot: Video; width: number; height: number }[];
+  /** Receives absolute sync offsets keyed by slot index */
+  onApply: (offsets: Record<number, number>) => void;
+  className?: string;
+}
+
+type MotionAlignProposal = {
+  index: number;
+  name: string;
+  estimate: MotionAlignmentEstimate | null;
+};
+
+const LOW_CONFIDENCE = 0.4;
+const HIGH_CONFIDENCE = 0.7;
+
+const getConfidenceClass = (confidence: number) => {
+  if (confidence >= HIGH_CONFIDENCE) return 'text-emerald-500';
+  if (confidence >= LOW_CONFIDENCE) return 'text-amber-500';
+  return 'text-destructive';
+};
+
+export default function MotionAlignPopover({ entries, onApply, className }: MotionAlignPopoverProps) {
+  const { loadPoseAnalysisForVideo } = useAppContext();
+  const [open, setOpen] = useState(false);
+  const [signalKind, setSignalKind] = useState<MotionSignalKind>('knee-angle');
+  const [isAnalyzing, setIsAnalyzing] = useState(false);
+  const [proposals, setProposals] = useState<MotionAlignProposal[] | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const reset = () => {
+    setProposals(null);
+    setError(null);
+  };
+
+  const handleAnalyze = async () => {
+    if (entries.length < 2) return;
+    reset();
+    setIsAnalyzing(true);
+    try {
+      const signals = await Promise.all(entries.map(async (entry) => {
+        const analysis = await loadPoseAnalysisForVideo(entry.slot);
+        if (!analysis) {
+          throw new Error(`Tile ${entry.index + 1} has no processed pose data. Process it first.`);
+        }
+        const signal = buildMotionSignal(analysis, signalKind, entry.width, entry.height);
+        if (!signal) {
+          throw new Error(`Tile ${entry.index + 1} has too few detected poses for this signal.`);
+        }
+        return signal;
+      }));
+
+      const [reference, ...targets] = signals;
+      setProposals(targets.map((signal, position) => {
+        const entry = entries[position + 1];
+        return {
+          index: entry.index,
+          name: entry.slot.name,
+          estimate: estimateMotionAlignment(reference, signal),
+        };
+      }));
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Could not analyse motion.');
+    } finally {
+      setIsAnalyzing(false);
+    }
+  };
+
+  const handleAccept = () => {
+    if (!proposals) return;
+    // The reference tile leads at 0; offsets are shifted so none is negative.
+    const leads: Record<number, number> = { [entries[0].index]: 0 };
+    proposals.forEach(({ index, estimate }) => {
+      if (estimate) leads[index] = estimate.lagSec;
+    });
+    const minLead = Math.min(...Object.values(leads));
+    const offsets: Record<number, number> = {};
+    Object.entries(leads).forEach(([index, lead]) => {
+      offsets[Number(index)] = lead - minLead;
+    });
+    onApply(offsets);
+    reset();
+    setOpen(false);
+  };
+
+  const hasEstimate = proposals?.some(({ estimate }) => estimate !== null) ?? false;
+
+  return (
+    <Popover
+      open={open}
+      onOpenChange={(next) => {
+        setOpen(next);
+        if (!next) reset();
+      }}
+    >
+      <PopoverTrigger asChild>
+        <Button
+          variant="ghost"
+          size="icon"
+          className={cn('h-7 w-7 rounded-full text-white/90 hover:text-white hover:bg-white/15', className)}
+          title="Auto-align tiles from pose motion"
+          disabled={entries.length < 2}
+        >
+          <Waves className="h-4 w-4" />
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent className="w-80 p-3" align="end">
+        <p className="text-sm font-semibold">Auto-align from motion</p>
+        <p className="mt-1 text-xs text-muted-foreground">
+          {`Cross-correlates processed pose data against Tile ${(entries[0]?.index ?? 0) + 1}.`}
+        </p>
+
+        <div className="mt-3 flex gap-2">
+          <Select
+            value={signalKind}
+            onValueChange={(value) => {
+              setSignalKind(value as MotionSignalKind);
+              reset();
+            }}
+          >
+            <SelectTrigger className="h-8 flex-1 text-xs">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {MOTION_SIGNAL_OPTIONS.map((option) => (
+                <SelectItem key={option.kind} value={option.kind} className="text-xs">
+                  {option.label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Button size="sm" className="h-8" onClick={() => void handleAnalyze()} disabled={isAnalyzing}>
+            {isAnalyzing ? <Loader2 className="h-3.5 w-3.5 animate-spin" /> : 'Analyze'}
+          </Button>
+        </div>
+
+        {error && <p className="mt-3 text-xs text-destructive">{error}</p>}
+
+        {proposals && (
+          <div className="mt-3 space-y-2">
+            {proposals.map(({ index, name, estimate }) => (
+              <div key={index} className="rounded-md border border-border/70 p-2 text-xs">
+                <p className="truncate font-medium">{`Tile ${index + 1} · ${name}`}</p>
+                {estimate ? (
+                  <div className="mt-1 flex items-center justify-between gap-2">
+                    <span className="font-mono">
+                      {`${estimate.lagSec >= 0 ? '+' : ''}${estimate.lagSec.toFixed(3)}s`}
+                    </span>
+                    <span className={cn('font-semibold', getConfidenceClass(estimate.confidence))}>
+                      {`${Math.round(estimate.confidence * 100)}% confidence`}
+                    </span>
+                  </div>
+                ) : (
+                  <p className="mt-1 text-muted-foreground">No consistent match found.</p>
+                )}
+                {estimate && estimate.confidence < LOW_CONFIDENCE && (
+                  <p className="mt-1 text-muted-foreground">Low confidence — check the result or try the other signal.</p>
+                )}
+              </div>
+            ))}
+            <div className="flex gap-2">
+              <Button variant="outline" size="sm" className="flex-1" onClick={reset}>
+                Reject
+              </Button>
+              <Button size="sm" className="flex-1" onClick={handleAccept} disabled={!hasEstimate}>
+                Accept
+              </Button>
+            </div>
+          </div>
+        )}
+      </PopoverContent>
+    </Popover>
+  );
+}
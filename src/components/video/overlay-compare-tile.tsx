@@ -4,6 +4,7 @@ import { useEffect, useRef, type MutableRefObject } from 'react';
 import type { Video } from '@/types';
 import type { OverlayBlendMode, OverlayColorFilter } from '@/contexts/app-context';
 import { cn } from '@/lib/utils';
+import { getOverlayTopFilter } from '@/lib/overlay-filter';
 import { X } from 'lucide-react';
 
 interface OverlayCompareTileProps {
@@ -58,20 +59,7 @@ export default function OverlayCompareTile({
     };
   }, [baseIndex, baseVideo.id, topIndex, topVideo.id, videoRefs]);
 
-  const topVideoFilter = (() => {
-    const colorFilter = {
-      none: 'none',
-      red: 'grayscale(1) sepia(1) hue-rotate(-38deg) saturate(8.5) contrast(1.28) brightness(0.94)',
-      orange: 'grayscale(1) sepia(1) hue-rotate(-12deg) saturate(8) contrast(1.25) brightness(0.97)',
-      yellow: 'grayscale(1) sepia(1) hue-rotate(20deg) saturate(8.8) contrast(1.3) brightness(1.02)',
-      green: 'grayscale(1) sepia(1) hue-rotate(78deg) saturate(8.2) contrast(1.26) brightness(0.95)',
-      blue: 'grayscale(1) sepia(1) hue-rotate(168deg) saturate(8.6) contrast(1.29) brightness(0.93)',
-    }[overlayTopColorFilter];
-
-    const parts = colorFilter === 'none' ? [] : [colorFilter];
-    if (overlayTopBlackAndWhite) parts.push('grayscale(1)');
-    return parts.length > 0 ? parts.join(' ') : 'none';
-  })();
+  const topVideoFilter = getOverlayTopFilter(overlayTopColorFilter, overlayTopBlackAndWhite);
 
   return (
     <div
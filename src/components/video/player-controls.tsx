@@ -11,6 +11,10 @@ import {
   SelectValue,
 } from '@/components/ui/select';
 import { cn } from '@/lib/utils';
+import type { TimelineMarker } from '@/lib/marker-utils';
+import type { TimelineAlert } from '@/lib/pose/pose-alerts';
+import { formatFrameRate, getFrameIndexAt, getFrameStartTime, stepFrameTime } from '@/lib/frame-timing';
+import type { VideoFrameTiming } from '@/types';
 import React from 'react';
 
 interface PlayerControlsProps {
@@ -25,10 +29,18 @@ interface PlayerControlsProps {
   onStepForward?: () => void;
   isSyncEnabled: boolean;
   variant?: 'overlay' | 'static';
+  /** Marker ticks drawn over the seek bar, in the same time base as `currentTime` */
+  markers?: TimelineMarker[];
+  /** Pose alert ranges drawn under the seek bar, in the same time base as `currentTime` */
+  alerts?: TimelineAlert[];
+  markerControls?: React.ReactNode;
+  /** Measured frame timing of the clip shown (the reference clip in sync mode) */
+  frameTiming?: VideoFrameTiming | null;
+  /** Media time of that clip at `currentTime` 0, so frames are counted on its own grid */
+  mediaTimeOrigin?: number;
 }
 
-const PLAYBACK_RATES = [1.0, 0.5, 0.25, 0.125];
-const FRAME_STEP = 1 / 30; // Assume 30fps for stepping
+const PLAYBACK_RATES = [2.0, 1.0, 0.5, 0.25, 0.125];
 
 export default function PlayerControls({
   isPlaying,
@@ -42,16 +54,31 @@ export default function PlayerControls({
   onStepForward,
   isSyncEnabled,
   variant = 'overlay',
+  markers = [],
+  alerts = [],
+  markerControls,
+  frameTiming,
+  mediaTimeOrigin = 0,
 }: PlayerControlsProps) {
 
-  // Format time as M:SS
-  const formatTime = (time: number) => {
-    if (isNaN(time)) return "0:00";
+  // Format time as M:SS, or M:SS.cc when frame precision matters
+  const formatTime = (time: number, withHundredths = false) => {
+    if (isNaN(time)) return withHundredths ? "0:00.00" : "0:00";
     const minutes = Math.floor(time / 60);
     const seconds = Math.floor(time % 60);
-    return `${minutes}:${seconds.toString().padStart(2, '0')}`;
+    const base = `${minutes}:${seconds.toString().padStart(2, '0')}`;
+    if (!withHundredths) return base;
+    const hundredths = Math.floor((time % 1) * 100);
+    return `${base}.${hundredths.toString().padStart(2, '0')}`;
   };
 
+  // Frames are counted from the first frame of the trimmed range; the time shows that frame's start.
+  const originFrame = getFrameIndexAt(mediaTimeOrigin, frameTiming);
+  const currentFrame = getFrameIndexAt(mediaTimeOrigin + currentTime, frameTiming);
+  const frameCount = Math.max(0, getFrameIndexAt(mediaTimeOrigin + duration, frameTiming) - originFrame);
+  const frameNumber = Math.min(frameCount, Math.max(0, currentFrame - originFrame));
+  const frameStartTime = Math.max(0, getFrameStartTime(currentFrame, frameTiming) - mediaTimeOrigin);
+
   const isOverlay = variant === 'overlay';
   const timeTextClass = isOverlay
     ? "text-white/90 shadow-black/50 drop-shadow-sm"
@@ -102,7 +129,7 @@ export default function PlayerControls({
       return;
     }
     if (isPlaying) onPlayPause();
-    onSeek(Math.max(0, currentTime - FRAME_STEP));
+    onSeek(Math.max(0, stepFrameTime(mediaTimeOrigin + currentTime, -1, frameTiming) - mediaTimeOrigin));
   };
 
   const handleStepForward = (e: React.MouseEvent) => {
@@ -112,7 +139,7 @@ export default function PlayerControls({
       return;
     }
     if (isPlaying) onPlayPause();
-    onSeek(Math.min(duration, currentTime + FRAME_STEP));
+    onSeek(Math.min(duration, stepFrameTime(mediaTimeOrigin + currentTime, 1, frameTiming) - mediaTimeOrigin));
   };
 
   const handlePlayClick = (e: React.MouseEvent) => { e.stopPropagation(); onPlayPause(); };
@@ -128,8 +155,8 @@ export default function PlayerControls({
     >
       {/* Progress Bar Row */}
       <div className="flex items-center gap-3 px-1">
-        <span className={cn("text-xs font-mono font-medium w-[35px] text-right tabular-nums", timeTextClass)}>
-          {formatTime(currentTime)}
+        <span className={cn("text-xs font-mono font-medium w-[52px] text-right tabular-nums", timeTextClass)}>
+          {formatTime(isPlaying ? currentTime : frameStartTime, true)}
         </span>
 
         <div className="flex-1 relative group/slider py-2 cursor-pointer">
@@ -144,6 +171,37 @@ export default function PlayerControls({
               !isOverlay && "[&>span:first-child]:bg-secondary [&>span:first-child]:border-border [&>span:first-child>span]:bg-primary"
             )}
           />
+          {duration > 0 && alerts.map((alert) => (
+            <button
+              key={alert.id}
+              type="button"
+              className="absolute bottom-0 h-1 min-w-[3px] rounded-full bg-red-500/90 shadow-sm transition-transform hover:scale-y-150"
+              style={{
+                left: `${Math.min(100, Math.max(0, (alert.start / duration) * 100))}%`,
+                width: `${Math.max(0, ((Math.min(alert.end, duration) - alert.start) / duration) * 100)}%`,
+              }}
+              onClick={(e) => {
+                e.stopPropagation();
+                onSeek(alert.start);
+              }}
+              title={alert.label}
+              aria-label={`Seek to alert: ${alert.label}`}
+            />
+          ))}
+          {duration > 0 && markers.map((marker) => (
+            <button
+              key={marker.id}
+              type="button"
+              className="absolute top-0 h-2.5 w-1.5 -translate-x-1/2 rounded-sm border border-black/40 shadow-sm transition-transform hover:scale-125"
+              style={{ left: `${Math.min(100, Math.max(0, (marker.time / duration) * 100))}%`, backgroundColor: marker.color }}
+              onClick={(e) => {
+                e.stopPropagation();
+                onSeek(marker.time);
+              }}
+              title={marker.note ? `${marker.label} — ${marker.note}` : marker.label}
+              aria-label={`Seek to marker ${marker.label}`}
+            />
+          ))}
         </div>
 
         <span className={cn("text-xs font-mono font-medium w-[35px] tabular-nums", timeTextMutedClass)}>
@@ -189,6 +247,15 @@ export default function PlayerControls({
 
         {/* Right Side Controls */}
         <div className="flex items-center gap-2">
+          {duration > 0 && (
+            <span
+              className={cn("text-[11px] font-mono tabular-nums", timeTextMutedClass)}
+              title={frameTiming ? formatFrameRate(frameTiming) : 'Frame rate not measured yet; assuming 30 fps'}
+            >
+              {`F ${frameTiming?.isVariable ? '~' : ''}${frameNumber}/${frameCount}`}
+            </span>
+          )}
+          {markerControls}
           {/* Playback Speed Selector */}
           <Select
             value={playbackRate.toString()}
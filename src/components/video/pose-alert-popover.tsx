@@ -0,0 +1,110 @@
+'use client';
+
+import { AlertTriangle, Download } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import {
+  Popover,
+  PopoverContent,
+  PopoverTrigger,
+} from '@/components/ui/popover';
+import { formatMarkerTime } from '@/lib/marker-utils';
+import {
+  exportPoseAlertEvents,
+  formatPoseAlertRule,
+  type PoseAlertEvent,
+  type PoseAlertRule,
+} from '@/lib/pose/pose-alerts';
+import { cn } from '@/lib/utils';
+import type { Video } from '@/types';
+
+interface PoseAlertPopoverProps {
+  video: Video;
+  events: PoseAlertEvent[];
+  rules: PoseAlertRule[];
+  /** Trim start of the analysed range, in milliseconds */
+  trimStartMs: number;
+  /** Receives the event's start in media time, in seconds */
+  onSeekToEvent: (mediaTimeSec: number) => void;
+  className?: string;
+}
+
+export default function PoseAlertPopover({
+  video,
+  events,
+  rules,
+  trimStartMs,
+  onSeekToEvent,
+  className,
+}: PoseAlertPopoverProps) {
+  const rulesById = new Map(rules.map((rule) => [rule.id, rule]));
+
+  return (
+    <Popover>
+      <PopoverTrigger asChild>
+        <Button
+          variant="ghost"
+          size="sm"
+          className={cn(
+            'h-7 gap-1 rounded-full px-2 text-xs text-white/90 hover:text-white hover:bg-white/20',
+            events.length > 0 && 'text-red-400 hover:text-red-300',
+            className
+          )}
+          onClick={(e) => e.stopPropagation()}
+          title="Pose alerts"
+        >
+          <AlertTriangle className="h-4 w-4" />
+          {events.length > 0 && <span className="tabular-nums">{events.length}</span>}
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent
+        className="w-80 p-3"
+        align="end"
+        onClick={(e) => e.stopPropagation()}
+        onPointerDown={(e) => e.stopPropagation()}
+      >
+        <div className="flex items-center justify-between gap-2">
+          <p className="text-sm font-semibold">Pose Alerts</p>
+          <Button
+            variant="outline"
+            size="sm"
+            className="h-7 gap-1 px-2 text-xs"
+            disabled={events.length === 0}
+            onClick={() => exportPoseAlertEvents(video, events, rules, trimStartMs)}
+          >
+            <Download className="h-3.5 w-3.5" />
+            Export CSV
+          </Button>
+        </div>
+
+        {events.length === 0 ? (
+          <p className="mt-3 text-xs text-muted-foreground">
+            No rule was broken in the analysed range. Alerts need cached pose data; rules are edited under Pose Settings.
+          </p>
+        ) : (
+          <div className="mt-3 max-h-72 space-y-1 overflow-y-auto pr-1">
+            {events.map((event) => {
+              const rule = rulesById.get(event.ruleId);
+              return (
+                <button
+                  key={event.id}
+                  type="button"
+                  className="flex w-full items-start gap-2 rounded-md border border-border/70 px-2 py-1.5 text-left hover:bg-secondary/60"
+                  onClick={() => onSeekToEvent(event.startMs / 1000)}
+                  title="Seek to alert"
+                >
+                  <span className="shrink-0 font-mono text-[11px] text-primary">{formatMarkerTime(event.startMs / 1000)}</span>
+                  <span className="min-w-0 flex-1">
+                    <span className="block truncate text-xs text-foreground">{rule ? formatPoseAlertRule(rule) : 'Removed rule'}</span>
+                    <span className="block text-[10px] text-muted-foreground tabular-nums">
+                      {`${Math.round(event.endMs - event.startMs)} ms · peak ${event.peakValue.toFixed(1)}° at ${formatMarkerTime(event.peakMs / 1000)}`}
+                    </span>
+                  </span>
+                </button>
+              );
+            })}
+          </div>
+        )}
+      </PopoverContent>
+    </Popover>
+  );
+}
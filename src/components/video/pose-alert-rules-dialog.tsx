@@ -0,0 +1,181 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { Plus, RotateCcw, Trash2 } from 'lucide-react';
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogDescription,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Switch } from '@/components/ui/switch';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { useAppContext } from '@/contexts/app-context';
+import {
+  POSE_ALERT_MAX_DURATION_MS,
+  POSE_ALERT_METRICS,
+  createDefaultPoseAlertRules,
+  createPoseAlertRule,
+  normalizePoseAlertRules,
+  type PoseAlertComparison,
+  type PoseAlertMetricId,
+  type PoseAlertRule,
+} from '@/lib/pose/pose-alerts';
+
+interface PoseAlertRulesDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+export function PoseAlertRulesDialog({ open, onOpenChange }: PoseAlertRulesDialogProps) {
+  const { poseAlertRules, setPoseAlertRules } = useAppContext();
+  const [draft, setDraft] = useState<PoseAlertRule[]>(poseAlertRules);
+
+  useEffect(() => {
+    if (open) setDraft(poseAlertRules);
+  }, [open, poseAlertRules]);
+
+  const updateRule = (id: string, patch: Partial<PoseAlertRule>) => {
+    setDraft((prev) => prev.map((rule) => (rule.id === id ? { ...rule, ...patch } : rule)));
+  };
+
+  const updateNumber = (id: string, field: 'thresholdDeg' | 'minDurationMs', value: string) => {
+    const parsed = Number(value);
+    if (value.trim() !== '' && Number.isFinite(parsed)) updateRule(id, { [field]: parsed });
+  };
+
+  const handleSave = () => {
+    setPoseAlertRules(normalizePoseAlertRules(draft));
+    onOpenChange(false);
+  };
+
+  const numberInputClass = 'h-7 w-16 px-1.5 text-center text-xs tabular-nums';
+  const selectTriggerClass = 'h-7 px-2 text-xs';
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="w-[calc(100%-0.5rem)] max-h-[calc(100svh-0.5rem)] overflow-y-auto sm:max-w-[640px] bg-card border-none shadow-2xl p-3 sm:p-6 rounded-md sm:rounded-lg">
+        <DialogHeader className="space-y-1">
+          <DialogTitle className="font-headline text-2xl tracking-tight text-foreground">Alert Rules</DialogTitle>
+          <DialogDescription className="text-muted-foreground">
+            Each rule is checked against every analysed frame of a clip. A violation that lasts at least the minimum
+            duration becomes an event on the timeline and in the clip&apos;s alert list.
+          </DialogDescription>
+        </DialogHeader>
+
+        <section className="space-y-1">
+          <div className="grid grid-cols-[auto_1fr_auto_auto_auto_auto] items-center gap-2 px-1 text-[10px] font-semibold uppercase tracking-[0.08em] text-muted-foreground/80">
+            <span className="w-9">On</span>
+            <span>Metric</span>
+            <span className="w-20">When</span>
+            <span className="w-16 text-center">Deg °</span>
+            <span className="w-16 text-center">Min ms</span>
+            <span className="w-7" />
+          </div>
+          {draft.length === 0 && (
+            <p className="rounded-md border border-dashed border-border/60 px-2 py-3 text-center text-xs text-muted-foreground">
+              No rules. Add one to start flagging frames.
+            </p>
+          )}
+          {draft.map((rule) => (
+            <div
+              key={rule.id}
+              className="grid grid-cols-[auto_1fr_auto_auto_auto_auto] items-center gap-2 rounded-md border border-border/50 bg-secondary/30 px-2 py-1.5"
+            >
+              <Switch
+                checked={rule.enabled}
+                onCheckedChange={(enabled) => updateRule(rule.id, { enabled })}
+                aria-label="Rule enabled"
+              />
+              <Select value={rule.metric} onValueChange={(metric) => updateRule(rule.id, { metric: metric as PoseAlertMetricId })}>
+                <SelectTrigger className={selectTriggerClass} aria-label="Metric">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {POSE_ALERT_METRICS.map((metric) => (
+                    <SelectItem key={metric.id} value={metric.id} className="text-xs">
+                      {metric.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Select
+                value={rule.comparison}
+                onValueChange={(comparison) => updateRule(rule.id, { comparison: comparison as PoseAlertComparison })}
+              >
+                <SelectTrigger className={`${selectTriggerClass} w-20`} aria-label="Comparison">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="above" className="text-xs">Above</SelectItem>
+                  <SelectItem value="below" className="text-xs">Below</SelectItem>
+                </SelectContent>
+              </Select>
+              <Input
+                type="number"
+                min={-180}
+                max={180}
+                value={rule.thresholdDeg}
+                onChange={(e) => updateNumber(rule.id, 'thresholdDeg', e.target.value)}
+                className={numberInputClass}
+                aria-label="Threshold in degrees"
+              />
+              <Input
+                type="number"
+                min={0}
+                max={POSE_ALERT_MAX_DURATION_MS}
+                step={50}
+                value={rule.minDurationMs}
+                onChange={(e) => updateNumber(rule.id, 'minDurationMs', e.target.value)}
+                className={numberInputClass}
+                aria-label="Minimum duration in milliseconds"
+              />
+              <Button
+                variant="ghost"
+                size="icon"
+                className="h-7 w-7 text-destructive hover:bg-destructive/10"
+                onClick={() => setDraft((prev) => prev.filter((item) => item.id !== rule.id))}
+                title="Delete rule"
+              >
+                <Trash2 className="h-3.5 w-3.5" />
+              </Button>
+            </div>
+          ))}
+          <Button
+            variant="outline"
+            size="sm"
+            className="h-7 gap-1 px-2 text-xs"
+            onClick={() => setDraft((prev) => [...prev, createPoseAlertRule()])}
+          >
+            <Plus className="h-3.5 w-3.5" />
+            Add rule
+          </Button>
+        </section>
+
+        <div className="flex items-center justify-between gap-2">
+          <Button variant="ghost" size="sm" className="h-8 text-xs" onClick={() => setDraft(createDefaultPoseAlertRules())}>
+            <RotateCcw className="mr-1.5 h-3.5 w-3.5" />
+            Defaults
+          </Button>
+          <div className="flex gap-2">
+            <Button variant="outline" size="sm" className="h-8 text-xs" onClick={() => onOpenChange(false)}>
+              Cancel
+            </Button>
+            <Button size="sm" className="h-8 text-xs" onClick={handleSave}>
+              Apply
+            </Button>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,127 @@
+'use client';
+
+import { Loader2, Square, X } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Progress } from '@/components/ui/progress';
+import { useAppContext, type PoseProcessingState } from '@/contexts/app-context';
+import { cn } from '@/lib/utils';
+
+interface PoseBatchSummary {
+  total: number;
+  ready: number;
+  failed: number;
+  active: number;
+  /** 0..1 across the batch; settled clips count as complete */
+  progress: number;
+  currentVideoId: string | null;
+  currentEtaSec: number | null;
+}
+
+const summarizePoseBatch = (
+  videoIds: string[],
+  states: Record<string, PoseProcessingState>
+): PoseBatchSummary => {
+  let ready = 0;
+  let failed = 0;
+  let active = 0;
+  let completed = 0;
+  let currentVideoId: string | null = null;
+  let currentEtaSec: number | null = null;
+
+  videoIds.forEach((id) => {
+    const state = states[id];
+    switch (state?.status) {
+      case 'processing':
+        active += 1;
+        completed += state.progress;
+        if (!currentVideoId) {
+          currentVideoId = id;
+          currentEtaSec = state.etaSec;
+        }
+        break;
+      case 'queued':
+        active += 1;
+        break;
+      case 'ready':
+        ready += 1;
+        completed += 1;
+        break;
+      case 'error':
+        failed += 1;
+        completed += 1;
+        break;
+      default:
+        // Cancelled or removed from the cache; nothing left to wait for.
+        completed += 1;
+    }
+  });
+
+  return {
+    total: videoIds.length,
+    ready,
+    failed,
+    active,
+    progress: videoIds.length > 0 ? completed / videoIds.length : 0,
+    currentVideoId,
+    currentEtaSec,
+  };
+};
+
+interface PoseBatchProgressProps {
+  compact?: boolean;
+}
+
+/** One progress row for every clip queued together from the library's bulk actions. */
+export function PoseBatchProgress({ compact = false }: PoseBatchProgressProps) {
+  const {
+    library,
+    poseBatchVideoIds,
+    poseProcessingByVideo,
+    cancelAllPoseProcessing,
+    clearPoseBatch,
+  } = useAppContext();
+
+  if (poseBatchVideoIds.length === 0) return null;
+
+  const summary = summarizePoseBatch(poseBatchVideoIds, poseProcessingByVideo);
+  const isRunning = summary.active > 0;
+  const currentName = summary.currentVideoId
+    ? library.find((video) => video.id === summary.currentVideoId)?.name
+    : undefined;
+  const details = [
+    `${summary.ready} of ${summary.total} ready`,
+    summary.failed > 0 ? `${summary.failed} failed` : null,
+    isRunning && summary.currentEtaSec !== null ? `~${Math.ceil(summary.currentEtaSec)}s left on current clip` : null,
+  ].filter(Boolean).join(' · ');
+
+  return (
+    <div className={cn('rounded-md border border-border/60 bg-secondary/30 p-2 space-y-1.5', compact ? 'mx-3 mb-2' : 'mx-2 mt-2')}>
+      <div className="flex items-center gap-2">
+        {isRunning && <Loader2 className="h-3.5 w-3.5 flex-shrink-0 animate-spin text-primary" />}
+        <p className="min-w-0 flex-1 truncate text-xs font-medium text-foreground">
+          {isRunning
+            ? `Pose batch · ${currentName ?? 'Waiting for queue'}`
+            : 'Pose batch finished'}
+        </p>
+        {isRunning ? (
+          <Button
+            variant="ghost"
+            size="sm"
+            className="h-6 px-2 text-[11px] text-red-400 hover:text-red-300"
+            onClick={cancelAllPoseProcessing}
+            title="Cancel all pose processing"
+          >
+            <Square className="mr-1 h-3 w-3 fill-current" />
+            Cancel all
+          </Button>
+        ) : (
+          <Button variant="ghost" size="icon" className="h-6 w-6" onClick={clearPoseBatch} title="Dismiss">
+            <X className="h-3.5 w-3.5" />
+          </Button>
+        )}
+      </div>
+      <Progress value={Math.round(summary.progress * 100)} className="h-1.5" />
+      <p className="text-[10px] text-muted-foreground">{details}</p>
+    </div>
+  );
+}
@@ -3,6 +3,7 @@
 import { useEffect, useMemo, useRef, useState } from 'react';
 import type { NormalizedLandmark } from '@mediapipe/tasks-vision';
 import type {
+  CustomPoseAngle,
   PoseAngleMetricId,
   PoseAngleSelectionMap,
   PoseModelVariant,
@@ -10,251 +11,42 @@ import type {
 } from '@/types';
 import { cn } from '@/lib/utils';
 import { usePoseLandmarks } from '@/hooks/use-pose-landmarks';
-import { POSE_ANGLE_METRICS } from '@/lib/pose/pose-angle-metrics';
+import {
+  getAngleChartRange,
+  getPoseAngleMetrics,
+  isSegmentAngleMetricId,
+  type PoseAngleMetricDefinition,
+} from '@/lib/pose/pose-angle-metrics';
+import {
+  ANGLE_RATE_UNITS,
+  type AngleRateQuantity,
+  type PoseAngleKinematics,
+} from '@/lib/pose/pose-angle-kinematics';
 import {
   computeCoG,
   computeJointAngles,
+  computeSegmentAngles,
   computeBodyLean,
   updateJumpHeight,
   createJumpHeightState,
   type JointAngle,
   type JumpHeightState,
 } from '@/lib/pose/biomechanics';
-
-const POSE_CONNECTIONS: Array<[number, number]> = [
-  [0, 1], [1, 2], [2, 3], [3, 7],
-  [0, 4], [4, 5], [5, 6], [6, 8],
-  [9, 10],
-  [11, 12],
-  [11, 13], [13, 15], [15, 17], [15, 19], [15, 21], [17, 19],
-  [12, 14], [14, 16], [16, 18], [16, 20], [16, 22], [18, 20],
-  [11, 23], [12, 24], [23, 24],
-  [23, 25], [24, 26], [25, 27], [26, 28],
-  [27, 29], [28, 30], [29, 31], [30, 32],
-  [27, 31], [28, 32],
-];
-
-type LimbKey = 'leftArm' | 'rightArm' | 'leftLeg' | 'rightLeg' | 'torso' | 'head';
-
-const LIMB_BASE_COLORS: Record<LimbKey, string> = {
-  leftArm: '#3b82f6',
-  rightArm: '#f59e0b',
-  leftLeg: '#22c55e',
-  rightLeg: '#a855f7',
-  torso: '#06b6d4',
-  head: '#94a3b8',
-};
-
-const ALERT_COLOR = '#ef4444';
-const DEFAULT_LINE_COLOR = '#14b8a6';
-const DEFAULT_POINT_FILL = '#f8fafc';
-const DEFAULT_POINT_STROKE = '#0f766e';
-const SKELETON_LINE_STROKE_WIDTH = 4;
-
-const HEAD_LANDMARKS = new Set([0, 1, 2, 3, 4, 5, 6, 7, 8, 9, 10]);
-const LEFT_ARM_LANDMARKS = new Set([11, 13, 15, 17, 19, 21]);
-const RIGHT_ARM_LANDMARKS = new Set([12, 14, 16, 18, 20, 22]);
-const LEFT_LEG_LANDMARKS = new Set([23, 25, 27, 29, 31]);
-const RIGHT_LEG_LANDMARKS = new Set([24, 26, 28, 30, 32]);
-const ANGLE_LIMB_MAP: Record<PoseAngleMetricId, LimbKey> = {
-  'left-knee': 'leftLeg',
-  'right-knee': 'rightLeg',
-  'left-hip': 'leftLeg',
-  'right-hip': 'rightLeg',
-  'left-elbow': 'leftArm',
-  'right-elbow': 'rightArm',
-};
-
-const connectionKey = (a: number, b: number) => (a < b ? `${a}-${b}` : `${b}-${a}`);
-
-const CONNECTION_LIMB_MAP: Record<string, LimbKey> = {
-  [connectionKey(0, 1)]: 'head',
-  [connectionKey(1, 2)]: 'head',
-  [connectionKey(2, 3)]: 'head',
-  [connectionKey(3, 7)]: 'head',
-  [connectionKey(0, 4)]: 'head',
-  [connectionKey(4, 5)]: 'head',
-  [connectionKey(5, 6)]: 'head',
-  [connectionKey(6, 8)]: 'head',
-  [connectionKey(9, 10)]: 'head',
-  [connectionKey(11, 12)]: 'torso',
-  [connectionKey(11, 23)]: 'torso',
-  [connectionKey(12, 24)]: 'torso',
-  [connectionKey(23, 24)]: 'torso',
-  [connectionKey(11, 13)]: 'leftArm',
-  [connectionKey(13, 15)]: 'leftArm',
-  [connectionKey(15, 17)]: 'leftArm',
-  [connectionKey(15, 19)]: 'leftArm',
-  [connectionKey(15, 21)]: 'leftArm',
-  [connectionKey(17, 19)]: 'leftArm',
-  [connectionKey(12, 14)]: 'rightArm',
-  [connectionKey(14, 16)]: 'rightArm',
-  [connectionKey(16, 18)]: 'rightArm',
-  [connectionKey(16, 20)]: 'rightArm',
-  [connectionKey(16, 22)]: 'rightArm',
-  [connectionKey(18, 20)]: 'rightArm',
-  [connectionKey(23, 25)]: 'leftLeg',
-  [connectionKey(25, 27)]: 'leftLeg',
-  [connectionKey(27, 29)]: 'leftLeg',
-  [connectionKey(29, 31)]: 'leftLeg',
-  [connectionKey(27, 31)]: 'leftLeg',
-  [connectionKey(24, 26)]: 'rightLeg',
-  [connectionKey(26, 28)]: 'rightLeg',
-  [connectionKey(28, 30)]: 'rightLeg',
-  [connectionKey(30, 32)]: 'rightLeg',
-  [connectionKey(28, 32)]: 'rightLeg',
-};
-
-interface Rgb {
-  r: number;
-  g: number;
-  b: number;
-}
-
-const hexToRgb = (hex: string): Rgb => {
-  const clean = hex.replace('#', '').trim();
-  const full = clean.length === 3
-    ? clean.split('').map((ch) => `${ch}${ch}`).join('')
-    : clean;
-  const parsed = Number.parseInt(full, 16);
-  if (!Number.isFinite(parsed)) {
-    return { r: 255, g: 255, b: 255 };
-  }
-  return {
-    r: (parsed >> 16) & 255,
-    g: (parsed >> 8) & 255,
-    b: parsed & 255,
-  };
-};
-
-const toHex = (value: number) => Math.round(clamp01(value / 255) * 255).toString(16).padStart(2, '0');
-
-const blendHexColor = (startHex: string, endHex: string, amount: number) => {
-  const t = clamp01(amount);
-  const start = hexToRgb(startHex);
-  const end = hexToRgb(endHex);
-  const r = start.r + (end.r - start.r) * t;
-  const g = start.g + (end.g - start.g) * t;
-  const b = start.b + (end.b - start.b) * t;
-  return `#${toHex(r)}${toHex(g)}${toHex(b)}`;
-};
-
-const getPointLimb = (index: number): LimbKey | null => {
-  if (LEFT_ARM_LANDMARKS.has(index)) return 'leftArm';
-  if (RIGHT_ARM_LANDMARKS.has(index)) return 'rightArm';
-  if (LEFT_LEG_LANDMARKS.has(index)) return 'leftLeg';
-  if (RIGHT_LEG_LANDMARKS.has(index)) return 'rightLeg';
-  if (HEAD_LANDMARKS.has(index)) return 'head';
-  return null;
-};
-
-const getConnectionLimb = (fromIndex: number, toIndex: number): LimbKey | null =>
-  CONNECTION_LIMB_MAP[connectionKey(fromIndex, toIndex)] ?? null;
-
-const hasVisibility = (point: ProjectedPoint | undefined, threshold = 0.1): point is ProjectedPoint =>
-  Boolean(point && point.visibility >= threshold);
-
-const computeAngleDegrees = (
-  a: ProjectedPoint | undefined,
-  b: ProjectedPoint | undefined,
-  c: ProjectedPoint | undefined
-) => {
-  if (!hasVisibility(a) || !hasVisibility(b) || !hasVisibility(c)) return null;
-  const baX = a.x - b.x;
-  const baY = a.y - b.y;
-  const bcX = c.x - b.x;
-  const bcY = c.y - b.y;
-  const dot = baX * bcX + baY * bcY;
-  const magBA = Math.hypot(baX, baY);
-  const magBC = Math.hypot(bcX, bcY);
-  if (magBA < 1e-5 || magBC < 1e-5) return null;
-  const cosAngle = Math.max(-1, Math.min(1, dot / (magBA * magBC)));
-  return Math.acos(cosAngle) * (180 / Math.PI);
-};
-
-const computeLegSpreadDegrees = (pose: ProjectedPoint[]) => {
-  const leftHip = pose[23];
-  const rightHip = pose[24];
-  const leftKnee = pose[25];
-  const rightKnee = pose[26];
-  if (!hasVisibility(leftHip) || !hasVisibility(rightHip) || !hasVisibility(leftKnee) || !hasVisibility(rightKnee)) {
-    return null;
-  }
-
-  const pelvis = {
-    x: (leftHip.x + rightHip.x) / 2,
-    y: (leftHip.y + rightHip.y) / 2,
-    visibility: Math.min(leftHip.visibility, rightHip.visibility),
-  };
-  return computeAngleDegrees(leftKnee, pelvis, rightKnee);
-};
-
-const computeTorsoLeanDegrees = (pose: ProjectedPoint[]) => {
-  const leftShoulder = pose[11];
-  const rightShoulder = pose[12];
-  const leftHip = pose[23];
-  const rightHip = pose[24];
-  if (!hasVisibility(leftShoulder) || !hasVisibility(rightShoulder) || !hasVisibility(leftHip) || !hasVisibility(rightHip)) {
-    return null;
-  }
-  const shoulderMidX = (leftShoulder.x + rightShoulder.x) / 2;
-  const shoulderMidY = (leftShoulder.y + rightShoulder.y) / 2;
-  const hipMidX = (leftHip.x + rightHip.x) / 2;
-  const hipMidY = (leftHip.y + rightHip.y) / 2;
-  const dx = shoulderMidX - hipMidX;
-  const dy = hipMidY - shoulderMidY;
-  return Math.abs(Math.atan2(dx, dy) * (180 / Math.PI));
-};
-
-const computeBandStrain = (angleDeg: number | null, minSafeDeg: number, maxSafeDeg: number) => {
-  if (angleDeg === null) return 0;
-  if (angleDeg < minSafeDeg) {
-    return clamp01((minSafeDeg - angleDeg) / Math.max(1, minSafeDeg));
-  }
-  if (angleDeg > maxSafeDeg) {
-    return clamp01((angleDeg - maxSafeDeg) / Math.max(1, 180 - maxSafeDeg));
-  }
-  return 0;
-};
-
-const computeUpperStrain = (value: number | null, startDeg: number, maxDeg: number) => {
-  if (value === null) return 0;
-  if (value <= startDeg) return 0;
-  return clamp01((value - startDeg) / Math.max(1, maxDeg - startDeg));
-};
-
-const computeLimbStrain = (pose: ProjectedPoint[]): Record<LimbKey, number> => {
-  const leftElbow = computeAngleDegrees(pose[11], pose[13], pose[15]);
-  const rightElbow = computeAngleDegrees(pose[12], pose[14], pose[16]);
-  const leftHip = computeAngleDegrees(pose[11], pose[23], pose[25]);
-  const rightHip = computeAngleDegrees(pose[12], pose[24], pose[26]);
-  const leftKnee = computeAngleDegrees(pose[23], pose[25], pose[27]);
-  const rightKnee = computeAngleDegrees(pose[24], pose[26], pose[28]);
-  const legSpread = computeLegSpreadDegrees(pose);
-  const torsoLean = computeTorsoLeanDegrees(pose);
-
-  const leftArmStrain = computeBandStrain(leftElbow, 30, 165);
-  const rightArmStrain = computeBandStrain(rightElbow, 30, 165);
-  const leftHipStrain = computeBandStrain(leftHip, 50, 165);
-  const rightHipStrain = computeBandStrain(rightHip, 50, 165);
-  const leftKneeStrain = computeBandStrain(leftKnee, 30, 170);
-  const rightKneeStrain = computeBandStrain(rightKnee, 30, 170);
-  const spreadStrain = computeUpperStrain(legSpread, 75, 135);
-  const torsoLeanStrain = computeUpperStrain(torsoLean, 20, 45);
-
-  return {
-    leftArm: leftArmStrain,
-    rightArm: rightArmStrain,
-    leftLeg: Math.max(leftHipStrain, leftKneeStrain, spreadStrain),
-    rightLeg: Math.max(rightHipStrain, rightKneeStrain, spreadStrain),
-    torso: Math.max((leftHipStrain + rightHipStrain) / 2, spreadStrain, torsoLeanStrain),
-    head: torsoLeanStrain * 0.6,
-  };
-};
-
-const getLimbColor = (limb: LimbKey, strain: number) =>
-  blendHexColor(LIMB_BASE_COLORS[limb], ALERT_COLOR, strain);
-
+import {
+  DEFAULT_LINE_COLOR,
+  DEFAULT_POINT_FILL,
+  DEFAULT_POINT_STROKE,
+  POSE_CONNECTIONS,
+  SKELETON_LINE_STROKE_WIDTH,
+  blendHexColor,
+  computeLimbStrain,
+  getAngleLimb,
+  getConnectionLimb,
+  getLimbColor,
+  getPointLimb,
+  type LimbKey,
+} from '@/lib/pose/pose-skeleton';
+import type { StrainRuleSet } from '@/lib/pose/pose-strain-rules';
 
 interface PoseOverlayProps {
   enabled: boolean;
@@ -276,12 +68,18 @@ interface PoseOverlayProps {
   showCoGCharts: boolean;
   visibleAngles: PoseAngleSelectionMap;
   plottedAngles: PoseAngleSelectionMap;
+  /** Landmark triplets measured and charted after the built-in angles */
+  customAngles: CustomPoseAngle[];
+  showAngleRateCharts: boolean;
+  /** Whole-clip angular rates from the cached analysis; rate charts stay hidden without it */
+  angleKinematics: PoseAngleKinematics | null;
   showBodyLean: boolean;
   showJumpHeight: boolean;
   labelScale: number;
   minPoseDetectionConfidence: number;
   minPosePresenceConfidence: number;
   minTrackingConfidence: number;
+  strainRules: StrainRuleSet;
 }
 
 interface ProjectedPoint {
@@ -438,18 +236,27 @@ const ANGLE_CHART_WINDOW_MS = 8000;
 const ANGLE_CHART_WIDTH = 260;
 const ANGLE_CHART_HEIGHT = 96;
 
-const createEmptyAngleValueMap = (): AngleValueMap =>
-  Object.fromEntries(POSE_ANGLE_METRICS.map((metric) => [metric.id, null])) as AngleValueMap;
+const ANGLE_RATE_CHARTS: Array<{ quantity: AngleRateQuantity; title: string }> = [
+  { quantity: 'velocity', title: 'Angular Velocity' },
+  { quantity: 'acceleration', title: 'Angular Acceleration' },
+];
 
-const areAngleValueMapsEqual = (a: AngleValueMap, b: AngleValueMap) =>
-  POSE_ANGLE_METRICS.every((metric) => {
-    const aValue = a[metric.id];
-    const bValue = b[metric.id];
-    if (aValue === null || bValue === null) {
+const createEmptyAngleValueMap = (metrics: PoseAngleMetricDefinition[]): AngleValueMap =>
+  Object.fromEntries(metrics.map((metric) => [metric.id, null])) as AngleValueMap;
+
+// Maps built for different metric lists (a custom angle was added or removed) never match.
+const areAngleValueMapsEqual = (a: AngleValueMap, b: AngleValueMap) => {
+  const ids = Object.keys(a) as PoseAngleMetricId[];
+  if (ids.length !== Object.keys(b).length) return false;
+  return ids.every((id) => {
+    const aValue = a[id];
+    const bValue = b[id];
+    if (aValue === null || bValue === null || aValue === undefined || bValue === undefined) {
       return aValue === bValue;
     }
     return Math.abs(aValue - bValue) < 1e-4;
   });
+};
 
 const buildLeanSeriesPath = (
   samples: LeanSample[],
@@ -498,7 +305,9 @@ const buildLeanSeriesPath = (
 
 const buildAngleSeriesPaths = (
   samples: AngleSample[],
+  metrics: PoseAngleMetricDefinition[],
   plottedMetricIds: PoseAngleMetricId[],
+  range: { min: number; max: number },
   width: number,
   height: number
 ): AngleSeriesPath[] | null => {
@@ -509,7 +318,7 @@ const buildAngleSeriesPaths = (
   const rangeT = Math.max(1, end - start);
 
   return plottedMetricIds.map((metricId) => {
-    const metric = POSE_ANGLE_METRICS.find((item) => item.id === metricId);
+    const metric = metrics.find((item) => item.id === metricId);
     const segments: string[] = [];
     let currentSegment: string[] = [];
 
@@ -524,7 +333,8 @@ const buildAngleSeriesPaths = (
       }
 
       const tx = ((sample.tMs - start) / rangeT) * width;
-      const ty = height - (Math.max(0, Math.min(180, value as number)) / 180) * height;
+      const clamped = Math.max(range.min, Math.min(range.max, value as number));
+      const ty = height - ((clamped - range.min) / (range.max - range.min)) * height;
       currentSegment.push(`${tx.toFixed(2)},${ty.toFixed(2)}`);
     });
 
@@ -544,6 +354,141 @@ const buildAngleSeriesPaths = (
   });
 };
 
+// Rounds up to 1, 2 or 5 × 10^n so rate axes get readable ticks.
+const toNiceCeiling = (value: number) => {
+  const magnitude = 10 ** Math.floor(Math.log10(value));
+  const step = [1, 2, 5, 10].find((factor) => factor * magnitude >= value) ?? 10;
+  return step * magnitude;
+};
+
+const buildAngleRateSamples = (
+  kinematics: PoseAngleKinematics,
+  quantity: AngleRateQuantity,
+  plottedMetricIds: PoseAngleMetricId[],
+  endMs: number
+): AngleSample[] => {
+  const seriesById = new Map(kinematics.series.map((series) => [series.id, series]));
+  const startMs = endMs - ANGLE_CHART_WINDOW_MS;
+  return kinematics.timesMs.flatMap((tMs, index) => {
+    if (tMs < startMs || tMs > endMs) return [];
+    const values = Object.fromEntries(
+      plottedMetricIds.map((id) => [id, seriesById.get(id)?.[quantity][index] ?? null])
+    ) as AngleValueMap;
+    return [{ tMs, values }];
+  });
+};
+
+/** Symmetric around zero, sized to the largest rate in the window. */
+const getAngleRateChartRange = (samples: AngleSample[], plottedMetricIds: PoseAngleMetricId[]) => {
+  let peak = 1;
+  samples.forEach((sample) => {
+    plottedMetricIds.forEach((id) => {
+      const value = sample.values[id];
+      if (Number.isFinite(value)) peak = Math.max(peak, Math.abs(value as number));
+    });
+  });
+  const max = toNiceCeiling(peak);
+  return { min: -max, max };
+};
+
+interface AngleSeriesChartProps {
+  title: string;
+  series: AngleSeriesPath[];
+  range: { min: number; max: number };
+  valueSuffix: string;
+  titleFontSize: number;
+  axisFontSize: number;
+  valueFontSize: number;
+}
+
+function AngleSeriesChart({
+  title,
+  series,
+  range,
+  valueSuffix,
+  titleFontSize,
+  axisFontSize,
+  valueFontSize,
+}: AngleSeriesChartProps) {
+  const ticks = [range.max, (range.min + range.max) / 2, range.min];
+  const toY = (value: number) => ANGLE_CHART_HEIGHT - ((value - range.min) / (range.max - range.min)) * ANGLE_CHART_HEIGHT;
+
+  return (
+    <div className="rounded-md border border-white/15 bg-black/45 p-2 backdrop-blur-sm">
+      <div
+        className="mb-1 font-semibold uppercase tracking-[0.08em] text-white/90"
+        style={{ fontSize: `${titleFontSize}px` }}
+      >
+        {title} ({(ANGLE_CHART_WINDOW_MS / 1000).toFixed(0)}s window)
+      </div>
+      <div className="mb-2 flex flex-wrap gap-x-3 gap-y-1">
+        {series.map((item) => (
+          <div
+            key={`angle-series-${item.id}`}
+            className="inline-flex items-center gap-1.5 text-white/85"
+            style={{ fontSize: `${valueFontSize}px` }}
+          >
+            <span
+              className="inline-block h-2 w-2 rounded-full"
+              style={{ backgroundColor: item.color }}
+            />
+            <span className="font-medium">{item.label}</span>
+            <span className="text-white/70">
+              {item.latest !== null ? `${item.latest.toFixed(0)}${valueSuffix}` : '--'}
+            </span>
+          </div>
+        ))}
+      </div>
+      <div className="flex items-center gap-2">
+        <div
+          className="flex h-[96px] w-9 flex-col justify-between text-right font-semibold text-white/70"
+          style={{ fontSize: `${axisFontSize}px` }}
+        >
+          {ticks.map((value) => (
+            <span key={`angle-tick-${value}`}>{Math.round(value)}</span>
+          ))}
+        </div>
+        <svg width={ANGLE_CHART_WIDTH} height={ANGLE_CHART_HEIGHT} className="rounded-sm bg-black/45">
+          {ticks.map((value, index) => (
+            <line
+              key={`angle-grid-${value}`}
+              x1={0}
+              y1={toY(value)}
+              x2={ANGLE_CHART_WIDTH}
+              y2={toY(value)}
+              stroke="rgba(255,255,255,0.14)"
+              strokeDasharray={index === 1 ? '3 3' : '2 4'}
+            />
+          ))}
+          {range.min < 0 && (
+            // Zero line for signed segment orientations and rates.
+            <line
+              x1={0}
+              y1={toY(0)}
+              x2={ANGLE_CHART_WIDTH}
+              y2={toY(0)}
+              stroke="rgba(255,255,255,0.32)"
+            />
+          )}
+          {series.map((item) =>
+            item.d ? (
+              <path
+                key={`angle-path-${item.id}`}
+                d={item.d}
+                fill="none"
+                stroke={item.color}
+                strokeWidth={1.8}
+                strokeLinecap="round"
+                strokeLinejoin="round"
+              />
+            ) : null
+          )}
+        </svg>
+      </div>
+    </div>
+  );
+}
+
 export default function PoseOverlay({
   enabled,
   videoElement,
@@ -564,12 +509,16 @@ export default function PoseOverlay({
   showCoGCharts,
   visibleAngles,
   plottedAngles,
+  customAngles,
+  showAngleRateCharts,
+  angleKinematics,
   showBodyLean,
   showJumpHeight,
   labelScale,
   minPoseDetectionConfidence,
   minPosePresenceConfidence,
   minTrackingConfidence,
+  strainRules,
 }: PoseOverlayProps) {
   const svgRef = useRef<SVGSVGElement | null>(null);
   const jumpHeightStateRef = useRef<JumpHeightState>(createJumpHeightState());
@@ -646,8 +595,8 @@ export default function PoseOverlay({
     [projectedPoses, renderAllYoloPoses, selectedPose]
   );
   const poseStrainProfiles = useMemo(
-    () => posesToRender.map((pose) => computeLimbStrain(pose)),
-    [posesToRender]
+    () => posesToRender.map((pose) => computeLimbStrain(pose, strainRules)),
+    [posesToRender, strainRules]
   );
   const selectedStrain = poseStrainProfiles[0] ?? null;
   const selectedBox = selectedPose
@@ -659,16 +608,21 @@ export default function PoseOverlay({
       .filter((box): box is PoseBox => box !== null)
     : [];
   const drawPose = posesToRender.length > 0;
+  const angleMetrics = useMemo(() => getPoseAngleMetrics(customAngles), [customAngles]);
   const visibleAngleIds = useMemo(
-    () => POSE_ANGLE_METRICS.filter((metric) => visibleAngles[metric.id]).map((metric) => metric.id),
-    [visibleAngles]
+    () => angleMetrics.filter((metric) => visibleAngles[metric.id]).map((metric) => metric.id),
+    [angleMetrics, visibleAngles]
   );
   const plottedAngleIds = useMemo(
-    () => POSE_ANGLE_METRICS.filter((metric) => plottedAngles[metric.id]).map((metric) => metric.id),
-    [plottedAngles]
+    () => angleMetrics.filter((metric) => plottedAngles[metric.id]).map((metric) => metric.id),
+    [angleMetrics, plottedAngles]
   );
   const hasVisibleAngles = visibleAngleIds.length > 0;
   const hasPlottedAngles = plottedAngleIds.length > 0;
+  const hasSegmentAngles = useMemo(
+    () => visibleAngleIds.some(isSegmentAngleMetricId) || plottedAngleIds.some(isSegmentAngleMetricId),
+    [plottedAngleIds, visibleAngleIds]
+  );
   const visibleLandmarkCount = selectedPose
     ? selectedPose.filter((point) => point.visibility >= minVisibility).length
     : 0;
@@ -680,13 +634,14 @@ export default function PoseOverlay({
     () => ((showCoG || showJumpHeight) && selectedPose ? computeCoG(selectedPose) : null),
     [selectedPose, showCoG, showJumpHeight]
   );
-  const computedJointAngles = useMemo(
-    () => (selectedPose && (hasVisibleAngles || hasPlottedAngles) ? computeJointAngles(selectedPose) : []),
-    [hasPlottedAngles, hasVisibleAngles, selectedPose]
-  );
+  const computedJointAngles = useMemo(() => {
+    if (!selectedPose || (!hasVisibleAngles && !hasPlottedAngles)) return [];
+    const angles = computeJointAngles(selectedPose, customAngles);
+    return hasSegmentAngles ? [...angles, ...computeSegmentAngles(selectedPose)] : angles;
+  }, [customAngles, hasPlottedAngles, hasSegmentAngles, hasVisibleAngles, selectedPose]);
   const jointAngleMap = useMemo(() => {
     const mapped = Object.fromEntries(
-      POSE_ANGLE_METRICS.map((metric) => [metric.id, null])
+      angleMetrics.map((metric) => [metric.id, null])
     ) as Record<PoseAngleMetricId, JointAngle | null>;
 
     computedJointAngles.forEach((angle) => {
@@ -695,7 +650,7 @@ export default function PoseOverlay({
     });
 
     return mapped;
-  }, [computedJointAngles, minVisibility]);
+  }, [angleMetrics, computedJointAngles, minVisibility]);
   const jointAngles = useMemo(
     () =>
       visibleAngleIds
@@ -704,12 +659,12 @@ export default function PoseOverlay({
     [jointAngleMap, visibleAngleIds]
   );
   const currentAngleValues = useMemo(() => {
-    const values = createEmptyAngleValueMap();
-    POSE_ANGLE_METRICS.forEach((metric) => {
+    const values = createEmptyAngleValueMap(angleMetrics);
+    angleMetrics.forEach((metric) => {
       values[metric.id] = jointAngleMap[metric.id]?.degrees ?? null;
     });
     return values;
-  }, [jointAngleMap]);
+  }, [angleMetrics, jointAngleMap]);
   const bodyLean = useMemo(
     () => ((showBodyLean || showCoGCharts) && selectedPose ? computeBodyLean(selectedPose) : null),
     [selectedPose, showBodyLean, showCoGCharts]
@@ -736,10 +691,30 @@ export default function PoseOverlay({
     () => buildLeanSeriesPath(leanSamples, BODY_LEAN_CHART_WIDTH, BODY_LEAN_CHART_HEIGHT),
     [leanSamples]
   );
+  const angleChartRange = useMemo(
+    () => getAngleChartRange(angleMetrics.filter((metric) => plottedAngleIds.includes(metric.id))),
+    [angleMetrics, plottedAngleIds]
+  );
   const angleChartSeries = useMemo(
-    () => buildAngleSeriesPaths(angleSamples, plottedAngleIds, ANGLE_CHART_WIDTH, ANGLE_CHART_HEIGHT),
-    [angleSamples, plottedAngleIds]
+    () => buildAngleSeriesPaths(
+      angleSamples,
+      angleMetrics,
+      plottedAngleIds,
+      angleChartRange,
+      ANGLE_CHART_WIDTH,
+      ANGLE_CHART_HEIGHT
+    ),
+    [angleChartRange, angleMetrics, angleSamples, plottedAngleIds]
   );
+  const angleRateCharts = useMemo(() => {
+    if (!showAngleRateCharts || !angleKinematics || !hasPlottedAngles || !Number.isFinite(mediaTimeMs)) return [];
+    return ANGLE_RATE_CHARTS.flatMap(({ quantity, title }) => {
+      const samples = buildAngleRateSamples(angleKinematics, quantity, plottedAngleIds, mediaTimeMs);
+      const range = getAngleRateChartRange(samples, plottedAngleIds);
+      const series = buildAngleSeriesPaths(samples, angleMetrics, plottedAngleIds, range, ANGLE_CHART_WIDTH, ANGLE_CHART_HEIGHT);
+      return series ? [{ quantity, title, range, series }] : [];
+    });
+  }, [angleKinematics, angleMetrics, hasPlottedAngles, mediaTimeMs, plottedAngleIds, showAngleRateCharts]);
 
   useEffect(() => {
     if (!enabled) {
@@ -902,7 +877,7 @@ export default function PoseOverlay({
                   : Math.max(0.35, Math.min(1, Math.min(from.visibility, to.visibility)));
                 const limb = getConnectionLimb(fromIndex, toIndex);
                 const limbStrain = limb && strainProfile ? strainProfile[limb] : 0;
-                const strokeColor = limb ? getLimbColor(limb, limbStrain) : DEFAULT_LINE_COLOR;
+                const strokeColor = limb ? getLimbColor(limb, limbStrain, strainRules) : DEFAULT_LINE_COLOR;
                 return (
                   <line
                     key={`pose-${poseIndex}-${fromIndex}-${toIndex}`}
@@ -931,7 +906,7 @@ export default function PoseOverlay({
                   : 1;
                 const limb = getPointLimb(index);
                 const limbStrain = limb && strainProfile ? strainProfile[limb] : 0;
-                const fillColor = limb ? getLimbColor(limb, limbStrain) : DEFAULT_POINT_FILL;
+                const fillColor = limb ? getLimbColor(limb, limbStrain, strainRules) : DEFAULT_POINT_FILL;
                 const strokeColor = limb
                   ? blendHexColor(fillColor, '#020617', 0.28)
                   : DEFAULT_POINT_STROKE;
@@ -995,9 +970,9 @@ export default function PoseOverlay({
         {/* ── Joint Angles ── */}
         {jointAngles.map((angle) => {
           const labelPos = getAngleLabelPosition(angle, arcRadius / scale);
-          const angleLimb: LimbKey | null = ANGLE_LIMB_MAP[angle.id] ?? null;
+          const angleLimb = getAngleLimb(angle);
           const angleColor = angleLimb && selectedStrain
-            ? getLimbColor(angleLimb, selectedStrain[angleLimb])
+            ? getLimbColor(angleLimb, selectedStrain[angleLimb], strainRules)
             : 'rgba(255,255,255,0.85)';
           return (
             <g key={angle.id}>
@@ -1114,7 +1089,8 @@ export default function PoseOverlay({
       </svg>
 
       {((showCoGCharts && leanSamples.length >= 2 && leanChartSeries) ||
-        (hasPlottedAngles && angleSamples.length >= 2 && angleChartSeries)) ? (
+        (hasPlottedAngles && angleSamples.length >= 2 && angleChartSeries) ||
+        angleRateCharts.length > 0) ? (
         <div className="absolute right-2 top-14 flex w-[320px] flex-col gap-2">
           {showCoGCharts && leanSamples.length >= 2 && leanChartSeries ? (
             <div className="rounded-md border border-white/15 bg-black/45 p-2 backdrop-blur-sm">
@@ -1164,72 +1140,29 @@ export default function PoseOverlay({
           ) : null}
 
           {hasPlottedAngles && angleSamples.length >= 2 && angleChartSeries ? (
-            <div className="rounded-md border border-white/15 bg-black/45 p-2 backdrop-blur-sm">
-              <div
-                className="mb-1 font-semibold uppercase tracking-[0.08em] text-white/90"
-                style={{ fontSize: `${chartTitleFontSize}px` }}
-              >
-                Joint Angles vs Time ({(ANGLE_CHART_WINDOW_MS / 1000).toFixed(0)}s window)
-              </div>
-              <div className="mb-2 flex flex-wrap gap-x-3 gap-y-1">
-                {angleChartSeries.map((series) => (
-                  <div
-                    key={`angle-series-${series.id}`}
-                    className="inline-flex items-center gap-1.5 text-white/85"
-                    style={{ fontSize: `${chartValueFontSize}px` }}
-                  >
-                    <span
-                      className="inline-block h-2 w-2 rounded-full"
-                      style={{ backgroundColor: series.color }}
-                    />
-                    <span className="font-medium">{series.label}</span>
-                    <span className="text-white/70">
-                      {series.latest !== null ? `${series.latest.toFixed(0)}°` : '--'}
-                    </span>
-                  </div>
-                ))}
-              </div>
-              <div className="flex items-center gap-2">
-                <div
-                  className="flex h-[96px] w-9 flex-col justify-between text-right font-semibold text-white/70"
-                  style={{ fontSize: `${chartAxisFontSize}px` }}
-                >
-                  <span>180</span>
-                  <span>90</span>
-                  <span>0</span>
-                </div>
-                <svg width={ANGLE_CHART_WIDTH} height={ANGLE_CHART_HEIGHT} className="rounded-sm bg-black/45">
-                  {[0, 90, 180].map((value) => {
-                    const y = ANGLE_CHART_HEIGHT - (value / 180) * ANGLE_CHART_HEIGHT;
-                    return (
-                      <line
-                        key={`angle-grid-${value}`}
-                        x1={0}
-                        y1={y}
-                        x2={ANGLE_CHART_WIDTH}
-                        y2={y}
-                        stroke="rgba(255,255,255,0.14)"
-                        strokeDasharray={value === 90 ? '3 3' : '2 4'}
-                      />
-                    );
-                  })}
-                  {angleChartSeries.map((series) =>
-                    series.d ? (
-                      <path
-                        key={`angle-path-${series.id}`}
-                        d={series.d}
-                        fill="none"
-                        stroke={series.color}
-                        strokeWidth={1.8}
-                        strokeLinecap="round"
-                        strokeLinejoin="round"
-                      />
-                    ) : null
-                  )}
-                </svg>
-              </div>
-            </div>
+            <AngleSeriesChart
+              title="Angles vs Time"
+              series={angleChartSeries}
+              range={angleChartRange}
+              valueSuffix="°"
+              titleFontSize={chartTitleFontSize}
+              axisFontSize={chartAxisFontSize}
+              valueFontSize={chartValueFontSize}
+            />
           ) : null}
+
+          {angleRateCharts.map((chart) => (
+            <AngleSeriesChart
+              key={chart.quantity}
+              title={`${chart.title} vs Time`}
+              series={chart.series}
+              range={chart.range}
+              valueSuffix={ANGLE_RATE_UNITS[chart.quantity]}
+              titleFontSize={chartTitleFontSize}
+              axisFontSize={chartAxisFontSize}
+              valueFontSize={chartValueFontSize}
+            />
+          ))}
         </div>
       ) : null}
 
@@ -1251,8 +1184,8 @@ export default function PoseOverlay({
               <div className="mt-1 flex flex-wrap items-center gap-x-2 gap-y-1 text-white/90" style={{ fontSize: `${hudFontSize}px` }}>
                 {limbLegendItems.map((item) => {
                   const color = selectedStrain
-                    ? getLimbColor(item.limb, selectedStrain[item.limb])
-                    : LIMB_BASE_COLORS[item.limb];
+                    ? getLimbColor(item.limb, selectedStrain[item.limb], strainRules)
+                    : strainRules.limbColors[item.limb];
                   return (
                     <span key={`legend-${item.limb}`} className="inline-flex items-center gap-1">
                       <span
@@ -0,0 +1,188 @@
+'use client';
+
+import { useEffect, useRef, useState } from 'react';
+import { Download, Loader2, Upload } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Input } from '@/components/ui/input';
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogDescription,
+} from '@/components/ui/dialog';
+import { useAppContext } from '@/contexts/app-context';
+import { useToast } from '@/hooks/use-toast';
+import {
+  PROJECT_BUNDLE_EXTENSION,
+  describeProjectBundleImport,
+  exportProjectBundle,
+} from '@/lib/project-bundle';
+
+interface ProjectBundleDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  /** Clips pre-selected for export when the dialog opens */
+  initialSelectedIds?: string[];
+}
+
+const formatSize = (bytes: number) => `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+
+export function ProjectBundleDialog({ open, onOpenChange, initialSelectedIds }: ProjectBundleDialogProps) {
+  const { library, importProjectBundle } = useAppContext();
+  const { toast } = useToast();
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
+  const [bundleName, setBundleName] = useState('');
+  const [busy, setBusy] = useState<'export' | 'import' | null>(null);
+  const fileInputRef = useRef<HTMLInputElement | null>(null);
+  const selectedVideos = library.filter((video) => selectedIds.has(video.id));
+  const selectedBytes = selectedVideos.reduce((sum, video) => sum + video.blob.size, 0);
+  const allSelected = library.length > 0 && selectedVideos.length === library.length;
+
+  useEffect(() => {
+    if (!open) return;
+    setSelectedIds(new Set(initialSelectedIds));
+    setBundleName(`Project ${new Date().toLocaleDateString()}`);
+  }, [initialSelectedIds, open]);
+
+  const handleOpenChange = (next: boolean) => {
+    if (busy) return;
+    onOpenChange(next);
+  };
+
+  const toggleVideo = (id: string, checked: boolean) => {
+    setSelectedIds(prev => {
+      const next = new Set(prev);
+      if (checked) next.add(id);
+      else next.delete(id);
+      return next;
+    });
+  };
+
+  const handleExport = async () => {
+    setBusy('export');
+    try {
+      await exportProjectBundle(selectedVideos, bundleName);
+      toast({
+        title: 'Bundle exported',
+        description: `${selectedVideos.length} clip${selectedVideos.length === 1 ? '' : 's'} with pose data, drawings and markers.`,
+      });
+    } catch (error) {
+      console.error('Project bundle export failed', error);
+      toast({ title: 'Error', description: 'Could not export the project bundle.', variant: 'destructive' });
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  const handleImport = async (file: File) => {
+    setBusy('import');
+    try {
+      const result = await importProjectBundle(file);
+      toast({ title: 'Bundle imported', description: describeProjectBundleImport(result) });
+      onOpenChange(false);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : 'Unknown import error.';
+      toast({ title: 'Import failed', description: message, variant: 'destructive' });
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogContent className="w-[calc(100%-0.5rem)] sm:max-w-[440px] bg-card border-none shadow-2xl p-3 sm:p-6 rounded-md sm:rounded-lg">
+        <DialogHeader className="space-y-1">
+          <DialogTitle className="font-headline text-2xl tracking-tight text-foreground">Project Bundle</DialogTitle>
+          <DialogDescription className="text-muted-foreground">
+            Packs clips with their pose analysis, drawings and markers into one file. Importing a bundle keeps
+            anything that already exists locally and only adds what is missing.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-3">
+          <div className="flex items-center justify-between">
+            <label className="flex items-center gap-2 text-xs font-medium text-foreground">
+              <Checkbox
+                checked={allSelected}
+                onCheckedChange={(checked) =>
+                  setSelectedIds(checked === true ? new Set(library.map((video) => video.id)) : new Set())
+                }
+                disabled={library.length === 0}
+              />
+              Select all
+            </label>
+            <span className="text-[11px] text-muted-foreground">
+              {`${selectedVideos.length} selected · ${formatSize(selectedBytes)}`}
+            </span>
+          </div>
+
+          <div className="max-h-56 space-y-1 overflow-y-auto rounded-md border border-border/60 bg-secondary/30 p-1.5">
+            {library.length === 0 ? (
+              <p className="px-1 py-2 text-xs text-muted-foreground">The library is empty.</p>
+            ) : (
+              library.map((video) => (
+                <label
+                  key={video.id}
+                  className="flex cursor-pointer items-center gap-2 rounded px-1 py-1 hover:bg-secondary/60"
+                >
+                  <Checkbox
+                    checked={selectedIds.has(video.id)}
+                    onCheckedChange={(checked) => toggleVideo(video.id, checked === true)}
+                  />
+                  <div className="h-7 w-12 flex-shrink-0 overflow-hidden rounded bg-black/10">
+                    {video.thumbnail && <img src={video.thumbnail} alt="" className="h-full w-full object-cover" />}
+                  </div>
+                  <span className="min-w-0 flex-1 truncate text-xs text-foreground">{video.name}</span>
+                  <span className="text-[10px] text-muted-foreground">{formatSize(video.blob.size)}</span>
+                </label>
+              ))
+            )}
+          </div>
+
+          <Input
+            value={bundleName}
+            onChange={(e) => setBundleName(e.target.value)}
+            aria-label="Bundle file name"
+            placeholder="Bundle name"
+          />
+
+          <div className="flex justify-between gap-2">
+            <Button
+              type="button"
+              variant="outline"
+              size="sm"
+              onClick={() => fileInputRef.current?.click()}
+              disabled={busy !== null}
+            >
+              {busy === 'import' ? <Loader2 className="mr-1 h-4 w-4 animate-spin" /> : <Upload className="mr-1 h-4 w-4" />}
+              Import bundle…
+            </Button>
+            <Button
+              type="button"
+              size="sm"
+              onClick={() => void handleExport()}
+              disabled={busy !== null || selectedVideos.length === 0}
+            >
+              {busy === 'export' ? <Loader2 className="mr-1 h-4 w-4 animate-spin" /> : <Download className="mr-1 h-4 w-4" />}
+              Export
+            </Button>
+          </div>
+        </div>
+
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept={PROJECT_BUNDLE_EXTENSION}
+          className="hidden"
+          onChange={(e) => {
+            const file = e.target.files?.[0];
+            e.target.value = '';
+            if (file) void handleImport(file);
+          }}
+        />
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,177 @@
+'use client';
+
+import { useMemo } from 'react';
+import { Gauge } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import {
+  Popover,
+  PopoverContent,
+  PopoverTrigger,
+} from '@/components/ui/popover';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import { useAppContext } from '@/contexts/app-context';
+import { formatMarkerTime } from '@/lib/marker-utils';
+import {
+  ANGLE_RATE_UNITS,
+  summarizeRepKinematics,
+  type PoseAngleKinematics,
+} from '@/lib/pose/pose-angle-kinematics';
+import { REP_SIGNAL_OPTIONS, type DetectedRep, type RepSignalKind } from '@/lib/pose/pose-rep-segmentation';
+import { cn } from '@/lib/utils';
+
+interface RepKinematicsPopoverProps {
+  /** Controlled so the owner only computes `kinematics` while the popover is open */
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  kinematics: PoseAngleKinematics | null;
+  /** Null when the analysis has no usable rep signal */
+  reps: DetectedRep[] | null;
+  repSignal: RepSignalKind;
+  onRepSignalChange: (kind: RepSignalKind) => void;
+  /** Receives a media time, in seconds */
+  onSeek: (mediaTimeSec: number) => void;
+  className?: string;
+}
+
+const formatRate = (value: number | null) => (value === null ? '--' : value.toFixed(0));
+
+export default function RepKinematicsPopover({
+  open,
+  onOpenChange,
+  kinematics,
+  reps,
+  repSignal,
+  onRepSignalChange,
+  onSeek,
+  className,
+}: RepKinematicsPopoverProps) {
+  const { posePlottedAngles, poseAngleMetrics } = useAppContext();
+  const plottedMetrics = useMemo(
+    () => poseAngleMetrics.filter((metric) => posePlottedAngles[metric.id]),
+    [poseAngleMetrics, posePlottedAngles]
+  );
+  const summaries = useMemo(
+    () => (kinematics && reps ? summarizeRepKinematics(kinematics, reps, plottedMetrics.map((metric) => metric.id)) : []),
+    [kinematics, plottedMetrics, reps]
+  );
+  const metricsById = new Map(plottedMetrics.map((metric) => [metric.id, metric]));
+
+  const emptyMessage = !kinematics
+    ? 'Rep peaks need cached pose data. Process the clip first.'
+    : plottedMetrics.length === 0
+      ? 'Plot one or more angles under Pose Settings to summarise their rates per rep.'
+      : summaries.length === 0
+        ? 'No reps found with this signal.'
+        : null;
+
+  return (
+    <Popover open={open} onOpenChange={onOpenChange}>
+      <PopoverTrigger asChild>
+        <Button
+          variant="ghost"
+          size="sm"
+          className={cn(
+            'h-7 gap-1 rounded-full px-2 text-xs text-white/90 hover:text-white hover:bg-white/20',
+            className
+          )}
+          onClick={(e) => e.stopPropagation()}
+          title="Peak angular rates per rep"
+        >
+          <Gauge className="h-4 w-4" />
+          {reps && reps.length > 0 && <span className="tabular-nums">{reps.length}</span>}
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent
+        className="w-96 p-3"
+        align="end"
+        onClick={(e) => e.stopPropagation()}
+        onPointerDown={(e) => e.stopPropagation()}
+      >
+        <div className="flex items-center justify-between gap-2">
+          <p className="text-sm font-semibold">Rep Peaks</p>
+          <Select value={repSignal} onValueChange={(kind) => onRepSignalChange(kind as RepSignalKind)}>
+            <SelectTrigger className="h-7 w-36 px-2 text-xs" aria-label="Rep signal">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {REP_SIGNAL_OPTIONS.map((option) => (
+                <SelectItem key={option.kind} value={option.kind} className="text-xs">
+                  {`Reps from ${option.label.toLowerCase()}`}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <p className="mt-1 text-[10px] text-muted-foreground">
+          {`Largest angular velocity (${ANGLE_RATE_UNITS.velocity}) and acceleration (${ANGLE_RATE_UNITS.acceleration}) of each plotted angle; the sign gives the direction.`}
+        </p>
+
+        {emptyMessage ? (
+          <p className="mt-3 text-xs text-muted-foreground">{emptyMessage}</p>
+        ) : (
+          <div className="mt-3 max-h-80 space-y-2 overflow-y-auto pr-1">
+            {summaries.map((summary, index) => (
+              <div key={summary.rep.startSec} className="rounded-md border border-border/70 p-2">
+                <button
+                  type="button"
+                  className="flex w-full items-center justify-between gap-2 text-left hover:text-primary"
+                  onClick={() => onSeek(summary.rep.startSec)}
+                  title="Seek to rep"
+                >
+                  <span className="text-xs font-medium">{`Rep ${index + 1}`}</span>
+                  <span className="font-mono text-[11px] text-primary">
+                    {`${formatMarkerTime(summary.rep.startSec)} – ${formatMarkerTime(summary.rep.endSec)}`}
+                  </span>
+                </button>
+                <div className="mt-1 grid grid-cols-[1fr_auto_auto] gap-x-3 gap-y-0.5 text-[11px] tabular-nums">
+                  <span className="text-[10px] font-semibold uppercase tracking-[0.08em] text-muted-foreground/80">Angle</span>
+                  <span className="w-16 text-right text-[10px] font-semibold uppercase tracking-[0.08em] text-muted-foreground/80">
+                    {ANGLE_RATE_UNITS.velocity}
+                  </span>
+                  <span className="w-16 text-right text-[10px] font-semibold uppercase tracking-[0.08em] text-muted-foreground/80">
+                    {ANGLE_RATE_UNITS.acceleration}
+                  </span>
+                  {summary.peaks.map((peak) => {
+                    const metric = metricsById.get(peak.id);
+                    return (
+                      <div key={peak.id} className="contents">
+                        <span className="flex min-w-0 items-center gap-1.5">
+                          <span className="inline-block h-2 w-2 shrink-0 rounded-full" style={{ backgroundColor: metric?.chartColor }} />
+                          <span className="truncate">{metric?.label ?? peak.id}</span>
+                        </span>
+                        <button
+                          type="button"
+                          className="w-16 text-right hover:text-primary disabled:pointer-events-none"
+                          disabled={peak.peakVelocityMs === null}
+                          onClick={() => peak.peakVelocityMs !== null && onSeek(peak.peakVelocityMs / 1000)}
+                          title="Seek to peak velocity"
+                        >
+                          {formatRate(peak.peakVelocity)}
+                        </button>
+                        <button
+                          type="button"
+                          className="w-16 text-right hover:text-primary disabled:pointer-events-none"
+                          disabled={peak.peakAccelerationMs === null}
+                          onClick={() => peak.peakAccelerationMs !== null && onSeek(peak.peakAccelerationMs / 1000)}
+                          title="Seek to peak acceleration"
+                        >
+                          {formatRate(peak.peakAcceleration)}
+                        </button>
+                      </div>
+                    );
+                  })}
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </PopoverContent>
+    </Popover>
+  );
+}
@@ -0,0 +1,55 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { useAppContext } from '@/contexts/app-context';
+import { useToast } from '@/hooks/use-toast';
+import type { CachedPoseAnalysis } from '@/lib/pose/pose-analysis-cache';
+import type { ClipSegment, Video } from '@/types';
+import { TrimDialog } from './trim-dialog';
+
+interface SplitClipDialogProps {
+  /** Clip being split; the dialog is open while this is set */
+  video: Video | null;
+  onOpenChange: (open: boolean) => void;
+}
+
+/** Trim dialog over a library clip, with its cached pose frames loaded for rep detection. */
+export function SplitClipDialog({ video, onOpenChange }: SplitClipDialogProps) {
+  const { loadPoseAnalysisForVideo, splitVideoIntoSubClips } = useAppContext();
+  const { toast } = useToast();
+  const [poseAnalysis, setPoseAnalysis] = useState<CachedPoseAnalysis | null>(null);
+
+  useEffect(() => {
+    setPoseAnalysis(null);
+    if (!video) return;
+    let cancelled = false;
+    void loadPoseAnalysisForVideo(video).then((analysis) => {
+      if (!cancelled) setPoseAnalysis(analysis);
+    });
+    return () => {
+      cancelled = true;
+    };
+  }, [video, loadPoseAnalysisForVideo]);
+
+  const handleSave = async (segments: ClipSegment[]) => {
+    if (!video) return;
+    await splitVideoIntoSubClips(video, segments);
+    toast({
+      title: `${segments.length} Sub-clip${segments.length === 1 ? '' : 's'} Saved`,
+      description: `Cut from "${video.name}".`,
+    });
+    onOpenChange(false);
+  };
+
+  return (
+    <TrimDialog
+      open={video !== null}
+      onOpenChange={onOpenChange}
+      blob={video?.blob ?? null}
+      initialName={video?.name ?? ''}
+      initialRange={video ? [video.trimStart ?? 0, video.trimEnd ?? video.duration] : undefined}
+      poseAnalysis={poseAnalysis}
+      onSave={handleSave}
+    />
+  );
+}
@@ -0,0 +1,185 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { RotateCcw } from 'lucide-react';
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogDescription,
+} from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { useAppContext } from '@/contexts/app-context';
+import type { LimbKey } from '@/lib/pose/pose-skeleton';
+import {
+  STRAIN_ANGLE_MAX_DEG,
+  STRAIN_LIMB_LABELS,
+  STRAIN_METRICS,
+  createDefaultStrainRules,
+  normalizeStrainRules,
+  type StrainMetricId,
+  type StrainRule,
+  type StrainRuleSet,
+} from '@/lib/pose/pose-strain-rules';
+
+interface StrainRulesDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+const parseBoundInput = (value: string) => {
+  if (value.trim() === '') return null;
+  const parsed = Number(value);
+  return Number.isFinite(parsed) ? parsed : undefined;
+};
+
+export function StrainRulesDialog({ open, onOpenChange }: StrainRulesDialogProps) {
+  const { poseStrainRules, setPoseStrainRules } = useAppContext();
+  const [draft, setDraft] = useState<StrainRuleSet>(poseStrainRules);
+
+  useEffect(() => {
+    if (open) setDraft(poseStrainRules);
+  }, [open, poseStrainRules]);
+
+  const updateRule = (id: StrainMetricId, patch: Partial<StrainRule>) => {
+    setDraft((prev) => ({ ...prev, rules: { ...prev.rules, [id]: { ...prev.rules[id], ...patch } } }));
+  };
+
+  const updateBound = (id: StrainMetricId, field: 'minSafeDeg' | 'maxSafeDeg', value: string) => {
+    const parsed = parseBoundInput(value);
+    if (parsed !== undefined) updateRule(id, { [field]: parsed });
+  };
+
+  const updateRamp = (id: StrainMetricId, field: 'minRampDeg' | 'maxRampDeg', value: string) => {
+    const parsed = Number(value);
+    if (Number.isFinite(parsed)) updateRule(id, { [field]: parsed });
+  };
+
+  const handleSave = () => {
+    setPoseStrainRules(normalizeStrainRules(draft));
+    onOpenChange(false);
+  };
+
+  const numberInputClass = 'h-7 w-14 px-1.5 text-center text-xs tabular-nums';
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="w-[calc(100%-0.5rem)] max-h-[calc(100svh-0.5rem)] overflow-y-auto sm:max-w-[600px] bg-card border-none shadow-2xl p-3 sm:p-6 rounded-md sm:rounded-lg">
+        <DialogHeader className="space-y-1">
+          <DialogTitle className="font-headline text-2xl tracking-tight text-foreground">Strain Rules</DialogTitle>
+          <DialogDescription className="text-muted-foreground">
+            Limbs turn toward the alert colour as an angle leaves its safe range, reaching it at the end of the ramp.
+            Leave a bound empty to ignore it. Rules are part of settings profiles, so each athlete or sport can keep its own.
+          </DialogDescription>
+        </DialogHeader>
+
+        <section className="space-y-1">
+          <div className="grid grid-cols-[1fr_auto_auto_auto_auto] items-center gap-2 px-1 text-[10px] font-semibold uppercase tracking-[0.08em] text-muted-foreground/80">
+            <span>Metric</span>
+            <span className="w-14 text-center">Ramp</span>
+            <span className="w-14 text-center">Min °</span>
+            <span className="w-14 text-center">Max °</span>
+            <span className="w-14 text-center">Ramp</span>
+          </div>
+          {STRAIN_METRICS.map((metric) => {
+            const rule = draft.rules[metric.id];
+            return (
+              <div
+                key={metric.id}
+                className="grid grid-cols-[1fr_auto_auto_auto_auto] items-center gap-2 rounded-md border border-border/50 bg-secondary/30 px-2 py-1.5"
+              >
+                <div className="min-w-0">
+                  <p className="text-[11px] font-medium text-foreground">{metric.label}</p>
+                  <p className="truncate text-[10px] text-muted-foreground/80">{metric.description}</p>
+                </div>
+                <Input
+                  type="number"
+                  min={1}
+                  max={STRAIN_ANGLE_MAX_DEG}
+                  value={rule.minRampDeg}
+                  disabled={rule.minSafeDeg === null}
+                  onChange={(e) => updateRamp(metric.id, 'minRampDeg', e.target.value)}
+                  className={numberInputClass}
+                  aria-label={`${metric.label} ramp below minimum`}
+                />
+                <Input
+                  type="number"
+                  min={0}
+                  max={STRAIN_ANGLE_MAX_DEG}
+                  value={rule.minSafeDeg ?? ''}
+                  placeholder="–"
+                  onChange={(e) => updateBound(metric.id, 'minSafeDeg', e.target.value)}
+                  className={numberInputClass}
+                  aria-label={`${metric.label} minimum safe angle`}
+                />
+                <Input
+                  type="number"
+                  min={0}
+                  max={STRAIN_ANGLE_MAX_DEG}
+                  value={rule.maxSafeDeg ?? ''}
+                  placeholder="–"
+                  onChange={(e) => updateBound(metric.id, 'maxSafeDeg', e.target.value)}
+                  className={numberInputClass}
+                  aria-label={`${metric.label} maximum safe angle`}
+                />
+                <Input
+                  type="number"
+                  min={1}
+                  max={STRAIN_ANGLE_MAX_DEG}
+                  value={rule.maxRampDeg}
+                  disabled={rule.maxSafeDeg === null}
+                  onChange={(e) => updateRamp(metric.id, 'maxRampDeg', e.target.value)}
+                  className={numberInputClass}
+                  aria-label={`${metric.label} ramp above maximum`}
+                />
+              </div>
+            );
+          })}
+        </section>
+
+        <section className="space-y-1.5">
+          <p className="text-[11px] font-semibold uppercase tracking-[0.08em] text-muted-foreground">Colours</p>
+          <div className="grid grid-cols-2 gap-1.5 sm:grid-cols-4">
+            {(Object.keys(STRAIN_LIMB_LABELS) as LimbKey[]).map((limb) => (
+              <label key={limb} className="flex items-center gap-2 rounded-md border border-border/50 bg-secondary/30 px-2 py-1 text-[11px] text-foreground">
+                <input
+                  type="color"
+                  value={draft.limbColors[limb]}
+                  onChange={(e) => setDraft((prev) => ({ ...prev, limbColors: { ...prev.limbColors, [limb]: e.target.value } }))}
+                  className="h-5 w-5 cursor-pointer rounded border-none bg-transparent p-0"
+                />
+                {STRAIN_LIMB_LABELS[limb]}
+              </label>
+            ))}
+            <label className="flex items-center gap-2 rounded-md border border-border/50 bg-secondary/30 px-2 py-1 text-[11px] text-foreground">
+              <input
+                type="color"
+                value={draft.alertColor}
+                onChange={(e) => setDraft((prev) => ({ ...prev, alertColor: e.target.value }))}
+                className="h-5 w-5 cursor-pointer rounded border-none bg-transparent p-0"
+              />
+              Alert
+            </label>
+          </div>
+        </section>
+
+        <div className="flex items-center justify-between gap-2">
+          <Button variant="ghost" size="sm" className="h-8 text-xs" onClick={() => setDraft(createDefaultStrainRules())}>
+            <RotateCcw className="mr-1.5 h-3.5 w-3.5" />
+            Defaults
+          </Button>
+          <div className="flex gap-2">
+            <Button variant="outline" size="sm" className="h-8 text-xs" onClick={() => onOpenChange(false)}>
+              Cancel
+            </Button>
+            <Button size="sm" className="h-8 text-xs" onClick={handleSave}>
+              Apply
+            </Button>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -11,18 +11,45 @@ import {
 import { Button } from '@/components/ui/button';
 import { Slider } from '@/components/ui/slider';
 import { Input } from '@/components/ui/input';
-import { Wand2, Play, Pause, RotateCcw, ChevronLeft, ChevronRight } from 'lucide-react';
+import { Checkbox } from '@/components/ui/checkbox';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import { Wand2, Play, Pause, RotateCcw, ChevronLeft, ChevronRight, Plus, X } from 'lucide-react';
 import { generateFilmstrip } from '@/lib/video-utils';
+import type { CachedPoseAnalysis } from '@/lib/pose/pose-analysis-cache';
+import { REP_SIGNAL_OPTIONS, detectReps, type DetectedRep, type RepSignalKind } from '@/lib/pose/pose-rep-segmentation';
+import type { ClipSegment } from '@/types';
 
 interface TrimDialogProps {
   open: boolean;
   onOpenChange: (open: boolean) => void;
   blob: Blob | null;
   initialName: string;
-  onSave: (name: string, trimStart: number, trimEnd: number) => void;
+  /** Range selected when the video loads; defaults to the whole recording */
+  initialRange?: [number, number];
+  /** Cached pose frames of this recording, which enable rep detection */
+  poseAnalysis?: CachedPoseAnalysis | null;
+  /** Receives the listed sub-clips, or the current range alone when none were added */
+  onSave: (segments: ClipSegment[]) => void | Promise<void>;
+}
+
+// "Squat - Segment 2" -> "Squat - Segment 3"; names without a trailing number get " 2".
+const getNextSegmentName = (name: string) => {
+  const match = name.match(/^(.*?)(\d+)$/);
+  if (match) return `${match[1]}${Number(match[2]) + 1}`;
+  return `${name.trim() || 'Clip'} 2`;
+};
+
+interface RepProposal {
+  rep: DetectedRep;
+  accepted: boolean;
 }
 
-export function TrimDialog({ open, onOpenChange, blob, initialName, onSave }: TrimDialogProps) {
+export function TrimDialog({ open, onOpenChange, blob, initialName, initialRange, poseAnalysis, onSave }: TrimDialogProps) {
   const videoRef = useRef<HTMLVideoElement>(null);
   const nameInputRef = useRef<HTMLInputElement>(null);
   const [isPlaying, setIsPlaying] = useState(false);
@@ -33,8 +60,10 @@ export function TrimDialog({ open, onOpenChange, blob, initialName, onSave }: Tr
   const [thumbnails, setThumbnails] = useState<string[]>([]);
   const [isGeneratingThumbnails, setIsGeneratingThumbnails] = useState(false);
   const [currentTime, setCurrentTime] = useState(0);
-
-
+  const [segments, setSegments] = useState<ClipSegment[]>([]);
+  const [isSaving, setIsSaving] = useState(false);
+  const [repProposals, setRepProposals] = useState<RepProposal[] | null>(null);
+  const [repMessage, setRepMessage] = useState<string | null>(null);
 
   // Initialize video URL and Duration
   useEffect(() => {
@@ -45,6 +74,9 @@ export function TrimDialog({ open, onOpenChange, blob, initialName, onSave }: Tr
       setIsPlaying(false);
       setThumbnails([]);
       setCurrentTime(0);
+      setSegments([]);
+      setRepProposals(null);
+      setRepMessage(null);
       return () => URL.revokeObjectURL(url);
     }
   }, [blob]);
@@ -54,9 +86,12 @@ export function TrimDialog({ open, onOpenChange, blob, initialName, onSave }: Tr
     setName(initialName);
   }, [initialName, blob]);
 
-  // Auto-focus name input when dialog opens
+  // Auto-focus name input when dialog opens; sub-clips from a previous visit are dropped
   useEffect(() => {
     if (open) {
+      setSegments([]);
+      setRepProposals(null);
+      setRepMessage(null);
       const timer = setTimeout(() => nameInputRef.current?.select(), 150);
       return () => clearTimeout(timer);
     }
@@ -81,10 +116,12 @@ export function TrimDialog({ open, onOpenChange, blob, initialName, onSave }: Tr
   const handleLoadedMetadata = () => {
     if (videoRef.current) {
       const dur = videoRef.current.duration;
+      const start = initialRange ? Math.max(0, Math.min(initialRange[0], dur)) : 0;
+      const end = initialRange ? Math.max(start, Math.min(initialRange[1], dur)) : dur;
       setDuration(dur);
-      setRange([0, dur]);
-      setCurrentTime(0);
-
+      setRange([start, end > start ? end : dur]);
+      videoRef.current.currentTime = start;
+      setCurrentTime(start);
     }
   };
 
@@ -150,6 +187,43 @@ export function TrimDialog({ open, onOpenChange, blob, initialName, onSave }: Tr
     }
   };
 
+  const handleDetectReps = (kind: RepSignalKind) => {
+    const video = videoRef.current;
+    if (!poseAnalysis || !video) return;
+    const reps = detectReps(poseAnalysis, kind, video.videoWidth, video.videoHeight);
+    if (!reps) {
+      setRepProposals(null);
+      setRepMessage('Too few poses were detected in this recording to find reps.');
+      return;
+    }
+    if (reps.length === 0) {
+      setRepProposals(null);
+      setRepMessage('No clear repetitions found. Try the other signal or split manually.');
+      return;
+    }
+    setRepMessage(null);
+    setRepProposals(reps.map((rep) => ({ rep, accepted: true })));
+  };
+
+  const handleToggleRep = (index: number, accepted: boolean) => {
+    setRepProposals(prev => prev?.map((proposal, i) => (i === index ? { ...proposal, accepted } : proposal)) ?? null);
+  };
+
+  const handleAcceptReps = () => {
+    if (!repProposals) return;
+    const baseName = name.trim() || initialName;
+    const accepted = repProposals.filter((proposal) => proposal.accepted);
+    setSegments(prev => [
+      ...prev,
+      ...accepted.map(({ rep }, index) => ({
+        name: `${baseName} - Rep ${index + 1}`,
+        trimStart: rep.startSec,
+        trimEnd: rep.endSec,
+      })),
+    ]);
+    setRepProposals(null);
+  };
+
   const handleReset = () => {
     setRange([0, duration]);
     if (videoRef.current) {
@@ -180,8 +254,45 @@ export function TrimDialog({ open, onOpenChange, blob, initialName, onSave }: Tr
     setCurrentTime(nextEnd);
   };
 
-  const handleSave = () => {
-    onSave(name, range[0], range[1]);
+  const seekTo = (time: number) => {
+    if (videoRef.current) {
+      videoRef.current.pause();
+      videoRef.current.currentTime = time;
+    }
+    setCurrentTime(time);
+  };
+
+  const handleAddSegment = () => {
+    if (range[1] - range[0] <= 0) return;
+    const segmentName = name.trim() || initialName;
+    setSegments(prev => [...prev, { name: segmentName, trimStart: range[0], trimEnd: range[1] }]);
+    setName(getNextSegmentName(segmentName));
+  };
+
+  const handlePreviewRange = (start: number, end: number) => {
+    setRange([start, end]);
+    seekTo(start);
+  };
+
+  const handleRenameSegment = (index: number, segmentName: string) => {
+    setSegments(prev => prev.map((segment, i) => (i === index ? { ...segment, name: segmentName } : segment)));
+  };
+
+  const handleRemoveSegment = (index: number) => {
+    setSegments(prev => prev.filter((_, i) => i !== index));
+  };
+
+  const handleSave = async () => {
+    const toSave = segments.length > 0
+      ? segments.map((segment) => ({ ...segment, name: segment.name.trim() || initialName }))
+      : [{ name, trimStart: range[0], trimEnd: range[1] }];
+    setIsSaving(true);
+    try {
+      await onSave(toSave);
+      setSegments([]);
+    } finally {
+      setIsSaving(false);
+    }
   };
 
   // Computed percentages for excluded-region overlays
@@ -195,7 +306,7 @@ export function TrimDialog({ open, onOpenChange, blob, initialName, onSave }: Tr
         <DialogHeader className="space-y-1">
           <DialogTitle className="font-headline text-2xl tracking-tight text-foreground">Review & Trim</DialogTitle>
           <DialogDescription className="text-muted-foreground">
-            Adjust the timeline to isolate the action.
+            Adjust the timeline to isolate the action, or add several ranges as sub-clips of one recording.
           </DialogDescription>
         </DialogHeader>
 
@@ -269,6 +380,30 @@ export function TrimDialog({ open, onOpenChange, blob, initialName, onSave }: Tr
               </>
             )}
 
+            {/* Proposed rep boundaries */}
+            {duration > 0 && repProposals?.map(({ rep, accepted }, idx) => (
+              <div
+                key={`rep-${idx}`}
+                className={`absolute top-0 bottom-0 border-x border-dashed pointer-events-none ${accepted ? 'border-accent bg-accent/10' : 'border-white/30'}`}
+                style={{
+                  left: `${(rep.startSec / duration) * 100}%`,
+                  width: `${((rep.endSec - rep.startSec) / duration) * 100}%`,
+                }}
+              />
+            ))}
+
+            {/* Sub-clip ranges already added */}
+            {duration > 0 && segments.map((segment, idx) => (
+              <div
+                key={`segment-${idx}`}
+                className="absolute top-0 h-1 bg-accent/90 pointer-events-none"
+                style={{
+                  left: `${(segment.trimStart / duration) * 100}%`,
+                  width: `${((segment.trimEnd - segment.trimStart) / duration) * 100}%`,
+                }}
+              />
+            ))}
+
             {/* Slider Overlay */}
             <div className="absolute inset-0 flex items-center">
               <Slider
@@ -306,10 +441,34 @@ export function TrimDialog({ open, onOpenChange, blob, initialName, onSave }: Tr
           <div className="flex flex-wrap items-center gap-2">
             {/* Setup group */}
             <div className="flex items-center gap-1">
-              <Button variant="ghost" size="sm" onClick={handleAutoTrim} className="h-8 text-xs text-muted-foreground hover:text-accent hover:bg-accent/10">
-                <Wand2 className="w-3.5 h-3.5 mr-1.5" />
-                Auto
-              </Button>
+              {poseAnalysis ? (
+                <DropdownMenu>
+                  <DropdownMenuTrigger asChild>
+                    <Button variant="ghost" size="sm" className="h-8 text-xs text-muted-foreground hover:text-accent hover:bg-accent/10">
+                      <Wand2 className="w-3.5 h-3.5 mr-1.5" />
+                      Detect Reps
+                    </Button>
+                  </DropdownMenuTrigger>
+                  <DropdownMenuContent align="start">
+                    {REP_SIGNAL_OPTIONS.map((option) => (
+                      <DropdownMenuItem key={option.kind} onSelect={() => handleDetectReps(option.kind)}>
+                        {`From ${option.label.toLowerCase()}`}
+                      </DropdownMenuItem>
+                    ))}
+                  </DropdownMenuContent>
+                </DropdownMenu>
+              ) : (
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={handleAutoTrim}
+                  className="h-8 text-xs text-muted-foreground hover:text-accent hover:bg-accent/10"
+                  title="Process pose for a library clip to split it into reps automatically"
+                >
+                  <Wand2 className="w-3.5 h-3.5 mr-1.5" />
+                  Auto
+                </Button>
+              )}
               <Button variant="ghost" size="sm" onClick={handleReset} className="h-8 text-xs text-muted-foreground hover:text-foreground">
                 <RotateCcw className="w-3.5 h-3.5 mr-1.5" />
                 Reset
@@ -359,14 +518,113 @@ export function TrimDialog({ open, onOpenChange, blob, initialName, onSave }: Tr
                 </>
               )}
             </Button>
+
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={handleAddSegment}
+              disabled={keptDuration <= 0}
+              className="h-8 text-xs sm:ml-auto"
+              title="Keep this range as a sub-clip and pick the next one"
+            >
+              <Plus className="w-3.5 h-3.5 mr-1.5" />
+              Add Sub-clip
+            </Button>
           </div>
 
+          {repMessage && <p className="text-xs text-muted-foreground">{repMessage}</p>}
+
+          {/* Detected reps — reviewed before they become sub-clips */}
+          {repProposals && (
+            <div className="space-y-1 rounded-md border border-accent/40 bg-accent/5 p-2">
+              <p className="text-[11px] font-semibold uppercase tracking-wider text-muted-foreground">
+                {`${repProposals.length} rep${repProposals.length === 1 ? '' : 's'} detected`}
+              </p>
+              <div className="max-h-32 space-y-1 overflow-y-auto">
+                {repProposals.map(({ rep, accepted }, idx) => (
+                  <div key={`rep-row-${idx}`} className="flex items-center gap-2">
+                    <Checkbox
+                      checked={accepted}
+                      onCheckedChange={(checked) => handleToggleRep(idx, checked === true)}
+                      aria-label={`Keep rep ${idx + 1}`}
+                    />
+                    <button
+                      type="button"
+                      onClick={() => handlePreviewRange(rep.startSec, rep.endSec)}
+                      className="flex-1 text-left font-mono text-[11px] text-foreground/80 hover:text-primary"
+                      title="Preview this rep"
+                    >
+                      {`Rep ${idx + 1} · ${rep.startSec.toFixed(2)}–${rep.endSec.toFixed(2)}s · deepest at ${rep.peakSec.toFixed(2)}s`}
+                    </button>
+                  </div>
+                ))}
+              </div>
+              <div className="flex justify-end gap-2 pt-1">
+                <Button variant="ghost" size="sm" className="h-7 text-xs" onClick={() => setRepProposals(null)}>
+                  Dismiss
+                </Button>
+                <Button
+                  size="sm"
+                  className="h-7 text-xs"
+                  disabled={!repProposals.some((proposal) => proposal.accepted)}
+                  onClick={handleAcceptReps}
+                >
+                  Add as Sub-clips
+                </Button>
+              </div>
+            </div>
+          )}
+
+          {/* Sub-clips — each becomes its own library item sharing the recording */}
+          {segments.length > 0 && (
+            <div className="space-y-1 rounded-md border border-border/50 bg-secondary/20 p-2">
+              <p className="text-[11px] font-semibold uppercase tracking-wider text-muted-foreground">
+                {`${segments.length} sub-clip${segments.length === 1 ? '' : 's'} · one shared copy of the recording`}
+              </p>
+              <div className="max-h-32 space-y-1 overflow-y-auto">
+                {segments.map((segment, idx) => (
+                  <div key={`segment-row-${idx}`} className="flex items-center gap-2">
+                    <button
+                      type="button"
+                      onClick={() => handlePreviewRange(segment.trimStart, segment.trimEnd)}
+                      className="w-28 flex-shrink-0 text-left font-mono text-[11px] text-primary hover:underline"
+                      title="Preview this range"
+                    >
+                      {`${segment.trimStart.toFixed(2)}–${segment.trimEnd.toFixed(2)}s`}
+                    </button>
+                    <Input
+                      value={segment.name}
+                      onChange={(e) => handleRenameSegment(idx, e.target.value)}
+                      className="h-7 flex-1 text-xs"
+                      aria-label={`Sub-clip ${idx + 1} name`}
+                    />
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      onClick={() => handleRemoveSegment(idx)}
+                      className="h-7 w-7 text-muted-foreground hover:text-red-400"
+                      title="Remove sub-clip"
+                    >
+                      <X className="w-3.5 h-3.5" />
+                    </Button>
+                  </div>
+                ))}
+              </div>
+            </div>
+          )}
+
           {/* Footer — Save / Close */}
           <div className="sticky bottom-0 z-10 -mx-3 sm:-mx-6 mt-1 bg-card/95 backdrop-blur-sm border-t border-border/40 px-3 sm:px-6 pt-3 pb-[calc(env(safe-area-inset-bottom)+0.5rem)] sm:pb-3">
             <div className="flex gap-2">
               <Button variant="ghost" className="flex-1" onClick={() => onOpenChange(false)}>Close</Button>
-              <Button onClick={handleSave} className="flex-1 bg-primary hover:bg-primary/90 text-primary-foreground font-medium shadow-lg shadow-primary/20">
-                Save to Library
+              <Button
+                onClick={() => void handleSave()}
+                disabled={isSaving}
+                className="flex-1 bg-primary hover:bg-primary/90 text-primary-foreground font-medium shadow-lg shadow-primary/20"
+              >
+                {segments.length > 0
+                  ? `Save ${segments.length} Sub-clip${segments.length === 1 ? '' : 's'}`
+                  : 'Save to Library'}
               </Button>
             </div>
           </div>
@@ -0,0 +1,148 @@
+'use client';
+
+import { useEffect, useMemo, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogDescription,
+} from '@/components/ui/dialog';
+import { useAppContext } from '@/contexts/app-context';
+import { getLibraryFacets, parseTagInput } from '@/lib/library-filter';
+import type { Video } from '@/types';
+
+interface VideoDetailsDialogProps {
+  /** Clip being edited; the dialog is open while this is set */
+  video: Video | null;
+  onOpenChange: (open: boolean) => void;
+}
+
+export function VideoDetailsDialog({ video, onOpenChange }: VideoDetailsDialogProps) {
+  const { library, updateVideoMetadata } = useAppContext();
+  const [athlete, setAthlete] = useState('');
+  const [tags, setTags] = useState('');
+  const [sessionDate, setSessionDate] = useState('');
+  const [notes, setNotes] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+  const facets = useMemo(() => getLibraryFacets(library), [library]);
+  const enteredTags = parseTagInput(tags).map((tag) => tag.toLowerCase());
+  const suggestedTags = facets.tags.filter((tag) => !enteredTags.includes(tag.toLowerCase())).slice(0, 12);
+
+  useEffect(() => {
+    if (!video) return;
+    setAthlete(video.athlete ?? '');
+    setTags((video.tags ?? []).join(', '));
+    setSessionDate(video.sessionDate ?? '');
+    setNotes(video.notes ?? '');
+  }, [video]);
+
+  const handleSave = async () => {
+    if (!video) return;
+    setIsSaving(true);
+    const saved = await updateVideoMetadata(video.id, {
+      athlete,
+      tags: parseTagInput(tags),
+      sessionDate,
+      notes,
+    });
+    setIsSaving(false);
+    if (saved) onOpenChange(false);
+  };
+
+  return (
+    <Dialog open={video !== null} onOpenChange={onOpenChange}>
+      <DialogContent
+        className="w-[calc(100%-0.5rem)] sm:max-w-[420px] bg-card border-none shadow-2xl p-3 sm:p-6 rounded-md sm:rounded-lg"
+        onClick={(e) => e.stopPropagation()}
+      >
+        <DialogHeader className="space-y-1">
+          <DialogTitle className="font-headline text-2xl tracking-tight text-foreground">Clip Details</DialogTitle>
+          <DialogDescription className="truncate text-muted-foreground">{video?.name}</DialogDescription>
+        </DialogHeader>
+        <form
+          className="space-y-3"
+          onSubmit={(e) => {
+            e.preventDefault();
+            void handleSave();
+          }}
+        >
+          <div className="grid grid-cols-2 gap-2">
+            <div className="space-y-1">
+              <Label htmlFor="video-athlete" className="text-xs">Athlete</Label>
+              <Input
+                id="video-athlete"
+                value={athlete}
+                onChange={(e) => setAthlete(e.target.value)}
+                list="video-athlete-options"
+                autoComplete="off"
+              />
+              <datalist id="video-athlete-options">
+                {facets.athletes.map((name) => (
+                  <option key={name} value={name} />
+                ))}
+              </datalist>
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor="video-session-date" className="text-xs">Session date</Label>
+              <Input
+                id="video-session-date"
+                type="date"
+                value={sessionDate}
+                onChange={(e) => setSessionDate(e.target.value)}
+              />
+            </div>
+          </div>
+
+          <div className="space-y-1">
+            <Label htmlFor="video-tags" className="text-xs">Tags</Label>
+            <Input
+              id="video-tags"
+              value={tags}
+              onChange={(e) => setTags(e.target.value)}
+              placeholder="Comma separated, e.g. squat, pre-season"
+              autoComplete="off"
+            />
+            {suggestedTags.length > 0 && (
+              <div className="flex flex-wrap gap-1 pt-0.5">
+                {suggestedTags.map((tag) => (
+                  <button
+                    key={tag}
+                    type="button"
+                    className="rounded-full border border-border/60 bg-secondary/40 px-2 py-0.5 text-[10px] text-muted-foreground hover:text-foreground"
+                    onClick={() => setTags((prev) => (prev.trim() ? `${prev.trim().replace(/,$/, '')}, ${tag}` : tag))}
+                  >
+                    {`+ ${tag}`}
+                  </button>
+                ))}
+              </div>
+            )}
+          </div>
+
+          <div className="space-y-1">
+            <Label htmlFor="video-notes" className="text-xs">Notes</Label>
+            <Textarea
+              id="video-notes"
+              value={notes}
+              onChange={(e) => setNotes(e.target.value)}
+              rows={4}
+            />
+          </div>
+
+          <div className="flex justify-end gap-2">
+            <Button type="button" variant="outline" size="sm" onClick={() => onOpenChange(false)}>
+              Cancel
+            </Button>
+            <Button type="submit" size="sm" disabled={isSaving}>
+              Save
+            </Button>
+          </div>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -1,13 +1,33 @@
 'use client';
 
 import { useRef, useCallback, useEffect, useState } from 'react';
-import { useAppContext } from '@/contexts/app-context';
+import { SYNC_DRAWINGS_KEY, useAppContext } from '@/contexts/app-context';
 import VideoTile from './video-tile';
 import OverlayCompareTile from './overlay-compare-tile';
 import { cn } from '@/lib/utils';
 import PlayerControls from './player-controls';
-import type { Video } from '@/types';
+import MarkerPopover from './marker-popover';
+import PoseAlertPopover from './pose-alert-popover';
+import RepKinematicsPopover from './rep-kinematics-popover';
+import MarkerAlignPopover from './marker-align-popover';
+import MotionAlignPopover from './motion-align-popover';
+import type { Marker, Video } from '@/types';
 import { useIsMobile } from '@/hooks/use-mobile';
+import { useCachedPoseAnalysis } from '@/hooks/use-cached-pose-analysis';
+import { usePoseAlerts } from '@/hooks/use-pose-alerts';
+import { usePoseAngleKinematics } from '@/hooks/use-pose-angle-kinematics';
+import type { RepSignalKind } from '@/lib/pose/pose-rep-segmentation';
+import { toTimelineAlerts } from '@/lib/pose/pose-alerts';
+import { computeMarkerAlignment, findAdjacentMarker, toTimelineMarkers } from '@/lib/marker-utils';
+import { getWarpRateAt, mapWarpedTime } from '@/lib/pose/pose-dtw';
+import { snapToFrame, stepFrameTime } from '@/lib/frame-timing';
+import {
+  SHORTCUT_PLAYBACK_RATES,
+  SHORTCUT_TOOL_COMMANDS,
+  findShortcutCommand,
+  shouldIgnoreShortcutEvent,
+  type ShortcutCommandId,
+} from '@/lib/keyboard-shortcuts';
 
 type ActiveVideoEntry = {
   video: HTMLVideoElement;
@@ -62,20 +82,38 @@ export default function VideoGrid() {
     slots,
     setSlot,
     activeTileIndex,
+    setActiveTileIndex,
     isSyncEnabled,
+    toggleSync,
+    toggleLoop,
+    togglePose,
+    isDrawingEnabled,
+    toggleDrawing,
+    setDrawingTool,
+    drawings,
+    setDrawingsForVideo,
+    isSyncDrawingsEnabled,
+    keymap,
     isPortraitMode,
     videoRefs,
     isLoopEnabled,
     isMuted,
     syncOffsets,
+    setSyncOffsetsForSlots,
+    poseTimeWarp,
+    sessionRestore,
     playbackRate,
     setPlaybackRate,
+    markers,
+    addMarker,
   } = useAppContext();
   const isMobile = useIsMobile();
 
   const [isPlaying, setIsPlaying] = useState(false);
   const [currentTime, setCurrentTime] = useState(0);
   const [duration, setDuration] = useState(0);
+  const [repSignal, setRepSignal] = useState<RepSignalKind>('knee-angle');
+  const [isRepPeaksOpen, setIsRepPeaksOpen] = useState(false);
 
   const rafRef = useRef<number | null>(null);
   const isPlayingRef = useRef(false);
@@ -86,6 +124,9 @@ export default function VideoGrid() {
   const frameObserverVideoRef = useRef<HTMLVideoElement | null>(null);
   const frameObserverHandleRef = useRef<number | null>(null);
   const lastObservedMediaTimeRef = useRef<number | null>(null);
+  const pendingAlignedRelativeRef = useRef<number | null>(null);
+  const appliedTimeWarpRef = useRef(poseTimeWarp);
+  const appliedSessionRestoreRef = useRef<number | null>(null);
   const overlayEntries = slots
     .map((slot, index) => ({ slot, index }))
     .filter((entry): entry is { slot: Video; index: number } => entry.slot !== null);
@@ -214,6 +255,35 @@ export default function VideoGrid() {
     [clampToTrim, getTrimBounds, syncOffsets]
   );
 
+  const getActiveTimeWarp = useCallback(() => {
+    if (!poseTimeWarp) return null;
+    const isValid =
+      slots[poseTimeWarp.referenceIndex]?.id === poseTimeWarp.referenceVideoId &&
+      slots[poseTimeWarp.targetIndex]?.id === poseTimeWarp.targetVideoId;
+    return isValid ? poseTimeWarp : null;
+  }, [poseTimeWarp, slots]);
+
+  // Media time a tile should show at a sync-relative time. A DTW-warped target follows its
+  // reference tile through the warp instead of a fixed offset.
+  const getEntryTargetTime = useCallback(
+    (entry: ActiveVideoEntry, relativeTime: number, active: ActiveVideoEntry[]) => {
+      const { start } = getTrimBounds(entry.slot, entry.video);
+      const warp = getActiveTimeWarp();
+      const reference = warp && entry.index === warp.targetIndex
+        ? active.find((item) => item.index === warp.referenceIndex)
+        : undefined;
+      if (warp && reference) {
+        const referenceStart = getTrimBounds(reference.slot, reference.video).start;
+        const referenceOffset = syncOffsets[reference.index] || 0;
+        const referenceTime = clampToTrim(referenceStart + referenceOffset + relativeTime, reference.slot, reference.video);
+        return clampToTrim(start + mapWarpedTime(warp, referenceTime - referenceStart), entry.slot, entry.video);
+      }
+      const offset = syncOffsets[entry.index] || 0;
+      return clampToTrim(start + offset + relativeTime, entry.slot, entry.video);
+    },
+    [clampToTrim, getActiveTimeWarp, getTrimBounds, syncOffsets]
+  );
+
   const syncToRelativeTime = useCallback(
     async (relativeTime: number, options?: { resume?: boolean; targetPlaybackRate?: number }) => {
       const requestedResume = options?.resume ?? isPlayingRef.current;
@@ -247,19 +317,21 @@ export default function VideoGrid() {
 
           active.forEach(({ video }) => video.pause());
 
+          // A paused seek lands every tile on the frame it would show, on that clip's own frame grid.
+          const targetTimes = active.map((entry) => {
+            const targetTime = getEntryTargetTime(entry, clampedRelative, active);
+            return next.resume
+              ? targetTime
+              : clampToTrim(snapToFrame(targetTime, entry.slot.frameTiming), entry.slot, entry.video);
+          });
+
           await Promise.all(
-            active.map(({ video, index, slot }) => {
-              const { start } = getTrimBounds(slot, video);
-              const offset = syncOffsets[index] || 0;
-              const targetTime = clampToTrim(start + offset + clampedRelative, slot, video);
-              return seekVideoToTime(video, targetTime);
-            })
+            active.map((entry, position) => seekVideoToTime(entry.video, targetTimes[position]))
           );
 
-          active.forEach(({ video, index, slot }) => {
-            const { start } = getTrimBounds(slot, video);
-            const offset = syncOffsets[index] || 0;
-            const targetTime = clampToTrim(start + offset + clampedRelative, slot, video);
+          active.forEach((entry, position) => {
+            const { video } = entry;
+            const targetTime = targetTimes[position];
             if (Math.abs(video.currentTime - targetTime) >= 0.001) {
               video.currentTime = targetTime;
             }
@@ -287,7 +359,7 @@ export default function VideoGrid() {
         syncBusyRef.current = false;
       }
     },
-    [clampToTrim, getActiveVideos, getSyncDuration, getTrimBounds, syncOffsets]
+    [clampToTrim, getActiveVideos, getEntryTargetTime, getSyncDuration]
   );
 
   const tick = useCallback(() => {
@@ -312,22 +384,31 @@ export default function VideoGrid() {
     }
 
     if (!syncBusyRef.current) {
+      const warp = getActiveTimeWarp();
       active.forEach((entry, idx) => {
         if (idx === 0) {
           entry.video.playbackRate = playbackRate;
           return;
         }
 
-        const { video, index, slot } = entry;
-        const { start } = getTrimBounds(slot, video);
-        const offset = syncOffsets[index] || 0;
-        const targetTime = clampToTrim(start + offset + clampedRelative, slot, video);
+        const { video, index } = entry;
+        const targetTime = getEntryTargetTime(entry, clampedRelative, active);
         const driftSec = video.currentTime - targetTime;
         const absDrift = Math.abs(driftSec);
 
+        // A warped tile runs at the local warp slope so drift correction only trims the residue.
+        let entryRate = playbackRate;
+        if (warp && index === warp.targetIndex) {
+          const reference = active.find((item) => item.index === warp.referenceIndex);
+          if (reference) {
+            const referenceStart = getTrimBounds(reference.slot, reference.video).start;
+            entryRate = clampPlaybackRate(playbackRate * getWarpRateAt(warp, reference.video.currentTime - referenceStart));
+          }
+        }
+
         if (absDrift >= DRIFT_HARD_THRESHOLD_SEC) {
           video.currentTime = targetTime;
-          video.playbackRate = playbackRate;
+          video.playbackRate = entryRate;
           return;
         }
 
@@ -336,26 +417,26 @@ export default function VideoGrid() {
             -MAX_RATE_CORRECTION,
             Math.min(MAX_RATE_CORRECTION, -driftSec * 1.5)
           );
-          video.playbackRate = clampPlaybackRate(playbackRate + correction);
+          video.playbackRate = clampPlaybackRate(entryRate + correction);
           return;
         }
 
-        if (video.playbackRate !== playbackRate) {
-          video.playbackRate = playbackRate;
+        if (video.playbackRate !== entryRate) {
+          video.playbackRate = entryRate;
         }
       });
     }
 
     rafRef.current = requestAnimationFrame(tick);
   }, [
-    clampToTrim,
+    getActiveTimeWarp,
     getActiveVideos,
+    getEntryTargetTime,
     getMasterRelativeTime,
     getSyncDuration,
     getTrimBounds,
     isLoopEnabled,
     playbackRate,
-    syncOffsets,
     syncToRelativeTime,
   ]);
 
@@ -380,7 +461,7 @@ export default function VideoGrid() {
     setDuration(getSyncDuration());
   }, [getSyncDuration, isSharedPlaybackMode, slots]);
 
-  const handlePlayPause = () => {
+  const handlePlayPause = useCallback(() => {
     const active = getActiveVideos();
     if (active.length === 0) return;
 
@@ -395,9 +476,9 @@ export default function VideoGrid() {
 
     const masterRelative = getMasterRelativeTime(active);
     void syncToRelativeTime(masterRelative, { resume: true });
-  };
+  }, [getActiveVideos, getMasterRelativeTime, playbackRate, syncToRelativeTime]);
 
-  const handleSeek = (time: number) => {
+  const handleSeek = useCallback((time: number) => {
     const syncDuration = getSyncDuration();
     const clampedTime =
       syncDuration > 0 ? Math.max(0, Math.min(time, syncDuration)) : Math.max(0, time);
@@ -406,16 +487,24 @@ export default function VideoGrid() {
       resume: isPlayingRef.current,
       targetPlaybackRate: playbackRateRef.current,
     });
-  };
+  }, [getSyncDuration, syncToRelativeTime]);
 
   const handleStepFrame = useCallback((direction: -1 | 1) => {
     const active = getActiveVideos();
     if (active.length === 0) return;
 
-    const stepSec = getFrameStepSec();
     const syncDuration = getSyncDuration();
     const masterRelative = getMasterRelativeTime(active);
-    const unclampedTime = masterRelative + (direction * stepSec);
+    // Step on the reference clip's measured frame grid; fall back to the observed cadence.
+    const master = active[0];
+    const masterStart = clampToTrim(
+      getTrimBounds(master.slot, master.video).start + (syncOffsets[master.index] || 0),
+      master.slot,
+      master.video
+    );
+    const unclampedTime = master.slot.frameTiming
+      ? stepFrameTime(master.video.currentTime, direction, master.slot.frameTiming) - masterStart
+      : masterRelative + (direction * getFrameStepSec());
     const nextTime =
       syncDuration > 0
         ? Math.max(0, Math.min(unclampedTime, syncDuration))
@@ -428,9 +517,18 @@ export default function VideoGrid() {
       resume: false,
       targetPlaybackRate: playbackRateRef.current,
     });
-  }, [getActiveVideos, getFrameStepSec, getMasterRelativeTime, getSyncDuration, syncToRelativeTime]);
+  }, [
+    clampToTrim,
+    getActiveVideos,
+    getFrameStepSec,
+    getMasterRelativeTime,
+    getSyncDuration,
+    getTrimBounds,
+    syncOffsets,
+    syncToRelativeTime,
+  ]);
 
-  const handleRateChange = (rate: number) => {
+  const handleRateChange = useCallback((rate: number) => {
     const nextRate = clampPlaybackRate(rate);
     playbackRateRef.current = nextRate;
     setPlaybackRate(nextRate);
@@ -445,7 +543,260 @@ export default function VideoGrid() {
       resume: isPlayingRef.current,
       targetPlaybackRate: nextRate,
     });
-  };
+  }, [getActiveVideos, getMasterRelativeTime, setPlaybackRate, syncToRelativeTime]);
+
+  // Markers follow the active tile; in shared playback they are projected onto the sync timeline.
+  const getMarkerTargetEntry = useCallback(() => {
+    const active = getActiveVideos();
+    return active.find((entry) => entry.index === activeTileIndex) ?? active[0] ?? null;
+  }, [activeTileIndex, getActiveVideos]);
+
+  const getSyncOriginForEntry = useCallback(
+    (entry: ActiveVideoEntry) => {
+      const { start } = getTrimBounds(entry.slot, entry.video);
+      const offset = syncOffsets[entry.index] || 0;
+      return clampToTrim(start + offset, entry.slot, entry.video);
+    },
+    [clampToTrim, getTrimBounds, syncOffsets]
+  );
+
+  const seekToMarker = useCallback(
+    (entry: ActiveVideoEntry, marker: Marker) => {
+      if (isSharedPlaybackMode) {
+        handleSeek(marker.time - getSyncOriginForEntry(entry));
+        return;
+      }
+      entry.video.currentTime = clampToTrim(marker.time, entry.slot, entry.video);
+    },
+    [clampToTrim, getSyncOriginForEntry, handleSeek, isSharedPlaybackMode]
+  );
+
+  const applySyncAlignment = useCallback(
+    (offsets: Record<number, number>, alignedRelativeTime: number) => {
+      pendingAlignedRelativeRef.current = alignedRelativeTime;
+      setSyncOffsetsForSlots(offsets);
+    },
+    [setSyncOffsetsForSlots]
+  );
+
+  const handleAlignToMarkers = useCallback(
+    (selection: Record<number, Marker>) => {
+      const inputs = getActiveVideos()
+        .filter(({ index }) => selection[index])
+        .map(({ index, slot, video }) => ({
+          slotIndex: index,
+          trimStart: getTrimBounds(slot, video).start,
+          markerTime: selection[index].time,
+        }));
+      if (inputs.length < 2) return;
+
+      const { offsets, alignedRelativeTime } = computeMarkerAlignment(inputs);
+      applySyncAlignment(offsets, alignedRelativeTime);
+    },
+    [applySyncAlignment, getActiveVideos, getTrimBounds]
+  );
+
+  // Seek to the aligned event once the new offsets have reached syncToRelativeTime.
+  useEffect(() => {
+    const relativeTime = pendingAlignedRelativeRef.current;
+    if (relativeTime === null) return;
+    pendingAlignedRelativeRef.current = null;
+    setCurrentTime(relativeTime);
+    void syncToRelativeTime(relativeTime, {
+      resume: false,
+      targetPlaybackRate: playbackRateRef.current,
+    });
+  }, [syncToRelativeTime]);
+
+  // Re-seek once a new DTW warp is applied so the warped tile jumps to its matching pose.
+  useEffect(() => {
+    if (appliedTimeWarpRef.current === poseTimeWarp) return;
+    appliedTimeWarpRef.current = poseTimeWarp;
+    if (!isSharedPlaybackMode) return;
+    const active = getActiveVideos();
+    if (active.length === 0) return;
+    void syncToRelativeTime(getMasterRelativeTime(active));
+  }, [getActiveVideos, getMasterRelativeTime, isSharedPlaybackMode, poseTimeWarp, syncToRelativeTime]);
+
+  // Put each tile back at its saved time once a reopened session's clips have metadata.
+  useEffect(() => {
+    if (!sessionRestore || appliedSessionRestoreRef.current === sessionRestore.token) return;
+    appliedSessionRestoreRef.current = sessionRestore.token;
+    const cleanups: Array<() => void> = [];
+    sessionRestore.tiles.forEach((tile, index) => {
+      const video = videoRefs.current[index];
+      if (!tile || !video) return;
+      const applySavedTime = () => {
+        video.pause();
+        video.currentTime = tile.time;
+      };
+      if (video.readyState >= HTMLMediaElement.HAVE_METADATA) {
+        applySavedTime();
+      } else {
+        video.addEventListener('loadedmetadata', applySavedTime, { once: true });
+        cleanups.push(() => video.removeEventListener('loadedmetadata', applySavedTime));
+      }
+    });
+    return () => cleanups.forEach((cleanup) => cleanup());
+  }, [sessionRestore, videoRefs]);
+
+  // Global shortcuts act on the active tile, or on every tile through shared playback when synced.
+  // The cheat-sheet command is handled by the shortcuts dialog itself.
+  const runShortcutCommand = useCallback(
+    (command: ShortcutCommandId) => {
+      const entry = getMarkerTargetEntry();
+      const tool = SHORTCUT_TOOL_COMMANDS[command];
+      if (tool) {
+        if (!entry) return false;
+        if (!isDrawingEnabled) toggleDrawing();
+        setDrawingTool(tool);
+        return true;
+      }
+
+      switch (command) {
+        case 'play-pause':
+          if (!entry) return false;
+          if (isSharedPlaybackMode) {
+            handlePlayPause();
+          } else if (entry.video.paused) {
+            entry.video.play().catch(() => { });
+          } else {
+            entry.video.pause();
+          }
+          return true;
+        case 'frame-back':
+        case 'frame-forward': {
+          if (!entry) return false;
+          const direction = command === 'frame-back' ? -1 : 1;
+          if (isSharedPlaybackMode) {
+            handleStepFrame(direction);
+          } else {
+            entry.video.pause();
+            entry.video.currentTime = clampToTrim(
+              stepFrameTime(entry.video.currentTime, direction, entry.slot.frameTiming),
+              entry.slot,
+              entry.video
+            );
+          }
+          return true;
+        }
+        case 'speed-down':
+        case 'speed-up': {
+          const nextRate = command === 'speed-up'
+            ? SHORTCUT_PLAYBACK_RATES.find((rate) => rate > playbackRate + 1e-6) ?? SHORTCUT_PLAYBACK_RATES[SHORTCUT_PLAYBACK_RATES.length - 1]
+            : [...SHORTCUT_PLAYBACK_RATES].reverse().find((rate) => rate < playbackRate - 1e-6) ?? SHORTCUT_PLAYBACK_RATES[0];
+          if (isSharedPlaybackMode) {
+            handleRateChange(nextRate);
+          } else {
+            setPlaybackRate(nextRate);
+          }
+          return true;
+        }
+        case 'select-tile-1':
+        case 'select-tile-2':
+        case 'select-tile-3':
+        case 'select-tile-4': {
+          const tileIndex = Number(command.slice(-1)) - 1;
+          if (tileIndex >= layout) return false;
+          setActiveTileIndex(tileIndex);
+          return true;
+        }
+        case 'toggle-sync':
+          toggleSync();
+          return true;
+        case 'toggle-loop':
+          toggleLoop();
+          return true;
+        case 'toggle-pose':
+          if (!entry) return false;
+          togglePose();
+          return true;
+        case 'toggle-annotation':
+          if (!entry) return false;
+          toggleDrawing();
+          return true;
+        case 'undo-drawing': {
+          if (!entry) return false;
+          const drawingId = isSyncDrawingsEnabled ? SYNC_DRAWINGS_KEY : entry.slot.id;
+          const current = drawings[drawingId] ?? [];
+          if (current.length === 0) return false;
+          setDrawingsForVideo(drawingId, current.slice(0, -1));
+          return true;
+        }
+        case 'marker-add':
+          if (!entry) return false;
+          addMarker(entry.slot.id, entry.video.currentTime);
+          return true;
+        case 'marker-previous':
+        case 'marker-next': {
+          if (!entry) return false;
+          const marker = findAdjacentMarker(
+            markers[entry.slot.id] ?? [],
+            entry.video.currentTime,
+            command === 'marker-next' ? 1 : -1
+          );
+          if (marker) seekToMarker(entry, marker);
+          return true;
+        }
+        default:
+          return false;
+      }
+    },
+    [
+      addMarker,
+      clampToTrim,
+      drawings,
+      getMarkerTargetEntry,
+      handlePlayPause,
+      handleRateChange,
+      handleStepFrame,
+      isDrawingEnabled,
+      isSharedPlaybackMode,
+      isSyncDrawingsEnabled,
+      layout,
+      markers,
+      playbackRate,
+      seekToMarker,
+      setActiveTileIndex,
+      setDrawingTool,
+      setDrawingsForVideo,
+      setPlaybackRate,
+      toggleDrawing,
+      toggleLoop,
+      togglePose,
+      toggleSync,
+    ]
+  );
+
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (shouldIgnoreShortcutEvent(event)) return;
+      const command = findShortcutCommand(keymap, event);
+      if (!command) return;
+      if (runShortcutCommand(command)) {
+        event.preventDefault();
+      }
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [keymap, runShortcutCommand]);
+
+  const markerTargetEntry = isSharedPlaybackMode ? getMarkerTargetEntry() : null;
+  const alignEntries = isSharedPlaybackMode
+    ? getActiveVideos().map(({ index, slot, video }) => ({
+      index,
+      slot,
+      width: video.videoWidth,
+      height: video.videoHeight,
+    }))
+    : [];
+  const syncMarkerOrigin = markerTargetEntry ? getSyncOriginForEntry(markerTargetEntry) : 0;
+  const markerTargetAnalysis = useCachedPoseAnalysis(markerTargetEntry?.slot ?? null);
+  const poseAlerts = usePoseAlerts(markerTargetAnalysis);
+  const angleKinematics = usePoseAngleKinematics(markerTargetAnalysis, repSignal, isRepPeaksOpen);
+  // Frames are counted on the reference tile, whose time `currentTime` follows.
+  const frameReferenceEntry = isSharedPlaybackMode ? getActiveVideos()[0] ?? null : null;
 
   const effectiveLayout = isMobile && layout === 4 ? 2 : layout;
 
@@ -505,6 +856,41 @@ export default function VideoGrid() {
               onStepForward={() => handleStepFrame(1)}
               isSyncEnabled={false}
               variant="static"
+              frameTiming={frameReferenceEntry?.slot.frameTiming}
+              mediaTimeOrigin={frameReferenceEntry ? getSyncOriginForEntry(frameReferenceEntry) : 0}
+              markers={markerTargetEntry
+                ? toTimelineMarkers(markers[markerTargetEntry.slot.id], syncMarkerOrigin, duration)
+                : []}
+              alerts={markerTargetEntry
+                ? toTimelineAlerts(poseAlerts.events, poseAlerts.rules, syncMarkerOrigin, duration)
+                : []}
+              markerControls={markerTargetEntry && (
+                <>
+                  <MotionAlignPopover entries={alignEntries} onApply={(offsets) => applySyncAlignment(offsets, 0)} />
+                  <MarkerAlignPopover entries={alignEntries} onAlign={handleAlignToMarkers} />
+                  <PoseAlertPopover
+                    video={markerTargetEntry.slot}
+                    events={poseAlerts.events}
+                    rules={poseAlerts.rules}
+                    trimStartMs={poseAlerts.trimStartMs}
+                    onSeekToEvent={(mediaTimeSec) => handleSeek(mediaTimeSec - syncMarkerOrigin)}
+                  />
+                  <RepKinematicsPopover
+                    open={isRepPeaksOpen}
+                    onOpenChange={setIsRepPeaksOpen}
+                    kinematics={angleKinematics.kinematics}
+                    reps={angleKinematics.reps}
+                    repSignal={repSignal}
+                    onRepSignalChange={setRepSignal}
+                    onSeek={(mediaTimeSec) => handleSeek(mediaTimeSec - syncMarkerOrigin)}
+                  />
+                  <MarkerPopover
+                    videoId={markerTargetEntry.slot.id}
+                    currentMediaTime={syncMarkerOrigin + currentTime}
+                    onSeekToMarker={(marker) => seekToMarker(markerTargetEntry, marker)}
+                  />
+                </>
+              )}
             />
           </div>
         )}
@@ -13,31 +13,44 @@ import { Card, CardDescription, CardHeader, CardTitle } from '@/components/ui/ca
 import { Button } from '@/components/ui/button';
 import { ScrollArea } from '@/components/ui/scroll-area';
 import { useAppContext } from '@/contexts/app-context';
-import { extractThumbnail } from '@/lib/video-utils';
 import {
   getPoseProcessModelLabel,
   POSE_PROCESS_MENU_OPTIONS,
 } from '@/lib/pose/pose-model-label';
 import { formatPoseProcessingLabel } from '@/lib/pose/pose-preprocess-preset';
-import { FilePlus, Trash2, PlusCircle, Video, Loader2, CheckCircle2, AlertTriangle, Square, Star } from 'lucide-react';
+import { FilePlus, Trash2, PlusCircle, Video, Loader2, CheckCircle2, AlertTriangle, Square, Star, Package, Tags, SearchX, ListChecks, CheckCircle } from 'lucide-react';
 import { useToast } from '@/hooks/use-toast';
+import { useLibraryFilter } from '@/hooks/use-library-filter';
+import { useLibrarySelection } from '@/hooks/use-library-selection';
 import { VideoRecorder } from './video-recorder';
 import { Separator } from '../ui/separator';
 import { TrimDialog } from './trim-dialog';
+import { DeleteVideoDialog } from './delete-video-dialog';
+import { WorkspaceSessionList } from './workspace-session-list';
+import { ProjectBundleDialog } from './project-bundle-dialog';
+import { LibraryFilterBar } from './library-filter-bar';
+import { VideoDetailsDialog } from './video-details-dialog';
+import { SplitClipDialog } from './split-clip-dialog';
+import { LibraryBulkActions } from './library-bulk-actions';
+import { PoseBatchProgress } from './pose-batch-progress';
 import {
   DropdownMenu,
   DropdownMenuContent,
   DropdownMenuItem,
+  DropdownMenuSeparator,
   DropdownMenuTrigger,
 } from '@/components/ui/dropdown-menu';
-import type { PoseModelVariant, PosePreprocessPresetId } from '@/types';
+import { exportPoseAnalysis, type PoseAnalysisExportFileType } from '@/lib/pose/pose-analysis-export';
+import { createId } from '@/lib/utils';
+import type { ClipSegment, PoseModelVariant, PosePreprocessPresetId } from '@/types';
 
 export function VideoLibrary() {
   const DUPLICATE_ADD_WINDOW_MS = 450;
   const {
     library,
-    addVideoToLibrary,
+    addSubClipsToLibrary,
     removeVideoFromLibrary,
+    getSessionsReferencingVideo,
     setSlot,
     slots,
     isPoseEnabled,
@@ -46,9 +59,15 @@ export function VideoLibrary() {
     setPoseModelVariant,
     setPosePreprocessPreset,
     cancelPoseProcessing,
+    loadPoseAnalysisForVideo,
+    importPoseAnalysisForVideo,
     toggleFavorite,
+    poseStrainRules,
+    poseCustomAngles,
   } = useAppContext();
   const fileInputRef = useRef<HTMLInputElement>(null);
+  const poseImportInputRef = useRef<HTMLInputElement>(null);
+  const poseImportTargetRef = useRef<import('@/types').Video | null>(null);
   const lastAddActionRef = useRef<{ videoId: string; atMs: number } | null>(null);
   const { toast } = useToast();
 
@@ -56,7 +75,13 @@ export function VideoLibrary() {
   const [pendingFile, setPendingFile] = useState<File | null>(null);
   const [isTrimOpen, setIsTrimOpen] = useState(false);
   const [nextSegmentIndex, setNextSegmentIndex] = useState(0);
+  const [pendingSourceId, setPendingSourceId] = useState<string | undefined>(undefined);
   const [showFavoritesOnly, setShowFavoritesOnly] = useState(false);
+  const [isBundleDialogOpen, setIsBundleDialogOpen] = useState(false);
+  const [bundleInitialIds, setBundleInitialIds] = useState<string[] | undefined>(undefined);
+  const [pendingDeleteVideo, setPendingDeleteVideo] = useState<import('@/types').Video | null>(null);
+  const [detailsVideo, setDetailsVideo] = useState<import('@/types').Video | null>(null);
+  const [splitVideo, setSplitVideo] = useState<import('@/types').Video | null>(null);
 
   const sortedLibrary = useMemo(() => {
     const toTimestamp = (value: Date | string | number | undefined) => {
@@ -87,10 +112,29 @@ export function VideoLibrary() {
     [showFavoritesOnly, sortedLibrary]
   );
 
+  const {
+    filter,
+    setFilter,
+    groupBy,
+    setGroupBy,
+    facets,
+    filteredVideos,
+    groups,
+    isFiltering,
+    clearFilter,
+  } = useLibraryFilter(displayedLibrary);
+  const selection = useLibrarySelection(library);
+
+  const openBundleDialog = (videos?: import('@/types').Video[]) => {
+    setBundleInitialIds(videos?.map((video) => video.id));
+    setIsBundleDialogOpen(true);
+  };
+
   // When a new file is loaded, reset the segment counter
   useEffect(() => {
     if (pendingFile) {
       setNextSegmentIndex(0);
+      setPendingSourceId(createId());
     }
   }, [pendingFile]);
 
@@ -108,24 +152,14 @@ export function VideoLibrary() {
     if (fileInputRef.current) fileInputRef.current.value = "";
   };
 
-  const handleSaveTrimmed = async (name: string, trimStart: number, trimEnd: number) => {
+  const handleSaveTrimmed = async (segments: ClipSegment[]) => {
     if (!pendingFile) return;
 
-    const { duration, thumbnail } = await extractThumbnail(pendingFile, trimStart);
-
-    await addVideoToLibrary({
-      name: name,
-      blob: pendingFile,
-      duration: duration,
-      trimStart,
-      trimEnd,
-      thumbnail,
-    });
-
-    toast({ title: "Segment Saved" });
+    // Every save from this file references one stored copy of it.
+    await addSubClipsToLibrary(pendingFile, segments, pendingSourceId);
 
-    // Increment for next save
-    setNextSegmentIndex(prev => prev + 1);
+    toast({ title: segments.length > 1 ? `${segments.length} Sub-clips Saved` : "Segment Saved" });
+    setNextSegmentIndex((prev) => prev + segments.length);
   };
 
   const handleDialogClose = (open: boolean) => {
@@ -173,6 +207,15 @@ export function VideoLibrary() {
     }
   };
 
+  // Clips used by saved sessions need confirmation; others delete right away as before.
+  const handleDeleteVideo = (video: import('@/types').Video) => {
+    if (getSessionsReferencingVideo(video.id).length > 0) {
+      setPendingDeleteVideo(video);
+      return;
+    }
+    void removeVideoFromLibrary(video.id);
+  };
+
   const handleProcessPose = async (
     video: import('@/types').Video,
     modelVariant: PoseModelVariant,
@@ -191,6 +234,51 @@ export function VideoLibrary() {
     }
   };
 
+  const handleExportPoseAnalysis = async (
+    video: import('@/types').Video,
+    fileType: PoseAnalysisExportFileType
+  ) => {
+    try {
+      const analysis = await loadPoseAnalysisForVideo(video);
+      if (!analysis) {
+        toast({ title: 'No pose data', description: 'Process this clip before exporting pose data.', variant: 'destructive' });
+        return;
+      }
+      await exportPoseAnalysis(video, analysis, fileType, poseStrainRules, poseCustomAngles);
+      toast({ title: 'Pose Data Exported', description: `${analysis.frames.length} frames · ${fileType.toUpperCase()}` });
+    } catch (error) {
+      console.error('Pose export failed', error);
+      toast({ title: 'Pose export failed', variant: 'destructive' });
+    }
+  };
+
+  const handleRequestPoseImport = (video: import('@/types').Video) => {
+    poseImportTargetRef.current = video;
+    poseImportInputRef.current?.click();
+  };
+
+  const handlePoseImportFile = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    const video = poseImportTargetRef.current;
+    poseImportTargetRef.current = null;
+    if (poseImportInputRef.current) poseImportInputRef.current.value = "";
+    if (!file || !video) return;
+
+    try {
+      const result = await importPoseAnalysisForVideo(video, file);
+      const layoutLabel = result.layout === 'coco17' ? 'COCO-17' : 'MediaPipe-33';
+      const skipped = result.droppedFrameCount > 0 ? ` · ${result.droppedFrameCount} outside trim skipped` : '';
+      toast({ title: 'Keypoints Imported', description: `${result.frames.length} frames · ${layoutLabel}${skipped}` });
+    } catch (error) {
+      console.error('Keypoint import failed', error);
+      toast({
+        title: 'Keypoint import failed',
+        description: error instanceof Error ? error.message : undefined,
+        variant: 'destructive',
+      });
+    }
+  };
+
   const renderPoseStatus = (video: import('@/types').Video) => {
     const state = getPoseProcessingState(video.id);
 
@@ -222,6 +310,40 @@ export function VideoLibrary() {
                 {`Reprocess ${option.label}`}
               </DropdownMenuItem>
             ))}
+            <DropdownMenuSeparator />
+            <DropdownMenuItem
+              onSelect={(e) => {
+                e.stopPropagation();
+                handleRequestPoseImport(video);
+              }}
+            >
+              Import Keypoints…
+            </DropdownMenuItem>
+            <DropdownMenuItem
+              onSelect={(e) => {
+                e.stopPropagation();
+                void handleExportPoseAnalysis(video, 'json');
+              }}
+            >
+              Export JSON
+            </DropdownMenuItem>
+            <DropdownMenuItem
+              onSelect={(e) => {
+                e.stopPropagation();
+                void handleExportPoseAnalysis(video, 'csv');
+              }}
+            >
+              Export CSV
+            </DropdownMenuItem>
+            <DropdownMenuSeparator />
+            <DropdownMenuItem
+              onSelect={(e) => {
+                e.stopPropagation();
+                setSplitVideo(video);
+              }}
+            >
+              Split into Reps…
+            </DropdownMenuItem>
           </DropdownMenuContent>
         </DropdownMenu>
       );
@@ -295,6 +417,15 @@ export function VideoLibrary() {
                 {`Process ${option.label}`}
               </DropdownMenuItem>
             ))}
+            <DropdownMenuSeparator />
+            <DropdownMenuItem
+              onSelect={(e) => {
+                e.stopPropagation();
+                handleRequestPoseImport(video);
+              }}
+            >
+              Import Keypoints…
+            </DropdownMenuItem>
           </DropdownMenuContent>
         </DropdownMenu>
       );
@@ -326,6 +457,15 @@ export function VideoLibrary() {
               {`Process ${option.label}`}
             </DropdownMenuItem>
           ))}
+          <DropdownMenuSeparator />
+          <DropdownMenuItem
+            onSelect={(e) => {
+              e.stopPropagation();
+              handleRequestPoseImport(video);
+            }}
+          >
+            Import Keypoints…
+          </DropdownMenuItem>
         </DropdownMenuContent>
       </DropdownMenu>
     );
@@ -353,6 +493,24 @@ export function VideoLibrary() {
                   }`}
                 />
               </Button>
+              <Button
+                variant="ghost"
+                size="icon"
+                className="h-8 w-8"
+                title={selection.isSelecting ? 'Done selecting' : 'Select clips'}
+                onClick={selection.isSelecting ? selection.stopSelecting : selection.startSelecting}
+              >
+                <ListChecks className={`h-4 w-4 ${selection.isSelecting ? 'text-primary' : 'text-sidebar-foreground/70'}`} />
+              </Button>
+              <Button
+                variant="ghost"
+                size="icon"
+                className="h-8 w-8"
+                title="Export or import a project bundle"
+                onClick={() => openBundleDialog()}
+              >
+                <Package className="h-4 w-4 text-sidebar-foreground/70" />
+              </Button>
               <SidebarTrigger />
             </div>
           </div>
@@ -360,97 +518,164 @@ export function VideoLibrary() {
             {showFavoritesOnly
               ? `Favorites · ${favoriteCount}`
               : `All clips · ${sortedLibrary.length}`}
+            {isFiltering && ` · ${filteredVideos.length} shown`}
           </p>
+          <LibraryFilterBar
+            filter={filter}
+            onFilterChange={setFilter}
+            facets={facets}
+            groupBy={groupBy}
+            onGroupByChange={setGroupBy}
+          />
+          {selection.isSelecting && (
+            <LibraryBulkActions
+              selectedVideos={selection.selectedVideos}
+              visibleVideos={filteredVideos}
+              onSelectAll={selection.selectAll}
+              onClearSelection={selection.clearSelection}
+              onDone={selection.stopSelecting}
+              onExport={openBundleDialog}
+            />
+          )}
           <div className="grid grid-cols-2 gap-2">
             <Button variant="outline" className="w-full text-foreground" onClick={() => fileInputRef.current?.click()}>
               <FilePlus className="mr-2" /> Import
             </Button>
             <input type="file" ref={fileInputRef} onChange={handleFileImport} accept="video/*" className="hidden" />
+            <input
+              type="file"
+              ref={poseImportInputRef}
+              onChange={handlePoseImportFile}
+              accept=".json,.csv,application/json,text/csv"
+              className="hidden"
+            />
             <VideoRecorder />
           </div>
         </SidebarHeader>
         <Separator />
         <SidebarContent>
           <ScrollArea className="h-full">
-            {displayedLibrary.length > 0 ? (
-              <SidebarMenu>
-                {displayedLibrary.map((video) => (
-                  <SidebarMenuItem key={video.id}>
-                    <div
-                      className="group/menu-item relative flex flex-col items-start p-2 rounded-md hover:bg-sidebar-accent w-full text-left cursor-pointer transition-colors"
-                      onClick={() => { void handleAddToGrid(video); }}
-                    >
-                      {/* Thumbnail Container */}
-                      <div className="w-full aspect-video bg-black/10 rounded-md mb-2 overflow-hidden border border-border/20 relative shadow-sm">
-                        {/* Favorite badge — always visible when favorited */}
-                        {video.isFavorite && (
-                          <div className="absolute top-1 left-1 z-10 pointer-events-none">
-                            <Star className="h-4 w-4 text-yellow-400 fill-current drop-shadow-md" />
-                          </div>
-                        )}
-                        {video.thumbnail ? (
-                          <img src={video.thumbnail} alt={video.name} className="w-full h-full object-cover" />
-                        ) : (
-                          <div className="flex items-center justify-center h-full w-full bg-secondary/50">
-                            <Video className="w-8 h-8 text-muted-foreground/50" />
+            <PoseBatchProgress />
+            <WorkspaceSessionList />
+            {filteredVideos.length > 0 ? (
+              groups.map((group) => (
+                <SidebarMenu key={group.key}>
+                  {groupBy !== 'none' && (
+                    <p className="px-2 pt-2 text-[11px] font-semibold uppercase tracking-wider text-sidebar-foreground/70">
+                      {`${group.label} · ${group.videos.length}`}
+                    </p>
+                  )}
+                  {group.videos.map((video) => (
+                    <SidebarMenuItem key={`${group.key}:${video.id}`}>
+                      <div
+                        className={`group/menu-item relative flex flex-col items-start p-2 rounded-md hover:bg-sidebar-accent w-full text-left cursor-pointer transition-colors ${
+                          selection.isSelected(video.id) ? 'bg-sidebar-accent ring-2 ring-primary' : ''
+                        }`}
+                        onClick={() => {
+                          if (selection.isSelecting) selection.toggleSelected(video.id);
+                          else void handleAddToGrid(video);
+                        }}
+                      >
+                        {/* Thumbnail Container */}
+                        <div className="w-full aspect-video bg-black/10 rounded-md mb-2 overflow-hidden border border-border/20 relative shadow-sm">
+                          {selection.isSelecting && (
+                            <div className="absolute bottom-1 left-1 z-10 pointer-events-none">
+                              <CheckCircle
+                                className={`h-5 w-5 drop-shadow-md ${selection.isSelected(video.id) ? 'text-primary fill-background' : 'text-white/80'}`}
+                              />
+                            </div>
+                          )}
+                          {/* Favorite badge — always visible when favorited */}
+                          {video.isFavorite && (
+                            <div className="absolute top-1 left-1 z-10 pointer-events-none">
+                              <Star className="h-4 w-4 text-yellow-400 fill-current drop-shadow-md" />
+                            </div>
+                          )}
+                          {video.thumbnail ? (
+                            <img src={video.thumbnail} alt={video.name} className="w-full h-full object-cover" />
+                          ) : (
+                            <div className="flex items-center justify-center h-full w-full bg-secondary/50">
+                              <Video className="w-8 h-8 text-muted-foreground/50" />
+                            </div>
+                          )}
+                          {/* Hover Overlay */}
+                          <div className="absolute inset-0 bg-black/0 group-hover/menu-item:bg-black/10 transition-colors pointer-events-none" />
+
+                          {/* Quick Actions Overlay (Visible on Hover) */}
+                          <div className="absolute top-1 right-1 flex gap-1 opacity-0 group-hover/menu-item:opacity-100 transition-opacity bg-black/60 rounded-md p-1 backdrop-blur-sm shadow-md pointer-events-auto">
+                            <Button
+                              size="icon"
+                              variant="ghost"
+                              className={`h-6 w-6 hover:bg-white/20 ${video.isFavorite
+                                  ? 'text-yellow-400 hover:text-yellow-300 opacity-100'
+                                  : 'text-white hover:text-yellow-400'
+                                }`}
+                              onClick={(e) => { e.stopPropagation(); void toggleFavorite(video.id); }}
+                              title={video.isFavorite ? 'Remove from favorites' : 'Add to favorites'}
+                            >
+                              <Star className={`h-4 w-4 ${video.isFavorite ? 'fill-current' : ''}`} />
+                            </Button>
+                            <Button
+                              size="icon"
+                              variant="ghost"
+                              className="h-6 w-6 text-white hover:text-white hover:bg-white/20"
+                              onClick={(e) => { e.stopPropagation(); setDetailsVideo(video); }}
+                              title="Edit Details"
+                            >
+                              <Tags className="h-4 w-4" />
+                            </Button>
+                            <Button
+                              size="icon"
+                              variant="ghost"
+                              className="h-6 w-6 text-white hover:text-white hover:bg-white/20"
+                              onClick={(e) => { e.stopPropagation(); void handleAddToGrid(video); }}
+                              title="Add to Grid"
+                            >
+                              <PlusCircle className="h-4 w-4" />
+                            </Button>
+                            <Button
+                              size="icon"
+                              variant="ghost"
+                              className="h-6 w-6 text-red-400 hover:text-red-300 hover:bg-white/20"
+                              onClick={(e) => { e.stopPropagation(); handleDeleteVideo(video); }}
+                              title="Delete Video"
+                            >
+                              <Trash2 className="h-4 w-4" />
+                            </Button>
                           </div>
-                        )}
-                        {/* Hover Overlay */}
-                        <div className="absolute inset-0 bg-black/0 group-hover/menu-item:bg-black/10 transition-colors pointer-events-none" />
-
-                        {/* Quick Actions Overlay (Visible on Hover) */}
-                        <div className="absolute top-1 right-1 flex gap-1 opacity-0 group-hover/menu-item:opacity-100 transition-opacity bg-black/60 rounded-md p-1 backdrop-blur-sm shadow-md pointer-events-auto">
-                          <Button
-                            size="icon"
-                            variant="ghost"
-                            className={`h-6 w-6 hover:bg-white/20 ${video.isFavorite
-                                ? 'text-yellow-400 hover:text-yellow-300 opacity-100'
-                                : 'text-white hover:text-yellow-400'
-                              }`}
-                            onClick={(e) => { e.stopPropagation(); void toggleFavorite(video.id); }}
-                            title={video.isFavorite ? 'Remove from favorites' : 'Add to favorites'}
-                          >
-                            <Star className={`h-4 w-4 ${video.isFavorite ? 'fill-current' : ''}`} />
-                          </Button>
-                          <Button
-                            size="icon"
-                            variant="ghost"
-                            className="h-6 w-6 text-white hover:text-white hover:bg-white/20"
-                            onClick={(e) => { e.stopPropagation(); void handleAddToGrid(video); }}
-                            title="Add to Grid"
-                          >
-                            <PlusCircle className="h-4 w-4" />
-                          </Button>
-                          <Button
-                            size="icon"
-                            variant="ghost"
-                            className="h-6 w-6 text-red-400 hover:text-red-300 hover:bg-white/20"
-                            onClick={(e) => { e.stopPropagation(); void removeVideoFromLibrary(video.id); }}
-                            title="Delete Video"
-                          >
-                            <Trash2 className="h-4 w-4" />
-                          </Button>
                         </div>
-                      </div>
 
-                      <div className="w-full min-w-0">
-                        <p className="font-medium text-sm truncate text-sidebar-foreground" title={video.name}>{video.name}</p>
-                        <p className="text-xs text-sidebar-foreground/70 flex items-center gap-1 mt-0.5">
-                          {Math.round(video.duration)}s
-                          <span className="w-0.5 h-0.5 rounded-full bg-current opacity-50" />
-                          {new Date(video.createdAt).toLocaleDateString()}
-                        </p>
-                        {video.trimStart !== undefined && (
-                          <p className="text-[10px] text-primary dark:text-accent font-semibold mt-1 uppercase tracking-wider opacity-90">
-                            Trimmed
+                        <div className="w-full min-w-0">
+                          <p className="font-medium text-sm truncate text-sidebar-foreground" title={video.name}>{video.name}</p>
+                          <p className="text-xs text-sidebar-foreground/70 flex items-center gap-1 mt-0.5">
+                            {Math.round(video.duration)}s
+                            <span className="w-0.5 h-0.5 rounded-full bg-current opacity-50" />
+                            {new Date(video.createdAt).toLocaleDateString()}
+                          </p>
+                          {(video.athlete || (video.tags && video.tags.length > 0)) && (
+                          <p className="text-[10px] text-sidebar-foreground/70 truncate mt-0.5" title={video.notes}>
+                            {[video.athlete, ...(video.tags ?? []).map((tag) => `#${tag}`)].filter(Boolean).join(' · ')}
                           </p>
                         )}
-                        {renderPoseStatus(video)}
+                        {video.trimStart !== undefined && (
+                            <p className="text-[10px] text-primary dark:text-accent font-semibold mt-1 uppercase tracking-wider opacity-90">
+                              Trimmed
+                            </p>
+                          )}
+                          {renderPoseStatus(video)}
+                        </div>
                       </div>
-                    </div>
-                  </SidebarMenuItem>
-                ))}
-              </SidebarMenu>
+                    </SidebarMenuItem>
+                  ))}
+                </SidebarMenu>
+              ))
+            ) : isFiltering ? (
+              <div className="flex flex-col items-center justify-center h-full p-4 text-center">
+                <SearchX className="w-12 h-12 text-muted-foreground/50 mb-3" />
+                <h3 className="font-bold text-sidebar-foreground">No Matching Clips</h3>
+                <p className="text-sm text-muted-foreground mb-3">Try another search or clear the filters.</p>
+                <Button variant="outline" size="sm" onClick={clearFilter}>Clear search and filters</Button>
+              </div>
             ) : showFavoritesOnly ? (
               <div className="flex flex-col items-center justify-center h-full p-4 text-center">
                 <Star className="w-12 h-12 text-yellow-400/70 mb-3" />
@@ -483,6 +708,37 @@ export function VideoLibrary() {
         initialName={pendingFile ? `${pendingFile.name.replace(/\.[^/.]+$/, "")} - Segment ${nextSegmentIndex}` : "New Video"}
         onSave={handleSaveTrimmed}
       />
+
+      <ProjectBundleDialog
+        open={isBundleDialogOpen}
+        onOpenChange={setIsBundleDialogOpen}
+        initialSelectedIds={bundleInitialIds}
+      />
+
+      <VideoDetailsDialog
+        video={detailsVideo}
+        onOpenChange={(open) => {
+          if (!open) setDetailsVideo(null);
+        }}
+      />
+
+      <SplitClipDialog
+        video={splitVideo}
+        onOpenChange={(open) => {
+          if (!open) setSplitVideo(null);
+        }}
+      />
+
+      <DeleteVideoDialog
+        video={pendingDeleteVideo}
+        onOpenChange={(open) => {
+          if (!open) setPendingDeleteVideo(null);
+        }}
+        onConfirm={(video) => {
+          setPendingDeleteVideo(null);
+          void removeVideoFromLibrary(video.id);
+        }}
+      />
     </>
   );
 }
@@ -14,10 +14,11 @@ import { useToast } from '@/hooks/use-toast';
 import { Video as VideoIcon, Mic, XCircle, SwitchCamera } from 'lucide-react';
 import { useAppContext } from '@/contexts/app-context';
 import { TrimDialog } from './trim-dialog';
-import { getSupportedMimeType, extractThumbnail } from '@/lib/video-utils';
+import { getSupportedMimeType } from '@/lib/video-utils';
+import type { ClipSegment } from '@/types';
 
 export function VideoRecorder() {
-  const { addVideoToLibrary } = useAppContext();
+  const { addSubClipsToLibrary } = useAppContext();
   const [isOpen, setIsOpen] = useState(false);
   const [isRecording, setIsRecording] = useState(false);
   const [error, setError] = useState<string | null>(null);
@@ -141,20 +142,10 @@ export function VideoRecorder() {
     };
   }, [stopStream]);
 
-  const handleSaveTrimmed = async (name: string, trimStart: number, trimEnd: number) => {
+  const handleSaveTrimmed = async (segments: ClipSegment[]) => {
     if (!recordedBlob) return;
 
-    // Use extractThumbnail to get both duration and a thumbnail frame (iOS-compatible)
-    const { duration, thumbnail } = await extractThumbnail(recordedBlob, trimStart);
-
-    await addVideoToLibrary({
-      name: name,
-      blob: recordedBlob,
-      duration: duration,
-      trimStart,
-      trimEnd,
-      thumbnail,
-    });
+    await addSubClipsToLibrary(recordedBlob, segments);
     setRecordedBlob(null);
     recordedChunksRef.current = [];
   };
@@ -5,7 +5,7 @@ import { SYNC_DRAWINGS_KEY } from '@/contexts/app-context';
 import type { Video } from '@/types';
 import PlayerControls from './player-controls';
 import { cn } from '@/lib/utils';
-import { PlusCircle, X } from 'lucide-react';
+import { Clapperboard, PlusCircle, X } from 'lucide-react';
 import {
   DropdownMenu,
   DropdownMenuContent,
@@ -15,7 +15,18 @@ import {
 import { useToast } from '@/hooks/use-toast';
 import { Button } from '@/components/ui/button';
 import DrawingCanvas from './drawing-canvas';
+import MarkerPopover from './marker-popover';
+import PoseAlertPopover from './pose-alert-popover';
+import RepKinematicsPopover from './rep-kinematics-popover';
+import { toTimelineMarkers } from '@/lib/marker-utils';
+import { toTimelineAlerts } from '@/lib/pose/pose-alerts';
+import { useCachedPoseAnalysis } from '@/hooks/use-cached-pose-analysis';
+import { usePoseAlerts } from '@/hooks/use-pose-alerts';
+import { usePoseAngleKinematics } from '@/hooks/use-pose-angle-kinematics';
+import type { RepSignalKind } from '@/lib/pose/pose-rep-segmentation';
+import { getFrameDurationSec, snapToFrame, stepFrameTime } from '@/lib/frame-timing';
 import PoseOverlay from './pose-overlay';
+import { AnnotatedExportDialog } from './annotated-export-dialog';
 
 interface VideoTileProps {
   video: Video | null;
@@ -49,9 +60,13 @@ export default function VideoTile({ video, index, isActive }: VideoTileProps) {
     isDrawingEnabled,
     drawingTool,
     drawingColor,
+    drawingTimeScope,
+    drawingHoldSec,
     drawings,
     setDrawingsForVideo,
     isSyncDrawingsEnabled,
+    markers,
+    ensureVideoFrameTiming,
     // Pose overlay
     isPoseEnabled,
     getPoseProcessingState,
@@ -69,17 +84,24 @@ export default function VideoTile({ video, index, isActive }: VideoTileProps) {
     poseShowCoGCharts,
     poseVisibleAngles,
     posePlottedAngles,
+    poseCustomAngles,
+    poseShowAngleRateCharts,
     poseShowBodyLean,
     poseShowJumpHeight,
     poseLabelScale,
     poseBackgroundBlackout,
     poseMinPoseDetectionConfidence,
     poseMinPosePresenceConfidence,
-    poseMinTrackingConfidence
+    poseMinTrackingConfidence,
+    poseStrainRules,
   } = useAppContext();
 
   const videoRef = useRef<HTMLVideoElement | null>(null);
   const containerRef = useRef<HTMLDivElement | null>(null);
+  const viewportRef = useRef<HTMLDivElement | null>(null);
+  const [isExportOpen, setIsExportOpen] = useState(false);
+  const [repSignal, setRepSignal] = useState<RepSignalKind>('knee-angle');
+  const [isRepPeaksOpen, setIsRepPeaksOpen] = useState(false);
   const [isPlaying, setIsPlaying] = useState(false);
   const [currentTime, setCurrentTime] = useState(0);
   const [duration, setDuration] = useState(0);
@@ -102,6 +124,18 @@ export default function VideoTile({ video, index, isActive }: VideoTileProps) {
   const shouldAnalyzePose = Boolean(video) && isPoseEnabled && (poseAnalyzeScope === 'all-visible' || isActive);
   const videoId = video?.id ?? null;
   const videoTrimStart = video?.trimStart ?? 0;
+  // Shared drawings are timed on the sync timeline, which starts at this media time on this tile.
+  const drawingTimeOrigin = isSyncDrawingsEnabled
+    ? videoTrimStart + Math.max(0, Math.min(syncOffsets[index] ?? 0, duration))
+    : 0;
+  // Alerts and rep peaks live in the tile's own controls; the shared controls show them while sync is on.
+  const poseAnalysis = useCachedPoseAnalysis(video, poseShowAngleRateCharts || !isSyncEnabled);
+  const poseAlerts = usePoseAlerts(isSyncEnabled ? null : poseAnalysis);
+  const angleKinematics = usePoseAngleKinematics(
+    poseAnalysis,
+    repSignal,
+    poseShowAngleRateCharts || (isRepPeaksOpen && !isSyncEnabled)
+  );
   const videoTrimEnd = video?.trimEnd ?? null;
 
   // Handle ref assignment and cleanup
@@ -270,6 +304,11 @@ export default function VideoTile({ video, index, isActive }: VideoTileProps) {
     setDuration(trimLength);
   }, [videoId, videoTrimEnd, videoTrimStart]);
 
+  // Measure the real frame cadence once per clip; stepping falls back to 30 fps until then.
+  useEffect(() => {
+    if (video && !video.frameTiming) void ensureVideoFrameTiming(video);
+  }, [ensureVideoFrameTiming, video]);
+
   const handlePlayPause = () => {
     const videoElement = videoRef.current;
     if (videoElement) {
@@ -286,8 +325,9 @@ export default function VideoTile({ video, index, isActive }: VideoTileProps) {
       const end = video?.trimEnd || videoElement.duration;
       const trimLength = end - start;
       const clampedRelative = Math.max(0, Math.min(time, trimLength));
-      videoElement.currentTime = start + clampedRelative;
-      setCurrentTime(clampedRelative);
+      const frameTime = Math.max(start, Math.min(snapToFrame(start + clampedRelative, video?.frameTiming), end));
+      videoElement.currentTime = frameTime;
+      setCurrentTime(frameTime - start);
     }
   };
 
@@ -354,13 +394,29 @@ export default function VideoTile({ video, index, isActive }: VideoTileProps) {
     }
   };
 
-  const renderStepBtn = (seconds: number, size: number, labelOverride?: string) => {
+  // Moves exactly one measured frame; in sync mode this nudges the tile's offset by a frame.
+  const handleStepFrame = (direction: -1 | 1) => {
+    const videoElement = videoRef.current;
+    if (!videoElement || !video) return;
+    if (isSyncEnabled) {
+      handleStep(direction * getFrameDurationSec(video.frameTiming));
+      return;
+    }
+    const start = video.trimStart ?? 0;
+    const trimEnd = video.trimEnd ?? videoElement.duration;
+    const end = Number.isFinite(trimEnd) ? Math.max(start, trimEnd) : start;
+    videoElement.pause();
+    videoElement.currentTime = Math.max(start, Math.min(stepFrameTime(videoElement.currentTime, direction, video.frameTiming), end));
+    setCurrentTime(Math.max(0, videoElement.currentTime - start));
+  };
+
+  const renderStepBtn = (seconds: number, size: number, labelOverride?: string, onStep = () => handleStep(seconds)) => {
     const isNeg = seconds < 0;
     const label = labelOverride || `${isNeg ? '' : '+'}${seconds}s`;
     return (
       <button
         key={label}
-        onClick={(e) => { e.stopPropagation(); handleStep(seconds); }}
+        onClick={(e) => { e.stopPropagation(); onStep(); }}
         className="flex-shrink-0 text-white/90 hover:text-white hover:scale-110 active:scale-90 transition-all focus:outline-none focus:ring-1 focus:ring-white/50 rounded-full"
         title={label}
         aria-label={`Step video ${label}`}
@@ -577,7 +633,33 @@ export default function VideoTile({ video, index, isActive }: VideoTileProps) {
         <X className="h-4 w-4" />
       </Button>
 
-      <div className="flex-1 min-h-0 overflow-hidden relative">
+      <Button
+        variant="ghost"
+        size="icon"
+        className="absolute top-2 right-14 z-30 h-10 w-10 bg-black/55 hover:bg-primary/90 text-white opacity-100 md:opacity-0 md:group-hover:opacity-100 transition-opacity rounded-full backdrop-blur-sm"
+        onClick={(e) => {
+          e.stopPropagation();
+          setIsExportOpen(true);
+        }}
+        title="Export annotated video"
+        aria-label="Export annotated video"
+      >
+        <Clapperboard className="h-4 w-4" />
+      </Button>
+      <AnnotatedExportDialog
+        open={isExportOpen}
+        onOpenChange={setIsExportOpen}
+        video={video}
+        drawings={currentDrawings}
+        drawingTimeOrigin={drawingTimeOrigin}
+        getDrawingViewport={() => {
+          const rect = viewportRef.current?.getBoundingClientRect();
+          if (!rect || rect.width === 0 || rect.height === 0) return null;
+          return { width: rect.width, height: rect.height, fit: isPortraitMode ? 'cover' : 'contain' };
+        }}
+      />
+
+      <div ref={viewportRef} className="flex-1 min-h-0 overflow-hidden relative">
         <video
           ref={videoRef}
           src={video.url}
@@ -623,12 +705,16 @@ export default function VideoTile({ video, index, isActive }: VideoTileProps) {
             showCoGCharts={poseShowCoGCharts}
             visibleAngles={poseVisibleAngles}
             plottedAngles={posePlottedAngles}
+            customAngles={poseCustomAngles}
+            showAngleRateCharts={poseShowAngleRateCharts}
+            angleKinematics={angleKinematics.kinematics}
             showBodyLean={poseShowBodyLean}
             showJumpHeight={poseShowJumpHeight}
             labelScale={poseLabelScale}
             minPoseDetectionConfidence={poseMinPoseDetectionConfidence}
             minPosePresenceConfidence={poseMinPosePresenceConfidence}
             minTrackingConfidence={poseMinTrackingConfidence}
+            strainRules={poseStrainRules}
           />
         )}
 
@@ -641,6 +727,10 @@ export default function VideoTile({ video, index, isActive }: VideoTileProps) {
             isActive={isDrawingEnabled && isActive}
             drawings={currentDrawings}
             onDrawingsChange={(newDrawings) => setDrawingsForVideo(effectiveDrawingId, newDrawings)}
+            videoElement={videoElement}
+            timeOrigin={drawingTimeOrigin}
+            timeScope={drawingTimeScope}
+            holdSec={drawingHoldSec}
           />
         )}
       </div>
@@ -654,9 +744,9 @@ export default function VideoTile({ video, index, isActive }: VideoTileProps) {
         >
           {renderStepBtn(-0.5, 28)}
           {renderStepBtn(-0.1, 28)}
-          {renderStepBtn(-1 / 30, 28, '-1f')}
+          {renderStepBtn(-getFrameDurationSec(video?.frameTiming), 28, '-1f', () => handleStepFrame(-1))}
           <div className="w-px h-4 bg-white/20 mx-1" />
-          {renderStepBtn(1 / 30, 28, '+1f')}
+          {renderStepBtn(getFrameDurationSec(video?.frameTiming), 28, '+1f', () => handleStepFrame(1))}
           {renderStepBtn(0.1, 28)}
           {renderStepBtn(0.5, 28)}
         </div>
@@ -671,6 +761,35 @@ export default function VideoTile({ video, index, isActive }: VideoTileProps) {
           onRateChange={handleRateChange}
           isSyncEnabled={isSyncEnabled}
           variant="static"
+          frameTiming={video?.frameTiming}
+          mediaTimeOrigin={videoTrimStart}
+          markers={video ? toTimelineMarkers(markers[video.id], videoTrimStart, duration) : []}
+          alerts={toTimelineAlerts(poseAlerts.events, poseAlerts.rules, videoTrimStart, duration)}
+          markerControls={video && (
+            <>
+              <PoseAlertPopover
+                video={video}
+                events={poseAlerts.events}
+                rules={poseAlerts.rules}
+                trimStartMs={poseAlerts.trimStartMs}
+                onSeekToEvent={(mediaTimeSec) => handleSeek(mediaTimeSec - videoTrimStart)}
+              />
+              <RepKinematicsPopover
+                open={isRepPeaksOpen}
+                onOpenChange={setIsRepPeaksOpen}
+                kinematics={angleKinematics.kinematics}
+                reps={angleKinematics.reps}
+                repSignal={repSignal}
+                onRepSignalChange={setRepSignal}
+                onSeek={(mediaTimeSec) => handleSeek(mediaTimeSec - videoTrimStart)}
+              />
+              <MarkerPopover
+                videoId={video.id}
+                currentMediaTime={videoTrimStart + currentTime}
+                onSeekToMarker={(marker) => handleSeek(marker.time - videoTrimStart)}
+              />
+            </>
+          )}
         />
       </div>
     </div>
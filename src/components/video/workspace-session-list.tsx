@@ -0,0 +1,176 @@
+'use client';
+
+import { useState } from 'react';
+import { BookmarkPlus, LayoutGrid, Trash2, X } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogDescription,
+} from '@/components/ui/dialog';
+import { useAppContext } from '@/contexts/app-context';
+import { useToast } from '@/hooks/use-toast';
+import { cn } from '@/lib/utils';
+
+interface WorkspaceSessionListProps {
+  /** `strip` scrolls horizontally for the mobile library */
+  variant?: 'list' | 'strip';
+}
+
+export function WorkspaceSessionList({ variant = 'list' }: WorkspaceSessionListProps) {
+  const {
+    library,
+    slots,
+    workspaceSessions,
+    saveWorkspaceSession,
+    openWorkspaceSession,
+    activeWorkspaceSessionId,
+    closeWorkspaceSession,
+    deleteWorkspaceSession,
+  } = useAppContext();
+  const { toast } = useToast();
+  const [isSaveOpen, setIsSaveOpen] = useState(false);
+  const [sessionName, setSessionName] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+  const hasGridVideo = slots.some((slot) => slot !== null);
+  const isStrip = variant === 'strip';
+
+  const openSaveDialog = () => {
+    setSessionName(`Session ${new Date().toLocaleString()}`);
+    setIsSaveOpen(true);
+  };
+
+  const handleSave = async () => {
+    setIsSaving(true);
+    const session = await saveWorkspaceSession(sessionName);
+    setIsSaving(false);
+    if (!session) return;
+    setIsSaveOpen(false);
+    toast({ title: 'Session Saved', description: `"${session.name}" can be reopened from the library.` });
+  };
+
+  const getThumbnail = (videoId: string | undefined) =>
+    videoId ? library.find((video) => video.id === videoId)?.thumbnail : undefined;
+
+  return (
+    <>
+      <div className={cn('flex items-center justify-between', isStrip ? 'px-3 pb-1' : 'px-2 pt-2')}>
+        <p className={cn('font-semibold uppercase tracking-wider text-muted-foreground', isStrip ? 'text-[10px]' : 'text-[11px]')}>
+          {`Sessions · ${workspaceSessions.length}`}
+        </p>
+        <div className="flex items-center gap-1">
+          {activeWorkspaceSessionId && (
+            <Button
+              variant="ghost"
+              size="sm"
+              className="h-7 px-2 text-xs"
+              onClick={closeWorkspaceSession}
+              title="Stop showing the session's drawings and return to each clip's own"
+            >
+              <X className="mr-1 h-3.5 w-3.5" />
+              Close
+            </Button>
+          )}
+          <Button
+            variant="ghost"
+            size="sm"
+            className="h-7 px-2 text-xs"
+            onClick={openSaveDialog}
+            disabled={!hasGridVideo}
+            title={hasGridVideo ? 'Save the current grid as a session' : 'Load clips into the grid to save a session'}
+          >
+            <BookmarkPlus className="mr-1 h-3.5 w-3.5" />
+            Save
+          </Button>
+        </div>
+      </div>
+
+      {workspaceSessions.length > 0 && (
+        <div className={cn(isStrip ? 'flex gap-2 overflow-x-auto px-3 pb-2' : 'flex flex-col gap-1 px-2 pb-2')}>
+          {workspaceSessions.map((session) => {
+            const clipCount = session.tiles.filter(Boolean).length;
+            const thumbnail = getThumbnail(session.tiles.find(Boolean)?.videoId);
+            return (
+              <div
+                key={session.id}
+                className={cn(
+                  'group relative flex items-center gap-2 rounded-md border border-border/40 bg-secondary/30 p-1.5 cursor-pointer hover:bg-secondary/60 transition-colors',
+                  isStrip && 'w-[180px] flex-shrink-0',
+                  session.id === activeWorkspaceSessionId && 'border-primary/60 bg-primary/10'
+                )}
+                onClick={() => openWorkspaceSession(session.id)}
+                title={`Open "${session.name}"`}
+              >
+                <div className="h-9 w-14 flex-shrink-0 overflow-hidden rounded bg-black/10">
+                  {thumbnail ? (
+                    <img src={thumbnail} alt="" className="h-full w-full object-cover" />
+                  ) : (
+                    <div className="flex h-full w-full items-center justify-center">
+                      <LayoutGrid className="h-4 w-4 text-muted-foreground/50" />
+                    </div>
+                  )}
+                </div>
+                <div className="min-w-0 flex-1">
+                  <p className="truncate text-xs font-medium text-foreground">{session.name}</p>
+                  <p className="text-[10px] text-muted-foreground">
+                    {`${clipCount} clip${clipCount === 1 ? '' : 's'} · ${new Date(session.updatedAt).toLocaleDateString()}${session.id === activeWorkspaceSessionId ? ' · open' : ''}`}
+                  </p>
+                </div>
+                <Button
+                  size="icon"
+                  variant="ghost"
+                  className="h-6 w-6 flex-shrink-0 text-red-400 hover:text-red-300 md:opacity-0 md:group-hover:opacity-100"
+                  onClick={(e) => {
+                    e.stopPropagation();
+                    void deleteWorkspaceSession(session.id);
+                  }}
+                  title="Delete Session"
+                >
+                  <Trash2 className="h-3.5 w-3.5" />
+                </Button>
+              </div>
+            );
+          })}
+        </div>
+      )}
+
+      <Dialog open={isSaveOpen} onOpenChange={setIsSaveOpen}>
+        <DialogContent className="w-[calc(100%-0.5rem)] sm:max-w-[380px] bg-card border-none shadow-2xl p-3 sm:p-6 rounded-md sm:rounded-lg">
+          <DialogHeader className="space-y-1">
+            <DialogTitle className="font-headline text-2xl tracking-tight text-foreground">Save Session</DialogTitle>
+            <DialogDescription className="text-muted-foreground">
+              Stores the clips in the grid with their layout, sync offsets, zoom, pan, current times and drawings.
+              A session with the same name is replaced. Drawings made while a session is open are saved to that
+              session as you draw; close it to get back to each clip&apos;s own drawings.
+            </DialogDescription>
+          </DialogHeader>
+          <form
+            className="space-y-3"
+            onSubmit={(e) => {
+              e.preventDefault();
+              void handleSave();
+            }}
+          >
+            <Input
+              value={sessionName}
+              onChange={(e) => setSessionName(e.target.value)}
+              aria-label="Session name"
+              autoFocus
+            />
+            <div className="flex justify-end gap-2">
+              <Button type="button" variant="outline" size="sm" onClick={() => setIsSaveOpen(false)}>
+                Cancel
+              </Button>
+              <Button type="submit" size="sm" disabled={isSaving || sessionName.trim().length === 0}>
+                Save
+              </Button>
+            </div>
+          </form>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+}
@@ -1,31 +1,93 @@
 'use client';
 
-import React, { createContext, useContext, useState, useEffect, useRef, useCallback, ReactNode } from 'react';
+import React, { createContext, useContext, useState, useEffect, useRef, useCallback, useMemo, ReactNode } from 'react';
 import type {
+  ClipSegment,
+  CustomPoseAngle,
   Video,
+  VideoMetadata,
   Drawing,
+  DrawingTimeScope,
   DrawingType,
+  Marker,
   PoseAngleMetricId,
   PoseAngleSelectionMap,
   PoseModelVariant,
   PoseAnalyzeScope,
   PosePreprocessPresetId,
+  WorkspaceSession,
+  WorkspaceSessionTile,
 } from '@/types';
-import { initDB, getAllVideos, addVideo as addVideoDB, deleteVideo as deleteVideoDB, toggleVideoFavorite as toggleFavDB } from '@/lib/db';
+import {
+  initDB,
+  getAllVideos,
+  addVideo as addVideoDB,
+  deleteVideo as deleteVideoDB,
+  toggleVideoFavorite as toggleFavDB,
+  updateVideoMetadata as updateVideoMetadataDB,
+  moveVideoBlobToSource as moveVideoBlobToSourceDB,
+  updateVideoFrameTiming as updateVideoFrameTimingDB,
+  getAllDrawings,
+  putDrawings,
+  getAllMarkers,
+  putMarker,
+  deleteMarker as deleteMarkerDB,
+  getAllSessions,
+  putSession,
+  deleteSession as deleteSessionDB,
+  deletePoseAnalysis as deletePoseAnalysisDB,
+} from '@/lib/db';
 import {
   buildPoseAnalysisCacheId,
   doesPoseAnalysisMatchKey,
+  getPoseCacheTrimRangeMs,
   loadPoseAnalysisCache,
+  savePoseAnalysisCache,
+  type CachedPoseAnalysis,
   type PoseAnalysisCacheKey,
 } from '@/lib/pose/pose-analysis-cache';
 import { preprocessPoseVideoClip } from '@/lib/pose/pose-preprocess-job';
+import { parsePoseAnalysisImport, type PoseAnalysisImportResult } from '@/lib/pose/pose-analysis-import';
 import type { PoseRuntimeConfig } from '@/lib/pose/pose-runtime';
-import { createPoseAngleSelectionMap } from '@/lib/pose/pose-angle-metrics';
+import {
+  createCustomPoseAngle,
+  createDefaultVisibleAngleSelection,
+  createPoseAngleSelectionMap,
+  getPoseAngleMetrics,
+  type PoseAngleMetricDefinition,
+} from '@/lib/pose/pose-angle-metrics';
+import type { PoseTimeWarp } from '@/lib/pose/pose-dtw';
 import { getPosePreprocessPreset } from '@/lib/pose/pose-preprocess-preset';
+import { createDefaultStrainRules, type StrainRuleSet } from '@/lib/pose/pose-strain-rules';
+import { createDefaultPoseAlertRules, type PoseAlertRule } from '@/lib/pose/pose-alerts';
+import {
+  createDefaultAppSettings,
+  createSettingsProfile,
+  exportSettingsProfile,
+  loadSettingsState,
+  parseSettingsProfileImport,
+  saveSettingsState,
+  type AppSettings,
+  type SettingsProfile,
+} from '@/lib/settings-store';
+import { normalizeVideoMetadata } from '@/lib/library-filter';
+import { importProjectBundle, type ProjectBundleImportResult } from '@/lib/project-bundle';
+import { getStorageHeadroomWarning } from '@/lib/storage-usage';
+import { createId } from '@/lib/utils';
+import { extractThumbnail } from '@/lib/video-utils';
+import { detectFrameTiming } from '@/lib/frame-timing';
+import {
+  assignShortcut,
+  createDefaultKeymap,
+  type ShortcutCommandId,
+  type ShortcutKeymap,
+} from '@/lib/keyboard-shortcuts';
 import { useToast } from "@/hooks/use-toast";
 
 const MAX_SLOTS = 4;
 const DEFAULT_PLAYBACK_RATE = 1;
+const SETTINGS_SAVE_DELAY_MS = 400;
+export const MARKER_COLORS = ['#f97316', '#22c55e', '#3b82f6', '#eab308', '#ec4899', '#ffffff'];
 
 export const SYNC_DRAWINGS_KEY = '__sync_drawings__';
 
@@ -94,12 +156,38 @@ const createIdlePoseProcessingState = (): PoseProcessingState => ({
   updatedAtMs: Date.now(),
 });
 
+/** Per-slot times to seek to once the tiles of a reopened session have loaded their clips */
+export interface WorkspaceSessionRestore {
+  token: number;
+  tiles: (WorkspaceSessionTile | null)[];
+}
+
+/**
+ * Drawing layers of the open session. They stand in for the clips' own drawings until the session
+ * is closed. Edits are written to the session record, so the per-clip drawings are never overwritten.
+ */
+interface SessionDrawingLayers {
+  sessionId: string;
+  layers: Record<string, Drawing[]>;
+}
+
 interface AppContextType {
   library: Video[];
   loadLibrary: () => Promise<void>;
   addVideoToLibrary: (video: Omit<Video, 'id' | 'url' | 'createdAt'>) => Promise<void>;
+  /**
+   * Saves each segment as its own clip over one stored copy of `blob`. Pass the same `sourceId`
+   * for later saves from the same recording so they keep sharing it.
+   */
+  addSubClipsToLibrary: (blob: Blob, segments: ClipSegment[], sourceId?: string) => Promise<void>;
+  /** Cuts sub-clips from a library clip; its blob moves to shared storage first if needed */
+  splitVideoIntoSubClips: (video: Video, segments: ClipSegment[]) => Promise<void>;
   removeVideoFromLibrary: (id: string) => Promise<void>;
   toggleFavorite: (id: string) => Promise<void>;
+  /** Measures and stores the clip's frame timing once; later calls reuse the stored value */
+  ensureVideoFrameTiming: (video: Video) => Promise<void>;
+  /** Saves athlete, tags, session date and notes; resolves false when the write failed */
+  updateVideoMetadata: (id: string, metadata: VideoMetadata) => Promise<boolean>;
   poseProcessingByVideo: Record<string, PoseProcessingState>;
   getPoseProcessingState: (videoId?: string | null) => PoseProcessingState;
   processPoseForVideo: (
@@ -109,6 +197,18 @@ interface AppContextType {
   ) => Promise<boolean>;
   cancelPoseProcessing: (videoId?: string | null) => void;
   cancelAllPoseProcessing: () => void;
+  /** Clips queued together from the library; their states are summarized as one batch */
+  poseBatchVideoIds: string[];
+  queuePoseProcessingForVideos: (
+    videos: Video[],
+    modelVariant?: PoseModelVariant,
+    preprocessPreset?: PosePreprocessPresetId
+  ) => void;
+  clearPoseBatch: () => void;
+  /** Removes cached analyses by record id; resolves the number deleted */
+  deletePoseAnalyses: (ids: string[]) => Promise<number>;
+  loadPoseAnalysisForVideo: (video: Video) => Promise<CachedPoseAnalysis | null>;
+  importPoseAnalysisForVideo: (video: Video, file: File) => Promise<PoseAnalysisImportResult>;
 
   slots: (Video | null)[];
   setSlot: (index: number, video: Video | null) => void;
@@ -138,6 +238,10 @@ interface AppContextType {
 
   syncOffsets: number[];
   updateSyncOffset: (index: number, delta: number) => void;
+  setSyncOffsetsForSlots: (offsets: Record<number, number>) => void;
+  /** DTW time warp applied to shared playback; cleared when either slot changes */
+  poseTimeWarp: PoseTimeWarp | null;
+  setPoseTimeWarp: (warp: PoseTimeWarp | null) => void;
 
   isMuted: boolean;
   toggleMute: () => void;
@@ -161,12 +265,39 @@ interface AppContextType {
   setDrawingTool: (tool: DrawingType) => void;
   drawingColor: string;
   setDrawingColor: (color: string) => void;
+  drawingTimeScope: DrawingTimeScope;
+  setDrawingTimeScope: (scope: DrawingTimeScope) => void;
+  drawingHoldSec: number;
+  setDrawingHoldSec: (value: number) => void;
+  /** Per-clip drawings, with the open session's layers in place of the clips they cover */
   drawings: Record<string, Drawing[]>;
   setDrawingsForVideo: (videoId: string, newDrawings: Drawing[]) => void;
   clearDrawings: (videoId: string) => void;
   isSyncDrawingsEnabled: boolean;
   toggleSyncDrawings: () => void;
 
+  // Timeline markers (sorted by time per video)
+  markers: Record<string, Marker[]>;
+  addMarker: (videoId: string, time: number, fields?: Partial<Pick<Marker, 'label' | 'color' | 'note'>>) => Marker;
+  updateMarker: (marker: Marker) => void;
+  removeMarker: (marker: Marker) => void;
+
+  // Saved workspace sessions (newest first)
+  workspaceSessions: WorkspaceSession[];
+  /** Saves the grid under `name`, replacing a session with the same name */
+  saveWorkspaceSession: (name: string) => Promise<WorkspaceSession | null>;
+  openWorkspaceSession: (id: string) => void;
+  /** Session whose drawing layers are shown, until `closeWorkspaceSession` */
+  activeWorkspaceSessionId: string | null;
+  /** Drops the session's drawing layers so each clip shows its own drawings again */
+  closeWorkspaceSession: () => void;
+  deleteWorkspaceSession: (id: string) => Promise<void>;
+  getSessionsReferencingVideo: (videoId: string) => WorkspaceSession[];
+  sessionRestore: WorkspaceSessionRestore | null;
+
+  // Project bundles
+  importProjectBundle: (file: File) => Promise<ProjectBundleImportResult>;
+
   // Pose overlay state
   isPoseEnabled: boolean;
   togglePose: () => void;
@@ -198,10 +329,19 @@ interface AppContextType {
   setPoseShowCoG: (value: boolean) => void;
   poseShowCoGCharts: boolean;
   setPoseShowCoGCharts: (value: boolean) => void;
+  /** Angular velocity and acceleration charts for the plotted angles, from cached frames */
+  poseShowAngleRateCharts: boolean;
+  setPoseShowAngleRateCharts: (value: boolean) => void;
   poseVisibleAngles: PoseAngleSelectionMap;
   setPoseAngleVisible: (id: PoseAngleMetricId, value: boolean) => void;
   posePlottedAngles: PoseAngleSelectionMap;
   setPoseAnglePlotted: (id: PoseAngleMetricId, value: boolean) => void;
+  /** User-defined landmark triplets measured alongside the built-in angles */
+  poseCustomAngles: CustomPoseAngle[];
+  addPoseCustomAngle: (label: string, landmarks: [number, number, number]) => void;
+  removePoseCustomAngle: (id: CustomPoseAngle['id']) => void;
+  /** Built-in angle metrics followed by the custom angles */
+  poseAngleMetrics: PoseAngleMetricDefinition[];
   poseShowBodyLean: boolean;
   setPoseShowBodyLean: (value: boolean) => void;
   poseShowJumpHeight: boolean;
@@ -210,6 +350,29 @@ interface AppContextType {
   setPoseLabelScale: (value: number) => void;
   poseBackgroundBlackout: number;
   setPoseBackgroundBlackout: (value: number) => void;
+  /** Safe angle ranges and limb colours used for strain colouring and exports */
+  poseStrainRules: StrainRuleSet;
+  setPoseStrainRules: (rules: StrainRuleSet) => void;
+  /** Threshold rules evaluated over each clip's cached analysis */
+  poseAlertRules: PoseAlertRule[];
+  setPoseAlertRules: (rules: PoseAlertRule[]) => void;
+
+  // Keyboard shortcuts
+  keymap: ShortcutKeymap;
+  /** Binds `combo` to the command; another command holding the same combo loses it */
+  setShortcutBinding: (id: ShortcutCommandId, combo: string | null) => void;
+  resetKeymap: () => void;
+
+  // Persisted settings profiles
+  settingsProfiles: SettingsProfile[];
+  activeSettingsProfileId: string | null;
+  /** Saves the current settings under `name`, replacing a profile with the same name */
+  saveSettingsProfile: (name: string) => SettingsProfile;
+  applySettingsProfile: (id: string) => void;
+  deleteSettingsProfile: (id: string) => void;
+  exportSettingsProfile: (id: string) => void;
+  importSettingsProfile: (file: File) => Promise<SettingsProfile>;
+  resetSettingsToDefaults: () => void;
 }
 
 const AppContext = createContext<AppContextType | undefined>(undefined);
@@ -224,10 +387,14 @@ export const AppProvider = ({ children }: { children: ReactNode }) => {
   const [overlayTopColorFilter, setOverlayTopColorFilter] = useState<OverlayColorFilter>('none');
   const [overlayTopBlackAndWhite, setOverlayTopBlackAndWhite] = useState<boolean>(false);
   const [poseProcessingByVideo, setPoseProcessingByVideo] = useState<Record<string, PoseProcessingState>>({});
+  const [poseBatchVideoIds, setPoseBatchVideoIds] = useState<string[]>([]);
+  // Bumped when cache records are deleted outside processing so ready states are re-read.
+  const [poseCacheRevision, setPoseCacheRevision] = useState(0);
   const [isSyncEnabled, setIsSyncEnabled] = useState<boolean>(false);
   const [isPortraitMode, setIsPortraitMode] = useState<boolean>(false);
   const [isLoopEnabled, setIsLoopEnabled] = useState<boolean>(true);
   const [syncOffsets, setSyncOffsets] = useState<number[]>(Array(MAX_SLOTS).fill(0));
+  const [poseTimeWarp, setPoseTimeWarp] = useState<PoseTimeWarp | null>(null);
   const [isMuted, setIsMuted] = useState<boolean>(false);
   const [playbackRate, setPlaybackRate] = useState<number>(DEFAULT_PLAYBACK_RATE);
   const [activeTileIndex, setActiveTileIndex] = useState<number | null>(0);
@@ -237,6 +404,8 @@ export const AppProvider = ({ children }: { children: ReactNode }) => {
   const poseProcessingQueueRef = useRef<Promise<void>>(Promise.resolve());
   const removedVideoIdsRef = useRef<Set<string>>(new Set());
   const libraryRef = useRef<Video[]>([]);
+  // Clip ids whose frame timing was probed this session, so tiles do not probe twice.
+  const frameTimingProbesRef = useRef<Set<string>>(new Set());
   const { toast } = useToast();
 
   const [zoomLevels, setZoomLevels] = useState<number[]>(Array(MAX_SLOTS).fill(1));
@@ -248,8 +417,18 @@ export const AppProvider = ({ children }: { children: ReactNode }) => {
   const [isDrawingEnabled, setIsDrawingEnabled] = useState<boolean>(false);
   const [drawingTool, setDrawingTool] = useState<DrawingType>('free');
   const [drawingColor, setDrawingColor] = useState<string>('#ef4444'); // Default red
-  const [drawings, setDrawings] = useState<Record<string, Drawing[]>>({});
+  const [drawingTimeScope, setDrawingTimeScope] = useState<DrawingTimeScope>('clip');
+  const [drawingHoldSec, setDrawingHoldSecState] = useState<number>(1);
+  const [clipDrawings, setDrawings] = useState<Record<string, Drawing[]>>({});
+  const [sessionDrawingLayers, setSessionDrawingLayers] = useState<SessionDrawingLayers | null>(null);
+  const drawings = useMemo(
+    () => (sessionDrawingLayers ? { ...clipDrawings, ...sessionDrawingLayers.layers } : clipDrawings),
+    [clipDrawings, sessionDrawingLayers]
+  );
   const [isSyncDrawingsEnabled, setIsSyncDrawingsEnabled] = useState(false);
+  const [markers, setMarkers] = useState<Record<string, Marker[]>>({});
+  const [workspaceSessions, setWorkspaceSessions] = useState<WorkspaceSession[]>([]);
+  const [sessionRestore, setSessionRestore] = useState<WorkspaceSessionRestore | null>(null);
 
   // Pose overlay state
   const [isPoseEnabled, setIsPoseEnabled] = useState<boolean>(false);
@@ -267,12 +446,21 @@ export const AppProvider = ({ children }: { children: ReactNode }) => {
   const [poseUseYoloMultiPerson, setPoseUseYoloMultiPerson] = useState<boolean>(true);
   const [poseShowCoG, setPoseShowCoG] = useState<boolean>(false);
   const [poseShowCoGCharts, setPoseShowCoGCharts] = useState<boolean>(true);
-  const [poseVisibleAngles, setPoseVisibleAngles] = useState<PoseAngleSelectionMap>(() => createPoseAngleSelectionMap(true));
+  const [poseShowAngleRateCharts, setPoseShowAngleRateCharts] = useState<boolean>(false);
+  const [poseVisibleAngles, setPoseVisibleAngles] = useState<PoseAngleSelectionMap>(() => createDefaultVisibleAngleSelection());
   const [posePlottedAngles, setPosePlottedAngles] = useState<PoseAngleSelectionMap>(() => createPoseAngleSelectionMap(false));
+  const [poseCustomAngles, setPoseCustomAngles] = useState<CustomPoseAngle[]>([]);
+  const poseAngleMetrics = useMemo(() => getPoseAngleMetrics(poseCustomAngles), [poseCustomAngles]);
   const [poseShowBodyLean, setPoseShowBodyLean] = useState<boolean>(false);
   const [poseShowJumpHeight, setPoseShowJumpHeight] = useState<boolean>(false);
   const [poseLabelScale, setPoseLabelScale] = useState<number>(1);
   const [poseBackgroundBlackout, setPoseBackgroundBlackout] = useState<number>(0);
+  const [poseStrainRules, setPoseStrainRules] = useState<StrainRuleSet>(() => createDefaultStrainRules());
+  const [poseAlertRules, setPoseAlertRules] = useState<PoseAlertRule[]>(() => createDefaultPoseAlertRules());
+  const [keymap, setKeymap] = useState<ShortcutKeymap>(() => createDefaultKeymap());
+  const [settingsProfiles, setSettingsProfiles] = useState<SettingsProfile[]>([]);
+  const [activeSettingsProfileId, setActiveSettingsProfileId] = useState<string | null>(null);
+  const [hasLoadedSettings, setHasLoadedSettings] = useState(false);
   const hadAnyGridVideoRef = useRef(false);
 
   const resetTransientGridControls = useCallback(() => {
@@ -280,11 +468,9 @@ export const AppProvider = ({ children }: { children: ReactNode }) => {
     setIsSyncDrawingsEnabled(false);
     setIsPoseEnabled(false);
     setIsSyncEnabled(false);
-    setIsPortraitMode(false);
     setIsMuted(false);
     setIsLoopEnabled(true);
     setCompareViewMode('grid');
-    setPlaybackRate(DEFAULT_PLAYBACK_RATE);
     setActiveTileIndex(0);
     setLayout(1);
     setSyncOffsets(Array(MAX_SLOTS).fill(0));
@@ -312,6 +498,76 @@ export const AppProvider = ({ children }: { children: ReactNode }) => {
     libraryRef.current = library;
   }, [library]);
 
+  useEffect(() => {
+    let cancelled = false;
+    const loadDrawings = async () => {
+      try {
+        const records = await getAllDrawings();
+        if (cancelled) return;
+        setDrawings(prev => {
+          const next: Record<string, Drawing[]> = {};
+          records.forEach((record) => {
+            next[record.videoId] = record.drawings;
+          });
+          // Anything drawn before the store finished loading wins over the persisted copy.
+          return { ...next, ...prev };
+        });
+      } catch (error) {
+        console.error('Failed to load drawings:', error);
+      }
+    };
+    void loadDrawings();
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  useEffect(() => {
+    let cancelled = false;
+    const loadMarkers = async () => {
+      try {
+        const records = await getAllMarkers();
+        if (cancelled) return;
+        setMarkers(prev => {
+          const next: Record<string, Marker[]> = {};
+          records.forEach((marker) => {
+            next[marker.videoId] = [...(next[marker.videoId] ?? []), marker];
+          });
+          Object.keys(next).forEach((videoId) => {
+            next[videoId].sort((a, b) => a.time - b.time);
+          });
+          return { ...next, ...prev };
+        });
+      } catch (error) {
+        console.error('Failed to load markers:', error);
+      }
+    };
+    void loadMarkers();
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  useEffect(() => {
+    let cancelled = false;
+    const loadSessions = async () => {
+      try {
+        const records = await getAllSessions();
+        if (cancelled) return;
+        setWorkspaceSessions(prev => [
+          ...prev,
+          ...records.filter((record) => !prev.some((session) => session.id === record.id)),
+        ]);
+      } catch (error) {
+        console.error('Failed to load sessions:', error);
+      }
+    };
+    void loadSessions();
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
   useEffect(() => {
     return () => {
       libraryRef.current.forEach((video) => URL.revokeObjectURL(video.url));
@@ -320,12 +576,7 @@ export const AppProvider = ({ children }: { children: ReactNode }) => {
 
   const addVideoToLibrary = async (videoData: Omit<Video, 'id' | 'url' | 'createdAt'>) => {
     try {
-      // crypto.randomUUID() requires HTTPS on iOS Safari; fallback for HTTP dev
-      const id = typeof crypto.randomUUID === 'function'
-        ? crypto.randomUUID()
-        : ([1e7].toString() + -1e3 + -4e3 + -8e3 + -1e11).replace(/[018]/g, c =>
-          (Number(c) ^ (crypto.getRandomValues(new Uint8Array(1))[0] & (15 >> (Number(c) / 4)))).toString(16)
-        );
+      const id = createId();
       const newVideo: Video = {
         ...videoData,
         id,
@@ -334,6 +585,14 @@ export const AppProvider = ({ children }: { children: ReactNode }) => {
       };
       removedVideoIdsRef.current.delete(id);
 
+      const sharesStoredRecording = Boolean(
+        videoData.sourceId && libraryRef.current.some((video) => video.sourceId === videoData.sourceId)
+      );
+      const storageWarning = await getStorageHeadroomWarning(sharesStoredRecording ? 0 : videoData.blob.size);
+      if (storageWarning) {
+        toast({ title: "Storage almost full", description: storageWarning });
+      }
+
       // Save to IndexedDB
       await addVideoDB(newVideo);
 
@@ -346,6 +605,56 @@ export const AppProvider = ({ children }: { children: ReactNode }) => {
     }
   };
 
+  const addSubClipsToLibrary = async (blob: Blob, segments: ClipSegment[], sourceId?: string) => {
+    const sharedSourceId = sourceId ?? (segments.length > 1 ? createId() : undefined);
+    for (const segment of segments) {
+      const { duration, thumbnail } = await extractThumbnail(blob, segment.trimStart);
+      await addVideoToLibrary({
+        name: segment.name,
+        blob,
+        duration,
+        trimStart: segment.trimStart,
+        trimEnd: segment.trimEnd,
+        thumbnail,
+        sourceId: sharedSourceId,
+      });
+    }
+  };
+
+  const splitVideoIntoSubClips = async (video: Video, segments: ClipSegment[]) => {
+    let sourceId = video.sourceId;
+    if (!sourceId) {
+      const sharedSourceId = createId();
+      try {
+        await moveVideoBlobToSourceDB(video.id, sharedSourceId);
+      } catch (error) {
+        console.error('Failed to share video recording:', error);
+        toast({ title: "Error", description: "Could not split the clip.", variant: "destructive" });
+        return;
+      }
+      setLibrary(prev => prev.map(v => v.id === video.id ? { ...v, sourceId: sharedSourceId } : v));
+      sourceId = sharedSourceId;
+    }
+    await addSubClipsToLibrary(video.blob, segments, sourceId);
+  };
+
+  const ensureVideoFrameTiming = useCallback(async (video: Video) => {
+    if (video.frameTiming || frameTimingProbesRef.current.has(video.id)) return;
+    frameTimingProbesRef.current.add(video.id);
+    try {
+      const frameTiming = await detectFrameTiming(video.blob, {
+        startSec: video.trimStart ?? 0,
+        endSec: video.trimEnd ?? undefined,
+      });
+      if (!frameTiming || removedVideoIdsRef.current.has(video.id)) return;
+      await updateVideoFrameTimingDB(video.id, frameTiming);
+      setLibrary(prev => prev.map(v => v.id === video.id ? { ...v, frameTiming } : v));
+      setSlots(prev => prev.map(slot => slot?.id === video.id ? { ...slot, frameTiming } : slot));
+    } catch (error) {
+      console.warn('Could not measure frame timing:', error);
+    }
+  }, []);
+
   const toggleFavorite = async (id: string) => {
     try {
       const newValue = await toggleFavDB(id);
@@ -357,6 +666,21 @@ export const AppProvider = ({ children }: { children: ReactNode }) => {
     }
   };
 
+  const updateVideoMetadata = async (id: string, metadata: VideoMetadata) => {
+    const normalized = normalizeVideoMetadata(metadata);
+    try {
+      await updateVideoMetadataDB(id, normalized);
+      setLibrary(prev =>
+        prev.map(v => v.id === id ? { ...v, ...normalized } : v)
+      );
+      return true;
+    } catch (error) {
+      console.error('Failed to update video details:', error);
+      toast({ title: "Error", description: "Could not save clip details.", variant: "destructive" });
+      return false;
+    }
+  };
+
   const removeVideoFromLibrary = async (id: string) => {
     try {
       removedVideoIdsRef.current.add(id);
@@ -370,6 +694,19 @@ export const AppProvider = ({ children }: { children: ReactNode }) => {
         delete next[id];
         return next;
       });
+      setPoseBatchVideoIds(prev => prev.filter((videoId) => videoId !== id));
+      setDrawings(prev => {
+        if (!(id in prev)) return prev;
+        const next = { ...prev };
+        delete next[id];
+        return next;
+      });
+      setMarkers(prev => {
+        if (!(id in prev)) return prev;
+        const next = { ...prev };
+        delete next[id];
+        return next;
+      });
       setLibrary(prev => {
         const videoToRemove = prev.find(v => v.id === id);
         if (videoToRemove) URL.revokeObjectURL(videoToRemove.url);
@@ -563,6 +900,228 @@ export const AppProvider = ({ children }: { children: ReactNode }) => {
     setPosePlottedAngles((prev) => (prev[id] === value ? prev : { ...prev, [id]: value }));
   }, []);
 
+  const addPoseCustomAngle = useCallback((label: string, landmarks: [number, number, number]) => {
+    const angle = createCustomPoseAngle(label, landmarks);
+    setPoseCustomAngles((prev) => [...prev, angle]);
+    setPoseVisibleAngles((prev) => ({ ...prev, [angle.id]: true }));
+  }, []);
+
+  const removePoseCustomAngle = useCallback((id: CustomPoseAngle['id']) => {
+    const omit = (prev: PoseAngleSelectionMap) => {
+      if (!(id in prev)) return prev;
+      const next = { ...prev };
+      delete next[id];
+      return next;
+    };
+    setPoseCustomAngles((prev) => prev.filter((angle) => angle.id !== id));
+    setPoseVisibleAngles(omit);
+    setPosePlottedAngles(omit);
+  }, []);
+
+  const setShortcutBinding = useCallback((id: ShortcutCommandId, combo: string | null) => {
+    setKeymap((prev) => assignShortcut(prev, id, combo));
+  }, []);
+
+  const resetKeymap = useCallback(() => setKeymap(createDefaultKeymap()), []);
+
+  const currentSettings = useMemo<AppSettings>(() => ({
+    layout,
+    isPortraitMode,
+    playbackRate,
+    overlayOpacity,
+    overlayBlendMode,
+    overlayTopColorFilter,
+    overlayTopBlackAndWhite,
+    drawingTool,
+    drawingColor,
+    drawingTimeScope,
+    drawingHoldSec,
+    poseModelVariant,
+    poseAnalyzeScope,
+    posePreprocessPreset,
+    poseMinVisibility,
+    poseTargetFps,
+    poseMinPoseDetectionConfidence,
+    poseMinPosePresenceConfidence,
+    poseMinTrackingConfidence,
+    poseUseExactFrameSync,
+    poseUseSmoothing,
+    poseUsePreprocessCache,
+    poseUseYoloMultiPerson,
+    poseShowCoG,
+    poseShowCoGCharts,
+    poseShowAngleRateCharts,
+    poseVisibleAngles,
+    posePlottedAngles,
+    poseCustomAngles,
+    poseShowBodyLean,
+    poseShowJumpHeight,
+    poseLabelScale,
+    poseBackgroundBlackout,
+    poseStrainRules,
+    poseAlertRules,
+    keymap,
+  }), [
+    layout,
+    isPortraitMode,
+    playbackRate,
+    overlayOpacity,
+    overlayBlendMode,
+    overlayTopColorFilter,
+    overlayTopBlackAndWhite,
+    drawingTool,
+    drawingColor,
+    drawingTimeScope,
+    drawingHoldSec,
+    poseModelVariant,
+    poseAnalyzeScope,
+    posePreprocessPreset,
+    poseMinVisibility,
+    poseTargetFps,
+    poseMinPoseDetectionConfidence,
+    poseMinPosePresenceConfidence,
+    poseMinTrackingConfidence,
+    poseUseExactFrameSync,
+    poseUseSmoothing,
+    poseUsePreprocessCache,
+    poseUseYoloMultiPerson,
+    poseShowCoG,
+    poseShowCoGCharts,
+    poseShowAngleRateCharts,
+    poseVisibleAngles,
+    posePlottedAngles,
+    poseCustomAngles,
+    poseShowBodyLean,
+    poseShowJumpHeight,
+    poseLabelScale,
+    poseBackgroundBlackout,
+    poseStrainRules,
+    poseAlertRules,
+    keymap,
+  ]);
+
+  // Settings arrive normalized from the store, so they bypass the clamping setters.
+  const applySettings = useCallback((settings: AppSettings, minLayout: Layout) => {
+    setLayout(settings.layout >= minLayout ? settings.layout : minLayout);
+    setIsPortraitMode(settings.isPortraitMode);
+    setPlaybackRate(settings.playbackRate);
+    setOverlayOpacityState(settings.overlayOpacity);
+    setOverlayBlendMode(settings.overlayBlendMode);
+    setOverlayTopColorFilter(settings.overlayTopColorFilter);
+    setOverlayTopBlackAndWhite(settings.overlayTopBlackAndWhite);
+    setDrawingTool(settings.drawingTool);
+    setDrawingColor(settings.drawingColor);
+    setDrawingTimeScope(settings.drawingTimeScope);
+    setDrawingHoldSecState(settings.drawingHoldSec);
+    setPoseModelVariant(settings.poseModelVariant);
+    setPoseAnalyzeScope(settings.poseAnalyzeScope);
+    setPosePreprocessPreset(settings.posePreprocessPreset);
+    setPoseMinVisibility(settings.poseMinVisibility);
+    setPoseTargetFps(settings.poseTargetFps);
+    setPoseMinPoseDetectionConfidence(settings.poseMinPoseDetectionConfidence);
+    setPoseMinPosePresenceConfidence(settings.poseMinPosePresenceConfidence);
+    setPoseMinTrackingConfidence(settings.poseMinTrackingConfidence);
+    setPoseUseExactFrameSync(settings.poseUseExactFrameSync);
+    setPoseUseSmoothing(settings.poseUseSmoothing);
+    setPoseUsePreprocessCache(settings.poseUsePreprocessCache);
+    setPoseUseYoloMultiPerson(settings.poseUseYoloMultiPerson);
+    setPoseShowCoG(settings.poseShowCoG);
+    setPoseShowCoGCharts(settings.poseShowCoGCharts);
+    setPoseShowAngleRateCharts(settings.poseShowAngleRateCharts);
+    setPoseVisibleAngles(settings.poseVisibleAngles);
+    setPosePlottedAngles(settings.posePlottedAngles);
+    setPoseCustomAngles(settings.poseCustomAngles);
+    setPoseShowBodyLean(settings.poseShowBodyLean);
+    setPoseShowJumpHeight(settings.poseShowJumpHeight);
+    setPoseLabelScale(settings.poseLabelScale);
+    setPoseBackgroundBlackout(settings.poseBackgroundBlackout);
+    setPoseStrainRules(settings.poseStrainRules);
+    setPoseAlertRules(settings.poseAlertRules);
+    setKeymap(settings.keymap);
+  }, []);
+
+  useEffect(() => {
+    let cancelled = false;
+    const loadSettings = async () => {
+      try {
+        const state = await loadSettingsState();
+        if (cancelled) return;
+        applySettings(state.settings, 1);
+        setSettingsProfiles(state.profiles);
+        setActiveSettingsProfileId(state.activeProfileId);
+        setHasLoadedSettings(true);
+      } catch (error) {
+        // Saving is left disabled so an unreadable store is not overwritten with defaults.
+        console.error('Failed to load settings:', error);
+      }
+    };
+    void loadSettings();
+    return () => {
+      cancelled = true;
+    };
+  }, [applySettings]);
+
+  useEffect(() => {
+    if (!hasLoadedSettings) return;
+    const timeoutId = window.setTimeout(() => {
+      saveSettingsState({
+        settings: currentSettings,
+        profiles: settingsProfiles,
+        activeProfileId: activeSettingsProfileId,
+      }).catch((error) => {
+        console.error('Failed to save settings:', error);
+      });
+    }, SETTINGS_SAVE_DELAY_MS);
+    return () => window.clearTimeout(timeoutId);
+  }, [activeSettingsProfileId, currentSettings, hasLoadedSettings, settingsProfiles]);
+
+  const saveSettingsProfile = (name: string) => {
+    const profileName = name.trim() || 'Untitled profile';
+    const existing = settingsProfiles.find((profile) => profile.name.toLowerCase() === profileName.toLowerCase());
+    const profile = existing
+      ? { ...existing, settings: currentSettings, updatedAtMs: Date.now() }
+      : createSettingsProfile(profileName, currentSettings);
+    setSettingsProfiles(prev => (
+      existing ? prev.map((item) => (item.id === existing.id ? profile : item)) : [...prev, profile]
+    ));
+    setActiveSettingsProfileId(profile.id);
+    return profile;
+  };
+
+  const applySettingsProfile = (id: string) => {
+    const profile = settingsProfiles.find((item) => item.id === id);
+    if (!profile) return;
+    applySettings(profile.settings, getRequiredLayoutForSlots(slots));
+    setActiveSettingsProfileId(id);
+  };
+
+  const deleteSettingsProfile = (id: string) => {
+    setSettingsProfiles(prev => prev.filter((profile) => profile.id !== id));
+    setActiveSettingsProfileId(prev => (prev === id ? null : prev));
+  };
+
+  const handleExportSettingsProfile = (id: string) => {
+    const profile = settingsProfiles.find((item) => item.id === id);
+    if (profile) exportSettingsProfile(profile);
+  };
+
+  const importSettingsProfile = async (file: File) => {
+    const profile = parseSettingsProfileImport(await file.text());
+    const takenNames = new Set(settingsProfiles.map((item) => item.name.toLowerCase()));
+    let name = profile.name;
+    for (let suffix = 2; takenNames.has(name.toLowerCase()); suffix += 1) {
+      name = `${profile.name} (${suffix})`;
+    }
+    const imported = { ...profile, name };
+    setSettingsProfiles(prev => [...prev, imported]);
+    return imported;
+  };
+
+  const resetSettingsToDefaults = () => {
+    applySettings(createDefaultAppSettings(), getRequiredLayoutForSlots(slots));
+    setActiveSettingsProfileId(null);
+  };
+
   const updateSyncOffset = useCallback((index: number, delta: number) => {
     setSyncOffsets(prev => {
       const newOffsets = [...prev];
@@ -572,6 +1131,13 @@ export const AppProvider = ({ children }: { children: ReactNode }) => {
     });
   }, []);
 
+  const setSyncOffsetsForSlots = useCallback((offsets: Record<number, number>) => {
+    setSyncOffsets(prev => prev.map((offset, index) => {
+      const next = offsets[index];
+      return Number.isFinite(next) ? Number(next.toFixed(6)) : offset;
+    }));
+  }, []);
+
   const setZoomLevel = (index: number, scale: number) => {
     setZoomLevels(prev => {
       if (isSyncEnabled) {
@@ -594,18 +1160,238 @@ export const AppProvider = ({ children }: { children: ReactNode }) => {
     });
   };
 
+  const persistDrawings = (videoId: string, newDrawings: Drawing[]) => {
+    putDrawings(videoId, newDrawings).catch((error) => {
+      console.error('Failed to save drawings:', error);
+    });
+  };
+
+  const persistSessionDrawings = (sessionId: string, layers: Record<string, Drawing[]>) => {
+    const session = workspaceSessions.find((item) => item.id === sessionId);
+    if (!session) return;
+    const updated: WorkspaceSession = {
+      ...session,
+      updatedAt: new Date(),
+      drawings: Object.fromEntries(Object.entries(layers).filter(([, items]) => items.length > 0)),
+    };
+    setWorkspaceSessions(prev => [updated, ...prev.filter((item) => item.id !== sessionId)]);
+    putSession(updated).catch((error) => {
+      console.error('Failed to save session drawings:', error);
+    });
+  };
+
   const setDrawingsForVideo = (videoId: string, newDrawings: Drawing[]) => {
+    if (sessionDrawingLayers && videoId in sessionDrawingLayers.layers) {
+      const layers = { ...sessionDrawingLayers.layers, [videoId]: newDrawings };
+      setSessionDrawingLayers({ ...sessionDrawingLayers, layers });
+      persistSessionDrawings(sessionDrawingLayers.sessionId, layers);
+      return;
+    }
     setDrawings(prev => ({
       ...prev,
       [videoId]: newDrawings
     }));
+    persistDrawings(videoId, newDrawings);
   };
 
   const clearDrawings = (videoId: string) => {
-    setDrawings(prev => ({
+    setDrawingsForVideo(videoId, []);
+  };
+
+  const setDrawingHoldSec = (value: number) => {
+    setDrawingHoldSecState(Math.max(0, Math.min(10, value)));
+  };
+
+  const addMarker = (
+    videoId: string,
+    time: number,
+    fields?: Partial<Pick<Marker, 'label' | 'color' | 'note'>>
+  ) => {
+    const existing = markers[videoId] ?? [];
+    const marker: Marker = {
+      id: createId(),
+      videoId,
+      time: Math.max(0, time),
+      label: fields?.label ?? `Marker ${existing.length + 1}`,
+      color: fields?.color ?? MARKER_COLORS[existing.length % MARKER_COLORS.length],
+      note: fields?.note,
+      createdAt: Date.now(),
+    };
+    setMarkers(prev => ({
       ...prev,
-      [videoId]: []
+      [videoId]: [...(prev[videoId] ?? []), marker].sort((a, b) => a.time - b.time),
     }));
+    putMarker(marker).catch((error) => {
+      console.error('Failed to save marker:', error);
+    });
+    return marker;
+  };
+
+  const updateMarker = (marker: Marker) => {
+    setMarkers(prev => ({
+      ...prev,
+      [marker.videoId]: (prev[marker.videoId] ?? [])
+        .map((existing) => (existing.id === marker.id ? marker : existing))
+        .sort((a, b) => a.time - b.time),
+    }));
+    putMarker(marker).catch((error) => {
+      console.error('Failed to save marker:', error);
+    });
+  };
+
+  const removeMarker = (marker: Marker) => {
+    setMarkers(prev => ({
+      ...prev,
+      [marker.videoId]: (prev[marker.videoId] ?? []).filter((existing) => existing.id !== marker.id),
+    }));
+    deleteMarkerDB(marker.id).catch((error) => {
+      console.error('Failed to delete marker:', error);
+    });
+  };
+
+  const saveWorkspaceSession = async (name: string) => {
+    const tiles = slots.map((video, index): WorkspaceSessionTile | null => {
+      if (!video) return null;
+      const element = videoRefs.current[index];
+      return {
+        videoId: video.id,
+        time: element && Number.isFinite(element.currentTime) ? element.currentTime : (video.trimStart ?? 0),
+        syncOffset: syncOffsets[index] ?? 0,
+        zoom: zoomLevels[index] ?? 1,
+        pan: panPositions[index] ?? { x: 0, y: 0 },
+      };
+    });
+    if (!tiles.some(Boolean)) {
+      toast({ title: "Nothing to save", description: "Load at least one clip into the grid first.", variant: "destructive" });
+      return null;
+    }
+
+    const layerKeys = [...tiles.flatMap((tile) => (tile ? [tile.videoId] : [])), SYNC_DRAWINGS_KEY];
+    const sessionName = name.trim() || 'Untitled session';
+    const existing = workspaceSessions.find((session) => session.name.toLowerCase() === sessionName.toLowerCase());
+    const now = new Date();
+    const session: WorkspaceSession = {
+      id: existing?.id ?? createId(),
+      name: sessionName,
+      createdAt: existing?.createdAt ?? now,
+      updatedAt: now,
+      layout,
+      compareViewMode,
+      isSyncEnabled,
+      activeTileIndex,
+      tiles,
+      drawings: Object.fromEntries(
+        layerKeys
+          .filter((key) => (drawings[key]?.length ?? 0) > 0)
+          .map((key) => [key, drawings[key]])
+      ),
+      isSyncDrawingsEnabled,
+    };
+
+    try {
+      await putSession(session);
+      setWorkspaceSessions(prev => [session, ...prev.filter((item) => item.id !== session.id)]);
+      // Saving under another name carries the open session's layers over to the new one.
+      setSessionDrawingLayers(prev => prev && { ...prev, sessionId: session.id });
+      return session;
+    } catch (error) {
+      console.error('Failed to save session:', error);
+      toast({ title: "Error", description: "Could not save session.", variant: "destructive" });
+      return null;
+    }
+  };
+
+  const openWorkspaceSession = (id: string) => {
+    const session = workspaceSessions.find((item) => item.id === id);
+    if (!session) return;
+
+    const libraryById = new Map(library.map((video) => [video.id, video]));
+    const availableTiles = Array.from({ length: MAX_SLOTS }, (_, index) => {
+      const tile = session.tiles[index];
+      return tile && libraryById.has(tile.videoId) ? tile : null;
+    });
+    const missingCount = session.tiles.filter((tile) => tile && !libraryById.has(tile.videoId)).length;
+    const { compacted, remap } = compactSlots(
+      availableTiles.map((tile) => (tile ? libraryById.get(tile.videoId) ?? null : null))
+    );
+    const restoredTiles = compacted.map((_, index) => (remap[index] !== undefined ? availableTiles[remap[index]] : null));
+    const requiredLayout = getRequiredLayoutForSlots(compacted);
+
+    setSlots(compacted);
+    setLayout(session.layout >= requiredLayout ? session.layout : requiredLayout);
+    setCompareViewMode(session.compareViewMode);
+    setIsSyncEnabled(session.isSyncEnabled);
+    setIsSyncDrawingsEnabled(session.isSyncDrawingsEnabled);
+    setSyncOffsets(restoredTiles.map((tile) => tile?.syncOffset ?? 0));
+    setZoomLevels(restoredTiles.map((tile) => tile?.zoom ?? 1));
+    setPanPositions(restoredTiles.map((tile) => tile?.pan ?? { x: 0, y: 0 }));
+    setActiveTileIndex(
+      missingCount === 0 && session.activeTileIndex !== null && session.activeTileIndex < requiredLayout
+        ? session.activeTileIndex
+        : 0
+    );
+    setPoseTimeWarp(null);
+
+    // Layers show as saved, empty ones included, without touching the clips' own drawings.
+    const layerKeys = [...restoredTiles.flatMap((tile) => (tile ? [tile.videoId] : [])), SYNC_DRAWINGS_KEY];
+    setSessionDrawingLayers({
+      sessionId: session.id,
+      layers: Object.fromEntries(layerKeys.map((key) => [key, session.drawings[key] ?? []])),
+    });
+    setSessionRestore({ token: Date.now(), tiles: restoredTiles });
+
+    if (missingCount > 0) {
+      toast({
+        title: "Session partially restored",
+        description: `${missingCount} clip${missingCount === 1 ? ' is' : 's are'} no longer in the library.`,
+        variant: "destructive",
+      });
+    }
+  };
+
+  const deleteWorkspaceSession = async (id: string) => {
+    try {
+      await deleteSessionDB(id);
+      setWorkspaceSessions(prev => prev.filter((session) => session.id !== id));
+      setSessionDrawingLayers(prev => (prev?.sessionId === id ? null : prev));
+    } catch (error) {
+      console.error('Failed to delete session:', error);
+      toast({ title: "Error", description: "Could not delete session.", variant: "destructive" });
+    }
+  };
+
+  const closeWorkspaceSession = () => {
+    setSessionDrawingLayers(null);
+  };
+
+  const getSessionsReferencingVideo = (videoId: string) =>
+    workspaceSessions.filter((session) => session.tiles.some((tile) => tile?.videoId === videoId));
+
+  const handleImportProjectBundle = async (file: File) => {
+    const result = await importProjectBundle(file, libraryRef.current);
+    const addedVideos = result.addedVideos.map((video) => ({ ...video, url: URL.createObjectURL(video.blob) }));
+    addedVideos.forEach((video) => removedVideoIdsRef.current.delete(video.id));
+    // Same newest-first order the library is loaded in.
+    setLibrary(prev => [...prev, ...addedVideos].sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime()));
+    if (result.drawingLayers.length > 0) {
+      setDrawings(prev => {
+        const next = { ...prev };
+        result.drawingLayers.forEach(({ videoId, drawings: layer }) => {
+          next[videoId] = layer;
+        });
+        return next;
+      });
+    }
+    if (result.markers.length > 0) {
+      setMarkers(prev => {
+        const next = { ...prev };
+        result.markers.forEach((marker) => {
+          next[marker.videoId] = [...(next[marker.videoId] ?? []), marker].sort((a, b) => a.time - b.time);
+        });
+        return next;
+      });
+    }
+    return result;
   };
 
   const toggleSyncDrawings = () => setIsSyncDrawingsEnabled(v => !v);
@@ -615,6 +1401,16 @@ export const AppProvider = ({ children }: { children: ReactNode }) => {
     setOverlayOpacityState(Math.max(0, Math.min(1, value)));
   };
 
+  useEffect(() => {
+    if (!poseTimeWarp) return;
+    if (
+      slots[poseTimeWarp.referenceIndex]?.id !== poseTimeWarp.referenceVideoId ||
+      slots[poseTimeWarp.targetIndex]?.id !== poseTimeWarp.targetVideoId
+    ) {
+      setPoseTimeWarp(null);
+    }
+  }, [poseTimeWarp, slots]);
+
   useEffect(() => {
     if (compareViewMode === 'overlay' && !canUseOverlayComparison) {
       setCompareViewMode('grid');
@@ -634,12 +1430,6 @@ export const AppProvider = ({ children }: { children: ReactNode }) => {
     modelVariant?: PoseModelVariant,
     preprocessPresetId?: PosePreprocessPresetId
   ): PoseAnalysisCacheKey => {
-    const trimStartSec = Number.isFinite(video.trimStart) ? Math.max(0, video.trimStart ?? 0) : 0;
-    const trimEndCandidate = Number.isFinite(video.trimEnd) ? video.trimEnd ?? trimStartSec : video.duration;
-    const trimEndSec = Math.max(
-      trimStartSec,
-      Number.isFinite(trimEndCandidate) ? trimEndCandidate : trimStartSec
-    );
     const preset = getPosePreprocessPreset(preprocessPresetId ?? posePreprocessPreset);
     return {
       videoId: video.id,
@@ -648,11 +1438,16 @@ export const AppProvider = ({ children }: { children: ReactNode }) => {
       targetFps: preset.targetFps,
       inputSize: preset.inputSize,
       yoloMultiPerson: poseUseYoloMultiPerson,
-      trimStartMs: Math.max(0, Math.floor(trimStartSec * 1000)),
-      trimEndMs: Math.max(0, Math.floor(trimEndSec * 1000)),
+      ...getPoseCacheTrimRangeMs(video),
     };
   }, [poseModelVariant, posePreprocessPreset, poseUseYoloMultiPerson]);
 
+  const loadPoseAnalysisForVideo = useCallback(async (video: Video) => {
+    const cacheId = buildPoseAnalysisCacheId(buildPoseCacheKeyForVideo(video));
+    const cached = await loadPoseAnalysisCache(cacheId);
+    return cached && cached.frames.length > 0 ? cached : null;
+  }, [buildPoseCacheKeyForVideo]);
+
   const enqueuePoseProcessingJob = useCallback(function <T>(job: () => Promise<T>): Promise<T> {
     const queuedJob = poseProcessingQueueRef.current.then(job, job);
     poseProcessingQueueRef.current = queuedJob.then(() => undefined, () => undefined);
@@ -892,6 +1687,66 @@ export const AppProvider = ({ children }: { children: ReactNode }) => {
     setPoseProcessingStateForVideo,
   ]);
 
+  const queuePoseProcessingForVideos = (
+    videos: Video[],
+    modelVariant?: PoseModelVariant,
+    preprocessPresetId?: PosePreprocessPresetId
+  ) => {
+    if (videos.length === 0) return;
+    // Snapshot the in-flight jobs from the ref before starting new ones: rendered state may not
+    // reflect a queue action made moments earlier, and the updater below runs later still.
+    const inFlightIds = new Set(Object.keys(poseProcessingPromisesRef.current));
+    setPoseBatchVideoIds(prev => {
+      // A batch that has fully settled is replaced; one still running is extended.
+      const base = prev.some((id) => inFlightIds.has(id)) ? prev : [];
+      return [...base, ...videos.map((video) => video.id).filter((id) => !base.includes(id))];
+    });
+    videos
+      .filter((video) => !inFlightIds.has(video.id))
+      .forEach((video) => {
+        void processPoseForVideo(video, modelVariant, preprocessPresetId);
+      });
+  };
+
+  const clearPoseBatch = () => setPoseBatchVideoIds([]);
+
+  const deletePoseAnalyses = async (ids: string[]) => {
+    let deleted = 0;
+    try {
+      for (const id of ids) {
+        await deletePoseAnalysisDB(id);
+        deleted += 1;
+      }
+    } catch (error) {
+      console.error('Failed to delete pose analyses:', error);
+      toast({ title: "Error", description: "Could not delete some pose analyses.", variant: "destructive" });
+    }
+    if (deleted > 0) setPoseCacheRevision(prev => prev + 1);
+    return deleted;
+  };
+
+  const importPoseAnalysisForVideo = useCallback(async (video: Video, file: File) => {
+    if (video.id in poseProcessingPromisesRef.current) {
+      throw new Error('Wait for pose processing to finish before importing keypoints.');
+    }
+    // Store under the same key the overlay resolves so imported data plays back like a processed clip.
+    const cacheKey = buildPoseCacheKeyForVideo(video);
+    const result = await parsePoseAnalysisImport(file, video, cacheKey);
+    await savePoseAnalysisCache(cacheKey, result.frames, {
+      effectiveSampleFps: result.effectiveSampleFps,
+    });
+    setPoseProcessingStateForVideo(video.id, {
+      status: 'ready',
+      progress: 1,
+      etaSec: 0,
+      error: null,
+      modelVariant: cacheKey.modelVariant,
+      preprocessPreset: cacheKey.preprocessPreset,
+      updatedAtMs: Date.now(),
+    });
+    return result;
+  }, [buildPoseCacheKeyForVideo, setPoseProcessingStateForVideo]);
+
   useEffect(() => {
     const handlePageTeardown = () => {
       cancelAllPoseProcessing();
@@ -968,19 +1823,29 @@ export const AppProvider = ({ children }: { children: ReactNode }) => {
     return () => {
       cancelled = true;
     };
-  }, [buildPoseCacheKeyForVideo, library]);
+  }, [buildPoseCacheKeyForVideo, library, poseCacheRevision]);
 
   const value = {
     library,
     loadLibrary,
     addVideoToLibrary,
+    addSubClipsToLibrary,
+    splitVideoIntoSubClips,
+    ensureVideoFrameTiming,
     removeVideoFromLibrary,
     toggleFavorite,
+    updateVideoMetadata,
     poseProcessingByVideo,
     getPoseProcessingState,
     processPoseForVideo,
     cancelPoseProcessing,
     cancelAllPoseProcessing,
+    poseBatchVideoIds,
+    queuePoseProcessingForVideos,
+    clearPoseBatch,
+    deletePoseAnalyses,
+    loadPoseAnalysisForVideo,
+    importPoseAnalysisForVideo,
     slots,
     setSlot,
     layout,
@@ -1004,6 +1869,9 @@ export const AppProvider = ({ children }: { children: ReactNode }) => {
     toggleLoop,
     syncOffsets,
     updateSyncOffset,
+    setSyncOffsetsForSlots,
+    poseTimeWarp,
+    setPoseTimeWarp,
     isMuted,
     toggleMute,
     playbackRate,
@@ -1023,11 +1891,28 @@ export const AppProvider = ({ children }: { children: ReactNode }) => {
     setDrawingTool,
     drawingColor,
     setDrawingColor,
+    drawingTimeScope,
+    setDrawingTimeScope,
+    drawingHoldSec,
+    setDrawingHoldSec,
     drawings,
     setDrawingsForVideo,
     clearDrawings,
     isSyncDrawingsEnabled,
     toggleSyncDrawings,
+    markers,
+    addMarker,
+    updateMarker,
+    removeMarker,
+    workspaceSessions,
+    saveWorkspaceSession,
+    openWorkspaceSession,
+    activeWorkspaceSessionId: sessionDrawingLayers?.sessionId ?? null,
+    closeWorkspaceSession,
+    deleteWorkspaceSession,
+    getSessionsReferencingVideo,
+    sessionRestore,
+    importProjectBundle: handleImportProjectBundle,
 
     // Pose overlay
     isPoseEnabled,
@@ -1060,10 +1945,16 @@ export const AppProvider = ({ children }: { children: ReactNode }) => {
     setPoseShowCoG,
     poseShowCoGCharts,
     setPoseShowCoGCharts,
+    poseShowAngleRateCharts,
+    setPoseShowAngleRateCharts,
     poseVisibleAngles,
     setPoseAngleVisible: handleSetPoseAngleVisible,
     posePlottedAngles,
     setPoseAnglePlotted: handleSetPoseAnglePlotted,
+    poseCustomAngles,
+    addPoseCustomAngle,
+    removePoseCustomAngle,
+    poseAngleMetrics,
     poseShowBodyLean,
     setPoseShowBodyLean,
     poseShowJumpHeight,
@@ -1072,6 +1963,25 @@ export const AppProvider = ({ children }: { children: ReactNode }) => {
     setPoseLabelScale: handleSetPoseLabelScale,
     poseBackgroundBlackout,
     setPoseBackgroundBlackout: handleSetPoseBackgroundBlackout,
+    poseStrainRules,
+    setPoseStrainRules,
+    poseAlertRules,
+    setPoseAlertRules,
+
+    // Keyboard shortcuts
+    keymap,
+    setShortcutBinding,
+    resetKeymap,
+
+    // Settings profiles
+    settingsProfiles,
+    activeSettingsProfileId,
+    saveSettingsProfile,
+    applySettingsProfile,
+    deleteSettingsProfile,
+    exportSettingsProfile: handleExportSettingsProfile,
+    importSettingsProfile,
+    resetSettingsToDefaults,
   };
 
   return <AppContext.Provider value={value}>{children}</AppContext.Provider>;
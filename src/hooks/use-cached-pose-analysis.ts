@@ -0,0 +1,43 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import type { Video } from '@/types';
+import { useAppContext } from '@/contexts/app-context';
+import type { CachedPoseAnalysis } from '@/lib/pose/pose-analysis-cache';
+import { getVideoDimensions } from '@/lib/video-utils';
+
+export interface LoadedPoseAnalysis {
+  analysis: CachedPoseAnalysis;
+  width: number;
+  height: number;
+}
+
+/**
+ * A clip's cached pose analysis together with its source dimensions, for whole-clip metrics.
+ * Reloaded whenever processing finishes again; null until then or while `enabled` is false.
+ */
+export function useCachedPoseAnalysis(video: Video | null | undefined, enabled = true) {
+  const { getPoseProcessingState, loadPoseAnalysisForVideo } = useAppContext();
+  const [loaded, setLoaded] = useState<LoadedPoseAnalysis | null>(null);
+  const processing = getPoseProcessingState(video?.id);
+  const isReady = processing.status === 'ready';
+  const readyAtMs = isReady ? processing.updatedAtMs : null;
+
+  useEffect(() => {
+    setLoaded(null);
+    if (!video || !enabled || readyAtMs === null) return;
+    let cancelled = false;
+    void Promise.all([loadPoseAnalysisForVideo(video), getVideoDimensions(video.blob)])
+      .then(([analysis, dimensions]) => {
+        if (!cancelled && analysis) setLoaded({ analysis, width: dimensions.width, height: dimensions.height });
+      })
+      .catch((error) => {
+        console.warn('Failed to load cached pose analysis.', error);
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [video, enabled, readyAtMs, loadPoseAnalysisForVideo]);
+
+  return loaded;
+}
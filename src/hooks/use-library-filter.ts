@@ -0,0 +1,46 @@
+'use client';
+
+import { useMemo, useState } from 'react';
+import type { Video } from '@/types';
+import {
+  EMPTY_LIBRARY_FILTER,
+  countActiveLibraryFilters,
+  getLibraryFacets,
+  groupLibrary,
+  matchesLibraryFilter,
+  type LibraryFilter,
+  type LibraryGroupBy,
+} from '@/lib/library-filter';
+
+/** Search, facet filter and grouping state for a library list; `videos` keeps its order. */
+export function useLibraryFilter(videos: Video[]) {
+  const [filter, setFilter] = useState<LibraryFilter>(EMPTY_LIBRARY_FILTER);
+  const [groupBy, setGroupBy] = useState<LibraryGroupBy>('none');
+
+  const facets = useMemo(() => getLibraryFacets(videos), [videos]);
+  // A selected value that no clip carries any more (renamed tag, deleted clip) stops filtering.
+  const effectiveFilter = useMemo<LibraryFilter>(() => ({
+    query: filter.query,
+    athletes: filter.athletes.filter((value) => facets.athletes.includes(value)),
+    tags: filter.tags.filter((value) => facets.tags.includes(value)),
+    sessionDates: filter.sessionDates.filter((value) => facets.sessionDates.includes(value)),
+  }), [facets, filter]);
+  const filteredVideos = useMemo(
+    () => videos.filter((video) => matchesLibraryFilter(video, effectiveFilter)),
+    [effectiveFilter, videos]
+  );
+  const groups = useMemo(() => groupLibrary(filteredVideos, groupBy), [filteredVideos, groupBy]);
+  const isFiltering = effectiveFilter.query.trim().length > 0 || countActiveLibraryFilters(effectiveFilter) > 0;
+
+  return {
+    filter: effectiveFilter,
+    setFilter,
+    groupBy,
+    setGroupBy,
+    facets,
+    filteredVideos,
+    groups,
+    isFiltering,
+    clearFilter: () => setFilter(EMPTY_LIBRARY_FILTER),
+  };
+}
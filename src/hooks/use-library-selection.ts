@@ -0,0 +1,46 @@
+'use client';
+
+import { useMemo, useState } from 'react';
+import type { Video } from '@/types';
+
+/** Multi-select state for a library list. Ids of clips that left the library are ignored. */
+export function useLibrarySelection(library: Video[]) {
+  const [isSelecting, setIsSelecting] = useState(false);
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
+
+  const selectedVideos = useMemo(
+    () => library.filter((video) => selectedIds.has(video.id)),
+    [library, selectedIds]
+  );
+
+  const toggleSelected = (id: string) => {
+    setSelectedIds(prev => {
+      const next = new Set(prev);
+      if (next.has(id)) next.delete(id);
+      else next.add(id);
+      return next;
+    });
+  };
+
+  const selectAll = (videos: Video[]) => setSelectedIds(new Set(videos.map((video) => video.id)));
+
+  const clearSelection = () => setSelectedIds(new Set());
+
+  const startSelecting = () => setIsSelecting(true);
+
+  const stopSelecting = () => {
+    setIsSelecting(false);
+    setSelectedIds(new Set());
+  };
+
+  return {
+    isSelecting,
+    startSelecting,
+    stopSelecting,
+    isSelected: (id: string) => selectedIds.has(id),
+    selectedVideos,
+    toggleSelected,
+    selectAll,
+    clearSelection,
+  };
+}
@@ -0,0 +1,25 @@
+'use client';
+
+import { useMemo } from 'react';
+import { useAppContext } from '@/contexts/app-context';
+import { evaluatePoseAlerts } from '@/lib/pose/pose-alerts';
+import type { LoadedPoseAnalysis } from '@/hooks/use-cached-pose-analysis';
+
+/**
+ * Alert events for a clip, evaluated over its whole cached analysis as loaded by
+ * `useCachedPoseAnalysis`. Rule edits re-evaluate without touching storage.
+ */
+export function usePoseAlerts(loaded: LoadedPoseAnalysis | null) {
+  const { poseAlertRules } = useAppContext();
+
+  const events = useMemo(
+    () => (loaded ? evaluatePoseAlerts(loaded.analysis, poseAlertRules, loaded.width, loaded.height) : []),
+    [loaded, poseAlertRules]
+  );
+
+  return {
+    events,
+    rules: poseAlertRules,
+    trimStartMs: loaded?.analysis.trimStartMs ?? 0,
+  };
+}
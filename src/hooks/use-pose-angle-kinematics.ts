@@ -0,0 +1,33 @@
+'use client';
+
+import { useMemo } from 'react';
+import { useAppContext } from '@/contexts/app-context';
+import { computePoseAngleKinematics } from '@/lib/pose/pose-angle-kinematics';
+import { detectReps, type RepSignalKind } from '@/lib/pose/pose-rep-segmentation';
+import type { LoadedPoseAnalysis } from '@/hooks/use-cached-pose-analysis';
+
+/**
+ * Angular velocity and acceleration for every angle metric of a clip, plus its detected reps,
+ * both taken from the whole cached analysis. The rates are only computed while `enabled`, since
+ * they cover every frame of every metric; `reps` is null when the analysis has no usable signal.
+ */
+export function usePoseAngleKinematics(
+  loaded: LoadedPoseAnalysis | null,
+  repSignal: RepSignalKind,
+  enabled = true
+) {
+  const { poseCustomAngles } = useAppContext();
+
+  const kinematics = useMemo(
+    () => (loaded && enabled
+      ? computePoseAngleKinematics(loaded.analysis, loaded.width, loaded.height, poseCustomAngles)
+      : null),
+    [enabled, loaded, poseCustomAngles]
+  );
+  const reps = useMemo(
+    () => (loaded ? detectReps(loaded.analysis, repSignal, loaded.width, loaded.height) : null),
+    [loaded, repSignal]
+  );
+
+  return { kinematics, reps };
+}
@@ -0,0 +1,55 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+
+/**
+ * Media time of the frame a video is presenting, in seconds. Follows requestVideoFrameCallback
+ * (rAF where unsupported) rather than `timeupdate`, which only fires a few times per second, so
+ * anything keyed to it changes on the frame it belongs to. Paused seeks update it on `seeked`.
+ */
+export function useVideoFrameTime(videoElement: HTMLVideoElement | null, enabled = true) {
+  const [mediaTime, setMediaTime] = useState(() => videoElement?.currentTime ?? 0);
+
+  useEffect(() => {
+    if (!videoElement || !enabled) return;
+
+    let vfcHandle: number | null = null;
+    let rafHandle: number | null = null;
+    const canUseFrameCallback =
+      typeof videoElement.requestVideoFrameCallback === 'function' &&
+      typeof videoElement.cancelVideoFrameCallback === 'function';
+
+    const onFrame: VideoFrameRequestCallback = (_now, metadata) => {
+      setMediaTime(metadata.mediaTime);
+      vfcHandle = videoElement.requestVideoFrameCallback(onFrame);
+    };
+    const onAnimationFrame = () => {
+      setMediaTime(videoElement.currentTime);
+      rafHandle = videoElement.paused ? null : requestAnimationFrame(onAnimationFrame);
+    };
+    const onPlay = () => {
+      if (!canUseFrameCallback && rafHandle === null) rafHandle = requestAnimationFrame(onAnimationFrame);
+    };
+    const onSeeked = () => setMediaTime(videoElement.currentTime);
+
+    setMediaTime(videoElement.currentTime);
+    if (canUseFrameCallback) {
+      vfcHandle = videoElement.requestVideoFrameCallback(onFrame);
+    } else {
+      onPlay();
+    }
+    videoElement.addEventListener('play', onPlay);
+    videoElement.addEventListener('seeked', onSeeked);
+    videoElement.addEventListener('loadeddata', onSeeked);
+
+    return () => {
+      if (vfcHandle !== null) videoElement.cancelVideoFrameCallback(vfcHandle);
+      if (rafHandle !== null) cancelAnimationFrame(rafHandle);
+      videoElement.removeEventListener('play', onPlay);
+      videoElement.removeEventListener('seeked', onSeeked);
+      videoElement.removeEventListener('loadeddata', onSeeked);
+    };
+  }, [videoElement, enabled]);
+
+  return mediaTime;
+}
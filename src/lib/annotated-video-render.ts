@@ -0,0 +1,481 @@
+'use client';
+
+import type { NormalizedLandmark } from '@mediapipe/tasks-vision';
+import type { CustomPoseAngle, Drawing, PoseAngleMetricId } from '@/types';
+import { computeJointAngles, computeSegmentAngles, type Point2D } from '@/lib/pose/biomechanics';
+import {
+    findInterpolatedPosesAtTimestamp,
+    type CachedPoseAnalysis,
+} from '@/lib/pose/pose-analysis-cache';
+import { selectPrimaryPoseIndex, toPoint2D } from '@/lib/pose/pose-analysis-export';
+import {
+    getAngleChartRange,
+    getPoseAngleMetric,
+    getPoseAngleMetrics,
+    isSegmentAngleMetricId,
+} from '@/lib/pose/pose-angle-metrics';
+import {
+    DEFAULT_LINE_COLOR,
+    DEFAULT_POINT_FILL,
+    POSE_CONNECTIONS,
+    computeLimbStrain,
+    getAngleLimb,
+    getConnectionLimb,
+    getLimbColor,
+    getPointLimb,
+} from '@/lib/pose/pose-skeleton';
+import { drawDrawingOnCanvas, isDrawingVisibleAt } from '@/lib/drawing-utils';
+import { getSupportedMimeType } from '@/lib/video-utils';
+import type { StrainRuleSet } from '@/lib/pose/pose-strain-rules';
+
+/**
+ * Offline rendering of a clip with its analysis burned in (skeleton, joint angles, drawings,
+ * angle chart). Frames are painted onto a canvas while the source plays at the requested rate
+ * and the canvas stream is captured with MediaRecorder, so slow motion is baked in.
+ */
+
+export interface AnnotationLayers {
+    pose: boolean;
+    angles: boolean;
+    drawings: boolean;
+    chart: boolean;
+}
+
+/** Size and object-fit of the element the drawings were made on, in CSS pixels */
+export interface DrawingViewport {
+    width: number;
+    height: number;
+    fit: 'contain' | 'cover';
+}
+
+export interface AnnotatedVideoRenderOptions {
+    trimStart: number;
+    trimEnd: number;
+    /** Source playback rate while recording; 0.5 produces a clip twice as long */
+    playbackRate: number;
+    layers: AnnotationLayers;
+    analysis: CachedPoseAnalysis | null;
+    angleIds: PoseAngleMetricId[];
+    /** Definitions for any custom ids in `angleIds` */
+    customAngles: CustomPoseAngle[];
+    minVisibility: number;
+    strainRules: StrainRuleSet;
+    drawings: Drawing[];
+    /** Media time at which the drawings' own time base starts (non-zero for shared sync drawings) */
+    drawingTimeOrigin?: number;
+    drawingViewport: DrawingViewport | null;
+    /** Longest output edge in pixels; the source is never upscaled */
+    maxDimension?: number;
+    onProgress?: (fraction: number) => void;
+    signal?: AbortSignal;
+}
+
+export interface RenderedVideo {
+    blob: Blob;
+    durationSec: number;
+}
+
+const DEFAULT_MAX_DIMENSION = 1920;
+const CAPTURE_FPS = 30;
+const CHART_WINDOW_MS = 8000;
+const CHART_SAMPLE_STEP_MS = 1000 / 15;
+const END_TOLERANCE_SEC = 1 / 120;
+
+export const EXPORT_CANCELLED_MESSAGE = 'Export cancelled.';
+
+// ── Shared recording plumbing ──
+
+export interface CanvasRecorder {
+    mimeType: string;
+    start: () => void;
+    stop: () => Promise<Blob>;
+}
+
+export const createCanvasRecorder = (canvas: HTMLCanvasElement, fps = CAPTURE_FPS): CanvasRecorder => {
+    if (typeof MediaRecorder === 'undefined' || typeof canvas.captureStream !== 'function') {
+        throw new Error('This browser cannot record video from a canvas.');
+    }
+    const stream = canvas.captureStream(fps);
+    const mimeType = getSupportedMimeType();
+    const recorder = new MediaRecorder(stream, mimeType ? { mimeType } : {});
+    const chunks: Blob[] = [];
+    recorder.ondataavailable = (event) => {
+        if (event.data.size > 0) chunks.push(event.data);
+    };
+
+    return {
+        mimeType,
+        start: () => recorder.start(1000),
+        stop: () => new Promise<Blob>((resolve) => {
+            const finish = () => {
+                stream.getTracks().forEach((track) => track.stop());
+                resolve(new Blob(chunks, { type: recorder.mimeType || mimeType || 'video/webm' }));
+            };
+            if (recorder.state === 'inactive') {
+                finish();
+                return;
+            }
+            recorder.onstop = finish;
+            recorder.stop();
+        }),
+    };
+};
+
+export interface LoadedVideoElement {
+    video: HTMLVideoElement;
+    dispose: () => void;
+}
+
+/** Creates a hidden, muted element for offscreen playback; frame callbacks need it in the DOM. */
+export const loadVideoElement = (source: Blob): Promise<LoadedVideoElement> =>
+    new Promise((resolve, reject) => {
+        const video = document.createElement('video');
+        video.muted = true;
+        video.playsInline = true;
+        video.setAttribute('playsinline', '');
+        video.preload = 'auto';
+        video.style.cssText = 'position:fixed;left:-9999px;top:0;width:2px;height:2px;opacity:0;pointer-events:none;';
+        const url = URL.createObjectURL(source);
+        const dispose = () => {
+            video.pause();
+            video.removeAttribute('src');
+            video.load();
+            video.remove();
+            URL.revokeObjectURL(url);
+        };
+        video.onloadeddata = () => resolve({ video, dispose });
+        video.onerror = () => {
+            dispose();
+            reject(new Error('Could not decode the source video.'));
+        };
+        document.body.appendChild(video);
+        video.src = url;
+    });
+
+export const seekVideoElement = (video: HTMLVideoElement, time: number) =>
+    new Promise<void>((resolve) => {
+        if (Math.abs(video.currentTime - time) < 0.001) {
+            resolve();
+            return;
+        }
+        const timeout = window.setTimeout(resolve, 2000);
+        video.addEventListener('seeked', () => {
+            window.clearTimeout(timeout);
+            resolve();
+        }, { once: true });
+        video.currentTime = time;
+    });
+
+export const getOutputSize = (width: number, height: number, maxDimension = DEFAULT_MAX_DIMENSION) => {
+    const scale = Math.min(1, maxDimension / Math.max(1, width, height));
+    // Encoders prefer even dimensions.
+    return {
+        width: Math.max(2, Math.round((width * scale) / 2) * 2),
+        height: Math.max(2, Math.round((height * scale) / 2) * 2),
+    };
+};
+
+// ── Layer painters ──
+
+const getPrimaryPose = (analysis: CachedPoseAnalysis, mediaTimeSec: number, width: number, height: number) => {
+    const poses = findInterpolatedPosesAtTimestamp(analysis.frames, mediaTimeSec * 1000);
+    if (!poses || poses.length === 0) return null;
+    const pose: NormalizedLandmark[] | undefined = poses[selectPrimaryPoseIndex(poses)];
+    return pose ? pose.map((landmark) => toPoint2D(landmark, width, height)) : null;
+};
+
+const drawOutlinedLabel = (ctx: CanvasRenderingContext2D, text: string, x: number, y: number, size: number, color: string) => {
+    ctx.font = `700 ${size}px sans-serif`;
+    ctx.lineWidth = size / 4;
+    ctx.strokeStyle = 'rgba(0,0,0,0.6)';
+    ctx.strokeText(text, x, y);
+    ctx.fillStyle = color;
+    ctx.fillText(text, x, y);
+};
+
+/** The angles in `angleIds`; segment orientations are only computed when one is selected. */
+const computeSelectedAngles = (pose: Point2D[], angleIds: PoseAngleMetricId[], customAngles: CustomPoseAngle[]) => {
+    const angles = angleIds.some(isSegmentAngleMetricId)
+        ? [...computeJointAngles(pose, customAngles), ...computeSegmentAngles(pose)]
+        : computeJointAngles(pose, customAngles);
+    return angles.filter((angle) => angleIds.includes(angle.id));
+};
+
+/** Paints skeleton and joint-angle arcs for a pose projected into the context's pixel space. */
+export const drawPoseOnCanvas = (
+    ctx: CanvasRenderingContext2D,
+    pose: Point2D[],
+    options: {
+        unit: number;
+        minVisibility: number;
+        showSkeleton: boolean;
+        angleIds: PoseAngleMetricId[];
+        customAngles: CustomPoseAngle[];
+        strainRules: StrainRuleSet;
+    }
+) => {
+    const { unit, minVisibility, strainRules } = options;
+    const strain = computeLimbStrain(pose, strainRules);
+    ctx.save();
+    ctx.lineCap = 'round';
+
+    if (options.showSkeleton) {
+        ctx.lineWidth = 4 * unit;
+        POSE_CONNECTIONS.forEach(([fromIndex, toIndex]) => {
+            const from = pose[fromIndex];
+            const to = pose[toIndex];
+            if (!from || !to || from.visibility < minVisibility || to.visibility < minVisibility) return;
+            const limb = getConnectionLimb(fromIndex, toIndex);
+            ctx.strokeStyle = limb ? getLimbColor(limb, strain[limb], strainRules) : DEFAULT_LINE_COLOR;
+            ctx.globalAlpha = Math.max(0.35, Math.min(1, Math.min(from.visibility, to.visibility)));
+            ctx.beginPath();
+            ctx.moveTo(from.x, from.y);
+            ctx.lineTo(to.x, to.y);
+            ctx.stroke();
+        });
+        ctx.globalAlpha = 1;
+        pose.forEach((point, index) => {
+            if (point.visibility < minVisibility) return;
+            const limb = getPointLimb(index);
+            ctx.fillStyle = limb ? getLimbColor(limb, strain[limb], strainRules) : DEFAULT_POINT_FILL;
+            ctx.beginPath();
+            ctx.arc(point.x, point.y, 3 * unit, 0, Math.PI * 2);
+            ctx.fill();
+        });
+    }
+
+    const radius = 22 * unit;
+    computeSelectedAngles(pose, options.angleIds, options.customAngles)
+        .forEach((angle) => {
+            const limb = getAngleLimb(angle);
+            const color = limb ? getLimbColor(limb, strain[limb], strainRules) : '#ffffff';
+            ctx.strokeStyle = color;
+            ctx.lineWidth = 1.5 * unit;
+            ctx.beginPath();
+            ctx.arc(angle.vertex.x, angle.vertex.y, radius, angle.startAngle, angle.startAngle + angle.sweepAngle, angle.sweepAngle < 0);
+            ctx.stroke();
+            const midAngle = angle.startAngle + angle.sweepAngle / 2;
+            drawOutlinedLabel(
+                ctx,
+                `${Math.round(angle.degrees)}°`,
+                angle.vertex.x + (radius + 8 * unit) * Math.cos(midAngle),
+                angle.vertex.y + (radius + 8 * unit) * Math.sin(midAngle),
+                12 * unit,
+                color
+            );
+        });
+
+    ctx.restore();
+};
+
+// Maps drawing coordinates (viewport CSS pixels) onto the output frame.
+const applyDrawingTransform = (
+    ctx: CanvasRenderingContext2D,
+    viewport: DrawingViewport,
+    sourceWidth: number,
+    sourceHeight: number,
+    outputScale: number
+) => {
+    const fitScale = viewport.fit === 'cover'
+        ? Math.max(viewport.width / sourceWidth, viewport.height / sourceHeight)
+        : Math.min(viewport.width / sourceWidth, viewport.height / sourceHeight);
+    const offsetX = (viewport.width - sourceWidth * fitScale) / 2;
+    const offsetY = (viewport.height - sourceHeight * fitScale) / 2;
+    const scale = outputScale / fitScale;
+    ctx.setTransform(scale, 0, 0, scale, -offsetX * scale, -offsetY * scale);
+};
+
+type AngleChartSample = { tMs: number; values: Partial<Record<PoseAngleMetricId, number>> };
+
+const buildAngleChartSamples = (
+    analysis: CachedPoseAnalysis,
+    angleIds: PoseAngleMetricId[],
+    customAngles: CustomPoseAngle[],
+    trimStart: number,
+    trimEnd: number,
+    width: number,
+    height: number
+) => {
+    const samples: AngleChartSample[] = [];
+    for (let tMs = trimStart * 1000; tMs <= trimEnd * 1000; tMs += CHART_SAMPLE_STEP_MS) {
+        const pose = getPrimaryPose(analysis, tMs / 1000, width, height);
+        const values: AngleChartSample['values'] = {};
+        if (pose) {
+            computeSelectedAngles(pose, angleIds, customAngles).forEach((angle) => {
+                values[angle.id] = angle.degrees;
+            });
+        }
+        samples.push({ tMs, values });
+    }
+    return samples;
+};
+
+const drawAngleChart = (
+    ctx: CanvasRenderingContext2D,
+    samples: AngleChartSample[],
+    angleIds: PoseAngleMetricId[],
+    customAngles: CustomPoseAngle[],
+    mediaTimeMs: number,
+    canvasWidth: number,
+    canvasHeight: number
+) => {
+    const width = canvasWidth * 0.36;
+    const height = canvasHeight * 0.2;
+    const x0 = canvasWidth * 0.02;
+    const y0 = canvasHeight * 0.98 - height;
+    const windowStart = mediaTimeMs - CHART_WINDOW_MS;
+    const visible = samples.filter((sample) => sample.tMs >= windowStart && sample.tMs <= mediaTimeMs);
+    const range = getAngleChartRange(getPoseAngleMetrics(customAngles).filter((metric) => angleIds.includes(metric.id)));
+
+    ctx.save();
+    ctx.fillStyle = 'rgba(0,0,0,0.55)';
+    ctx.fillRect(x0, y0, width, height);
+    ctx.lineWidth = Math.max(1.5, canvasHeight / 360);
+    let labelX = x0 + 6;
+
+    angleIds.forEach((id) => {
+        const metric = getPoseAngleMetric(id, customAngles);
+        ctx.strokeStyle = metric?.chartColor ?? '#ffffff';
+        ctx.beginPath();
+        let isDrawing = false;
+        visible.forEach((sample) => {
+            const value = sample.values[id];
+            if (value === undefined) {
+                isDrawing = false;
+                return;
+            }
+            const x = x0 + ((sample.tMs - windowStart) / CHART_WINDOW_MS) * width;
+            const clamped = Math.max(range.min, Math.min(range.max, value));
+            const y = y0 + height - ((clamped - range.min) / (range.max - range.min)) * height;
+            if (isDrawing) ctx.lineTo(x, y);
+            else ctx.moveTo(x, y);
+            isDrawing = true;
+        });
+        ctx.stroke();
+
+        const fontSize = Math.max(10, canvasHeight / 60);
+        ctx.font = `600 ${fontSize}px sans-serif`;
+        ctx.fillStyle = metric?.chartColor ?? '#ffffff';
+        const label = metric?.label ?? id;
+        ctx.fillText(label, labelX, y0 + fontSize + 4);
+        labelX += ctx.measureText(label).width + fontSize;
+    });
+
+    ctx.restore();
+};
+
+// ── Public API ──
+
+export async function renderAnnotatedVideo(
+    source: Blob,
+    options: AnnotatedVideoRenderOptions
+): Promise<RenderedVideo> {
+    const { trimStart, trimEnd, layers, analysis, signal } = options;
+    if (signal?.aborted) throw new Error(EXPORT_CANCELLED_MESSAGE);
+    if (!(trimEnd > trimStart)) throw new Error('The clip range is empty.');
+
+    const { video, dispose } = await loadVideoElement(source);
+    try {
+        const sourceWidth = video.videoWidth;
+        const sourceHeight = video.videoHeight;
+        if (!sourceWidth || !sourceHeight) throw new Error('Could not read the video dimensions.');
+
+        const output = getOutputSize(sourceWidth, sourceHeight, options.maxDimension);
+        const outputScale = output.width / sourceWidth;
+        const canvas = document.createElement('canvas');
+        canvas.width = output.width;
+        canvas.height = output.height;
+        const ctx = canvas.getContext('2d');
+        if (!ctx) throw new Error('Canvas 2D rendering is not available.');
+
+        const unit = Math.max(1, Math.max(output.width, output.height) / 720);
+        const chartSamples = layers.chart && analysis && options.angleIds.length > 0
+            ? buildAngleChartSamples(analysis, options.angleIds, options.customAngles, trimStart, trimEnd, output.width, output.height)
+            : [];
+
+        const paintFrame = (mediaTimeSec: number) => {
+            ctx.setTransform(1, 0, 0, 1, 0, 0);
+            ctx.drawImage(video, 0, 0, output.width, output.height);
+
+            if (analysis && (layers.pose || layers.angles)) {
+                const pose = getPrimaryPose(analysis, mediaTimeSec, output.width, output.height);
+                if (pose) {
+                    drawPoseOnCanvas(ctx, pose, {
+                        unit,
+                        minVisibility: options.minVisibility,
+                        showSkeleton: layers.pose,
+                        angleIds: layers.angles ? options.angleIds : [],
+                        customAngles: options.customAngles,
+                        strainRules: options.strainRules,
+                    });
+                }
+            }
+
+            if (layers.drawings && options.drawingViewport) {
+                applyDrawingTransform(ctx, options.drawingViewport, sourceWidth, sourceHeight, outputScale);
+                options.drawings
+                    .filter((drawing) => isDrawingVisibleAt(drawing, mediaTimeSec - (options.drawingTimeOrigin ?? 0)))
+                    .forEach((drawing) => drawDrawingOnCanvas(ctx, drawing, 1));
+                ctx.setTransform(1, 0, 0, 1, 0, 0);
+            }
+
+            if (chartSamples.length > 0) {
+                drawAngleChart(ctx, chartSamples, options.angleIds, options.customAngles, mediaTimeSec * 1000, output.width, output.height);
+            }
+        };
+
+        await seekVideoElement(video, trimStart);
+        paintFrame(trimStart);
+
+        const recorder = createCanvasRecorder(canvas);
+        const playbackRate = Math.max(0.0625, Math.min(4, options.playbackRate));
+        const rangeSec = trimEnd - trimStart;
+
+        await new Promise<void>((resolve, reject) => {
+            let finished = false;
+            const finish = (error?: Error) => {
+                if (finished) return;
+                finished = true;
+                video.pause();
+                signal?.removeEventListener('abort', handleAbort);
+                if (error) reject(error);
+                else resolve();
+            };
+            const handleAbort = () => finish(new Error(EXPORT_CANCELLED_MESSAGE));
+            signal?.addEventListener('abort', handleAbort);
+
+            const onFrame = (mediaTimeSec: number) => {
+                if (finished) return;
+                paintFrame(mediaTimeSec);
+                options.onProgress?.(Math.max(0, Math.min(1, (mediaTimeSec - trimStart) / rangeSec)));
+                if (mediaTimeSec >= trimEnd - END_TOLERANCE_SEC || video.ended) {
+                    finish();
+                    return;
+                }
+                scheduleFrame();
+            };
+            const scheduleFrame = () => {
+                if (typeof video.requestVideoFrameCallback === 'function') {
+                    video.requestVideoFrameCallback((_now, metadata) => onFrame(metadata.mediaTime));
+                } else {
+                    requestAnimationFrame(() => onFrame(video.currentTime));
+                }
+            };
+
+            video.onended = () => finish();
+            video.playbackRate = playbackRate;
+            recorder.start();
+            scheduleFrame();
+            video.play().catch(() => finish(new Error('Playback was blocked while rendering.')));
+        }).catch(async (error) => {
+            await recorder.stop();
+            throw error;
+        });
+
+        const blob = await recorder.stop();
+        options.onProgress?.(1);
+        return { blob, durationSec: rangeSec / playbackRate };
+    } finally {
+        dispose();
+    }
+}
@@ -0,0 +1,249 @@
+'use client';
+
+import type { OverlayBlendMode } from '@/contexts/app-context';
+import {
+    EXPORT_CANCELLED_MESSAGE,
+    createCanvasRecorder,
+    loadVideoElement,
+    seekVideoElement,
+    type LoadedVideoElement,
+    type RenderedVideo,
+} from '@/lib/annotated-video-render';
+
+/**
+ * Renders the compare grid (or overlay compare) into a single video. All sources play together
+ * on the shared sync timeline — each tile at `trimStart + syncOffset + t` — and are painted into
+ * one canvas that is captured with MediaRecorder.
+ */
+
+export interface CompositeTileInput {
+    blob: Blob;
+    trimStart: number;
+    trimEnd: number;
+    syncOffset: number;
+    zoom: number;
+    /** Pan in CSS pixels of the on-screen tile viewport */
+    pan: { x: number; y: number };
+}
+
+export type CompositeLayoutInput =
+    | {
+        mode: 'grid';
+        columns: number;
+        rows: number;
+        /** One entry per cell in reading order; null cells are left black */
+        tiles: Array<CompositeTileInput | null>;
+    }
+    | {
+        mode: 'overlay';
+        base: CompositeTileInput;
+        top: CompositeTileInput;
+        opacity: number;
+        blendMode: OverlayBlendMode;
+        /** Canvas filter for the top layer, see getOverlayTopFilter */
+        topFilter: string;
+    };
+
+export interface CompositeVideoRenderOptions {
+    layout: CompositeLayoutInput;
+    /** On-screen tile viewport size in CSS pixels; sets the cell aspect ratio and pan scale */
+    viewport: { width: number; height: number };
+    fit: 'contain' | 'cover';
+    playbackRate: number;
+    /** Output width in pixels; height follows the cell aspect ratio */
+    outputWidth?: number;
+    onProgress?: (fraction: number) => void;
+    signal?: AbortSignal;
+}
+
+const DEFAULT_OUTPUT_WIDTH = 1920;
+const DRIFT_HARD_THRESHOLD_SEC = 1 / 20;
+const DRIFT_SOFT_THRESHOLD_SEC = 1 / 120;
+const MAX_RATE_CORRECTION = 0.08;
+const END_TOLERANCE_SEC = 1 / 120;
+
+const BLEND_COMPOSITE_OPERATIONS: Record<OverlayBlendMode, GlobalCompositeOperation> = {
+    normal: 'source-over',
+    multiply: 'multiply',
+    screen: 'screen',
+    overlay: 'overlay',
+    difference: 'difference',
+    lighten: 'lighten',
+    darken: 'darken',
+};
+
+type LoadedTile = LoadedVideoElement & { input: CompositeTileInput };
+
+const getSyncStart = (tile: CompositeTileInput) =>
+    Math.max(tile.trimStart, Math.min(tile.trimStart + tile.syncOffset, tile.trimEnd));
+
+const getTileTime = (tile: CompositeTileInput, relativeSec: number) =>
+    Math.max(tile.trimStart, Math.min(tile.trimStart + tile.syncOffset + relativeSec, tile.trimEnd));
+
+/** Length of the shared timeline: the shortest remaining clip after its offset, like the grid. */
+export const getCompositeDuration = (tiles: CompositeTileInput[]) => {
+    const durations = tiles
+        .map((tile) => Math.max(0, tile.trimEnd - getSyncStart(tile)))
+        .filter((value) => value > 0);
+    return durations.length > 0 ? Math.min(...durations) : 0;
+};
+
+const drawTileVideo = (
+    ctx: CanvasRenderingContext2D,
+    video: HTMLVideoElement,
+    cell: { x: number; y: number; width: number; height: number },
+    fit: 'contain' | 'cover',
+    zoom: number,
+    pan: { x: number; y: number },
+    cssToCell: number
+) => {
+    const sourceWidth = video.videoWidth || cell.width;
+    const sourceHeight = video.videoHeight || cell.height;
+    const fitScale = fit === 'cover'
+        ? Math.max(cell.width / sourceWidth, cell.height / sourceHeight)
+        : Math.min(cell.width / sourceWidth, cell.height / sourceHeight);
+    const width = sourceWidth * fitScale;
+    const height = sourceHeight * fitScale;
+
+    ctx.save();
+    ctx.beginPath();
+    ctx.rect(cell.x, cell.y, cell.width, cell.height);
+    ctx.clip();
+    // Mirrors the tile's CSS `scale(z) translate(p / z)` around the viewport centre.
+    ctx.translate(cell.x + cell.width / 2 + pan.x * cssToCell, cell.y + cell.height / 2 + pan.y * cssToCell);
+    ctx.scale(zoom, zoom);
+    ctx.drawImage(video, -width / 2, -height / 2, width, height);
+    ctx.restore();
+};
+
+export async function renderCompositeVideo(options: CompositeVideoRenderOptions): Promise<RenderedVideo> {
+    const { layout, signal } = options;
+    if (signal?.aborted) throw new Error(EXPORT_CANCELLED_MESSAGE);
+
+    const inputs = layout.mode === 'overlay'
+        ? [layout.base, layout.top]
+        : layout.tiles.filter((tile): tile is CompositeTileInput => tile !== null);
+    if (inputs.length === 0) throw new Error('There are no videos to export.');
+    const durationSec = getCompositeDuration(inputs);
+    if (durationSec <= 0) throw new Error('The synced range is empty. Check the sync offsets and trims.');
+
+    const loaded: LoadedTile[] = [];
+    try {
+        for (const input of inputs) {
+            loaded.push({ ...(await loadVideoElement(input.blob)), input });
+        }
+
+        const columns = layout.mode === 'grid' ? Math.max(1, layout.columns) : 1;
+        const rows = layout.mode === 'grid' ? Math.max(1, layout.rows) : 1;
+        const outputWidth = options.outputWidth ?? DEFAULT_OUTPUT_WIDTH;
+        const cellWidth = Math.round(outputWidth / columns / 2) * 2;
+        const viewportAspect = options.viewport.height / Math.max(1, options.viewport.width);
+        const cellHeight = Math.max(2, Math.round((cellWidth * viewportAspect) / 2) * 2);
+        const cssToCell = cellWidth / Math.max(1, options.viewport.width);
+
+        const canvas = document.createElement('canvas');
+        canvas.width = cellWidth * columns;
+        canvas.height = cellHeight * rows;
+        const ctx = canvas.getContext('2d');
+        if (!ctx) throw new Error('Canvas 2D rendering is not available.');
+
+        const getCell = (cellIndex: number) => ({
+            x: (cellIndex % columns) * cellWidth,
+            y: Math.floor(cellIndex / columns) * cellHeight,
+            width: cellWidth,
+            height: cellHeight,
+        });
+
+        const paintFrame = () => {
+            ctx.globalCompositeOperation = 'source-over';
+            ctx.globalAlpha = 1;
+            ctx.filter = 'none';
+            ctx.fillStyle = '#000000';
+            ctx.fillRect(0, 0, canvas.width, canvas.height);
+
+            if (layout.mode === 'overlay') {
+                const [base, top] = loaded;
+                const cell = getCell(0);
+                drawTileVideo(ctx, base.video, cell, options.fit, 1, { x: 0, y: 0 }, cssToCell);
+                ctx.globalAlpha = Math.max(0, Math.min(1, layout.opacity));
+                ctx.globalCompositeOperation = BLEND_COMPOSITE_OPERATIONS[layout.blendMode];
+                ctx.filter = layout.topFilter;
+                drawTileVideo(ctx, top.video, cell, options.fit, 1, { x: 0, y: 0 }, cssToCell);
+                return;
+            }
+
+            let loadedIndex = 0;
+            layout.tiles.forEach((tile, cellIndex) => {
+                if (!tile) return;
+                const { video } = loaded[loadedIndex++];
+                drawTileVideo(ctx, video, getCell(cellIndex), options.fit, tile.zoom, tile.pan, cssToCell);
+            });
+        };
+
+        await Promise.all(loaded.map(({ video, input }) => seekVideoElement(video, getSyncStart(input))));
+        paintFrame();
+
+        const recorder = createCanvasRecorder(canvas);
+        const playbackRate = Math.max(0.0625, Math.min(4, options.playbackRate));
+        const master = loaded[0];
+
+        await new Promise<void>((resolve, reject) => {
+            let finished = false;
+            const finish = (error?: Error) => {
+                if (finished) return;
+                finished = true;
+                loaded.forEach(({ video }) => video.pause());
+                signal?.removeEventListener('abort', handleAbort);
+                if (error) reject(error);
+                else resolve();
+            };
+            const handleAbort = () => finish(new Error(EXPORT_CANCELLED_MESSAGE));
+            signal?.addEventListener('abort', handleAbort);
+
+            const tick = () => {
+                if (finished) return;
+                const relativeSec = Math.max(0, master.video.currentTime - getSyncStart(master.input));
+
+                // Followers chase the master like shared playback in the grid.
+                loaded.slice(1).forEach(({ video, input }) => {
+                    const driftSec = video.currentTime - getTileTime(input, relativeSec);
+                    if (Math.abs(driftSec) >= DRIFT_HARD_THRESHOLD_SEC) {
+                        video.currentTime = getTileTime(input, relativeSec);
+                        video.playbackRate = playbackRate;
+                    } else if (Math.abs(driftSec) >= DRIFT_SOFT_THRESHOLD_SEC) {
+                        const correction = Math.max(-MAX_RATE_CORRECTION, Math.min(MAX_RATE_CORRECTION, -driftSec * 1.5));
+                        video.playbackRate = Math.max(0.0625, playbackRate + correction);
+                    } else {
+                        video.playbackRate = playbackRate;
+                    }
+                    if (video.currentTime >= input.trimEnd && !video.paused) video.pause();
+                });
+
+                paintFrame();
+                options.onProgress?.(Math.min(1, relativeSec / durationSec));
+                if (relativeSec >= durationSec - END_TOLERANCE_SEC || master.video.ended) {
+                    finish();
+                    return;
+                }
+                requestAnimationFrame(tick);
+            };
+
+            loaded.forEach(({ video }) => {
+                video.playbackRate = playbackRate;
+            });
+            recorder.start();
+            Promise.all(loaded.map(({ video }) => video.play()))
+                .then(() => requestAnimationFrame(tick))
+                .catch(() => finish(new Error('Playback was blocked while rendering.')));
+        }).catch(async (error) => {
+            await recorder.stop();
+            throw error;
+        });
+
+        const blob = await recorder.stop();
+        options.onProgress?.(1);
+        return { blob, durationSec: durationSec / playbackRate };
+    } finally {
+        loaded.forEach(({ dispose }) => dispose());
+    }
+}
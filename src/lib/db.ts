@@ -1,9 +1,21 @@
-import type { Video } from '@/types';
+import type { Drawing, Marker, Video, VideoFrameTiming, VideoMetadata, WorkspaceSession } from '@/types';
 
 const DB_NAME = 'UltimaMotionDB';
-const DB_VERSION = 2;
+const DB_VERSION = 8;
 const VIDEO_STORE_NAME = 'videos';
 const POSE_ANALYSIS_STORE_NAME = 'pose_analyses';
+const DRAWING_STORE_NAME = 'drawings';
+const MARKER_STORE_NAME = 'markers';
+const SETTINGS_STORE_NAME = 'settings';
+const SESSION_STORE_NAME = 'sessions';
+const VIDEO_SOURCE_STORE_NAME = 'video_sources';
+
+const VIDEO_METADATA_INDEXES: Array<{ name: keyof VideoMetadata; multiEntry: boolean }> = [
+  { name: 'athlete', multiEntry: false },
+  { name: 'tags', multiEntry: true },
+  { name: 'sessionDate', multiEntry: false },
+  { name: 'notes', multiEntry: false },
+];
 
 export type SerializedLandmark = [number, number, number, number];
 export type SerializedPose = SerializedLandmark[];
@@ -28,6 +40,28 @@ export interface PoseAnalysisRecord {
   frames: PoseAnalysisFrame[];
 }
 
+export interface DrawingRecord {
+  /** Video id, or the shared sync-drawings key */
+  videoId: string;
+  drawings: Drawing[];
+  updatedAtMs: number;
+}
+
+export interface SettingsRecord {
+  id: string;
+  /** Schema version of `data`; migrated by the settings store on load */
+  version: number;
+  data: unknown;
+  updatedAtMs: number;
+}
+
+/** Recording shared by sub-clips; video records with a `sourceId` are stored without their blob */
+export interface VideoSourceRecord {
+  id: string;
+  blob: Blob;
+  createdAtMs: number;
+}
+
 let db: IDBDatabase;
 
 export const initDB = (): Promise<IDBDatabase> => {
@@ -49,9 +83,9 @@ export const initDB = (): Promise<IDBDatabase> => {
 
     request.onupgradeneeded = () => {
       const db = request.result;
-      if (!db.objectStoreNames.contains(VIDEO_STORE_NAME)) {
-        db.createObjectStore(VIDEO_STORE_NAME, { keyPath: 'id' });
-      }
+      const videoStore = db.objectStoreNames.contains(VIDEO_STORE_NAME)
+        ? request.transaction?.objectStore(VIDEO_STORE_NAME)
+        : db.createObjectStore(VIDEO_STORE_NAME, { keyPath: 'id' });
       if (!db.objectStoreNames.contains(POSE_ANALYSIS_STORE_NAME)) {
         const analysisStore = db.createObjectStore(POSE_ANALYSIS_STORE_NAME, { keyPath: 'id' });
         analysisStore.createIndex('videoId', 'videoId', { unique: false });
@@ -61,6 +95,38 @@ export const initDB = (): Promise<IDBDatabase> => {
           analysisStore.createIndex('videoId', 'videoId', { unique: false });
         }
       }
+      // v3: per-video annotation layers.
+      if (!db.objectStoreNames.contains(DRAWING_STORE_NAME)) {
+        db.createObjectStore(DRAWING_STORE_NAME, { keyPath: 'videoId' });
+      }
+      // v4: timeline markers, several per video.
+      if (!db.objectStoreNames.contains(MARKER_STORE_NAME)) {
+        const markerStore = db.createObjectStore(MARKER_STORE_NAME, { keyPath: 'id' });
+        markerStore.createIndex('videoId', 'videoId', { unique: false });
+      }
+      // v5: persisted settings and profiles.
+      if (!db.objectStoreNames.contains(SETTINGS_STORE_NAME)) {
+        db.createObjectStore(SETTINGS_STORE_NAME, { keyPath: 'id' });
+      }
+      // v6: saved workspace sessions.
+      if (!db.objectStoreNames.contains(SESSION_STORE_NAME)) {
+        db.createObjectStore(SESSION_STORE_NAME, { keyPath: 'id' });
+      }
+      // v7: library metadata indexes. Clips without a value are simply absent from an index.
+      if (videoStore) {
+        VIDEO_METADATA_INDEXES.forEach(({ name, multiEntry }) => {
+          if (!videoStore.indexNames.contains(name)) {
+            videoStore.createIndex(name, name, { unique: false, multiEntry });
+          }
+        });
+      }
+      // v8: recordings shared by sub-clips, stored once.
+      if (!db.objectStoreNames.contains(VIDEO_SOURCE_STORE_NAME)) {
+        db.createObjectStore(VIDEO_SOURCE_STORE_NAME, { keyPath: 'id' });
+      }
+      if (videoStore && !videoStore.indexNames.contains('sourceId')) {
+        videoStore.createIndex('sourceId', 'sourceId', { unique: false });
+      }
     };
   });
 };
@@ -68,13 +134,28 @@ export const initDB = (): Promise<IDBDatabase> => {
 export const addVideo = (video: Omit<Video, 'url'>): Promise<void> => {
   return new Promise(async (resolve, reject) => {
     const db = await initDB();
-    const transaction = db.transaction(VIDEO_STORE_NAME, 'readwrite');
+    const transaction = db.transaction([VIDEO_STORE_NAME, VIDEO_SOURCE_STORE_NAME], 'readwrite');
     const store = transaction.objectStore(VIDEO_STORE_NAME);
-    const request = store.put(video);
+    const { sourceId } = video;
 
-    request.onsuccess = () => resolve();
-    request.onerror = () => {
-      console.error("Error adding video:", request.error);
+    if (sourceId) {
+      // The first sub-clip of a recording writes the blob; later ones only reference it.
+      const sourceStore = transaction.objectStore(VIDEO_SOURCE_STORE_NAME);
+      const sourceRequest = sourceStore.getKey(sourceId);
+      sourceRequest.onsuccess = () => {
+        if (sourceRequest.result === undefined) {
+          const source: VideoSourceRecord = { id: sourceId, blob: video.blob, createdAtMs: Date.now() };
+          sourceStore.put(source);
+        }
+      };
+      store.put({ ...video, blob: null });
+    } else {
+      store.put(video);
+    }
+
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => {
+      console.error("Error adding video:", transaction.error);
       reject('Error adding video');
     };
   });
@@ -83,16 +164,23 @@ export const addVideo = (video: Omit<Video, 'url'>): Promise<void> => {
 export const getAllVideos = (): Promise<Omit<Video, 'url'>[]> => {
   return new Promise(async (resolve, reject) => {
     const db = await initDB();
-    const transaction = db.transaction(VIDEO_STORE_NAME, 'readonly');
-    const store = transaction.objectStore(VIDEO_STORE_NAME);
-    const request = store.getAll();
+    const transaction = db.transaction([VIDEO_STORE_NAME, VIDEO_SOURCE_STORE_NAME], 'readonly');
+    const request = transaction.objectStore(VIDEO_STORE_NAME).getAll();
+    const sourceRequest = transaction.objectStore(VIDEO_SOURCE_STORE_NAME).getAll();
 
-    request.onsuccess = () => {
-      const sortedVideos = request.result.sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
-      resolve(sortedVideos);
+    transaction.oncomplete = () => {
+      const sources = new Map((sourceRequest.result as VideoSourceRecord[]).map((source) => [source.id, source.blob]));
+      const videos = (request.result as Omit<Video, 'url'>[])
+        .map((video) => (video.sourceId ? { ...video, blob: sources.get(video.sourceId) ?? video.blob } : video))
+        .filter((video) => {
+          if (video.blob) return true;
+          console.warn(`Skipping video ${video.id}: its recording is missing.`);
+          return false;
+        });
+      resolve(videos.sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime()));
     };
-    request.onerror = () => {
-      console.error("Error getting videos:", request.error);
+    transaction.onerror = () => {
+      console.error("Error getting videos:", transaction.error);
       reject('Error getting videos');
     };
   });
@@ -101,13 +189,32 @@ export const getAllVideos = (): Promise<Omit<Video, 'url'>[]> => {
 export const deleteVideo = (id: string): Promise<void> => {
   return new Promise(async (resolve, reject) => {
     const db = await initDB();
-    const transaction = db.transaction([VIDEO_STORE_NAME, POSE_ANALYSIS_STORE_NAME], 'readwrite');
+    const transaction = db.transaction(
+      [VIDEO_STORE_NAME, VIDEO_SOURCE_STORE_NAME, POSE_ANALYSIS_STORE_NAME, DRAWING_STORE_NAME, MARKER_STORE_NAME],
+      'readwrite'
+    );
     const videoStore = transaction.objectStore(VIDEO_STORE_NAME);
+    const videoRequest = videoStore.get(id);
     const poseStore = transaction.objectStore(POSE_ANALYSIS_STORE_NAME);
     const index = poseStore.index('videoId');
     const keyRange = IDBKeyRange.only(id);
     const analysisRequest = index.openKeyCursor(keyRange);
-    videoStore.delete(id);
+    transaction.objectStore(DRAWING_STORE_NAME).delete(id);
+    const markerStore = transaction.objectStore(MARKER_STORE_NAME);
+    const markerRequest = markerStore.index('videoId').openKeyCursor(keyRange);
+
+    // A shared recording is dropped with the last sub-clip that references it.
+    videoRequest.onsuccess = () => {
+      const sourceId = (videoRequest.result as Omit<Video, 'url'> | undefined)?.sourceId;
+      videoStore.delete(id);
+      if (!sourceId) return;
+      const countRequest = videoStore.index('sourceId').count(IDBKeyRange.only(sourceId));
+      countRequest.onsuccess = () => {
+        if (countRequest.result === 0) {
+          transaction.objectStore(VIDEO_SOURCE_STORE_NAME).delete(sourceId);
+        }
+      };
+    };
 
     analysisRequest.onsuccess = () => {
       const cursor = analysisRequest.result;
@@ -121,6 +228,18 @@ export const deleteVideo = (id: string): Promise<void> => {
       reject('Error deleting related pose analyses');
     };
 
+    markerRequest.onsuccess = () => {
+      const cursor = markerRequest.result;
+      if (cursor) {
+        markerStore.delete(cursor.primaryKey);
+        cursor.continue();
+      }
+    };
+    markerRequest.onerror = () => {
+      console.error("Error deleting marker keys:", markerRequest.error);
+      reject('Error deleting related markers');
+    };
+
     transaction.oncomplete = () => resolve();
     transaction.onerror = () => {
       console.error("Error deleting video:", transaction.error);
@@ -180,6 +299,46 @@ export const deletePoseAnalysis = (id: string): Promise<void> => {
   });
 };
 
+/** Pose analysis without its frames, for storage accounting */
+export interface PoseAnalysisSummary extends Omit<PoseAnalysisRecord, 'frames'> {
+  frameCount: number;
+  /** Numbers stored across all landmark tuples */
+  landmarkValueCount: number;
+}
+
+export const getAllPoseAnalysisSummaries = (): Promise<PoseAnalysisSummary[]> => {
+  return new Promise(async (resolve, reject) => {
+    const db = await initDB();
+    const transaction = db.transaction(POSE_ANALYSIS_STORE_NAME, 'readonly');
+    const store = transaction.objectStore(POSE_ANALYSIS_STORE_NAME);
+    const request = store.openCursor();
+    const summaries: PoseAnalysisSummary[] = [];
+
+    // Frames are counted and dropped per record so the whole store is never held in memory.
+    request.onsuccess = () => {
+      const cursor = request.result;
+      if (!cursor) {
+        resolve(summaries);
+        return;
+      }
+      const { frames, ...record } = cursor.value as PoseAnalysisRecord;
+      const safeFrames = Array.isArray(frames) ? frames : [];
+      let landmarkValueCount = 0;
+      safeFrames.forEach((frame) => {
+        frame.poses.forEach((pose) => {
+          landmarkValueCount += pose.length * 4;
+        });
+      });
+      summaries.push({ ...record, frameCount: safeFrames.length, landmarkValueCount });
+      cursor.continue();
+    };
+    request.onerror = () => {
+      console.error("Error reading pose analysis summaries:", request.error);
+      reject('Error reading pose analysis summaries');
+    };
+  });
+};
+
 export const getPoseAnalysisIdsByVideoId = (videoId: string): Promise<string[]> => {
   return new Promise(async (resolve, reject) => {
     const db = await initDB();
@@ -199,6 +358,194 @@ export const getPoseAnalysisIdsByVideoId = (videoId: string): Promise<string[]>
   });
 };
 
+export const putDrawings = (videoId: string, drawings: Drawing[]): Promise<void> => {
+  return new Promise(async (resolve, reject) => {
+    const db = await initDB();
+    const transaction = db.transaction(DRAWING_STORE_NAME, 'readwrite');
+    const store = transaction.objectStore(DRAWING_STORE_NAME);
+    const record: DrawingRecord = { videoId, drawings, updatedAtMs: Date.now() };
+    // An empty layer is stored as a deletion so cleared videos do not leave records behind.
+    const request = drawings.length > 0 ? store.put(record) : store.delete(videoId);
+
+    request.onsuccess = () => resolve();
+    request.onerror = () => {
+      console.error("Error writing drawings:", request.error);
+      reject('Error writing drawings');
+    };
+  });
+};
+
+export const getDrawings = (videoId: string): Promise<Drawing[] | null> => {
+  return new Promise(async (resolve, reject) => {
+    const db = await initDB();
+    const transaction = db.transaction(DRAWING_STORE_NAME, 'readonly');
+    const store = transaction.objectStore(DRAWING_STORE_NAME);
+    const request = store.get(videoId);
+
+    request.onsuccess = () => {
+      const record = request.result as DrawingRecord | undefined;
+      resolve(record?.drawings ?? null);
+    };
+    request.onerror = () => {
+      console.error("Error reading drawings:", request.error);
+      reject('Error reading drawings');
+    };
+  });
+};
+
+export const getAllDrawings = (): Promise<DrawingRecord[]> => {
+  return new Promise(async (resolve, reject) => {
+    const db = await initDB();
+    const transaction = db.transaction(DRAWING_STORE_NAME, 'readonly');
+    const store = transaction.objectStore(DRAWING_STORE_NAME);
+    const request = store.getAll();
+
+    request.onsuccess = () => resolve((request.result as DrawingRecord[] | undefined) ?? []);
+    request.onerror = () => {
+      console.error("Error reading drawings:", request.error);
+      reject('Error reading drawings');
+    };
+  });
+};
+
+export const putMarker = (marker: Marker): Promise<void> => {
+  return new Promise(async (resolve, reject) => {
+    const db = await initDB();
+    const transaction = db.transaction(MARKER_STORE_NAME, 'readwrite');
+    const store = transaction.objectStore(MARKER_STORE_NAME);
+    const request = store.put(marker);
+
+    request.onsuccess = () => resolve();
+    request.onerror = () => {
+      console.error("Error writing marker:", request.error);
+      reject('Error writing marker');
+    };
+  });
+};
+
+export const getAllMarkers = (): Promise<Marker[]> => {
+  return new Promise(async (resolve, reject) => {
+    const db = await initDB();
+    const transaction = db.transaction(MARKER_STORE_NAME, 'readonly');
+    const store = transaction.objectStore(MARKER_STORE_NAME);
+    const request = store.getAll();
+
+    request.onsuccess = () => resolve((request.result as Marker[] | undefined) ?? []);
+    request.onerror = () => {
+      console.error("Error reading markers:", request.error);
+      reject('Error reading markers');
+    };
+  });
+};
+
+export const getMarkersByVideoId = (videoId: string): Promise<Marker[]> => {
+  return new Promise(async (resolve, reject) => {
+    const db = await initDB();
+    const transaction = db.transaction(MARKER_STORE_NAME, 'readonly');
+    const store = transaction.objectStore(MARKER_STORE_NAME);
+    const request = store.index('videoId').getAll(IDBKeyRange.only(videoId));
+
+    request.onsuccess = () => resolve((request.result as Marker[] | undefined) ?? []);
+    request.onerror = () => {
+      console.error("Error reading markers by videoId:", request.error);
+      reject('Error reading markers by videoId');
+    };
+  });
+};
+
+export const deleteMarker = (id: string): Promise<void> => {
+  return new Promise(async (resolve, reject) => {
+    const db = await initDB();
+    const transaction = db.transaction(MARKER_STORE_NAME, 'readwrite');
+    const store = transaction.objectStore(MARKER_STORE_NAME);
+    const request = store.delete(id);
+
+    request.onsuccess = () => resolve();
+    request.onerror = () => {
+      console.error("Error deleting marker:", request.error);
+      reject('Error deleting marker');
+    };
+  });
+};
+
+export const putSettingsRecord = (record: SettingsRecord): Promise<void> => {
+  return new Promise(async (resolve, reject) => {
+    const db = await initDB();
+    const transaction = db.transaction(SETTINGS_STORE_NAME, 'readwrite');
+    const store = transaction.objectStore(SETTINGS_STORE_NAME);
+    const request = store.put(record);
+
+    request.onsuccess = () => resolve();
+    request.onerror = () => {
+      console.error("Error writing settings:", request.error);
+      reject('Error writing settings');
+    };
+  });
+};
+
+export const getSettingsRecord = (id: string): Promise<SettingsRecord | null> => {
+  return new Promise(async (resolve, reject) => {
+    const db = await initDB();
+    const transaction = db.transaction(SETTINGS_STORE_NAME, 'readonly');
+    const store = transaction.objectStore(SETTINGS_STORE_NAME);
+    const request = store.get(id);
+
+    request.onsuccess = () => resolve((request.result as SettingsRecord | undefined) ?? null);
+    request.onerror = () => {
+      console.error("Error reading settings:", request.error);
+      reject('Error reading settings');
+    };
+  });
+};
+
+export const putSession = (session: WorkspaceSession): Promise<void> => {
+  return new Promise(async (resolve, reject) => {
+    const db = await initDB();
+    const transaction = db.transaction(SESSION_STORE_NAME, 'readwrite');
+    const store = transaction.objectStore(SESSION_STORE_NAME);
+    const request = store.put(session);
+
+    request.onsuccess = () => resolve();
+    request.onerror = () => {
+      console.error("Error writing session:", request.error);
+      reject('Error writing session');
+    };
+  });
+};
+
+export const getAllSessions = (): Promise<WorkspaceSession[]> => {
+  return new Promise(async (resolve, reject) => {
+    const db = await initDB();
+    const transaction = db.transaction(SESSION_STORE_NAME, 'readonly');
+    const store = transaction.objectStore(SESSION_STORE_NAME);
+    const request = store.getAll();
+
+    request.onsuccess = () => {
+      const sessions = (request.result as WorkspaceSession[] | undefined) ?? [];
+      resolve(sessions.sort((a, b) => b.updatedAt.getTime() - a.updatedAt.getTime()));
+    };
+    request.onerror = () => {
+      console.error("Error reading sessions:", request.error);
+      reject('Error reading sessions');
+    };
+  });
+};
+
+export const deleteSession = (id: string): Promise<void> => {
+  return new Promise(async (resolve, reject) => {
+    const db = await initDB();
+    const transaction = db.transaction(SESSION_STORE_NAME, 'readwrite');
+    const store = transaction.objectStore(SESSION_STORE_NAME);
+    const request = store.delete(id);
+
+    request.onsuccess = () => resolve();
+    request.onerror = () => {
+      console.error("Error deleting session:", request.error);
+      reject('Error deleting session');
+    };
+  });
+};
+
 export const toggleVideoFavorite = (id: string): Promise<boolean> => {
   return new Promise(async (resolve, reject) => {
     const db = await initDB();
@@ -227,3 +574,89 @@ export const toggleVideoFavorite = (id: string): Promise<boolean> => {
     };
   });
 };
+
+export const updateVideoMetadata = (id: string, metadata: VideoMetadata): Promise<void> => {
+  return new Promise(async (resolve, reject) => {
+    const db = await initDB();
+    const transaction = db.transaction(VIDEO_STORE_NAME, 'readwrite');
+    const store = transaction.objectStore(VIDEO_STORE_NAME);
+    const getRequest = store.get(id);
+
+    getRequest.onsuccess = () => {
+      const record = getRequest.result;
+      if (!record) {
+        reject('Video not found');
+        return;
+      }
+      const putRequest = store.put({ ...record, ...metadata });
+      putRequest.onsuccess = () => resolve();
+      putRequest.onerror = () => {
+        console.error("Error updating video metadata:", putRequest.error);
+        reject('Error updating video metadata');
+      };
+    };
+    getRequest.onerror = () => {
+      console.error("Error reading video for metadata update:", getRequest.error);
+      reject('Error reading video');
+    };
+  });
+};
+
+export const updateVideoFrameTiming = (id: string, frameTiming: VideoFrameTiming): Promise<void> => {
+  return new Promise(async (resolve, reject) => {
+    const db = await initDB();
+    const transaction = db.transaction(VIDEO_STORE_NAME, 'readwrite');
+    const store = transaction.objectStore(VIDEO_STORE_NAME);
+    const getRequest = store.get(id);
+
+    getRequest.onsuccess = () => {
+      const record = getRequest.result;
+      if (!record) {
+        reject('Video not found');
+        return;
+      }
+      const putRequest = store.put({ ...record, frameTiming });
+      putRequest.onsuccess = () => resolve();
+      putRequest.onerror = () => {
+        console.error("Error updating video frame timing:", putRequest.error);
+        reject('Error updating video frame timing');
+      };
+    };
+    getRequest.onerror = () => {
+      console.error("Error reading video for frame timing update:", getRequest.error);
+      reject('Error reading video');
+    };
+  });
+};
+
+/**
+ * Moves a standalone clip's blob into the shared source store under `sourceId`, so sub-clips cut
+ * from it can reference the same recording instead of storing another copy.
+ */
+export const moveVideoBlobToSource = (id: string, sourceId: string): Promise<void> => {
+  return new Promise(async (resolve, reject) => {
+    const db = await initDB();
+    const transaction = db.transaction([VIDEO_STORE_NAME, VIDEO_SOURCE_STORE_NAME], 'readwrite');
+    const store = transaction.objectStore(VIDEO_STORE_NAME);
+    const getRequest = store.get(id);
+
+    getRequest.onsuccess = () => {
+      const record = getRequest.result;
+      if (!record) {
+        transaction.abort();
+        return;
+      }
+      if (record.sourceId) return;
+      const source: VideoSourceRecord = { id: sourceId, blob: record.blob, createdAtMs: Date.now() };
+      transaction.objectStore(VIDEO_SOURCE_STORE_NAME).put(source);
+      store.put({ ...record, sourceId, blob: null });
+    };
+
+    transaction.oncomplete = () => resolve();
+    transaction.onabort = () => reject('Video not found');
+    transaction.onerror = () => {
+      console.error("Error moving video blob to shared source:", transaction.error);
+      reject('Error moving video blob');
+    };
+  });
+};
@@ -0,0 +1,119 @@
+import type { Drawing, DrawingTimeScope, Point } from '@/types';
+
+// Half a 60 fps frame: a drawing pinned to a frame stays visible while paused on that frame
+// even if the element reports a slightly different currentTime after seeking.
+const FRAME_TIME_TOLERANCE_SEC = 1 / 120;
+
+export const isDrawingTimeScoped = (drawing: Drawing) =>
+    Number.isFinite(drawing.startTime);
+
+export const isDrawingVisibleAt = (drawing: Drawing, mediaTimeSec: number) => {
+    if (!isDrawingTimeScoped(drawing)) return true;
+    const start = drawing.startTime as number;
+    const end = Number.isFinite(drawing.endTime) ? Math.max(start, drawing.endTime as number) : start;
+    return mediaTimeSec >= start - FRAME_TIME_TOLERANCE_SEC && mediaTimeSec <= end + FRAME_TIME_TOLERANCE_SEC;
+};
+
+export const getDrawingTimeRange = (
+    scope: DrawingTimeScope,
+    mediaTimeSec: number,
+    holdSec: number
+): Pick<Drawing, 'startTime' | 'endTime'> => {
+    if (scope === 'clip' || !Number.isFinite(mediaTimeSec)) return {};
+    return {
+        startTime: mediaTimeSec,
+        endTime: mediaTimeSec + Math.max(0, holdSec),
+    };
+};
+
+const computeAngleDegrees = (a: Point, b: Point, c: Point) => {
+    const ab = { x: a.x - b.x, y: a.y - b.y };
+    const cb = { x: c.x - b.x, y: c.y - b.y };
+    const magAB = Math.hypot(ab.x, ab.y);
+    const magCB = Math.hypot(cb.x, cb.y);
+    if (!magAB || !magCB) return null;
+    const cosine = Math.max(-1, Math.min(1, (ab.x * cb.x + ab.y * cb.y) / (magAB * magCB)));
+    return Math.acos(cosine) * (180 / Math.PI);
+};
+
+const fillOutlinedText = (ctx: CanvasRenderingContext2D, text: string, x: number, y: number, outlineWidth: number) => {
+    ctx.lineWidth = outlineWidth;
+    ctx.strokeStyle = 'rgba(0,0,0,0.45)';
+    ctx.strokeText(text, x, y);
+    ctx.fillText(text, x, y);
+};
+
+/**
+ * Canvas counterpart of DrawingCanvas' SVG rendering, used when burning drawings into exports.
+ * `unit` is the size of one on-screen pixel in the target context's coordinates.
+ */
+export const drawDrawingOnCanvas = (ctx: CanvasRenderingContext2D, drawing: Drawing, unit: number) => {
+    ctx.save();
+    ctx.strokeStyle = drawing.color;
+    ctx.fillStyle = drawing.color;
+    ctx.lineWidth = drawing.strokeWidth * unit;
+    ctx.lineCap = 'round';
+    ctx.lineJoin = 'round';
+
+    const { start, end, points } = drawing;
+    if (drawing.type === 'free') {
+        if (points.length === 1) {
+            ctx.beginPath();
+            ctx.arc(points[0].x, points[0].y, 2.5 * unit, 0, Math.PI * 2);
+            ctx.fill();
+        } else if (points.length > 1) {
+            ctx.beginPath();
+            ctx.moveTo(points[0].x, points[0].y);
+            points.slice(1).forEach((point) => ctx.lineTo(point.x, point.y));
+            ctx.stroke();
+        }
+    } else if (drawing.type === 'line' || drawing.type === 'arrow') {
+        ctx.beginPath();
+        ctx.moveTo(start.x, start.y);
+        ctx.lineTo(end.x, end.y);
+        ctx.stroke();
+        if (drawing.type === 'arrow') {
+            const angle = Math.atan2(end.y - start.y, end.x - start.x);
+            const headLength = 10 * unit;
+            ctx.beginPath();
+            ctx.moveTo(end.x, end.y);
+            ctx.lineTo(end.x - headLength * Math.cos(angle - Math.PI / 6), end.y - headLength * Math.sin(angle - Math.PI / 6));
+            ctx.lineTo(end.x - headLength * Math.cos(angle + Math.PI / 6), end.y - headLength * Math.sin(angle + Math.PI / 6));
+            ctx.closePath();
+            ctx.fill();
+        }
+    } else if (drawing.type === 'rectangle') {
+        ctx.strokeRect(
+            Math.min(start.x, end.x),
+            Math.min(start.y, end.y),
+            Math.abs(end.x - start.x),
+            Math.abs(end.y - start.y)
+        );
+    } else if (drawing.type === 'circle') {
+        ctx.beginPath();
+        ctx.arc(start.x, start.y, Math.hypot(end.x - start.x, end.y - start.y), 0, Math.PI * 2);
+        ctx.stroke();
+    } else if (drawing.type === 'angle' && points.length >= 2) {
+        const [point1, point2] = points;
+        const point3 = points[2] || end;
+        ctx.beginPath();
+        ctx.moveTo(point1.x, point1.y);
+        ctx.lineTo(point2.x, point2.y);
+        ctx.lineTo(point3.x, point3.y);
+        ctx.stroke();
+        ctx.beginPath();
+        ctx.arc(point2.x, point2.y, 3 * unit, 0, Math.PI * 2);
+        ctx.fill();
+        const degrees = computeAngleDegrees(point1, point2, point3);
+        if (degrees !== null) {
+            ctx.font = `700 ${12 * unit}px sans-serif`;
+            ctx.fillStyle = drawing.color;
+            fillOutlinedText(ctx, `${degrees.toFixed(1)}°`, point2.x + 8 * unit, point2.y - 8 * unit, 2 * unit);
+        }
+    } else if (drawing.type === 'text') {
+        ctx.font = `700 ${16 * unit}px sans-serif`;
+        fillOutlinedText(ctx, drawing.text ?? 'Note', start.x, start.y, 3 * unit);
+    }
+
+    ctx.restore();
+};
@@ -0,0 +1,28 @@
+'use client';
+
+/**
+ * Triggers a browser download for an in-memory blob.
+ */
+export function downloadBlob(blob: Blob, fileName: string) {
+    const url = URL.createObjectURL(blob);
+    const anchor = document.createElement('a');
+    anchor.href = url;
+    anchor.download = fileName;
+    anchor.style.display = 'none';
+    document.body.appendChild(anchor);
+    anchor.click();
+    anchor.remove();
+    // Give the browser a tick to start the download before releasing the URL.
+    window.setTimeout(() => URL.revokeObjectURL(url), 1000);
+}
+
+/**
+ * Strips characters that are invalid in file names on common platforms.
+ */
+export function toSafeFileName(name: string, fallback = 'export') {
+    const cleaned = name
+        .replace(/[\\/:*?"<>|]+/g, '')
+        .replace(/\s+/g, ' ')
+        .trim();
+    return cleaned.length > 0 ? cleaned : fallback;
+}
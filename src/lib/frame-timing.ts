@@ -0,0 +1,199 @@
+import type { VideoFrameTiming } from '@/types';
+
+/**
+ * Frame timing of a clip, measured from requestVideoFrameCallback metadata, and the frame-grid
+ * math used to step, seek and count frames. All times are media seconds of the source video.
+ * Variable-frame-rate recordings are flagged rather than forced onto a grid: seeks are left
+ * unsnapped and steps move by the median interval.
+ */
+
+export const FALLBACK_FRAME_DURATION_SEC = 1 / 30;
+
+const PROBE_MAX_SAMPLES = 48;
+const PROBE_TIMEOUT_MS = 3000;
+// Half speed keeps high-fps clips below the display refresh so callbacks see every frame.
+const PROBE_PLAYBACK_RATE = 0.5;
+const MIN_FRAME_DURATION_SEC = 1 / 480;
+const MIN_INTERVALS = 4;
+// Relative spread (p90 − p10) / median of single-frame intervals that marks a VFR recording.
+const VARIABLE_RATE_SPREAD = 0.1;
+// Share of intervals that are no whole number of frames, which a dropped callback cannot explain.
+const VARIABLE_RATE_OFF_GRID_SHARE = 0.2;
+const OFF_GRID_TOLERANCE = 0.25;
+const FRAME_INDEX_EPSILON = 1e-4;
+
+const percentile = (sorted: number[], fraction: number) =>
+  sorted[Math.min(sorted.length - 1, Math.max(0, Math.round(fraction * (sorted.length - 1))))];
+
+/** Frame timing from consecutive presented media times, or null when there are too few. */
+export const summarizeFrameTimes = (mediaTimes: number[]): VideoFrameTiming | null => {
+  const intervals = mediaTimes
+    .slice(1)
+    .map((time, index) => time - mediaTimes[index])
+    .filter((delta) => Number.isFinite(delta) && delta >= MIN_FRAME_DURATION_SEC && delta < 1)
+    .sort((a, b) => a - b);
+  if (intervals.length < MIN_INTERVALS) return null;
+
+  // Dropped callbacks show up as double intervals; keep those close to the shortest common one.
+  const base = percentile(intervals, 0.25);
+  const single = intervals.filter((delta) => delta >= base * 0.75 && delta <= base * 1.25);
+  const frameDurationSec = percentile(single, 0.5);
+  const spread = (percentile(single, 0.9) - percentile(single, 0.1)) / frameDurationSec;
+  const phase = ((mediaTimes[0] % frameDurationSec) + frameDurationSec) % frameDurationSec;
+  const offGridShare = intervals.filter((delta) => {
+    const frames = delta / frameDurationSec;
+    return Math.abs(frames - Math.round(frames)) > OFF_GRID_TOLERANCE;
+  }).length / intervals.length;
+
+  return {
+    fps: Math.round(100 / frameDurationSec) / 100,
+    frameDurationSec,
+    frameOffsetSec: phase > frameDurationSec / 2 ? phase - frameDurationSec : phase,
+    isVariable: spread > VARIABLE_RATE_SPREAD || offGridShare > VARIABLE_RATE_OFF_GRID_SHARE,
+  };
+};
+
+export interface FrameTimingProbeOptions {
+  startSec?: number;
+  endSec?: number;
+  /** Aborting ends sampling early; the timing measured so far is still summarised */
+  signal?: AbortSignal;
+}
+
+/**
+ * Plays `video` muted from `startSec` and records presented frame times until `endSec`, so
+ * trimmed clips are measured on their own footage. The element is left paused where sampling
+ * stopped. Resolves null when the browser lacks requestVideoFrameCallback or playback fails.
+ */
+export const probeFrameTiming = (
+  video: HTMLVideoElement,
+  { startSec = 0, endSec = Number.POSITIVE_INFINITY, signal }: FrameTimingProbeOptions = {}
+): Promise<VideoFrameTiming | null> => {
+  if (typeof video.requestVideoFrameCallback !== 'function' || signal?.aborted) return Promise.resolve(null);
+
+  return new Promise((resolve) => {
+    const mediaTimes: number[] = [];
+    const previousRate = video.playbackRate;
+    let handle: number | null = null;
+    let settled = false;
+
+    const finish = () => {
+      if (settled) return;
+      settled = true;
+      window.clearTimeout(timeoutHandle);
+      signal?.removeEventListener('abort', finish);
+      if (handle !== null) video.cancelVideoFrameCallback(handle);
+      video.pause();
+      video.playbackRate = previousRate;
+      resolve(summarizeFrameTimes(mediaTimes));
+    };
+
+    const onFrame: VideoFrameRequestCallback = (_now, metadata) => {
+      if (metadata.mediaTime > endSec) {
+        finish();
+        return;
+      }
+      mediaTimes.push(metadata.mediaTime);
+      if (mediaTimes.length >= PROBE_MAX_SAMPLES) {
+        finish();
+        return;
+      }
+      handle = video.requestVideoFrameCallback(onFrame);
+    };
+
+    // The first timeout covers loading and the seek to `startSec`; sampling gets a fresh one.
+    let timeoutHandle = window.setTimeout(finish, PROBE_TIMEOUT_MS);
+    const startSampling = () => {
+      if (settled) return;
+      window.clearTimeout(timeoutHandle);
+      timeoutHandle = window.setTimeout(finish, PROBE_TIMEOUT_MS);
+      video.playbackRate = PROBE_PLAYBACK_RATE;
+      handle = video.requestVideoFrameCallback(onFrame);
+      video.play().catch(finish);
+    };
+    const seekToStart = () => {
+      video.addEventListener('seeked', startSampling, { once: true });
+      video.currentTime = startSec;
+    };
+
+    signal?.addEventListener('abort', finish, { once: true });
+    if (Math.abs(video.currentTime - startSec) < 1e-3) {
+      startSampling();
+    } else if (video.readyState >= HTMLMediaElement.HAVE_METADATA) {
+      seekToStart();
+    } else {
+      video.addEventListener('loadedmetadata', seekToStart, { once: true });
+    }
+  });
+};
+
+/** Measures a clip's frame timing in a hidden element; see `probeFrameTiming`. */
+export const detectFrameTiming = async (
+  blob: Blob,
+  range: Omit<FrameTimingProbeOptions, 'signal'> = {}
+): Promise<VideoFrameTiming | null> => {
+  if (typeof document === 'undefined') return null;
+  const video = document.createElement('video');
+  const url = URL.createObjectURL(blob);
+  video.preload = 'auto';
+  video.muted = true;
+  video.playsInline = true;
+  video.setAttribute('playsinline', '');
+  video.style.position = 'fixed';
+  video.style.left = '-99999px';
+  video.style.top = '-99999px';
+  video.style.width = '1px';
+  video.style.height = '1px';
+  video.style.opacity = '0';
+  video.src = url;
+  document.body.appendChild(video);
+
+  try {
+    return await probeFrameTiming(video, range);
+  } finally {
+    video.removeAttribute('src');
+    video.load();
+    video.remove();
+    URL.revokeObjectURL(url);
+  }
+};
+
+const getGrid = (timing?: VideoFrameTiming | null) => ({
+  durationSec: timing?.frameDurationSec ?? FALLBACK_FRAME_DURATION_SEC,
+  offsetSec: timing?.frameOffsetSec ?? 0,
+});
+
+export const getFrameDurationSec = (timing?: VideoFrameTiming | null) => getGrid(timing).durationSec;
+
+/** Index of the frame on screen at `timeSec` */
+export const getFrameIndexAt = (timeSec: number, timing?: VideoFrameTiming | null) => {
+  const { durationSec, offsetSec } = getGrid(timing);
+  return Math.max(0, Math.floor((timeSec - offsetSec) / durationSec + FRAME_INDEX_EPSILON));
+};
+
+/** Presentation time of frame `index` */
+export const getFrameStartTime = (index: number, timing?: VideoFrameTiming | null) => {
+  const { durationSec, offsetSec } = getGrid(timing);
+  return Math.max(0, offsetSec + index * durationSec);
+};
+
+// Seeking to the middle of a frame shows that frame regardless of how the decoder rounds.
+const getFrameSeekTime = (index: number, timing?: VideoFrameTiming | null) => {
+  const { durationSec, offsetSec } = getGrid(timing);
+  return Math.max(0, offsetSec + (index + 0.5) * durationSec);
+};
+
+/** Seek target that shows the frame on screen at `timeSec`; unchanged for variable-rate clips */
+export const snapToFrame = (timeSec: number, timing?: VideoFrameTiming | null) =>
+  timing?.isVariable ? timeSec : getFrameSeekTime(getFrameIndexAt(timeSec, timing), timing);
+
+/** Seek target `frames` frames before or after the one at `timeSec` (median intervals when variable) */
+export const stepFrameTime = (timeSec: number, frames: number, timing?: VideoFrameTiming | null) =>
+  timing?.isVariable
+    ? Math.max(0, timeSec + frames * timing.frameDurationSec)
+    : getFrameSeekTime(Math.max(0, getFrameIndexAt(timeSec, timing) + frames), timing);
+
+export const formatFrameRate = (timing: VideoFrameTiming) => {
+  const fps = Number.isInteger(timing.fps) ? timing.fps : timing.fps.toFixed(2);
+  return timing.isVariable ? `Variable frame rate (median ~${fps} fps); frame numbers are approximate` : `${fps} fps`;
+};
@@ -0,0 +1,174 @@
+import type { DrawingType } from '@/types';
+import { isEditableEventTarget } from '@/lib/utils';
+
+/**
+ * Global keyboard shortcuts. Bindings are stored as combo strings such as `Mod+Z` or
+ * `Shift+ArrowRight`, where `Mod` is Ctrl (or ⌘ on macOS). Each command has at most one binding.
+ */
+
+export type ShortcutCommandId =
+  | 'play-pause'
+  | 'frame-back'
+  | 'frame-forward'
+  | 'speed-down'
+  | 'speed-up'
+  | 'select-tile-1'
+  | 'select-tile-2'
+  | 'select-tile-3'
+  | 'select-tile-4'
+  | 'toggle-sync'
+  | 'toggle-loop'
+  | 'toggle-pose'
+  | 'toggle-annotation'
+  | 'tool-free'
+  | 'tool-line'
+  | 'tool-arrow'
+  | 'tool-angle'
+  | 'tool-rectangle'
+  | 'tool-circle'
+  | 'tool-text'
+  | 'undo-drawing'
+  | 'marker-add'
+  | 'marker-previous'
+  | 'marker-next'
+  | 'show-shortcuts';
+
+export type ShortcutKeymap = Record<ShortcutCommandId, string | null>;
+
+export type ShortcutGroup = 'Playback' | 'Tiles' | 'Toggles' | 'Annotation' | 'Markers' | 'Help';
+
+export interface ShortcutCommand {
+  id: ShortcutCommandId;
+  label: string;
+  group: ShortcutGroup;
+  defaultCombo: string | null;
+}
+
+export const SHORTCUT_GROUPS: ShortcutGroup[] = ['Playback', 'Tiles', 'Toggles', 'Annotation', 'Markers', 'Help'];
+
+export const SHORTCUT_COMMANDS: ShortcutCommand[] = [
+  { id: 'play-pause', label: 'Play / pause', group: 'Playback', defaultCombo: 'Space' },
+  { id: 'frame-back', label: 'Previous frame', group: 'Playback', defaultCombo: 'ArrowLeft' },
+  { id: 'frame-forward', label: 'Next frame', group: 'Playback', defaultCombo: 'ArrowRight' },
+  { id: 'speed-down', label: 'Slower', group: 'Playback', defaultCombo: '-' },
+  { id: 'speed-up', label: 'Faster', group: 'Playback', defaultCombo: '=' },
+  { id: 'select-tile-1', label: 'Select tile 1', group: 'Tiles', defaultCombo: '1' },
+  { id: 'select-tile-2', label: 'Select tile 2', group: 'Tiles', defaultCombo: '2' },
+  { id: 'select-tile-3', label: 'Select tile 3', group: 'Tiles', defaultCombo: '3' },
+  { id: 'select-tile-4', label: 'Select tile 4', group: 'Tiles', defaultCombo: '4' },
+  { id: 'toggle-sync', label: 'Sync playback', group: 'Toggles', defaultCombo: 'S' },
+  { id: 'toggle-loop', label: 'Loop', group: 'Toggles', defaultCombo: 'L' },
+  { id: 'toggle-pose', label: 'Pose overlay', group: 'Toggles', defaultCombo: 'P' },
+  { id: 'toggle-annotation', label: 'Annotation mode', group: 'Toggles', defaultCombo: 'D' },
+  { id: 'tool-free', label: 'Free draw', group: 'Annotation', defaultCombo: 'F' },
+  { id: 'tool-line', label: 'Line', group: 'Annotation', defaultCombo: 'N' },
+  { id: 'tool-arrow', label: 'Arrow', group: 'Annotation', defaultCombo: 'A' },
+  { id: 'tool-angle', label: 'Angle', group: 'Annotation', defaultCombo: 'G' },
+  { id: 'tool-rectangle', label: 'Rectangle', group: 'Annotation', defaultCombo: 'R' },
+  { id: 'tool-circle', label: 'Circle', group: 'Annotation', defaultCombo: 'C' },
+  { id: 'tool-text', label: 'Text', group: 'Annotation', defaultCombo: 'T' },
+  { id: 'undo-drawing', label: 'Undo last drawing', group: 'Annotation', defaultCombo: 'Mod+Z' },
+  { id: 'marker-add', label: 'Add marker', group: 'Markers', defaultCombo: 'M' },
+  { id: 'marker-previous', label: 'Previous marker', group: 'Markers', defaultCombo: '[' },
+  { id: 'marker-next', label: 'Next marker', group: 'Markers', defaultCombo: ']' },
+  { id: 'show-shortcuts', label: 'Show shortcuts', group: 'Help', defaultCombo: '?' },
+];
+
+export const SHORTCUT_TOOL_COMMANDS: Partial<Record<ShortcutCommandId, DrawingType>> = {
+  'tool-free': 'free',
+  'tool-line': 'line',
+  'tool-arrow': 'arrow',
+  'tool-angle': 'angle',
+  'tool-rectangle': 'rectangle',
+  'tool-circle': 'circle',
+  'tool-text': 'text',
+};
+
+// Speed shortcuts walk the rates offered by the player's rate menu.
+export const SHORTCUT_PLAYBACK_RATES = [0.125, 0.25, 0.5, 1, 2];
+
+export const createDefaultKeymap = (): ShortcutKeymap =>
+  Object.fromEntries(SHORTCUT_COMMANDS.map((command) => [command.id, command.defaultCombo])) as ShortcutKeymap;
+
+const MODIFIER_KEYS = new Set(['Control', 'Meta', 'Alt', 'Shift', 'AltGraph', 'CapsLock', 'Fn']);
+
+/**
+ * Turns a keydown into a combo string, or null for a lone modifier. Shift is only recorded
+ * for letters and named keys; for symbols it is already part of `event.key` (`?`, `+`).
+ */
+export const getKeyComboFromEvent = (event: Pick<KeyboardEvent, 'key' | 'ctrlKey' | 'metaKey' | 'altKey' | 'shiftKey'>) => {
+  if (MODIFIER_KEYS.has(event.key)) return null;
+  const key = event.key === ' ' ? 'Space' : event.key.length === 1 ? event.key.toUpperCase() : event.key;
+  const isLetter = /^[A-Z]$/.test(key);
+  const parts: string[] = [];
+  if (event.ctrlKey || event.metaKey) parts.push('Mod');
+  if (event.altKey) parts.push('Alt');
+  if (event.shiftKey && (isLetter || key.length > 1)) parts.push('Shift');
+  parts.push(key);
+  return parts.join('+');
+};
+
+const isMacPlatform = () => typeof navigator !== 'undefined' && /Mac|iPhone|iPad/.test(navigator.platform);
+
+const KEY_LABELS: Record<string, string> = {
+  ArrowLeft: '←',
+  ArrowRight: '→',
+  ArrowUp: '↑',
+  ArrowDown: '↓',
+  Escape: 'Esc',
+};
+
+export const formatKeyCombo = (combo: string | null) => {
+  if (!combo) return 'Unassigned';
+  return combo
+    .split('+')
+    .map((part, index, parts) => {
+      // A trailing empty part means the key itself is '+'.
+      if (part === '' && index === parts.length - 1) return '+';
+      if (part === 'Mod') return isMacPlatform() ? '⌘' : 'Ctrl';
+      return KEY_LABELS[part] ?? part;
+    })
+    .filter((part) => part !== '')
+    .join(' + ');
+};
+
+// Dialogs, menus and sliders own their own keys (Space on a focused button, arrows in a menu). A held
+// Space would otherwise toggle playback on every key repeat.
+export const shouldIgnoreShortcutEvent = (event: KeyboardEvent) => {
+  if (event.defaultPrevented || (event.repeat && event.key === ' ')) return true;
+  if (isEditableEventTarget(event.target)) return true;
+  return event.target instanceof Element && event.target.closest('[role="dialog"], [role="alertdialog"], [role="menu"], [role="listbox"], [role="slider"]') !== null;
+};
+
+export const findShortcutCommand = (keymap: ShortcutKeymap, event: KeyboardEvent): ShortcutCommandId | null => {
+  const combo = getKeyComboFromEvent(event);
+  if (!combo) return null;
+  const command = SHORTCUT_COMMANDS.find((item) => keymap[item.id] === combo);
+  return command?.id ?? null;
+};
+
+/** Keeps known commands with string or cleared bindings; anything else gets its default. */
+export const normalizeKeymap = (value: unknown): ShortcutKeymap => {
+  const next = createDefaultKeymap();
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) return next;
+  const raw = value as Record<string, unknown>;
+  SHORTCUT_COMMANDS.forEach((command) => {
+    const combo = raw[command.id];
+    if (combo === null || (typeof combo === 'string' && combo.length > 0)) {
+      next[command.id] = combo;
+    }
+  });
+  return next;
+};
+
+/** Assigns `combo` to `commandId`, clearing it from whichever command held it before. */
+export const assignShortcut = (keymap: ShortcutKeymap, commandId: ShortcutCommandId, combo: string | null): ShortcutKeymap => {
+  const next = { ...keymap };
+  if (combo) {
+    SHORTCUT_COMMANDS.forEach((command) => {
+      if (command.id !== commandId && next[command.id] === combo) next[command.id] = null;
+    });
+  }
+  next[commandId] = combo;
+  return next;
+};
@@ -0,0 +1,157 @@
+import type { Video, VideoMetadata } from '@/types';
+
+/**
+ * Search, facet filters and grouping shared by the desktop and mobile libraries. Filtering is
+ * done over the in-memory library; the IndexedDB indexes back the same fields for lookups that
+ * should not load every clip.
+ */
+
+export type LibraryGroupBy = 'none' | 'athlete' | 'sessionDate' | 'tag';
+
+export interface LibraryFilter {
+  query: string;
+  athletes: string[];
+  tags: string[];
+  sessionDates: string[];
+}
+
+export interface LibraryFacets {
+  athletes: string[];
+  tags: string[];
+  /** Newest first */
+  sessionDates: string[];
+}
+
+export interface LibraryGroup {
+  key: string;
+  label: string;
+  videos: Video[];
+}
+
+export const LIBRARY_GROUP_OPTIONS: Array<{ value: LibraryGroupBy; label: string }> = [
+  { value: 'none', label: 'No grouping' },
+  { value: 'athlete', label: 'Athlete' },
+  { value: 'sessionDate', label: 'Session date' },
+  { value: 'tag', label: 'Tag' },
+];
+
+export const EMPTY_LIBRARY_FILTER: LibraryFilter = {
+  query: '',
+  athletes: [],
+  tags: [],
+  sessionDates: [],
+};
+
+const UNGROUPED_KEY = '__none__';
+const SESSION_DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+const compareText = (a: string, b: string) => a.localeCompare(b, undefined, { sensitivity: 'base' });
+
+const normalizeTags = (tags: readonly string[]) => {
+  const seen = new Set<string>();
+  return tags
+    .map((tag) => tag.trim())
+    .filter((tag) => {
+      const key = tag.toLowerCase();
+      if (!tag || seen.has(key)) return false;
+      seen.add(key);
+      return true;
+    });
+};
+
+/** Splits comma-separated input into tags, dropping blanks and case-insensitive duplicates. */
+export const parseTagInput = (text: string) => normalizeTags(text.split(','));
+
+/** Trims every field and stores empty values as absent so they stay out of the indexes. */
+export const normalizeVideoMetadata = (metadata: VideoMetadata): VideoMetadata => {
+  const athlete = metadata.athlete?.trim();
+  const notes = metadata.notes?.trim();
+  const tags = normalizeTags(metadata.tags ?? []);
+  const sessionDate = metadata.sessionDate?.trim();
+  return {
+    athlete: athlete || undefined,
+    tags: tags.length > 0 ? tags : undefined,
+    sessionDate: sessionDate && SESSION_DATE_PATTERN.test(sessionDate) ? sessionDate : undefined,
+    notes: notes || undefined,
+  };
+};
+
+export const formatSessionDate = (value: string) => {
+  const [year, month, day] = value.split('-').map(Number);
+  return new Date(year, month - 1, day).toLocaleDateString();
+};
+
+export const getLibraryFacets = (videos: Video[]): LibraryFacets => {
+  const athletes = new Map<string, string>();
+  const tags = new Map<string, string>();
+  const sessionDates = new Set<string>();
+  videos.forEach((video) => {
+    if (video.athlete) athletes.set(video.athlete.toLowerCase(), video.athlete);
+    video.tags?.forEach((tag) => tags.set(tag.toLowerCase(), tag));
+    if (video.sessionDate) sessionDates.add(video.sessionDate);
+  });
+  return {
+    athletes: [...athletes.values()].sort(compareText),
+    tags: [...tags.values()].sort(compareText),
+    sessionDates: [...sessionDates].sort().reverse(),
+  };
+};
+
+export const countActiveLibraryFilters = (filter: LibraryFilter) =>
+  filter.athletes.length + filter.tags.length + filter.sessionDates.length;
+
+const includesIgnoreCase = (values: readonly string[], value: string | undefined) =>
+  value !== undefined && values.some((item) => item.toLowerCase() === value.toLowerCase());
+
+/**
+ * Every search word must appear in the name, athlete, tags, notes or session date. Selected
+ * values within one facet are alternatives; different facets must all match.
+ */
+export const matchesLibraryFilter = (video: Video, filter: LibraryFilter) => {
+  if (filter.athletes.length > 0 && !includesIgnoreCase(filter.athletes, video.athlete)) return false;
+  if (filter.sessionDates.length > 0 && !filter.sessionDates.includes(video.sessionDate ?? '')) return false;
+  if (filter.tags.length > 0 && !(video.tags ?? []).some((tag) => includesIgnoreCase(filter.tags, tag))) return false;
+
+  const words = filter.query.toLowerCase().split(/\s+/).filter(Boolean);
+  if (words.length === 0) return true;
+  const haystack = [video.name, video.athlete, video.notes, video.sessionDate, ...(video.tags ?? [])]
+    .filter(Boolean)
+    .join('\n')
+    .toLowerCase();
+  return words.every((word) => haystack.includes(word));
+};
+
+/**
+ * Groups keep the incoming clip order. With tag grouping a clip is listed under each of its
+ * tags; clips without a value for the grouping field are collected in a trailing group.
+ */
+export const groupLibrary = (videos: Video[], groupBy: LibraryGroupBy): LibraryGroup[] => {
+  if (groupBy === 'none') return [{ key: 'all', label: 'All clips', videos }];
+
+  const groups = new Map<string, LibraryGroup>();
+  const addToGroup = (key: string, label: string, video: Video) => {
+    const group = groups.get(key) ?? { key, label, videos: [] };
+    group.videos.push(video);
+    groups.set(key, group);
+  };
+
+  videos.forEach((video) => {
+    if (groupBy === 'athlete') {
+      if (video.athlete) addToGroup(video.athlete.toLowerCase(), video.athlete, video);
+      else addToGroup(UNGROUPED_KEY, 'No athlete', video);
+    } else if (groupBy === 'sessionDate') {
+      if (video.sessionDate) addToGroup(video.sessionDate, formatSessionDate(video.sessionDate), video);
+      else addToGroup(UNGROUPED_KEY, 'No session date', video);
+    } else if (video.tags && video.tags.length > 0) {
+      video.tags.forEach((tag) => addToGroup(tag.toLowerCase(), tag, video));
+    } else {
+      addToGroup(UNGROUPED_KEY, 'Untagged', video);
+    }
+  });
+
+  return [...groups.values()].sort((a, b) => {
+    if (a.key === UNGROUPED_KEY) return 1;
+    if (b.key === UNGROUPED_KEY) return -1;
+    return groupBy === 'sessionDate' ? b.key.localeCompare(a.key) : compareText(a.label, b.label);
+  });
+};
@@ -0,0 +1,75 @@
+import type { Marker } from '@/types';
+
+// Markers closer than this to the playhead count as "current" and are skipped when jumping.
+const MARKER_NAV_EPSILON_SEC = 0.02;
+
+export interface TimelineMarker {
+    id: string;
+    /** Position in the same time base as the timeline it is rendered on */
+    time: number;
+    label: string;
+    color: string;
+    note?: string;
+}
+
+export const findAdjacentMarker = (markers: Marker[], mediaTimeSec: number, direction: -1 | 1) => {
+    if (direction > 0) {
+        return markers.find((marker) => marker.time > mediaTimeSec + MARKER_NAV_EPSILON_SEC) ?? null;
+    }
+    for (let index = markers.length - 1; index >= 0; index -= 1) {
+        if (markers[index].time < mediaTimeSec - MARKER_NAV_EPSILON_SEC) return markers[index];
+    }
+    return null;
+};
+
+/**
+ * Maps media-time markers onto a timeline whose zero sits at `originSec`, dropping markers
+ * that fall outside the visible range.
+ */
+export const toTimelineMarkers = (
+    markers: Marker[] | undefined,
+    originSec: number,
+    durationSec: number
+): TimelineMarker[] =>
+    (markers ?? [])
+        .map((marker) => ({
+            id: marker.id,
+            time: marker.time - originSec,
+            label: marker.label,
+            color: marker.color,
+            note: marker.note,
+        }))
+        .filter((marker) => marker.time >= 0 && marker.time <= durationSec);
+
+export const formatMarkerTime = (timeSec: number) => {
+    if (!Number.isFinite(timeSec)) return '0:00.000';
+    const safe = Math.max(0, timeSec);
+    const minutes = Math.floor(safe / 60);
+    const seconds = safe - minutes * 60;
+    return `${minutes}:${seconds.toFixed(3).padStart(6, '0')}`;
+};
+
+export interface MarkerAlignmentInput {
+    slotIndex: number;
+    trimStart: number;
+    markerTime: number;
+}
+
+/**
+ * Computes sync offsets so every tile reaches its marker at the same sync-relative time.
+ * The tile whose event happens earliest (relative to its trim start) gets offset 0; the others
+ * start later into their clip, keeping every offset non-negative so trim clamping never shifts
+ * a tile away from the shared event.
+ */
+export const computeMarkerAlignment = (inputs: MarkerAlignmentInput[]) => {
+    if (inputs.length === 0) {
+        return { offsets: {} as Record<number, number>, alignedRelativeTime: 0 };
+    }
+    const eventOffsets = inputs.map((input) => Math.max(0, input.markerTime - input.trimStart));
+    const alignedRelativeTime = Math.min(...eventOffsets);
+    const offsets: Record<number, number> = {};
+    inputs.forEach((input, position) => {
+        offsets[input.slotIndex] = Number((eventOffsets[position] - alignedRelativeTime).toFixed(6));
+    });
+    return { offsets, alignedRelativeTime };
+};
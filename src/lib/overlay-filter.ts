@@ -0,0 +1,18 @@
+import type { OverlayColorFilter } from '@/contexts/app-context';
+
+// Tints are built from a grayscale+sepia base so every colour reads the same regardless of footage.
+const OVERLAY_COLOR_FILTERS: Record<OverlayColorFilter, string> = {
+    none: 'none',
+    red: 'grayscale(1) sepia(1) hue-rotate(-38deg) saturate(8.5) contrast(1.28) brightness(0.94)',
+    orange: 'grayscale(1) sepia(1) hue-rotate(-12deg) saturate(8) contrast(1.25) brightness(0.97)',
+    yellow: 'grayscale(1) sepia(1) hue-rotate(20deg) saturate(8.8) contrast(1.3) brightness(1.02)',
+    green: 'grayscale(1) sepia(1) hue-rotate(78deg) saturate(8.2) contrast(1.26) brightness(0.95)',
+    blue: 'grayscale(1) sepia(1) hue-rotate(168deg) saturate(8.6) contrast(1.29) brightness(0.93)',
+};
+
+/** CSS/canvas filter string for the top layer of overlay compare mode. */
+export const getOverlayTopFilter = (colorFilter: OverlayColorFilter, blackAndWhite: boolean) => {
+    const parts = colorFilter === 'none' ? [] : [OVERLAY_COLOR_FILTERS[colorFilter]];
+    if (blackAndWhite) parts.push('grayscale(1)');
+    return parts.length > 0 ? parts.join(' ') : 'none';
+};
@@ -5,7 +5,7 @@
  * MediaPipe landmark indices: https://ai.google.dev/edge/mediapipe/solutions/vision/pose_landmarker#pose_landmarker_model
  */
 
-import type { PoseAngleMetricId } from '@/types';
+import type { CustomPoseAngle, PoseAngleMetricId } from '@/types';
 
 // ── Types ──
 
@@ -23,11 +23,11 @@ export interface CenterOfGravity {
 export interface JointAngle {
     /** Stable metric id */
     id: PoseAngleMetricId;
-    /** MediaPipe landmark index of the joint vertex */
+    /** MediaPipe landmark index of the joint vertex (the first of a midpoint pair) */
     jointIndex: number;
     /** Label for display */
     label: string;
-    /** Angle in degrees (0-180) */
+    /** Angle in degrees: 0-180 for joints, signed for segment orientations */
     degrees: number;
     /** Position of the vertex point (for rendering) */
     vertex: Point2D;
@@ -75,6 +75,14 @@ const L_KNEE = 25;
 const R_KNEE = 26;
 const L_ANKLE = 27;
 const R_ANKLE = 28;
+const L_INDEX = 19;
+const R_INDEX = 20;
+const L_EAR = 7;
+const R_EAR = 8;
+const L_HEEL = 29;
+const R_HEEL = 30;
+const L_FOOT_INDEX = 31;
+const R_FOOT_INDEX = 32;
 const NOSE = 0;
 
 // ── Segment mass percentages (Winter, 2009 — standard anthropometric data) ──
@@ -210,42 +218,70 @@ export const computeCoG = (pose: Point2D[]): CenterOfGravity | null => {
     };
 };
 
+/** A landmark index, or a pair whose midpoint is used (trunk and neck) */
+type LandmarkRef = number | readonly [number, number];
+
+interface JointAngleDefinition {
+    id: PoseAngleMetricId;
+    label: string;
+    a: LandmarkRef; // first ray
+    b: LandmarkRef; // vertex
+    c: LandmarkRef; // second ray
+}
+
+const JOINT_ANGLE_DEFINITIONS: JointAngleDefinition[] = [
+    { id: 'left-knee', label: 'L Knee', a: L_HIP, b: L_KNEE, c: L_ANKLE },
+    { id: 'right-knee', label: 'R Knee', a: R_HIP, b: R_KNEE, c: R_ANKLE },
+    { id: 'left-hip', label: 'L Hip', a: L_SHOULDER, b: L_HIP, c: L_KNEE },
+    { id: 'right-hip', label: 'R Hip', a: R_SHOULDER, b: R_HIP, c: R_KNEE },
+    { id: 'left-elbow', label: 'L Elbow', a: L_SHOULDER, b: L_ELBOW, c: L_WRIST },
+    { id: 'right-elbow', label: 'R Elbow', a: R_SHOULDER, b: R_ELBOW, c: R_WRIST },
+    { id: 'left-shoulder', label: 'L Shoulder', a: L_HIP, b: L_SHOULDER, c: L_ELBOW },
+    { id: 'right-shoulder', label: 'R Shoulder', a: R_HIP, b: R_SHOULDER, c: R_ELBOW },
+    { id: 'left-ankle', label: 'L Ankle', a: L_KNEE, b: L_ANKLE, c: L_FOOT_INDEX },
+    { id: 'right-ankle', label: 'R Ankle', a: R_KNEE, b: R_ANKLE, c: R_FOOT_INDEX },
+    { id: 'left-wrist', label: 'L Wrist', a: L_ELBOW, b: L_WRIST, c: L_INDEX },
+    { id: 'right-wrist', label: 'R Wrist', a: R_ELBOW, b: R_WRIST, c: R_INDEX },
+    // Trunk–thigh angle at the pelvis, using both sides.
+    { id: 'trunk', label: 'Trunk', a: [L_SHOULDER, R_SHOULDER], b: [L_HIP, R_HIP], c: [L_KNEE, R_KNEE] },
+    // Head–trunk angle at the base of the neck; 180° when the head is in line with the trunk.
+    { id: 'neck', label: 'Neck', a: [L_EAR, R_EAR], b: [L_SHOULDER, R_SHOULDER], c: [L_HIP, R_HIP] },
+];
+
+const resolveLandmark = (pose: Point2D[], ref: LandmarkRef): Point2D | null => {
+    if (typeof ref === 'number') return pose[ref] ?? null;
+    const first = pose[ref[0]];
+    const second = pose[ref[1]];
+    return first && second ? midpoint(first, second) : null;
+};
+
 /**
- * Compute 6 key joint angles: L/R knee, L/R hip, L/R elbow.
+ * Compute joint angles for knees, hips, elbows, shoulders, ankles, wrists, trunk and neck,
+ * followed by any user-defined landmark triplets. Segment orientations are a separate call.
  */
-export const computeJointAngles = (pose: Point2D[]): JointAngle[] => {
+export const computeJointAngles = (pose: Point2D[], customAngles: CustomPoseAngle[] = []): JointAngle[] => {
     if (pose.length < 29) return [];
 
-    const definitions: Array<{
-        id: PoseAngleMetricId;
-        label: string;
-        jointIndex: number;
-        a: number; // first ray
-        b: number; // vertex
-        c: number; // second ray
-    }> = [
-            { id: 'left-knee', label: 'L Knee', jointIndex: L_KNEE, a: L_HIP, b: L_KNEE, c: L_ANKLE },
-            { id: 'right-knee', label: 'R Knee', jointIndex: R_KNEE, a: R_HIP, b: R_KNEE, c: R_ANKLE },
-            { id: 'left-hip', label: 'L Hip', jointIndex: L_HIP, a: L_SHOULDER, b: L_HIP, c: L_KNEE },
-            { id: 'right-hip', label: 'R Hip', jointIndex: R_HIP, a: R_SHOULDER, b: R_HIP, c: R_KNEE },
-            { id: 'left-elbow', label: 'L Elbow', jointIndex: L_ELBOW, a: L_SHOULDER, b: L_ELBOW, c: L_WRIST },
-            { id: 'right-elbow', label: 'R Elbow', jointIndex: R_ELBOW, a: R_SHOULDER, b: R_ELBOW, c: R_WRIST },
-        ];
+    const definitions: JointAngleDefinition[] = [
+        ...JOINT_ANGLE_DEFINITIONS,
+        ...customAngles.map(({ id, label, landmarks: [a, b, c] }) => ({ id, label, a, b, c })),
+    ];
 
     const results: JointAngle[] = [];
 
     for (const def of definitions) {
-        const pointA = pose[def.a];
-        const vertex = pose[def.b];
-        const pointB = pose[def.c];
+        const pointA = resolveLandmark(pose, def.a);
+        const vertex = resolveLandmark(pose, def.b);
+        const pointB = resolveLandmark(pose, def.c);
 
+        if (!pointA || !vertex || !pointB) continue;
         if (!isVisible(pointA) || !isVisible(vertex) || !isVisible(pointB)) continue;
 
         const { degrees, startAngle, sweepAngle } = angleBetween(pointA, vertex, pointB);
 
         results.push({
             id: def.id,
-            jointIndex: def.jointIndex,
+            jointIndex: typeof def.b === 'number' ? def.b : def.b[0],
             label: def.label,
             degrees,
             vertex,
@@ -259,6 +295,129 @@ export const computeJointAngles = (pose: Point2D[]): JointAngle[] => {
     return results;
 };
 
+// ── Segment orientation ──
+
+/**
+ * +1 when the athlete faces image-right, -1 when facing left. Toes ahead of heels decide;
+ * the nose ahead of the ears is the fallback, and image-right is assumed when neither is visible.
+ */
+const getFacingSign = (pose: Point2D[]): 1 | -1 => {
+    let footSum = 0;
+    for (const [heel, toe] of [[L_HEEL, L_FOOT_INDEX], [R_HEEL, R_FOOT_INDEX]]) {
+        const heelPoint = pose[heel];
+        const toePoint = pose[toe];
+        if (heelPoint && toePoint && isVisible(heelPoint) && isVisible(toePoint)) {
+            footSum += toePoint.x - heelPoint.x;
+        }
+    }
+    if (Math.abs(footSum) > 1e-3) return footSum > 0 ? 1 : -1;
+
+    const nose = pose[NOSE];
+    const earMid = pose[L_EAR] && pose[R_EAR] ? midpoint(pose[L_EAR], pose[R_EAR]) : null;
+    if (nose && earMid && isVisible(nose) && isVisible(earMid) && Math.abs(nose.x - earMid.x) > 1e-3) {
+        return nose.x > earMid.x ? 1 : -1;
+    }
+    return 1;
+};
+
+type SegmentReference = 'vertical' | 'horizontal';
+
+/**
+ * Signed orientation of base→tip in degrees. From vertical: 0 when the tip is straight above the
+ * base, positive when it leans toward the facing direction. From horizontal: 0 when the tip is
+ * level with the base, positive above it and negative below, on whichever side it points. Using
+ * the nearer horizontal keeps the value within ±90°, so a segment swinging through level behind
+ * the base does not jump between +180° and -180°.
+ */
+const segmentOrientation = (base: Point2D, tip: Point2D, reference: SegmentReference, facing: 1 | -1) => {
+    const forward = (tip.x - base.x) * facing;
+    const up = base.y - tip.y; // screen Y is flipped
+    const radians = reference === 'vertical' ? Math.atan2(forward, up) : Math.atan2(up, Math.abs(forward));
+    return radians * (180 / Math.PI);
+};
+
+const toSegmentAngle = (
+    id: PoseAngleMetricId,
+    label: string,
+    jointIndex: number,
+    vertex: Point2D,
+    reference: Point2D,
+    tip: Point2D,
+    degrees: number
+): JointAngle => {
+    const { startAngle, sweepAngle } = angleBetween(reference, vertex, tip);
+    return { id, jointIndex, label, degrees, vertex, pointA: reference, pointB: tip, startAngle, sweepAngle };
+};
+
+/**
+ * Absolute segment orientations: shank to vertical, thigh to horizontal, trunk to vertical, and
+ * trunk–shin parallelism (trunk minus shank inclination, 0 when parallel). Signs follow the
+ * direction the athlete faces, so forward lean reads positive whichever way they face the camera.
+ */
+export const computeSegmentAngles = (pose: Point2D[]): JointAngle[] => {
+    if (pose.length < 29) return [];
+
+    const facing = getFacingSign(pose);
+    const results: JointAngle[] = [];
+    const shoulderMid = midpoint(pose[L_SHOULDER], pose[R_SHOULDER]);
+    const hipMid = midpoint(pose[L_HIP], pose[R_HIP]);
+    const hasTrunk = isVisible(shoulderMid) && isVisible(hipMid);
+    const trunkLength = Math.hypot(shoulderMid.x - hipMid.x, shoulderMid.y - hipMid.y);
+    const trunkDeg = hasTrunk ? segmentOrientation(hipMid, shoulderMid, 'vertical', facing) : null;
+
+    if (trunkDeg !== null) {
+        const reference = { x: hipMid.x, y: hipMid.y - trunkLength, visibility: hipMid.visibility };
+        results.push(toSegmentAngle('trunk-vertical', 'Trunk/Vert', L_HIP, hipMid, reference, shoulderMid, trunkDeg));
+    }
+
+    const sides = [
+        { prefix: 'left', short: 'L', hip: L_HIP, knee: L_KNEE, ankle: L_ANKLE },
+        { prefix: 'right', short: 'R', hip: R_HIP, knee: R_KNEE, ankle: R_ANKLE },
+    ] as const;
+
+    for (const side of sides) {
+        const hip = pose[side.hip];
+        const knee = pose[side.knee];
+        const ankle = pose[side.ankle];
+
+        if (isVisible(ankle) && isVisible(knee)) {
+            const shankLength = Math.hypot(knee.x - ankle.x, knee.y - ankle.y);
+            const shankDeg = segmentOrientation(ankle, knee, 'vertical', facing);
+            const vertical = { x: ankle.x, y: ankle.y - shankLength, visibility: ankle.visibility };
+            results.push(toSegmentAngle(`${side.prefix}-shank-vertical`, `${side.short} Shank/Vert`, side.ankle, ankle, vertical, knee, shankDeg));
+
+            if (trunkDeg !== null && trunkLength > 1e-6) {
+                // The trunk direction is drawn from the ankle so the arc spans trunk and shin.
+                const scale = shankLength / trunkLength;
+                const trunkRay = {
+                    x: ankle.x + (shoulderMid.x - hipMid.x) * scale,
+                    y: ankle.y + (shoulderMid.y - hipMid.y) * scale,
+                    visibility: Math.min(ankle.visibility, shoulderMid.visibility, hipMid.visibility),
+                };
+                results.push(toSegmentAngle(`${side.prefix}-trunk-shin`, `${side.short} Trunk–Shin`, side.ankle, ankle, trunkRay, knee, trunkDeg - shankDeg));
+            }
+        }
+
+        if (isVisible(hip) && isVisible(knee)) {
+            const thighLength = Math.hypot(knee.x - hip.x, knee.y - hip.y);
+            // The reference is drawn on the knee's side to match the angle's nearer horizontal.
+            const kneeSide = Math.sign(knee.x - hip.x) || facing;
+            const horizontal = { x: hip.x + thighLength * kneeSide, y: hip.y, visibility: hip.visibility };
+            results.push(toSegmentAngle(
+                `${side.prefix}-thigh-horizontal`,
+                `${side.short} Thigh/Horiz`,
+                side.hip,
+                hip,
+                horizontal,
+                knee,
+                segmentOrientation(hip, knee, 'horizontal', facing)
+            ));
+        }
+    }
+
+    return results;
+};
+
 /**
  * Compute body lean/tilt — angle of torso from vertical.
  */
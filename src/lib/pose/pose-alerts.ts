@@ -0,0 +1,301 @@
+import type { PoseAngleMetricId, Video } from '@/types';
+import { computeBodyLean, computeJointAngles, computeSegmentAngles, type Point2D } from '@/lib/pose/biomechanics';
+import type { CachedPoseAnalysis } from '@/lib/pose/pose-analysis-cache';
+import { selectPrimaryPoseIndex, toPoint2D } from '@/lib/pose/pose-analysis-export';
+import { POSE_ANGLE_METRICS, isSegmentAngleMetricId } from '@/lib/pose/pose-angle-metrics';
+import { computeLegSpreadDegrees } from '@/lib/pose/pose-skeleton';
+import { downloadBlob, toSafeFileName } from '@/lib/file-utils';
+import { createId } from '@/lib/utils';
+
+/**
+ * Threshold alerts evaluated over a clip's whole cached analysis, so every violation is known
+ * before playback reaches it. A rule fires when its metric stays past the threshold for at
+ * least the rule's minimum duration; each such run becomes one timestamped event.
+ */
+
+export type PoseAlertMetricId =
+  | PoseAngleMetricId
+  | 'torso-lean'
+  | 'leg-spread'
+  | 'left-knee-valgus'
+  | 'right-knee-valgus';
+
+export type PoseAlertComparison = 'above' | 'below';
+
+export interface PoseAlertRule {
+  id: string;
+  enabled: boolean;
+  metric: PoseAlertMetricId;
+  comparison: PoseAlertComparison;
+  thresholdDeg: number;
+  /** Runs shorter than this are ignored */
+  minDurationMs: number;
+}
+
+export interface PoseAlertEvent {
+  id: string;
+  ruleId: string;
+  /** Media time of the first violating sample */
+  startMs: number;
+  /** Media time of the first sample back within the threshold (or the last sample) */
+  endMs: number;
+  /** Media time of the value furthest past the threshold */
+  peakMs: number;
+  peakValue: number;
+}
+
+export interface TimelineAlert {
+  id: string;
+  /** Range in the same time base as the timeline it is rendered on, in seconds */
+  start: number;
+  end: number;
+  label: string;
+}
+
+export interface PoseAlertMetricDefinition {
+  id: PoseAlertMetricId;
+  label: string;
+}
+
+export const POSE_ALERT_METRICS: PoseAlertMetricDefinition[] = [
+  ...POSE_ANGLE_METRICS.map((metric) => ({ id: metric.id, label: metric.label })),
+  { id: 'torso-lean', label: 'Trunk Lean' },
+  { id: 'leg-spread', label: 'Leg Spread' },
+  // Frontal-plane only: positive when the knee caves toward the midline.
+  { id: 'left-knee-valgus', label: 'L Knee Valgus' },
+  { id: 'right-knee-valgus', label: 'R Knee Valgus' },
+];
+
+export const POSE_ALERT_MAX_DURATION_MS = 10000;
+
+export const getPoseAlertMetricLabel = (id: PoseAlertMetricId) =>
+  POSE_ALERT_METRICS.find((metric) => metric.id === id)?.label ?? id;
+
+export const formatPoseAlertRule = (rule: PoseAlertRule) => {
+  const comparison = rule.comparison === 'above' ? '>' : '<';
+  const duration = rule.minDurationMs > 0 ? ` for ≥ ${rule.minDurationMs} ms` : '';
+  return `${getPoseAlertMetricLabel(rule.metric)} ${comparison} ${rule.thresholdDeg}°${duration}`;
+};
+
+export const createPoseAlertRule = (fields?: Partial<Omit<PoseAlertRule, 'id'>>): PoseAlertRule => ({
+  id: createId(),
+  enabled: true,
+  metric: 'torso-lean',
+  comparison: 'above',
+  thresholdDeg: 30,
+  minDurationMs: 200,
+  ...fields,
+});
+
+export const createDefaultPoseAlertRules = (): PoseAlertRule[] => [
+  { id: 'default-trunk-lean', enabled: true, metric: 'torso-lean', comparison: 'above', thresholdDeg: 30, minDurationMs: 200 },
+  { id: 'default-left-valgus', enabled: false, metric: 'left-knee-valgus', comparison: 'above', thresholdDeg: 10, minDurationMs: 100 },
+  { id: 'default-right-valgus', enabled: false, metric: 'right-knee-valgus', comparison: 'above', thresholdDeg: 10, minDurationMs: 100 },
+];
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+/** Drops malformed rules and clamps the rest; a non-array value restores the defaults. */
+export const normalizePoseAlertRules = (value: unknown): PoseAlertRule[] => {
+  if (!Array.isArray(value)) return createDefaultPoseAlertRules();
+  return value.flatMap((raw): PoseAlertRule[] => {
+    if (!isRecord(raw) || typeof raw.id !== 'string') return [];
+    if (!POSE_ALERT_METRICS.some((metric) => metric.id === raw.metric)) return [];
+    if (typeof raw.thresholdDeg !== 'number' || !Number.isFinite(raw.thresholdDeg)) return [];
+    const minDurationMs = typeof raw.minDurationMs === 'number' && Number.isFinite(raw.minDurationMs)
+      ? Math.max(0, Math.min(POSE_ALERT_MAX_DURATION_MS, Math.round(raw.minDurationMs)))
+      : 0;
+    return [{
+      id: raw.id,
+      enabled: raw.enabled !== false,
+      metric: raw.metric as PoseAlertMetricId,
+      comparison: raw.comparison === 'below' ? 'below' : 'above',
+      thresholdDeg: Math.max(-180, Math.min(180, raw.thresholdDeg)),
+      minDurationMs,
+    }];
+  });
+};
+
+const VISIBILITY_THRESHOLD = 0.3;
+
+const isVisible = (point: Point2D | undefined): point is Point2D =>
+  Boolean(point && point.visibility >= VISIBILITY_THRESHOLD);
+
+// Deviation of the shank from the thigh's line, signed by which side of the hip–ankle line
+// the knee sits on relative to the other hip.
+const computeKneeValgusDegrees = (pose: Point2D[], side: 'left' | 'right') => {
+  const [hipIndex, kneeIndex, ankleIndex, otherHipIndex] = side === 'left' ? [23, 25, 27, 24] : [24, 26, 28, 23];
+  const hip = pose[hipIndex];
+  const knee = pose[kneeIndex];
+  const ankle = pose[ankleIndex];
+  const otherHip = pose[otherHipIndex];
+  if (!isVisible(hip) || !isVisible(knee) || !isVisible(ankle) || !isVisible(otherHip)) return null;
+
+  const thighX = knee.x - hip.x;
+  const thighY = knee.y - hip.y;
+  const shankX = ankle.x - knee.x;
+  const shankY = ankle.y - knee.y;
+  const thighLength = Math.hypot(thighX, thighY);
+  const shankLength = Math.hypot(shankX, shankY);
+  const lineX = ankle.x - hip.x;
+  const lineY = ankle.y - hip.y;
+  const lineLengthSq = lineX * lineX + lineY * lineY;
+  if (thighLength < 1e-5 || shankLength < 1e-5 || lineLengthSq < 1e-10) return null;
+
+  const cos = Math.max(-1, Math.min(1, (thighX * shankX + thighY * shankY) / (thighLength * shankLength)));
+  const deviationDeg = Math.acos(cos) * (180 / Math.PI);
+  const along = (thighX * lineX + thighY * lineY) / lineLengthSq;
+  const offsetX = knee.x - (hip.x + along * lineX);
+  const offsetY = knee.y - (hip.y + along * lineY);
+  const medial = offsetX * (otherHip.x - hip.x) + offsetY * (otherHip.y - hip.y);
+  return medial >= 0 ? deviationDeg : -deviationDeg;
+};
+
+const computeMetricValue = (pose: Point2D[], metric: PoseAlertMetricId, angles: Map<PoseAngleMetricId, number>) => {
+  switch (metric) {
+    case 'torso-lean': {
+      const lean = computeBodyLean(pose);
+      return lean ? Math.abs(lean.angleDeg) : null;
+    }
+    case 'leg-spread':
+      return computeLegSpreadDegrees(pose);
+    case 'left-knee-valgus':
+      return computeKneeValgusDegrees(pose, 'left');
+    case 'right-knee-valgus':
+      return computeKneeValgusDegrees(pose, 'right');
+    default:
+      return angles.get(metric) ?? null;
+  }
+};
+
+interface OpenRun {
+  startMs: number;
+  peakMs: number;
+  peakValue: number;
+}
+
+/**
+ * Scans the primary pose of every analysed frame inside the trim range. `width`/`height` are the
+ * video's pixel dimensions so angles are measured without aspect distortion. Frames without a
+ * usable value end any open run.
+ */
+export const evaluatePoseAlerts = (
+  analysis: CachedPoseAnalysis,
+  rules: PoseAlertRule[],
+  width: number,
+  height: number
+): PoseAlertEvent[] => {
+  const activeRules = rules.filter((rule) => rule.enabled);
+  if (activeRules.length === 0 || width <= 0 || height <= 0) return [];
+  const needsSegmentAngles = activeRules.some((rule) => isSegmentAngleMetricId(rule.metric));
+
+  const frames = analysis.frames.filter(
+    (frame) => frame.timestampMs >= analysis.trimStartMs && frame.timestampMs <= analysis.trimEndMs
+  );
+  const openRuns = new Map<string, OpenRun>();
+  const events: PoseAlertEvent[] = [];
+
+  const closeRun = (rule: PoseAlertRule, endMs: number) => {
+    const run = openRuns.get(rule.id);
+    if (!run) return;
+    openRuns.delete(rule.id);
+    if (endMs - run.startMs < rule.minDurationMs) return;
+    events.push({
+      id: `${rule.id}:${run.startMs}`,
+      ruleId: rule.id,
+      startMs: run.startMs,
+      endMs,
+      peakMs: run.peakMs,
+      peakValue: run.peakValue,
+    });
+  };
+
+  frames.forEach((frame) => {
+    const poseIndex = selectPrimaryPoseIndex(frame.poses);
+    const pose = poseIndex >= 0 ? frame.poses[poseIndex].map((landmark) => toPoint2D(landmark, width, height)) : null;
+    const measured = pose
+      ? [...computeJointAngles(pose), ...(needsSegmentAngles ? computeSegmentAngles(pose) : [])]
+      : [];
+    const angles = new Map(measured.map((angle) => [angle.id, angle.degrees] as const));
+
+    activeRules.forEach((rule) => {
+      const value = pose ? computeMetricValue(pose, rule.metric, angles) : null;
+      const isViolation = value !== null && (rule.comparison === 'above' ? value > rule.thresholdDeg : value < rule.thresholdDeg);
+      if (!isViolation) {
+        closeRun(rule, frame.timestampMs);
+        return;
+      }
+      const run = openRuns.get(rule.id);
+      if (!run) {
+        openRuns.set(rule.id, { startMs: frame.timestampMs, peakMs: frame.timestampMs, peakValue: value });
+        return;
+      }
+      const isFurther = rule.comparison === 'above' ? value > run.peakValue : value < run.peakValue;
+      if (isFurther) {
+        run.peakMs = frame.timestampMs;
+        run.peakValue = value;
+      }
+    });
+  });
+
+  const lastMs = frames.length > 0 ? frames[frames.length - 1].timestampMs : 0;
+  activeRules.forEach((rule) => closeRun(rule, lastMs));
+  return events.sort((a, b) => a.startMs - b.startMs);
+};
+
+/** Maps media-time events onto a timeline whose zero sits at `originSec`, clipped to its range. */
+export const toTimelineAlerts = (
+  events: PoseAlertEvent[],
+  rules: PoseAlertRule[],
+  originSec: number,
+  durationSec: number
+): TimelineAlert[] => {
+  const rulesById = new Map(rules.map((rule) => [rule.id, rule]));
+  return events
+    .map((event) => {
+      const rule = rulesById.get(event.ruleId);
+      return {
+        id: event.id,
+        start: Math.max(0, event.startMs / 1000 - originSec),
+        end: Math.min(durationSec, event.endMs / 1000 - originSec),
+        label: `${rule ? formatPoseAlertRule(rule) : 'Alert'} · peak ${event.peakValue.toFixed(1)}°`,
+      };
+    })
+    .filter((alert) => alert.end >= 0 && alert.start <= durationSec);
+};
+
+const formatSec = (ms: number) => (ms / 1000).toFixed(3);
+
+/** One row per event; clip times are relative to the analysed trim start. */
+export const buildPoseAlertCsv = (events: PoseAlertEvent[], rules: PoseAlertRule[], trimStartMs: number) => {
+  const rulesById = new Map(rules.map((rule) => [rule.id, rule]));
+  const header = ['rule', 'metric', 'start_s', 'end_s', 'clip_start_s', 'clip_end_s', 'duration_ms', 'peak_s', 'peak_deg'];
+  const rows = events.map((event) => {
+    const rule = rulesById.get(event.ruleId);
+    return [
+      `"${(rule ? formatPoseAlertRule(rule) : event.ruleId).replace(/"/g, '""')}"`,
+      rule?.metric ?? '',
+      formatSec(event.startMs),
+      formatSec(event.endMs),
+      formatSec(event.startMs - trimStartMs),
+      formatSec(event.endMs - trimStartMs),
+      String(Math.round(event.endMs - event.startMs)),
+      formatSec(event.peakMs),
+      event.peakValue.toFixed(1),
+    ].join(',');
+  });
+  return [header.join(','), ...rows].join('\n');
+};
+
+export const exportPoseAlertEvents = (
+  video: Pick<Video, 'name'>,
+  events: PoseAlertEvent[],
+  rules: PoseAlertRule[],
+  trimStartMs: number
+) => {
+  downloadBlob(
+    new Blob([buildPoseAlertCsv(events, rules, trimStartMs)], { type: 'text/csv;charset=utf-8' }),
+    `${toSafeFileName(video.name, 'clip')} - alerts.csv`
+  );
+};
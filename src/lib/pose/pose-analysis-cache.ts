@@ -1,5 +1,5 @@
 import type { NormalizedLandmark } from '@mediapipe/tasks-vision';
-import type { PoseModelVariant, PosePreprocessPresetId } from '@/types';
+import type { PoseModelVariant, PosePreprocessPresetId, Video } from '@/types';
 import {
   getPoseAnalysis,
   getPoseAnalysisIdsByVideoId,
@@ -42,6 +42,20 @@ export interface CachedPoseAnalysis {
 
 const clamp01 = (value: number) => Math.max(0, Math.min(1, value));
 
+/** Trim range a video's cache key is built from, in whole milliseconds. */
+export const getPoseCacheTrimRangeMs = (video: Pick<Video, 'trimStart' | 'trimEnd' | 'duration'>) => {
+  const trimStartSec = Number.isFinite(video.trimStart) ? Math.max(0, video.trimStart ?? 0) : 0;
+  const trimEndCandidate = Number.isFinite(video.trimEnd) ? video.trimEnd ?? trimStartSec : video.duration;
+  const trimEndSec = Math.max(
+    trimStartSec,
+    Number.isFinite(trimEndCandidate) ? trimEndCandidate : trimStartSec
+  );
+  return {
+    trimStartMs: Math.max(0, Math.floor(trimStartSec * 1000)),
+    trimEndMs: Math.max(0, Math.floor(trimEndSec * 1000)),
+  };
+};
+
 export const buildPoseAnalysisCacheId = (key: PoseAnalysisCacheKey) =>
   [
     'posecache-v3',
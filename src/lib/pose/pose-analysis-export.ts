@@ -0,0 +1,277 @@
+import type { NormalizedLandmark } from '@mediapipe/tasks-vision';
+import type { CustomPoseAngle, PoseAngleMetricId, Video } from '@/types';
+import type { SerializedPose } from '@/lib/db';
+import type { CachedPoseAnalysis } from '@/lib/pose/pose-analysis-cache';
+import {
+  computeBodyLean,
+  computeCoG,
+  computeJointAngles,
+  computeSegmentAngles,
+  type Point2D,
+} from '@/lib/pose/biomechanics';
+import { getPoseAngleMetrics, normalizeCustomPoseAngles } from '@/lib/pose/pose-angle-metrics';
+import { MEDIAPIPE_POSE_LANDMARK_NAMES } from '@/lib/pose/pose-landmark-names';
+import { computeLimbStrain, type LimbKey } from '@/lib/pose/pose-skeleton';
+import { STRAIN_LIMB_LABELS, type StrainRuleSet } from '@/lib/pose/pose-strain-rules';
+import { getVideoDimensions } from '@/lib/video-utils';
+import { downloadBlob, toSafeFileName } from '@/lib/file-utils';
+
+export const POSE_ANALYSIS_EXPORT_FORMAT = 'ultimamotion.pose-analysis';
+export const POSE_ANALYSIS_EXPORT_VERSION = 1;
+
+export type PoseAnalysisExportFileType = 'json' | 'csv';
+
+export interface PoseAnalysisExportMetrics {
+  angles: Record<PoseAngleMetricId, number | null>;
+  /** Center of gravity in normalized [0,1] image coordinates */
+  cog: { x: number; y: number } | null;
+  /** Torso lean from vertical in degrees (negative = left, positive = right) */
+  leanDeg: number | null;
+  /** Strain per limb in [0,1] under the exported rule set (0 = inside the safe range) */
+  strain: Record<LimbKey, number> | null;
+}
+
+export interface PoseAnalysisExportFrame {
+  /** Media time of the source video in milliseconds */
+  tMs: number;
+  /** Time relative to the clip's trim start in milliseconds */
+  clipTMs: number;
+  /** Index into `poses` of the pose the metrics were computed from (-1 if none) */
+  primaryPoseIndex: number;
+  /** Landmark tuples: [x, y, z, visibility], x/y normalized to [0,1] */
+  poses: SerializedPose[];
+  metrics: PoseAnalysisExportMetrics;
+}
+
+export interface PoseAnalysisExportDocument {
+  format: typeof POSE_ANALYSIS_EXPORT_FORMAT;
+  version: typeof POSE_ANALYSIS_EXPORT_VERSION;
+  exportedAt: string;
+  video: {
+    id: string;
+    name: string;
+    durationSec: number;
+    width: number;
+    height: number;
+  };
+  analysis: {
+    id: string;
+    modelVariant: string;
+    preprocessPreset: string;
+    targetFps: number;
+    effectiveSampleFps: number;
+    inputSize: number;
+    yoloMultiPerson: boolean;
+    trimStartMs: number;
+    trimEndMs: number;
+    createdAtMs: number;
+  };
+  landmarkNames: string[];
+  /** Built-in metrics, then custom angles with the landmark triplet they measure */
+  angleMetrics: Array<{ id: PoseAngleMetricId; label: string; landmarks?: [number, number, number] }>;
+  /** Safe ranges the `strain` metrics were computed with */
+  strainRules: StrainRuleSet;
+  frames: PoseAnalysisExportFrame[];
+}
+
+const MIN_VISIBILITY = 0.1;
+
+export const toPoint2D = (landmark: NormalizedLandmark, width: number, height: number): Point2D => ({
+  x: (Number.isFinite(landmark.x) ? landmark.x : 0) * width,
+  y: (Number.isFinite(landmark.y) ? landmark.y : 0) * height,
+  visibility: Number.isFinite(landmark.visibility) ? landmark.visibility : 1,
+});
+
+const encodePose = (pose: NormalizedLandmark[]): SerializedPose =>
+  pose.map((landmark) => [
+    landmark.x,
+    landmark.y,
+    Number.isFinite(landmark.z) ? landmark.z : 0,
+    Number.isFinite(landmark.visibility) ? landmark.visibility : 1,
+  ]);
+
+// Mirrors the overlay's auto-selection: most visible landmarks first, then largest extent.
+export const selectPrimaryPoseIndex = (poses: NormalizedLandmark[][]) => {
+  let bestIndex = -1;
+  let bestScore = Number.NEGATIVE_INFINITY;
+  poses.forEach((pose, index) => {
+    const visible = pose.filter((landmark) => (landmark.visibility ?? 1) >= MIN_VISIBILITY);
+    if (visible.length === 0) return;
+    const xs = visible.map((landmark) => landmark.x);
+    const ys = visible.map((landmark) => landmark.y);
+    const area = (Math.max(...xs) - Math.min(...xs)) * (Math.max(...ys) - Math.min(...ys));
+    const score = visible.length * 1000 + area;
+    if (score > bestScore) {
+      bestScore = score;
+      bestIndex = index;
+    }
+  });
+  return bestIndex;
+};
+
+const createEmptyAngleMap = (customAngles: CustomPoseAngle[]) =>
+  Object.fromEntries(
+    getPoseAngleMetrics(customAngles).map((metric) => [metric.id, null])
+  ) as Record<PoseAngleMetricId, number | null>;
+
+const computeFrameMetrics = (
+  pose: NormalizedLandmark[] | null,
+  width: number,
+  height: number,
+  strainRules: StrainRuleSet,
+  customAngles: CustomPoseAngle[]
+): PoseAnalysisExportMetrics => {
+  const angles = createEmptyAngleMap(customAngles);
+  if (!pose) {
+    return { angles, cog: null, leanDeg: null, strain: null };
+  }
+
+  // Angles are computed in pixel space so non-square frames are not distorted.
+  const projected = pose.map((landmark) => toPoint2D(landmark, width, height));
+  [...computeJointAngles(projected, customAngles), ...computeSegmentAngles(projected)].forEach((angle) => {
+    angles[angle.id] = angle.degrees;
+  });
+  const cog = computeCoG(projected);
+  const lean = computeBodyLean(projected);
+
+  return {
+    angles,
+    cog: cog ? { x: cog.x / width, y: cog.y / height } : null,
+    leanDeg: lean?.angleDeg ?? null,
+    strain: computeLimbStrain(projected, strainRules),
+  };
+};
+
+export const buildPoseAnalysisExportDocument = (
+  video: Pick<Video, 'id' | 'name' | 'duration'>,
+  analysis: CachedPoseAnalysis,
+  dimensions: { width: number; height: number },
+  strainRules: StrainRuleSet,
+  customAngles: CustomPoseAngle[] = []
+): PoseAnalysisExportDocument => {
+  const exportedCustomAngles = normalizeCustomPoseAngles(customAngles);
+  const width = dimensions.width > 0 ? dimensions.width : 1;
+  const height = dimensions.height > 0 ? dimensions.height : 1;
+
+  const frames = analysis.frames
+    .filter((frame) => frame.timestampMs >= analysis.trimStartMs && frame.timestampMs <= analysis.trimEndMs)
+    .map<PoseAnalysisExportFrame>((frame) => {
+      const primaryPoseIndex = selectPrimaryPoseIndex(frame.poses);
+      const primaryPose = primaryPoseIndex >= 0 ? frame.poses[primaryPoseIndex] : null;
+      return {
+        tMs: frame.timestampMs,
+        clipTMs: frame.timestampMs - analysis.trimStartMs,
+        primaryPoseIndex,
+        poses: frame.poses.map((pose) => encodePose(pose)),
+        metrics: computeFrameMetrics(primaryPose, width, height, strainRules, exportedCustomAngles),
+      };
+    });
+
+  return {
+    format: POSE_ANALYSIS_EXPORT_FORMAT,
+    version: POSE_ANALYSIS_EXPORT_VERSION,
+    exportedAt: new Date().toISOString(),
+    video: {
+      id: video.id,
+      name: video.name,
+      durationSec: video.duration,
+      width: dimensions.width,
+      height: dimensions.height,
+    },
+    analysis: {
+      id: analysis.id,
+      modelVariant: analysis.modelVariant,
+      preprocessPreset: analysis.preprocessPreset,
+      targetFps: analysis.targetFps,
+      effectiveSampleFps: analysis.effectiveSampleFps,
+      inputSize: analysis.inputSize,
+      yoloMultiPerson: analysis.yoloMultiPerson,
+      trimStartMs: analysis.trimStartMs,
+      trimEndMs: analysis.trimEndMs,
+      createdAtMs: analysis.createdAtMs,
+    },
+    landmarkNames: [...MEDIAPIPE_POSE_LANDMARK_NAMES],
+    angleMetrics: [
+      ...getPoseAngleMetrics().map((metric) => ({ id: metric.id, label: metric.label })),
+      ...exportedCustomAngles.map((angle) => ({ id: angle.id, label: angle.label, landmarks: angle.landmarks })),
+    ],
+    strainRules,
+    frames,
+  };
+};
+
+const formatCsvNumber = (value: number | null | undefined, digits = 6) =>
+  value === null || value === undefined || !Number.isFinite(value) ? '' : Number(value.toFixed(digits)).toString();
+
+/**
+ * Wide CSV: one row per timestamp, one column per landmark coordinate of the primary pose
+ * followed by the derived metrics.
+ */
+export const buildPoseAnalysisCsv = (exportDocument: PoseAnalysisExportDocument) => {
+  const landmarkColumns = exportDocument.landmarkNames.flatMap((name) => [
+    `${name}_x`,
+    `${name}_y`,
+    `${name}_z`,
+    `${name}_visibility`,
+  ]);
+  const angleColumns = exportDocument.angleMetrics.map((metric) => `${metric.id}_deg`);
+  const strainLimbs = Object.keys(STRAIN_LIMB_LABELS) as LimbKey[];
+  const header = [
+    'time_ms',
+    'clip_time_ms',
+    'pose_count',
+    ...landmarkColumns,
+    ...angleColumns,
+    'cog_x',
+    'cog_y',
+    'lean_deg',
+    ...strainLimbs.map((limb) => `strain_${limb}`),
+  ];
+
+  const rows = exportDocument.frames.map((frame) => {
+    const primaryPose = frame.primaryPoseIndex >= 0 ? frame.poses[frame.primaryPoseIndex] : null;
+    const landmarkValues = exportDocument.landmarkNames.flatMap((_, index) => {
+      const tuple = primaryPose?.[index];
+      if (!tuple) return ['', '', '', ''];
+      return tuple.map((value) => formatCsvNumber(value));
+    });
+    const angleValues = exportDocument.angleMetrics.map((metric) =>
+      formatCsvNumber(frame.metrics.angles[metric.id], 3)
+    );
+    return [
+      formatCsvNumber(frame.tMs, 3),
+      formatCsvNumber(frame.clipTMs, 3),
+      String(frame.poses.length),
+      ...landmarkValues,
+      ...angleValues,
+      formatCsvNumber(frame.metrics.cog?.x),
+      formatCsvNumber(frame.metrics.cog?.y),
+      formatCsvNumber(frame.metrics.leanDeg, 3),
+      ...strainLimbs.map((limb) => formatCsvNumber(frame.metrics.strain?.[limb], 3)),
+    ].join(',');
+  });
+
+  return [header.join(','), ...rows].join('\n');
+};
+
+export const exportPoseAnalysis = async (
+  video: Video,
+  analysis: CachedPoseAnalysis,
+  fileType: PoseAnalysisExportFileType,
+  strainRules: StrainRuleSet,
+  customAngles: CustomPoseAngle[] = []
+) => {
+  const dimensions = await getVideoDimensions(video.blob);
+  const exportDocument = buildPoseAnalysisExportDocument(video, analysis, dimensions, strainRules, customAngles);
+  const baseName = `${toSafeFileName(video.name, 'pose-analysis')} - pose`;
+
+  if (fileType === 'csv') {
+    downloadBlob(new Blob([buildPoseAnalysisCsv(exportDocument)], { type: 'text/csv;charset=utf-8' }), `${baseName}.csv`);
+    return;
+  }
+
+  downloadBlob(
+    new Blob([JSON.stringify(exportDocument, null, 2)], { type: 'application/json' }),
+    `${baseName}.json`
+  );
+};
@@ -0,0 +1,446 @@
+/**
+ * Imports keypoints computed outside the app (offline YOLO runs, lab capture systems) into the
+ * pose analysis cache so they play back exactly like a preprocessed clip.
+ *
+ * JSON (`format: "ultimamotion.pose-keypoints"`, `version: 1`):
+ *   {
+ *     "layout": "coco17" | "mediapipe33",        // inferred from the keypoint count when omitted
+ *     "coordinates": "normalized" | "pixels",    // inferred from the value range when omitted
+ *     "width": 1920, "height": 1080,             // pixel space; defaults to the video size
+ *     "timeUnit": "ms" | "s",                    // default "ms"
+ *     "timeBase": "media" | "clip",              // default "media"; "clip" is relative to trim start
+ *     "frames": [{ "t": 0, "poses": [[[x, y, z?, visibility?], ...], ...] }]
+ *   }
+ * A pose is a list of keypoints given as tuples or `{ x, y, z?, visibility? | score? }` objects,
+ * or a flat COCO-style `[x1, y1, v1, x2, y2, v2, ...]` array. Documents written by the pose
+ * analysis export are accepted unchanged.
+ *
+ * CSV: one row per pose with a `time_ms` (or `time_s` / `clip_time_ms`) column, an optional
+ * `pose` index column and `{landmark}_x`, `{landmark}_y`, `{landmark}_z`, `{landmark}_visibility`
+ * (or `_score`) columns named after MediaPipe/COCO landmarks. The exported wide CSV round-trips.
+ */
+import type { NormalizedLandmark } from '@mediapipe/tasks-vision';
+import type { Video } from '@/types';
+import type { CachedPoseFrame, PoseAnalysisCacheKey } from '@/lib/pose/pose-analysis-cache';
+import { POSE_ANALYSIS_EXPORT_FORMAT } from '@/lib/pose/pose-analysis-export';
+import {
+  COCO_17_KEYPOINT_COUNT,
+  COCO_17_KEYPOINT_NAMES,
+  COCO_17_TO_MEDIAPIPE_INDEX,
+  MEDIAPIPE_POSE_LANDMARK_COUNT,
+  getMediaPipeLandmarkIndex,
+} from '@/lib/pose/pose-landmark-names';
+import { getVideoDimensions } from '@/lib/video-utils';
+
+export const POSE_KEYPOINTS_IMPORT_FORMAT = 'ultimamotion.pose-keypoints';
+export const POSE_KEYPOINTS_IMPORT_VERSION = 1;
+
+export type PoseKeypointLayout = 'coco17' | 'mediapipe33';
+type PoseCoordinateSpace = 'normalized' | 'pixels';
+type PoseTimeBase = 'media' | 'clip';
+
+export interface PoseAnalysisImportResult {
+  frames: CachedPoseFrame[];
+  layout: PoseKeypointLayout;
+  sourceFileType: 'json' | 'csv';
+  /** Frames discarded because they fall outside the clip's trim range */
+  droppedFrameCount: number;
+  effectiveSampleFps: number | null;
+}
+
+interface RawPoseImport {
+  layout: PoseKeypointLayout;
+  coordinates: PoseCoordinateSpace | null;
+  width: number | null;
+  height: number | null;
+  timeBase: PoseTimeBase;
+  /** Poses are already expanded to the MediaPipe topology; x/y are still in source units */
+  frames: CachedPoseFrame[];
+}
+
+const MAX_NORMALIZED_COORDINATE = 1.5;
+const LAYOUT_LABELS: Record<PoseKeypointLayout, string> = {
+  coco17: 'COCO-17',
+  mediapipe33: 'MediaPipe-33',
+};
+
+const clamp01 = (value: number) => Math.max(0, Math.min(1, value));
+
+const toFiniteNumber = (value: unknown): number | null => {
+  if (typeof value === 'number') return Number.isFinite(value) ? value : null;
+  if (typeof value === 'string' && value.trim().length > 0) {
+    const parsed = Number(value);
+    return Number.isFinite(parsed) ? parsed : null;
+  }
+  return null;
+};
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const createMissingLandmark = (): NormalizedLandmark => ({ x: 0, y: 0, z: 0, visibility: 0 });
+
+const createEmptyMediaPipePose = () =>
+  Array.from({ length: MEDIAPIPE_POSE_LANDMARK_COUNT }, () => createMissingLandmark());
+
+const getLayoutKeypointCount = (layout: PoseKeypointLayout) =>
+  layout === 'coco17' ? COCO_17_KEYPOINT_COUNT : MEDIAPIPE_POSE_LANDMARK_COUNT;
+
+const parseKeypoint = (value: unknown): NormalizedLandmark | null => {
+  if (value === null || value === undefined) return null;
+  if (Array.isArray(value)) {
+    const x = toFiniteNumber(value[0]);
+    const y = toFiniteNumber(value[1]);
+    if (x === null || y === null) return null;
+    return {
+      x,
+      y,
+      z: toFiniteNumber(value[2]) ?? 0,
+      visibility: clamp01(toFiniteNumber(value[3]) ?? 1),
+    };
+  }
+  if (isRecord(value)) {
+    const x = toFiniteNumber(value.x);
+    const y = toFiniteNumber(value.y);
+    if (x === null || y === null) return null;
+    const visibility = toFiniteNumber(value.visibility ?? value.score ?? value.confidence);
+    return {
+      x,
+      y,
+      z: toFiniteNumber(value.z) ?? 0,
+      visibility: clamp01(visibility ?? 1),
+    };
+  }
+  throw new Error('Keypoints must be [x, y, z?, visibility?] tuples or { x, y } objects.');
+};
+
+const inferLayoutFromPose = (pose: unknown): PoseKeypointLayout | null => {
+  if (!Array.isArray(pose)) return null;
+  if (pose.length === COCO_17_KEYPOINT_COUNT || pose.length === COCO_17_KEYPOINT_COUNT * 3) return 'coco17';
+  if (pose.length === MEDIAPIPE_POSE_LANDMARK_COUNT || pose.length === MEDIAPIPE_POSE_LANDMARK_COUNT * 3) {
+    return 'mediapipe33';
+  }
+  return null;
+};
+
+const parsePose = (
+  value: unknown,
+  layout: PoseKeypointLayout,
+  location: string
+): NormalizedLandmark[] => {
+  const count = getLayoutKeypointCount(layout);
+  if (!Array.isArray(value)) {
+    throw new Error(`${location}: expected an array of keypoints.`);
+  }
+
+  let keypoints: (NormalizedLandmark | null)[];
+  if (value.length === count * 3 && value.every((item) => typeof item === 'number' || item === null)) {
+    // Flat COCO-style [x, y, v] triplets.
+    keypoints = Array.from({ length: count }, (_, index) =>
+      parseKeypoint([value[index * 3], value[index * 3 + 1], 0, value[index * 3 + 2]])
+    );
+  } else if (value.length === count) {
+    keypoints = value.map((item) => parseKeypoint(item));
+  } else {
+    throw new Error(
+      `${location}: expected ${count} ${LAYOUT_LABELS[layout]} keypoints, got ${value.length}.`
+    );
+  }
+
+  if (layout === 'mediapipe33') {
+    return keypoints.map((keypoint) => keypoint ?? createMissingLandmark());
+  }
+
+  const pose = createEmptyMediaPipePose();
+  keypoints.forEach((keypoint, index) => {
+    if (keypoint) {
+      pose[COCO_17_TO_MEDIAPIPE_INDEX[index]] = keypoint;
+    }
+  });
+  return pose;
+};
+
+const parseJsonPoseImport = (text: string): RawPoseImport => {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(text);
+  } catch {
+    throw new Error('File is not valid JSON.');
+  }
+  if (!isRecord(parsed) || !Array.isArray(parsed.frames)) {
+    throw new Error('JSON must be an object with a "frames" array.');
+  }
+
+  const isAnalysisExport = parsed.format === POSE_ANALYSIS_EXPORT_FORMAT;
+  if (!isAnalysisExport) {
+    if (parsed.format !== undefined && parsed.format !== POSE_KEYPOINTS_IMPORT_FORMAT) {
+      throw new Error(`Unsupported format "${String(parsed.format)}".`);
+    }
+    if (parsed.version !== undefined && parsed.version !== POSE_KEYPOINTS_IMPORT_VERSION) {
+      throw new Error(`Unsupported version ${String(parsed.version)}.`);
+    }
+  }
+
+  const rawFrames = parsed.frames as unknown[];
+  let layout: PoseKeypointLayout | null = null;
+  if (isAnalysisExport) {
+    layout = 'mediapipe33';
+  } else if (parsed.layout !== undefined) {
+    if (parsed.layout !== 'coco17' && parsed.layout !== 'mediapipe33') {
+      throw new Error(`Unknown layout "${String(parsed.layout)}". Use "coco17" or "mediapipe33".`);
+    }
+    layout = parsed.layout;
+  } else {
+    const firstPose = rawFrames
+      .flatMap((frame) => (isRecord(frame) && Array.isArray(frame.poses) ? frame.poses : []))
+      .find((pose) => Array.isArray(pose));
+    layout = inferLayoutFromPose(firstPose);
+    if (!layout) {
+      throw new Error('Could not infer the keypoint layout. Set "layout" to "coco17" or "mediapipe33".');
+    }
+  }
+
+  const coordinates = isAnalysisExport ? 'normalized' : parsed.coordinates;
+  if (coordinates !== undefined && coordinates !== 'normalized' && coordinates !== 'pixels') {
+    throw new Error(`Unknown coordinates "${String(coordinates)}". Use "normalized" or "pixels".`);
+  }
+  const timeUnit = parsed.timeUnit ?? 'ms';
+  if (timeUnit !== 'ms' && timeUnit !== 's') {
+    throw new Error(`Unknown timeUnit "${String(timeUnit)}". Use "ms" or "s".`);
+  }
+  const timeBase = parsed.timeBase ?? 'media';
+  if (timeBase !== 'media' && timeBase !== 'clip') {
+    throw new Error(`Unknown timeBase "${String(timeBase)}". Use "media" or "clip".`);
+  }
+  const timeScale = timeUnit === 's' ? 1000 : 1;
+
+  const frames = rawFrames.map<CachedPoseFrame>((frame, frameIndex) => {
+    if (!isRecord(frame)) {
+      throw new Error(`Frame ${frameIndex}: expected an object.`);
+    }
+    const time = toFiniteNumber(frame.t ?? frame.tMs ?? frame.timestampMs);
+    if (time === null) {
+      throw new Error(`Frame ${frameIndex}: missing numeric "t" timestamp.`);
+    }
+    const poses = frame.poses ?? [];
+    if (!Array.isArray(poses)) {
+      throw new Error(`Frame ${frameIndex}: "poses" must be an array.`);
+    }
+    return {
+      timestampMs: time * timeScale,
+      poses: poses.map((pose, poseIndex) =>
+        parsePose(pose, layout, `Frame ${frameIndex}, pose ${poseIndex}`)
+      ),
+    };
+  });
+
+  return {
+    layout,
+    coordinates: coordinates ?? null,
+    width: toFiniteNumber(parsed.width),
+    height: toFiniteNumber(parsed.height),
+    timeBase,
+    frames,
+  };
+};
+
+const LANDMARK_COLUMN_PATTERN = /^(.+)_(x|y|z|visibility|score|confidence)$/;
+
+const splitCsvLine = (line: string) =>
+  line.split(',').map((cell) => cell.trim().replace(/^"(.*)"$/, '$1'));
+
+const parseCsvPoseImport = (text: string): RawPoseImport => {
+  const lines = text.split(/\r?\n/).filter((line) => line.trim().length > 0);
+  if (lines.length < 2) {
+    throw new Error('CSV needs a header row and at least one data row.');
+  }
+
+  const header = splitCsvLine(lines[0]).map((column) => column.toLowerCase());
+  const findColumn = (...names: string[]) => {
+    for (const name of names) {
+      const index = header.indexOf(name);
+      if (index !== -1) return index;
+    }
+    return -1;
+  };
+
+  const mediaTimeMsColumn = findColumn('time_ms', 't_ms', 'timestamp_ms');
+  const mediaTimeSecColumn = findColumn('time_s', 't_s', 'timestamp_s');
+  const clipTimeMsColumn = findColumn('clip_time_ms');
+  const poseIndexColumn = findColumn('pose', 'pose_index', 'person');
+  const poseCountColumn = findColumn('pose_count');
+
+  let timeColumn = mediaTimeMsColumn;
+  let timeScale = 1;
+  let timeBase: PoseTimeBase = 'media';
+  if (timeColumn === -1 && mediaTimeSecColumn !== -1) {
+    timeColumn = mediaTimeSecColumn;
+    timeScale = 1000;
+  } else if (timeColumn === -1 && clipTimeMsColumn !== -1) {
+    timeColumn = clipTimeMsColumn;
+    timeBase = 'clip';
+  }
+  if (timeColumn === -1) {
+    throw new Error('CSV is missing a time column (time_ms, time_s or clip_time_ms).');
+  }
+
+  type LandmarkColumns = { x?: number; y?: number; z?: number; visibility?: number };
+  const landmarkColumns = new Map<number, LandmarkColumns>();
+  const landmarkNames = new Set<string>();
+  header.forEach((column, columnIndex) => {
+    const match = LANDMARK_COLUMN_PATTERN.exec(column);
+    if (!match) return;
+    const landmarkIndex = getMediaPipeLandmarkIndex(match[1]);
+    if (landmarkIndex === -1) return;
+    const entry = landmarkColumns.get(landmarkIndex) ?? {};
+    const axis = match[2] === 'score' || match[2] === 'confidence' ? 'visibility' : match[2];
+    entry[axis as keyof LandmarkColumns] = columnIndex;
+    landmarkColumns.set(landmarkIndex, entry);
+    landmarkNames.add(match[1]);
+  });
+
+  const usableLandmarks = [...landmarkColumns.entries()].filter(
+    ([, columns]) => columns.x !== undefined && columns.y !== undefined
+  );
+  if (usableLandmarks.length === 0) {
+    throw new Error('CSV has no landmark columns. Expected headers like "left_knee_x" and "left_knee_y".');
+  }
+
+  const framesByTime = new Map<number, CachedPoseFrame>();
+  lines.slice(1).forEach((line, rowIndex) => {
+    const cells = splitCsvLine(line);
+    const time = toFiniteNumber(cells[timeColumn]);
+    if (time === null) {
+      throw new Error(`Row ${rowIndex + 2}: missing numeric time value.`);
+    }
+    const timestampMs = time * timeScale;
+    const frame = framesByTime.get(timestampMs) ?? { timestampMs, poses: [] };
+    framesByTime.set(timestampMs, frame);
+
+    if (poseCountColumn !== -1 && toFiniteNumber(cells[poseCountColumn]) === 0) return;
+
+    const pose = createEmptyMediaPipePose();
+    let hasKeypoint = false;
+    usableLandmarks.forEach(([landmarkIndex, columns]) => {
+      const keypoint = parseKeypoint([
+        cells[columns.x as number],
+        cells[columns.y as number],
+        columns.z !== undefined ? cells[columns.z] : undefined,
+        columns.visibility !== undefined ? cells[columns.visibility] : undefined,
+      ]);
+      if (!keypoint) return;
+      pose[landmarkIndex] = keypoint;
+      hasKeypoint = true;
+    });
+    if (!hasKeypoint) return;
+
+    const poseIndex = poseIndexColumn !== -1 ? toFiniteNumber(cells[poseIndexColumn]) : null;
+    if (poseIndex !== null && poseIndex >= 0) {
+      frame.poses[Math.floor(poseIndex)] = pose;
+    } else {
+      frame.poses.push(pose);
+    }
+  });
+
+  const isCoco = [...landmarkNames].every((name) =>
+    (COCO_17_KEYPOINT_NAMES as readonly string[]).includes(name)
+  );
+
+  return {
+    layout: isCoco ? 'coco17' : 'mediapipe33',
+    coordinates: null,
+    width: null,
+    height: null,
+    timeBase,
+    frames: [...framesByTime.values()].map((frame) => ({
+      timestampMs: frame.timestampMs,
+      // Sparse pose indices leave holes; compact them so pose order stays stable.
+      poses: frame.poses.filter(Boolean),
+    })),
+  };
+};
+
+const inferCoordinateSpace = (frames: CachedPoseFrame[]): PoseCoordinateSpace => {
+  for (const frame of frames) {
+    for (const pose of frame.poses) {
+      for (const landmark of pose) {
+        if ((landmark.visibility ?? 0) <= 0) continue;
+        if (Math.abs(landmark.x) > MAX_NORMALIZED_COORDINATE || Math.abs(landmark.y) > MAX_NORMALIZED_COORDINATE) {
+          return 'pixels';
+        }
+      }
+    }
+  }
+  return 'normalized';
+};
+
+const estimateSampleFps = (frames: CachedPoseFrame[]) => {
+  const deltas = frames
+    .slice(1)
+    .map((frame, index) => frame.timestampMs - frames[index].timestampMs)
+    .filter((delta) => delta > 0)
+    .sort((a, b) => a - b);
+  if (deltas.length === 0) return null;
+  const medianDeltaMs = deltas[Math.floor(deltas.length / 2)];
+  return 1000 / medianDeltaMs;
+};
+
+export const parsePoseAnalysisImport = async (
+  file: File,
+  video: Video,
+  cacheKey: Pick<PoseAnalysisCacheKey, 'trimStartMs' | 'trimEndMs'>
+): Promise<PoseAnalysisImportResult> => {
+  const text = await file.text();
+  const isCsv = /\.csv$/i.test(file.name) || file.type === 'text/csv';
+  const raw = isCsv ? parseCsvPoseImport(text) : parseJsonPoseImport(text);
+
+  const coordinates = raw.coordinates ?? inferCoordinateSpace(raw.frames);
+  let scaleX = 1;
+  let scaleY = 1;
+  if (coordinates === 'pixels') {
+    let width = raw.width ?? 0;
+    let height = raw.height ?? 0;
+    if (width <= 0 || height <= 0) {
+      ({ width, height } = await getVideoDimensions(video.blob));
+    }
+    if (width <= 0 || height <= 0) {
+      throw new Error('Pixel coordinates need a frame size. Add "width" and "height" to the file.');
+    }
+    scaleX = 1 / width;
+    scaleY = 1 / height;
+  }
+
+  const timeOffsetMs = raw.timeBase === 'clip' ? cacheKey.trimStartMs : 0;
+  const allFrames = raw.frames
+    .map<CachedPoseFrame>((frame) => ({
+      timestampMs: frame.timestampMs + timeOffsetMs,
+      poses: frame.poses.map((pose) =>
+        pose.map((landmark) => ({
+          x: clamp01(landmark.x * scaleX),
+          y: clamp01(landmark.y * scaleY),
+          z: landmark.z,
+          visibility: landmark.visibility,
+        }))
+      ),
+    }))
+    .sort((a, b) => a.timestampMs - b.timestampMs);
+
+  const frames = allFrames.filter(
+    (frame) => frame.timestampMs >= cacheKey.trimStartMs && frame.timestampMs <= cacheKey.trimEndMs
+  );
+  if (frames.length === 0) {
+    throw new Error(
+      allFrames.length === 0
+        ? 'File contains no frames.'
+        : 'No frames fall inside the clip\'s trim range. Check the time unit and time base.'
+    );
+  }
+
+  return {
+    frames,
+    layout: raw.layout,
+    sourceFileType: isCsv ? 'csv' : 'json',
+    droppedFrameCount: allFrames.length - frames.length,
+    effectiveSampleFps: estimateSampleFps(frames),
+  };
+};
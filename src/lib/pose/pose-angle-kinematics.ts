@@ -0,0 +1,184 @@
+import type { CustomPoseAngle, PoseAngleMetricId } from '@/types';
+import { computeJointAngles, computeSegmentAngles } from '@/lib/pose/biomechanics';
+import type { CachedPoseAnalysis } from '@/lib/pose/pose-analysis-cache';
+import { selectPrimaryPoseIndex, toPoint2D } from '@/lib/pose/pose-analysis-export';
+import { getPoseAngleMetrics } from '@/lib/pose/pose-angle-metrics';
+import type { DetectedRep } from '@/lib/pose/pose-rep-segmentation';
+import {
+  createOneEuroScalarState,
+  resetOneEuroScalarState,
+  updateOneEuroScalar,
+  type OneEuroFilterParams,
+} from '@/lib/pose/one-euro-filter';
+
+/**
+ * Angular velocity and acceleration of every angle metric, derived from a clip's cached frames.
+ * Each stage is smoothed with a One Euro filter before it is differentiated, and differences use
+ * the frames' own timestamps, so dropped or unevenly spaced frames do not skew the rates. A gap
+ * longer than `MAX_GAP_MS` or an unreadable angle breaks the series instead of bridging it.
+ */
+
+export type AngleRateQuantity = 'velocity' | 'acceleration';
+
+export interface AngleKinematicsSeries {
+  id: PoseAngleMetricId;
+  /** Smoothed angle per frame, in degrees */
+  angleDeg: Array<number | null>;
+  /** Degrees per second */
+  velocity: Array<number | null>;
+  /** Degrees per second squared */
+  acceleration: Array<number | null>;
+}
+
+export interface PoseAngleKinematics {
+  /** Media time of each analysed frame, in milliseconds */
+  timesMs: number[];
+  series: AngleKinematicsSeries[];
+}
+
+export interface AngleRatePeak {
+  id: PoseAngleMetricId;
+  /** Signed value with the largest magnitude within the rep, or null when none was measured */
+  peakVelocity: number | null;
+  peakVelocityMs: number | null;
+  peakAcceleration: number | null;
+  peakAccelerationMs: number | null;
+}
+
+export interface RepKinematicsSummary {
+  rep: DetectedRep;
+  peaks: AngleRatePeak[];
+}
+
+export const ANGLE_RATE_UNITS: Record<AngleRateQuantity, string> = {
+  velocity: '°/s',
+  acceleration: '°/s²',
+};
+
+const MAX_GAP_MS = 250;
+// Below this the landmark is a guess, and its jitter would dominate the derivatives.
+const MIN_VISIBILITY = 0.5;
+
+// Each derivative amplifies noise, so later stages are smoothed harder relative to their scale.
+const ANGLE_FILTER: OneEuroFilterParams = { minCutoff: 1.5, beta: 0.01, derivativeCutoff: 1.0 };
+const VELOCITY_FILTER: OneEuroFilterParams = { minCutoff: 1.0, beta: 0.002, derivativeCutoff: 1.0 };
+const ACCELERATION_FILTER: OneEuroFilterParams = { minCutoff: 0.8, beta: 0.0005, derivativeCutoff: 1.0 };
+
+/** Frame index ranges with no missing value and no gap longer than `MAX_GAP_MS`. */
+const findRuns = (timesMs: number[], values: Array<number | null>) => {
+  const runs: Array<[number, number]> = [];
+  let start = -1;
+  values.forEach((value, index) => {
+    const continues = value !== null && start >= 0 && timesMs[index] - timesMs[index - 1] <= MAX_GAP_MS;
+    if (continues) return;
+    if (start >= 0) runs.push([start, index - 1]);
+    start = value !== null ? index : -1;
+  });
+  if (start >= 0) runs.push([start, values.length - 1]);
+  return runs;
+};
+
+/** Causal One Euro pass over each run, using the real time between frames. */
+const smoothRuns = (timesMs: number[], values: Array<number | null>, params: OneEuroFilterParams) => {
+  const smoothed: Array<number | null> = values.map(() => null);
+  const state = createOneEuroScalarState();
+  findRuns(timesMs, values).forEach(([start, end]) => {
+    resetOneEuroScalarState(state);
+    for (let index = start; index <= end; index += 1) {
+      const dtMs = index > start ? timesMs[index] - timesMs[index - 1] : 0;
+      smoothed[index] = updateOneEuroScalar(state, values[index] as number, dtMs, params);
+    }
+  });
+  return smoothed;
+};
+
+/** Central differences inside each run, one-sided at its ends; per second. */
+const differentiateRuns = (timesMs: number[], values: Array<number | null>) => {
+  const rates: Array<number | null> = values.map(() => null);
+  findRuns(timesMs, values).forEach(([start, end]) => {
+    if (end === start) return;
+    for (let index = start; index <= end; index += 1) {
+      const before = Math.max(start, index - 1);
+      const after = Math.min(end, index + 1);
+      const dtSec = (timesMs[after] - timesMs[before]) / 1000;
+      if (dtSec <= 0) continue;
+      rates[index] = ((values[after] as number) - (values[before] as number)) / dtSec;
+    }
+  });
+  return rates;
+};
+
+export const computePoseAngleKinematics = (
+  analysis: CachedPoseAnalysis,
+  width: number,
+  height: number,
+  customAngles: CustomPoseAngle[] = []
+): PoseAngleKinematics => {
+  const frames = analysis.frames.filter(
+    (frame) => frame.timestampMs >= analysis.trimStartMs && frame.timestampMs <= analysis.trimEndMs
+  );
+  const timesMs = frames.map((frame) => frame.timestampMs);
+  const metrics = getPoseAngleMetrics(customAngles);
+  if (width <= 0 || height <= 0) return { timesMs: [], series: [] };
+
+  const rawById = new Map<PoseAngleMetricId, Array<number | null>>(
+    metrics.map((metric) => [metric.id, frames.map(() => null)])
+  );
+  frames.forEach((frame, frameIndex) => {
+    const poseIndex = selectPrimaryPoseIndex(frame.poses);
+    if (poseIndex < 0) return;
+    const pose = frame.poses[poseIndex].map((landmark) => toPoint2D(landmark, width, height));
+    [...computeJointAngles(pose, customAngles), ...computeSegmentAngles(pose)].forEach((angle) => {
+      const visibility = Math.min(angle.pointA.visibility, angle.vertex.visibility, angle.pointB.visibility);
+      const raw = rawById.get(angle.id);
+      if (raw && visibility >= MIN_VISIBILITY) raw[frameIndex] = angle.degrees;
+    });
+  });
+
+  const series = metrics.map((metric): AngleKinematicsSeries => {
+    const angleDeg = smoothRuns(timesMs, rawById.get(metric.id) ?? [], ANGLE_FILTER);
+    const velocity = smoothRuns(timesMs, differentiateRuns(timesMs, angleDeg), VELOCITY_FILTER);
+    const acceleration = smoothRuns(timesMs, differentiateRuns(timesMs, velocity), ACCELERATION_FILTER);
+    return { id: metric.id, angleDeg, velocity, acceleration };
+  });
+
+  return { timesMs, series };
+};
+
+const findSignedPeak = (timesMs: number[], values: Array<number | null>, startMs: number, endMs: number) => {
+  let peak: { value: number; timeMs: number } | null = null;
+  for (let index = 0; index < timesMs.length; index += 1) {
+    const timeMs = timesMs[index];
+    const value = values[index];
+    if (value === null || timeMs < startMs || timeMs > endMs) continue;
+    if (!peak || Math.abs(value) > Math.abs(peak.value)) peak = { value, timeMs };
+  }
+  return peak;
+};
+
+/** Largest angular velocity and acceleration of each metric within each rep. */
+export const summarizeRepKinematics = (
+  kinematics: PoseAngleKinematics,
+  reps: DetectedRep[],
+  metricIds: PoseAngleMetricId[]
+): RepKinematicsSummary[] => {
+  const seriesById = new Map(kinematics.series.map((series) => [series.id, series]));
+  return reps.map((rep) => ({
+    rep,
+    peaks: metricIds.flatMap((id): AngleRatePeak[] => {
+      const series = seriesById.get(id);
+      if (!series) return [];
+      const startMs = rep.startSec * 1000;
+      const endMs = rep.endSec * 1000;
+      const velocity = findSignedPeak(kinematics.timesMs, series.velocity, startMs, endMs);
+      const acceleration = findSignedPeak(kinematics.timesMs, series.acceleration, startMs, endMs);
+      return [{
+        id,
+        peakVelocity: velocity?.value ?? null,
+        peakVelocityMs: velocity?.timeMs ?? null,
+        peakAcceleration: acceleration?.value ?? null,
+        peakAccelerationMs: acceleration?.timeMs ?? null,
+      }];
+    }),
+  }));
+};
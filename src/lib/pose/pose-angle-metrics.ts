@@ -1,24 +1,136 @@
-import type { PoseAngleMetricId, PoseAngleSelectionMap } from '@/types';
+import type { CustomPoseAngle, CustomPoseAngleMetricId, PoseAngleMetricId, PoseAngleSelectionMap } from '@/types';
+import { MEDIAPIPE_POSE_LANDMARK_LABELS } from '@/lib/pose/pose-landmark-names';
+import { createId } from '@/lib/utils';
+
+export type PoseAngleMetricFamily = 'joint' | 'segment';
+
+const JOINT_RANGE_DEG: [number, number] = [0, 180];
+const SEGMENT_RANGE_DEG: [number, number] = [-90, 90];
 
 export interface PoseAngleMetricDefinition {
   id: PoseAngleMetricId;
   label: string;
   chartColor: string;
+  /** Drawn on the pose diagram until the user changes the selection */
+  defaultVisible: boolean;
+  /** Three-point joint angles, or signed segment orientations relative to the athlete's facing */
+  family: PoseAngleMetricFamily;
+  /** Value range the angle charts scale to */
+  rangeDeg: [number, number];
 }
 
 export const POSE_ANGLE_METRICS: PoseAngleMetricDefinition[] = [
-  { id: 'left-knee', label: 'L Knee', chartColor: '#22c55e' },
-  { id: 'right-knee', label: 'R Knee', chartColor: '#a855f7' },
-  { id: 'left-hip', label: 'L Hip', chartColor: '#06b6d4' },
-  { id: 'right-hip', label: 'R Hip', chartColor: '#ec4899' },
-  { id: 'left-elbow', label: 'L Elbow', chartColor: '#3b82f6' },
-  { id: 'right-elbow', label: 'R Elbow', chartColor: '#f59e0b' },
+  { id: 'left-knee', label: 'L Knee', chartColor: '#22c55e', defaultVisible: true, family: 'joint', rangeDeg: JOINT_RANGE_DEG },
+  { id: 'right-knee', label: 'R Knee', chartColor: '#a855f7', defaultVisible: true, family: 'joint', rangeDeg: JOINT_RANGE_DEG },
+  { id: 'left-hip', label: 'L Hip', chartColor: '#06b6d4', defaultVisible: true, family: 'joint', rangeDeg: JOINT_RANGE_DEG },
+  { id: 'right-hip', label: 'R Hip', chartColor: '#ec4899', defaultVisible: true, family: 'joint', rangeDeg: JOINT_RANGE_DEG },
+  { id: 'left-elbow', label: 'L Elbow', chartColor: '#3b82f6', defaultVisible: true, family: 'joint', rangeDeg: JOINT_RANGE_DEG },
+  { id: 'right-elbow', label: 'R Elbow', chartColor: '#f59e0b', defaultVisible: true, family: 'joint', rangeDeg: JOINT_RANGE_DEG },
+  { id: 'left-shoulder', label: 'L Shoulder', chartColor: '#84cc16', defaultVisible: false, family: 'joint', rangeDeg: JOINT_RANGE_DEG },
+  { id: 'right-shoulder', label: 'R Shoulder', chartColor: '#d946ef', defaultVisible: false, family: 'joint', rangeDeg: JOINT_RANGE_DEG },
+  { id: 'left-ankle', label: 'L Ankle', chartColor: '#14b8a6', defaultVisible: false, family: 'joint', rangeDeg: JOINT_RANGE_DEG },
+  { id: 'right-ankle', label: 'R Ankle', chartColor: '#f43f5e', defaultVisible: false, family: 'joint', rangeDeg: JOINT_RANGE_DEG },
+  { id: 'left-wrist', label: 'L Wrist', chartColor: '#6366f1', defaultVisible: false, family: 'joint', rangeDeg: JOINT_RANGE_DEG },
+  { id: 'right-wrist', label: 'R Wrist', chartColor: '#f97316', defaultVisible: false, family: 'joint', rangeDeg: JOINT_RANGE_DEG },
+  { id: 'trunk', label: 'Trunk', chartColor: '#eab308', defaultVisible: false, family: 'joint', rangeDeg: JOINT_RANGE_DEG },
+  { id: 'neck', label: 'Neck', chartColor: '#94a3b8', defaultVisible: false, family: 'joint', rangeDeg: JOINT_RANGE_DEG },
+  { id: 'left-shank-vertical', label: 'L Shank/Vert', chartColor: '#4ade80', defaultVisible: false, family: 'segment', rangeDeg: SEGMENT_RANGE_DEG },
+  { id: 'right-shank-vertical', label: 'R Shank/Vert', chartColor: '#c084fc', defaultVisible: false, family: 'segment', rangeDeg: SEGMENT_RANGE_DEG },
+  { id: 'left-thigh-horizontal', label: 'L Thigh/Horiz', chartColor: '#22d3ee', defaultVisible: false, family: 'segment', rangeDeg: SEGMENT_RANGE_DEG },
+  { id: 'right-thigh-horizontal', label: 'R Thigh/Horiz', chartColor: '#f472b6', defaultVisible: false, family: 'segment', rangeDeg: SEGMENT_RANGE_DEG },
+  { id: 'trunk-vertical', label: 'Trunk/Vert', chartColor: '#facc15', defaultVisible: false, family: 'segment', rangeDeg: SEGMENT_RANGE_DEG },
+  { id: 'left-trunk-shin', label: 'L Trunk–Shin', chartColor: '#86efac', defaultVisible: false, family: 'segment', rangeDeg: SEGMENT_RANGE_DEG },
+  { id: 'right-trunk-shin', label: 'R Trunk–Shin', chartColor: '#fda4af', defaultVisible: false, family: 'segment', rangeDeg: SEGMENT_RANGE_DEG },
+];
+
+// Custom angles cycle through these, in the order they were created.
+const CUSTOM_ANGLE_CHART_COLORS = ['#fb7185', '#38bdf8', '#a3e635', '#fbbf24', '#c084fc', '#2dd4bf'];
+
+export const CUSTOM_POSE_ANGLE_LIMIT = 8;
+
+const SEGMENT_METRIC_IDS = new Set<string>(
+  POSE_ANGLE_METRICS.filter((metric) => metric.family === 'segment').map((metric) => metric.id)
+);
+
+/** True for metrics produced by `computeSegmentAngles` rather than `computeJointAngles`. */
+export const isSegmentAngleMetricId = (id: string) => SEGMENT_METRIC_IDS.has(id);
+
+export const isCustomPoseAngleMetricId = (id: string): id is CustomPoseAngleMetricId => id.startsWith('custom-');
+
+/** Built-in metrics followed by the user's custom angles. */
+export const getPoseAngleMetrics = (customAngles: CustomPoseAngle[] = []): PoseAngleMetricDefinition[] => [
+  ...POSE_ANGLE_METRICS,
+  ...customAngles.map((angle, index) => ({
+    id: angle.id,
+    label: angle.label,
+    chartColor: CUSTOM_ANGLE_CHART_COLORS[index % CUSTOM_ANGLE_CHART_COLORS.length],
+    defaultVisible: true,
+    family: 'joint' as const,
+    rangeDeg: JOINT_RANGE_DEG,
+  })),
 ];
 
+export const POSE_ANGLE_METRIC_FAMILIES: Array<{ id: PoseAngleMetricFamily; label: string; description: string }> = [
+  { id: 'joint', label: 'Joint Angles', description: 'Angle at a joint between its two neighbouring landmarks' },
+  {
+    id: 'segment',
+    label: 'Segment Orientation',
+    description: 'Signed tilt of a segment from vertical or horizontal; positive leans toward the facing direction',
+  },
+];
+
+/** Shared value range for a chart plotting `metrics` together; 0–180° when none are given. */
+export const getAngleChartRange = (metrics: PoseAngleMetricDefinition[]) => {
+  if (metrics.length === 0) return { min: JOINT_RANGE_DEG[0], max: JOINT_RANGE_DEG[1] };
+  return {
+    min: Math.min(...metrics.map((metric) => metric.rangeDeg[0])),
+    max: Math.max(...metrics.map((metric) => metric.rangeDeg[1])),
+  };
+};
+
 export const createPoseAngleSelectionMap = (defaultValue: boolean): PoseAngleSelectionMap =>
   Object.fromEntries(
     POSE_ANGLE_METRICS.map((metric) => [metric.id, defaultValue])
   ) as PoseAngleSelectionMap;
 
-export const getPoseAngleMetric = (id: PoseAngleMetricId) =>
-  POSE_ANGLE_METRICS.find((metric) => metric.id === id) ?? null;
+export const createDefaultVisibleAngleSelection = (): PoseAngleSelectionMap =>
+  Object.fromEntries(
+    POSE_ANGLE_METRICS.map((metric) => [metric.id, metric.defaultVisible])
+  ) as PoseAngleSelectionMap;
+
+export const getPoseAngleMetric = (id: PoseAngleMetricId, customAngles: CustomPoseAngle[] = []) =>
+  getPoseAngleMetrics(customAngles).find((metric) => metric.id === id) ?? null;
+
+export const describeCustomPoseAngle = (angle: Pick<CustomPoseAngle, 'landmarks'>) =>
+  angle.landmarks.map((index) => MEDIAPIPE_POSE_LANDMARK_LABELS[index] ?? `#${index}`).join(' – ');
+
+export const createCustomPoseAngle = (label: string, landmarks: [number, number, number]): CustomPoseAngle => ({
+  id: `custom-${createId()}`,
+  label: label.trim() || describeCustomPoseAngle({ landmarks }),
+  landmarks,
+});
+
+const isLandmarkIndex = (value: unknown): value is number =>
+  typeof value === 'number' && Number.isInteger(value) && value >= 0 && value < MEDIAPIPE_POSE_LANDMARK_LABELS.length;
+
+/** Drops malformed or duplicate entries and anything past the limit. */
+export const normalizeCustomPoseAngles = (value: unknown): CustomPoseAngle[] => {
+  if (!Array.isArray(value)) return [];
+  const seen = new Set<string>();
+  return value
+    .flatMap((raw): CustomPoseAngle[] => {
+      if (typeof raw !== 'object' || raw === null) return [];
+      const { id, label, landmarks } = raw as Record<string, unknown>;
+      if (typeof id !== 'string' || !isCustomPoseAngleMetricId(id) || seen.has(id)) return [];
+      if (!Array.isArray(landmarks) || landmarks.length !== 3 || !landmarks.every(isLandmarkIndex)) return [];
+      if (new Set(landmarks).size !== 3) return [];
+      seen.add(id);
+      const triplet = landmarks as [number, number, number];
+      return [{
+        id,
+        label: typeof label === 'string' && label.trim() ? label.trim() : describeCustomPoseAngle({ landmarks: triplet }),
+        landmarks: triplet,
+      }];
+    })
+    .slice(0, CUSTOM_POSE_ANGLE_LIMIT);
+};
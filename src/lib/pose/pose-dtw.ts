@@ -0,0 +1,277 @@
+import type { PoseAngleMetricId } from '@/types';
+import { computeJointAngles, computeSegmentAngles } from '@/lib/pose/biomechanics';
+import {
+  findInterpolatedPosesAtTimestamp,
+  type CachedPoseAnalysis,
+} from '@/lib/pose/pose-analysis-cache';
+import { selectPrimaryPoseIndex, toPoint2D } from '@/lib/pose/pose-analysis-export';
+import { POSE_ANGLE_METRICS } from '@/lib/pose/pose-angle-metrics';
+import { fillSignalGaps } from '@/lib/pose/pose-motion-alignment';
+
+export interface AngleSeries {
+  sampleFps: number;
+  length: number;
+  /** Per-metric samples on a uniform grid from the analysis trim start; null when never detected */
+  values: Record<PoseAngleMetricId, number[] | null>;
+}
+
+export interface DtwAlignment {
+  sampleFps: number;
+  metricIds: PoseAngleMetricId[];
+  /** Monotonic warping path of [referenceIndex, targetIndex] pairs */
+  path: Array<[number, number]>;
+  /** Mean per-step absolute angle difference along the path, in degrees */
+  meanCostDeg: number;
+  referenceLength: number;
+  targetLength: number;
+}
+
+/**
+ * Maps reference clip time to target clip time so the target can play in warped time.
+ * Times are seconds relative to each clip's trim start.
+ */
+export interface PoseTimeWarp {
+  referenceIndex: number;
+  targetIndex: number;
+  referenceVideoId: string;
+  targetVideoId: string;
+  sampleFps: number;
+  /** Target clip time for each reference sample */
+  targetTimesSec: number[];
+}
+
+export interface DtwPhaseDifference {
+  label: string;
+  startSec: number;
+  endSec: number;
+  /** Target minus reference, in degrees; null when the metric is not part of the alignment */
+  metrics: Record<PoseAngleMetricId, { meanDiffDeg: number; maxAbsDiffDeg: number } | null>;
+}
+
+const MAX_SAMPLE_FPS = 30;
+const MIN_SAMPLE_FPS = 5;
+// Bounds the cost matrix to ~32 MB of Float64 cells.
+const MAX_DTW_CELLS = 4_000_000;
+const MIN_VALID_FRACTION = 0.3;
+
+/** Picks the highest sample rate (up to 30 fps) whose DTW cost matrix stays within budget. */
+export const getDtwSampleFps = (referenceDurationSec: number, targetDurationSec: number) => {
+  const area = Math.max(1e-6, referenceDurationSec * targetDurationSec);
+  const fps = Math.floor(Math.sqrt(MAX_DTW_CELLS / area));
+  return Math.max(MIN_SAMPLE_FPS, Math.min(MAX_SAMPLE_FPS, fps));
+};
+
+const createEmptySeriesValues = () =>
+  Object.fromEntries(
+    POSE_ANGLE_METRICS.map((metric) => [metric.id, null])
+  ) as Record<PoseAngleMetricId, number[] | null>;
+
+export const buildAngleSeries = (
+  analysis: CachedPoseAnalysis,
+  width: number,
+  height: number,
+  sampleFps: number
+): AngleSeries => {
+  const stepMs = 1000 / sampleFps;
+  const length = Math.max(0, Math.floor((analysis.trimEndMs - analysis.trimStartMs) / stepMs) + 1);
+  const raw = Object.fromEntries(
+    POSE_ANGLE_METRICS.map((metric) => [metric.id, new Array<number>(length).fill(Number.NaN)])
+  ) as Record<PoseAngleMetricId, number[]>;
+
+  for (let index = 0; index < length; index++) {
+    const poses = findInterpolatedPosesAtTimestamp(analysis.frames, analysis.trimStartMs + index * stepMs);
+    if (!poses || poses.length === 0) continue;
+    const pose = poses[selectPrimaryPoseIndex(poses)];
+    if (!pose) continue;
+    const projected = pose.map((landmark) => toPoint2D(landmark, width, height));
+    [...computeJointAngles(projected), ...computeSegmentAngles(projected)].forEach((angle) => {
+      raw[angle.id][index] = angle.degrees;
+    });
+  }
+
+  const values = createEmptySeriesValues();
+  POSE_ANGLE_METRICS.forEach(({ id }) => {
+    const validCount = raw[id].filter(Number.isFinite).length;
+    values[id] = length > 0 && validCount / length >= MIN_VALID_FRACTION ? fillSignalGaps(raw[id]) : null;
+  });
+
+  return { sampleFps, length, values };
+};
+
+/**
+ * Classic O(n·m) dynamic time warping over the selected joint-angle curves.
+ * The local cost is the mean absolute angle difference across metrics present in both series.
+ */
+export const computeDtwAlignment = (
+  reference: AngleSeries,
+  target: AngleSeries,
+  metricIds: PoseAngleMetricId[]
+): DtwAlignment | null => {
+  if (reference.sampleFps !== target.sampleFps) return null;
+  const usable = metricIds.filter((id) => reference.values[id] && target.values[id]);
+  const n = reference.length;
+  const m = target.length;
+  if (usable.length === 0 || n < 2 || m < 2 || n * m > MAX_DTW_CELLS) return null;
+
+  const refCurves = usable.map((id) => reference.values[id] as number[]);
+  const targetCurves = usable.map((id) => target.values[id] as number[]);
+  const localCost = (i: number, j: number) => {
+    let sum = 0;
+    for (let k = 0; k < refCurves.length; k++) {
+      sum += Math.abs(refCurves[k][i] - targetCurves[k][j]);
+    }
+    return sum / refCurves.length;
+  };
+
+  const cost = new Float64Array(n * m);
+  for (let i = 0; i < n; i++) {
+    for (let j = 0; j < m; j++) {
+      let best: number;
+      if (i === 0 && j === 0) best = 0;
+      else if (i === 0) best = cost[j - 1];
+      else if (j === 0) best = cost[(i - 1) * m];
+      else best = Math.min(cost[(i - 1) * m + j], cost[i * m + j - 1], cost[(i - 1) * m + j - 1]);
+      cost[i * m + j] = best + localCost(i, j);
+    }
+  }
+
+  const path: Array<[number, number]> = [[n - 1, m - 1]];
+  let i = n - 1;
+  let j = m - 1;
+  while (i > 0 || j > 0) {
+    if (i === 0) j--;
+    else if (j === 0) i--;
+    else {
+      const diagonal = cost[(i - 1) * m + j - 1];
+      const up = cost[(i - 1) * m + j];
+      const left = cost[i * m + j - 1];
+      if (diagonal <= up && diagonal <= left) {
+        i--;
+        j--;
+      } else if (up <= left) {
+        i--;
+      } else {
+        j--;
+      }
+    }
+    path.push([i, j]);
+  }
+  path.reverse();
+
+  return {
+    sampleFps: reference.sampleFps,
+    metricIds: usable,
+    path,
+    meanCostDeg: cost[n * m - 1] / path.length,
+    referenceLength: n,
+    targetLength: m,
+  };
+};
+
+// Average matched target indices per reference sample; DTW paths are monotonic so this is too.
+const getMatchedTargetIndices = (alignment: DtwAlignment) => {
+  const sums = new Float64Array(alignment.referenceLength);
+  const counts = new Uint32Array(alignment.referenceLength);
+  alignment.path.forEach(([i, j]) => {
+    sums[i] += j;
+    counts[i] += 1;
+  });
+  return Array.from(sums, (sum, i) => (counts[i] > 0 ? sum / counts[i] : i));
+};
+
+export const buildPoseTimeWarp = (
+  alignment: DtwAlignment,
+  slots: Pick<PoseTimeWarp, 'referenceIndex' | 'targetIndex' | 'referenceVideoId' | 'targetVideoId'>
+): PoseTimeWarp => ({
+  ...slots,
+  sampleFps: alignment.sampleFps,
+  targetTimesSec: getMatchedTargetIndices(alignment).map((index) => index / alignment.sampleFps),
+});
+
+/** Target clip time for a reference clip time; extrapolates at 1x beyond the aligned range. */
+export const mapWarpedTime = (warp: PoseTimeWarp, referenceSec: number) => {
+  const times = warp.targetTimesSec;
+  if (times.length === 0) return referenceSec;
+  const position = referenceSec * warp.sampleFps;
+  if (position <= 0) return times[0] + referenceSec;
+  const last = times.length - 1;
+  if (position >= last) return times[last] + (position - last) / warp.sampleFps;
+  const lower = Math.floor(position);
+  const t = position - lower;
+  return times[lower] + (times[lower + 1] - times[lower]) * t;
+};
+
+/** Local playback-rate ratio of the target relative to the reference around `referenceSec`. */
+export const getWarpRateAt = (warp: PoseTimeWarp, referenceSec: number) => {
+  const halfWindowSec = 0.1;
+  const before = mapWarpedTime(warp, Math.max(0, referenceSec - halfWindowSec));
+  const after = mapWarpedTime(warp, referenceSec + halfWindowSec);
+  const span = referenceSec + halfWindowSec - Math.max(0, referenceSec - halfWindowSec);
+  return span > 0 ? Math.max(0, (after - before) / span) : 1;
+};
+
+/** Target curve resampled onto the reference timeline through the warping path. */
+export const getWarpedTargetSeries = (alignment: DtwAlignment, target: AngleSeries, metricId: PoseAngleMetricId) => {
+  const curve = target.values[metricId];
+  if (!curve) return null;
+  const sums = new Float64Array(alignment.referenceLength);
+  const counts = new Uint32Array(alignment.referenceLength);
+  alignment.path.forEach(([i, j]) => {
+    sums[i] += curve[j];
+    counts[i] += 1;
+  });
+  return Array.from(sums, (sum, i) => (counts[i] > 0 ? sum / counts[i] : Number.NaN));
+};
+
+/**
+ * Splits the reference timeline at `boundariesSec` (e.g. marker times relative to trim start)
+ * and summarises the warped angle differences inside each phase. Without boundaries the clip
+ * is split into quarters.
+ */
+export const computePhaseDifferences = (
+  alignment: DtwAlignment,
+  reference: AngleSeries,
+  target: AngleSeries,
+  boundariesSec: number[] = []
+): DtwPhaseDifference[] => {
+  const durationSec = (alignment.referenceLength - 1) / alignment.sampleFps;
+  const inner = boundariesSec
+    .filter((time) => time > 0 && time < durationSec)
+    .sort((a, b) => a - b);
+  const edges = inner.length > 0
+    ? [0, ...inner, durationSec]
+    : [0, durationSec * 0.25, durationSec * 0.5, durationSec * 0.75, durationSec];
+
+  return edges.slice(0, -1).map((startSec, phaseIndex) => {
+    const endSec = edges[phaseIndex + 1];
+    const isLast = phaseIndex === edges.length - 2;
+    const steps = alignment.path.filter(([i]) => {
+      const time = i / alignment.sampleFps;
+      return time >= startSec && (isLast ? time <= endSec : time < endSec);
+    });
+
+    const metrics = Object.fromEntries(
+      POSE_ANGLE_METRICS.map((metric) => [metric.id, null])
+    ) as DtwPhaseDifference['metrics'];
+    alignment.metricIds.forEach((id) => {
+      const refCurve = reference.values[id];
+      const targetCurve = target.values[id];
+      if (!refCurve || !targetCurve || steps.length === 0) return;
+      let sum = 0;
+      let maxAbs = 0;
+      steps.forEach(([i, j]) => {
+        const diff = targetCurve[j] - refCurve[i];
+        sum += diff;
+        maxAbs = Math.max(maxAbs, Math.abs(diff));
+      });
+      metrics[id] = { meanDiffDeg: sum / steps.length, maxAbsDiffDeg: maxAbs };
+    });
+
+    return {
+      label: inner.length > 0 ? `Phase ${phaseIndex + 1}` : `${phaseIndex * 25}–${(phaseIndex + 1) * 25}%`,
+      startSec,
+      endSec,
+      metrics,
+    };
+  });
+};
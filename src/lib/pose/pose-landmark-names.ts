@@ -0,0 +1,81 @@
+// MediaPipe Pose Landmarker topology (33 keypoints). Cached analyses always use this
+// layout; YOLO/COCO detections are expanded into it by the ONNX delegate.
+export const MEDIAPIPE_POSE_LANDMARK_NAMES = [
+  'nose',
+  'left_eye_inner',
+  'left_eye',
+  'left_eye_outer',
+  'right_eye_inner',
+  'right_eye',
+  'right_eye_outer',
+  'left_ear',
+  'right_ear',
+  'mouth_left',
+  'mouth_right',
+  'left_shoulder',
+  'right_shoulder',
+  'left_elbow',
+  'right_elbow',
+  'left_wrist',
+  'right_wrist',
+  'left_pinky',
+  'right_pinky',
+  'left_index',
+  'right_index',
+  'left_thumb',
+  'right_thumb',
+  'left_hip',
+  'right_hip',
+  'left_knee',
+  'right_knee',
+  'left_ankle',
+  'right_ankle',
+  'left_heel',
+  'right_heel',
+  'left_foot_index',
+  'right_foot_index',
+] as const;
+
+export const MEDIAPIPE_POSE_LANDMARK_COUNT = MEDIAPIPE_POSE_LANDMARK_NAMES.length;
+
+// Display form of a landmark name: `left_foot_index` → `L Foot Index`.
+const formatLandmarkName = (name: string) =>
+  name
+    .replace(/^left_/, 'L_')
+    .replace(/^right_/, 'R_')
+    .split('_')
+    .map((part) => part.charAt(0).toUpperCase() + part.slice(1))
+    .join(' ');
+
+export const MEDIAPIPE_POSE_LANDMARK_LABELS = MEDIAPIPE_POSE_LANDMARK_NAMES.map(formatLandmarkName);
+
+// COCO-17 keypoint order as emitted by YOLO pose models. Every COCO name also exists in
+// the MediaPipe topology, so the mapping below is resolved by name.
+export const COCO_17_KEYPOINT_NAMES = [
+  'nose',
+  'left_eye',
+  'right_eye',
+  'left_ear',
+  'right_ear',
+  'left_shoulder',
+  'right_shoulder',
+  'left_elbow',
+  'right_elbow',
+  'left_wrist',
+  'right_wrist',
+  'left_hip',
+  'right_hip',
+  'left_knee',
+  'right_knee',
+  'left_ankle',
+  'right_ankle',
+] as const;
+
+export const COCO_17_KEYPOINT_COUNT = COCO_17_KEYPOINT_NAMES.length;
+
+export const COCO_17_TO_MEDIAPIPE_INDEX: number[] = COCO_17_KEYPOINT_NAMES.map((name) =>
+  (MEDIAPIPE_POSE_LANDMARK_NAMES as readonly string[]).indexOf(name)
+);
+
+export const getMediaPipeLandmarkIndex = (name: string) =>
+  (MEDIAPIPE_POSE_LANDMARK_NAMES as readonly string[]).indexOf(name.trim().toLowerCase());
@@ -0,0 +1,184 @@
+import { computeCoG, computeJointAngles } from '@/lib/pose/biomechanics';
+import {
+  findInterpolatedPosesAtTimestamp,
+  type CachedPoseAnalysis,
+} from '@/lib/pose/pose-analysis-cache';
+import { selectPrimaryPoseIndex, toPoint2D } from '@/lib/pose/pose-analysis-export';
+
+// 'cog-height' is CoG y in frame heights (screen-down positive); used by rep segmentation.
+export type MotionSignalKind = 'knee-angle' | 'cog-vertical-velocity' | 'cog-height';
+
+export const MOTION_SIGNAL_OPTIONS: Array<{ kind: MotionSignalKind; label: string }> = [
+  { kind: 'knee-angle', label: 'Knee angle' },
+  { kind: 'cog-vertical-velocity', label: 'CoG vertical velocity' },
+];
+
+export interface MotionSignal {
+  kind: MotionSignalKind;
+  sampleFps: number;
+  /** Samples on a uniform grid starting at the analysis trim start; NaN where no pose was found */
+  values: number[];
+}
+
+export interface MotionAlignmentEstimate {
+  /**
+   * Seconds by which the second clip lags the first: an event at clip time `t` in the first
+   * clip happens at `t + lagSec` in the second (both relative to their trim start).
+   */
+  lagSec: number;
+  /** Pearson correlation of the overlapping signals at the best lag, clamped to 0–1 */
+  confidence: number;
+  overlapSec: number;
+}
+
+const DEFAULT_SAMPLE_FPS = 30;
+const MIN_OVERLAP_FRACTION = 0.5;
+const MIN_OVERLAP_SAMPLES = 15;
+const MIN_VALID_FRACTION = 0.3;
+
+const sampleValue = (
+  analysis: CachedPoseAnalysis,
+  kind: MotionSignalKind,
+  timestampMs: number,
+  width: number,
+  height: number
+) => {
+  const poses = findInterpolatedPosesAtTimestamp(analysis.frames, timestampMs);
+  if (!poses || poses.length === 0) return Number.NaN;
+  const pose = poses[selectPrimaryPoseIndex(poses)];
+  if (!pose) return Number.NaN;
+  const projected = pose.map((landmark) => toPoint2D(landmark, width, height));
+
+  if (kind === 'knee-angle') {
+    const knees = computeJointAngles(projected)
+      .filter((angle) => angle.id === 'left-knee' || angle.id === 'right-knee')
+      .map((angle) => angle.degrees);
+    return knees.length > 0 ? knees.reduce((sum, value) => sum + value, 0) / knees.length : Number.NaN;
+  }
+
+  const cog = computeCoG(projected);
+  return cog ? cog.y / height : Number.NaN;
+};
+
+// Linear gap filling keeps short detection dropouts from breaking the correlation.
+export const fillSignalGaps = (values: number[]) => {
+  const filled = [...values];
+  let lastValid = -1;
+  for (let i = 0; i < filled.length; i++) {
+    if (!Number.isFinite(filled[i])) continue;
+    if (lastValid === -1) {
+      for (let j = 0; j < i; j++) filled[j] = filled[i];
+    } else if (i - lastValid > 1) {
+      const from = filled[lastValid];
+      const to = filled[i];
+      for (let j = lastValid + 1; j < i; j++) {
+        filled[j] = from + ((to - from) * (j - lastValid)) / (i - lastValid);
+      }
+    }
+    lastValid = i;
+  }
+  if (lastValid !== -1) {
+    for (let j = lastValid + 1; j < filled.length; j++) filled[j] = filled[lastValid];
+  }
+  return filled;
+};
+
+/**
+ * Resamples a cached analysis into a 1D motion signature covering the analysed trim range.
+ * `width`/`height` are the video's pixel dimensions so angles are not distorted by aspect ratio.
+ * Returns null when too few frames contain a usable pose.
+ */
+export const buildMotionSignal = (
+  analysis: CachedPoseAnalysis,
+  kind: MotionSignalKind,
+  width: number,
+  height: number,
+  sampleFps = DEFAULT_SAMPLE_FPS
+): MotionSignal | null => {
+  if (analysis.frames.length === 0 || width <= 0 || height <= 0) return null;
+  const stepMs = 1000 / sampleFps;
+  const sampleCount = Math.floor((analysis.trimEndMs - analysis.trimStartMs) / stepMs) + 1;
+  if (sampleCount < MIN_OVERLAP_SAMPLES) return null;
+
+  const raw = Array.from({ length: sampleCount }, (_, index) =>
+    sampleValue(analysis, kind, analysis.trimStartMs + index * stepMs, width, height)
+  );
+  const validCount = raw.filter(Number.isFinite).length;
+  if (validCount / sampleCount < MIN_VALID_FRACTION) return null;
+
+  let values = fillSignalGaps(raw);
+  if (kind === 'cog-vertical-velocity') {
+    // Central difference in frame-heights per second; screen Y grows downward so negate for "up".
+    values = values.map((_, index) => {
+      const prev = values[Math.max(0, index - 1)];
+      const next = values[Math.min(values.length - 1, index + 1)];
+      const span = Math.min(values.length - 1, index + 1) - Math.max(0, index - 1);
+      return span > 0 ? (-(next - prev) * sampleFps) / span : 0;
+    });
+  }
+
+  return { kind, sampleFps, values };
+};
+
+const pearsonAtLag = (a: number[], b: number[], lag: number) => {
+  const start = Math.max(0, -lag);
+  const end = Math.min(a.length, b.length - lag);
+  const count = end - start;
+  if (count <= 1) return { correlation: Number.NaN, count: 0 };
+
+  let sumA = 0;
+  let sumB = 0;
+  for (let i = start; i < end; i++) {
+    sumA += a[i];
+    sumB += b[i + lag];
+  }
+  const meanA = sumA / count;
+  const meanB = sumB / count;
+
+  let cov = 0;
+  let varA = 0;
+  let varB = 0;
+  for (let i = start; i < end; i++) {
+    const da = a[i] - meanA;
+    const db = b[i + lag] - meanB;
+    cov += da * db;
+    varA += da * da;
+    varB += db * db;
+  }
+  if (varA <= 0 || varB <= 0) return { correlation: Number.NaN, count };
+  return { correlation: cov / Math.sqrt(varA * varB), count };
+};
+
+/**
+ * Finds the lag that best matches two motion signatures using normalized cross-correlation.
+ * Only lags where the clips overlap by at least half of the shorter signal are considered,
+ * so a few coincidental samples at the edges cannot win.
+ */
+export const estimateMotionAlignment = (
+  reference: MotionSignal,
+  target: MotionSignal,
+  maxLagSec?: number
+): MotionAlignmentEstimate | null => {
+  if (reference.kind !== target.kind || reference.sampleFps !== target.sampleFps) return null;
+  const a = reference.values;
+  const b = target.values;
+  const fps = reference.sampleFps;
+  const minOverlap = Math.max(MIN_OVERLAP_SAMPLES, Math.floor(Math.min(a.length, b.length) * MIN_OVERLAP_FRACTION));
+  const maxLag = maxLagSec !== undefined ? Math.round(maxLagSec * fps) : Math.max(a.length, b.length);
+
+  let best: { lag: number; correlation: number; count: number } | null = null;
+  for (let lag = -Math.min(maxLag, a.length); lag <= Math.min(maxLag, b.length); lag++) {
+    const { correlation, count } = pearsonAtLag(a, b, lag);
+    if (count < minOverlap || !Number.isFinite(correlation)) continue;
+    if (!best || correlation > best.correlation) {
+      best = { lag, correlation, count };
+    }
+  }
+  if (!best) return null;
+
+  return {
+    lagSec: best.lag / fps,
+    confidence: Math.max(0, Math.min(1, best.correlation)),
+    overlapSec: best.count / fps,
+  };
+};
@@ -8,6 +8,7 @@ import {
   type PoseAnalysisCacheKey,
 } from '@/lib/pose/pose-analysis-cache';
 import { getPosePreprocessPreset } from '@/lib/pose/pose-preprocess-preset';
+import { probeFrameTiming } from '@/lib/frame-timing';
 
 interface PosePreprocessJobOptions {
   video: Video;
@@ -22,8 +23,6 @@ interface PosePreprocessJobOptions {
 const SEEK_TIMEOUT_MS = 400;
 const PROGRESS_UPDATE_INTERVAL_MS = 180;
 const SHARED_RUNTIME_IDLE_MS = 30000;
-const FPS_PROBE_MAX_SAMPLES = 8;
-const FPS_PROBE_TIMEOUT_MS = 450;
 
 const clamp01 = (value: number) => Math.max(0, Math.min(1, value));
 
@@ -175,94 +174,6 @@ const waitForDecodedFrame = (videoElement: HTMLVideoElement, signal?: AbortSigna
     requestAnimationFrame(() => finish());
   });
 
-const detectSourceFrameRate = async (
-  videoElement: HTMLVideoElement,
-  trimStartSec: number,
-  signal?: AbortSignal
-) => {
-  const videoWithCallback = videoElement as VideoWithFrameCallback;
-  if (!videoWithCallback.requestVideoFrameCallback) {
-    return null;
-  }
-
-  await seekVideo(videoElement, trimStartSec, signal);
-  await waitForDecodedFrame(videoElement, signal);
-  throwIfAborted(signal);
-
-  return new Promise<number | null>((resolve, reject) => {
-    if (signal?.aborted) {
-      reject(createAbortError());
-      return;
-    }
-
-    const deltas: number[] = [];
-    let lastMediaTime: number | null = null;
-    let settled = false;
-    let handle: number | null = null;
-    let timeoutHandle: number | null = null;
-
-    const cleanup = () => {
-      signal?.removeEventListener('abort', onAbort);
-      if (handle !== null && videoWithCallback.cancelVideoFrameCallback) {
-        videoWithCallback.cancelVideoFrameCallback(handle);
-      }
-      if (timeoutHandle !== null) {
-        window.clearTimeout(timeoutHandle);
-      }
-      videoElement.pause();
-    };
-
-    const finish = () => {
-      if (settled) return;
-      settled = true;
-      cleanup();
-      if (deltas.length === 0) {
-        resolve(null);
-        return;
-      }
-      const sorted = [...deltas].sort((a, b) => a - b);
-      const median = sorted[Math.floor(sorted.length / 2)];
-      if (!Number.isFinite(median) || median <= 0) {
-        resolve(null);
-        return;
-      }
-      resolve(Math.max(1, Math.round(1 / median)));
-    };
-
-    const failAbort = () => {
-      if (settled) return;
-      settled = true;
-      cleanup();
-      reject(createAbortError());
-    };
-
-    const onAbort = () => failAbort();
-    const onFrame: VideoFrameCallback = (_now, metadata) => {
-      if (lastMediaTime !== null) {
-        const delta = metadata.mediaTime - lastMediaTime;
-        if (Number.isFinite(delta) && delta > 0 && delta < 1) {
-          deltas.push(delta);
-        }
-      }
-      lastMediaTime = metadata.mediaTime;
-      if (deltas.length >= FPS_PROBE_MAX_SAMPLES) {
-        finish();
-        return;
-      }
-      handle = videoWithCallback.requestVideoFrameCallback!(onFrame);
-    };
-
-    signal?.addEventListener('abort', onAbort, { once: true });
-    timeoutHandle = window.setTimeout(finish, FPS_PROBE_TIMEOUT_MS);
-
-    videoElement.play().then(() => {
-      handle = videoWithCallback.requestVideoFrameCallback!(onFrame);
-    }).catch(() => {
-      finish();
-    });
-  });
-};
-
 const waitForCanPlay = (videoElement: HTMLVideoElement, signal?: AbortSignal) =>
   new Promise<void>((resolve, reject) => {
     if (signal?.aborted) {
@@ -366,20 +277,15 @@ export async function preprocessPoseVideoClip({
       // Seek-based preprocessing still works, so we ignore this.
     }
 
-    const { trimStartSec, trimStartMs, trimEndMs } = buildAnalysisRange(
+    const { trimStartSec, trimEndSec, trimStartMs, trimEndMs } = buildAnalysisRange(
       video,
       Number.isFinite(videoElement.duration) ? videoElement.duration : video.duration
     );
 
-    let detectedSourceFps: number | null = null;
-    try {
-      detectedSourceFps = await detectSourceFrameRate(videoElement, trimStartSec, signal);
-    } catch (error) {
-      if (error instanceof Error && error.name === 'AbortError') {
-        throw error;
-      }
-      detectedSourceFps = null;
-    }
+    // Clips already measured by the player skip the probe.
+    const sourceFrameTiming = video.frameTiming
+      ?? await probeFrameTiming(videoElement, { startSec: trimStartSec, endSec: trimEndSec, signal });
+    const detectedSourceFps = sourceFrameTiming?.fps ?? null;
     await seekVideo(videoElement, trimStartSec, signal);
     await waitForDecodedFrame(videoElement, signal);
     throwIfAborted(signal);
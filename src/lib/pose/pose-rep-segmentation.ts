@@ -0,0 +1,133 @@
+import type { CachedPoseAnalysis } from '@/lib/pose/pose-analysis-cache';
+import { buildMotionSignal, type MotionSignalKind } from '@/lib/pose/pose-motion-alignment';
+
+/**
+ * Rep detection for recordings of repeated movements (squats, jumps, throws). Each rep shows up
+ * as a bump of "effort" in a 1D motion signal — knee flexion or a dropping centre of gravity —
+ * and neighbouring reps are split at the quietest sample between their bumps.
+ */
+
+export type RepSignalKind = Extract<MotionSignalKind, 'knee-angle' | 'cog-height'>;
+
+export const REP_SIGNAL_OPTIONS: Array<{ kind: RepSignalKind; label: string }> = [
+  { kind: 'knee-angle', label: 'Knee angle' },
+  { kind: 'cog-height', label: 'CoG height' },
+];
+
+export interface DetectedRep {
+  /** Seconds in the source video */
+  startSec: number;
+  endSec: number;
+  /** Deepest point of the rep: most knee flexion or lowest CoG */
+  peakSec: number;
+}
+
+const SAMPLE_FPS = 30;
+const SMOOTHING_RADIUS_SEC = 0.1;
+// Hysteresis thresholds as fractions of the signal's robust range.
+const ENTER_RATIO = 0.5;
+const EXIT_RATIO = 0.3;
+const REST_RATIO = 0.1;
+const MIN_REP_SEC = 0.25;
+// Ranges below these are posture noise, not reps.
+const MIN_AMPLITUDE: Record<RepSignalKind, number> = {
+  'knee-angle': 20,
+  'cog-height': 0.03,
+};
+
+interface EffortRegion {
+  start: number;
+  end: number;
+  peak: number;
+}
+
+const smooth = (values: number[], radius: number) =>
+  values.map((_, index) => {
+    const from = Math.max(0, index - radius);
+    const to = Math.min(values.length - 1, index + radius);
+    let sum = 0;
+    for (let i = from; i <= to; i++) sum += values[i];
+    return sum / (to - from + 1);
+  });
+
+const percentile = (sorted: number[], fraction: number) =>
+  sorted[Math.min(sorted.length - 1, Math.max(0, Math.round(fraction * (sorted.length - 1))))];
+
+const findRegions = (effort: number[], enter: number, exit: number) => {
+  const regions: EffortRegion[] = [];
+  let current: EffortRegion | null = null;
+  for (let index = 0; index < effort.length; index++) {
+    const value = effort[index];
+    if (!current) {
+      if (value >= enter) current = { start: index, end: index, peak: index };
+      continue;
+    }
+    if (value > effort[current.peak]) current.peak = index;
+    if (value < exit) {
+      current.end = index;
+      regions.push(current);
+      current = null;
+    }
+  }
+  if (current) {
+    current.end = effort.length - 1;
+    regions.push(current);
+  }
+  return regions;
+};
+
+/**
+ * Proposes one range per rep from a cached analysis, in source-video seconds and in order.
+ * `width`/`height` are the video's pixel dimensions. Returns null when the analysis has too few
+ * usable poses, and an empty list when no clear repetition was found.
+ */
+export const detectReps = (
+  analysis: CachedPoseAnalysis,
+  kind: RepSignalKind,
+  width: number,
+  height: number
+): DetectedRep[] | null => {
+  const signal = buildMotionSignal(analysis, kind, width, height, SAMPLE_FPS);
+  if (!signal) return null;
+
+  // Flexing lowers the knee angle and a dropping CoG raises screen y; flip so reps are peaks.
+  const oriented = kind === 'knee-angle' ? signal.values.map((value) => -value) : signal.values;
+  const effort = smooth(oriented, Math.round(SMOOTHING_RADIUS_SEC * SAMPLE_FPS));
+  const sorted = [...effort].sort((a, b) => a - b);
+  const low = percentile(sorted, 0.05);
+  const amplitude = percentile(sorted, 0.95) - low;
+  if (amplitude < MIN_AMPLITUDE[kind]) return [];
+
+  const regions = findRegions(effort, low + amplitude * ENTER_RATIO, low + amplitude * EXIT_RATIO)
+    .filter((region) => region.end - region.start >= MIN_REP_SEC * SAMPLE_FPS);
+  if (regions.length === 0) return [];
+
+  const rest = low + amplitude * REST_RATIO;
+  const argMin = (from: number, to: number) => {
+    let best = from;
+    for (let i = from + 1; i <= to; i++) {
+      if (effort[i] < effort[best]) best = i;
+    }
+    return best;
+  };
+  // Outer edges walk out of the first and last rep until the signal settles.
+  let first = regions[0].start;
+  while (first > 0 && effort[first] > rest && effort[first - 1] <= effort[first]) first -= 1;
+  let last = regions[regions.length - 1].end;
+  while (last < effort.length - 1 && effort[last] > rest && effort[last + 1] <= effort[last]) last += 1;
+
+  const boundaries = [
+    first,
+    ...regions.slice(1).map((region, index) => argMin(regions[index].end, region.start)),
+    last,
+  ];
+  const startSec = analysis.trimStartMs / 1000;
+  const endLimitSec = analysis.trimEndMs / 1000;
+  const toSec = (index: number) => Math.min(endLimitSec, startSec + index / SAMPLE_FPS);
+
+  return regions.map((region, index) => ({
+    startSec: toSec(boundaries[index]),
+    endSec: toSec(boundaries[index + 1]),
+    peakSec: toSec(region.peak),
+  }));
+};
@@ -0,0 +1,253 @@
+import type { BuiltInPoseAngleMetricId, PoseAngleMetricId } from '@/types';
+import type { Point2D } from '@/lib/pose/biomechanics';
+import type { StrainRule, StrainRuleSet } from '@/lib/pose/pose-strain-rules';
+
+/**
+ * Skeleton topology, limb colouring and strain heuristics shared by the live pose overlay
+ * and offline renderers. Safe ranges and colours come from the user's strain rule set.
+ */
+
+type ProjectedPoint = Point2D;
+
+const clamp01 = (value: number) => Math.max(0, Math.min(1, value));
+
+export const POSE_CONNECTIONS: Array<[number, number]> = [
+  [0, 1], [1, 2], [2, 3], [3, 7],
+  [0, 4], [4, 5], [5, 6], [6, 8],
+  [9, 10],
+  [11, 12],
+  [11, 13], [13, 15], [15, 17], [15, 19], [15, 21], [17, 19],
+  [12, 14], [14, 16], [16, 18], [16, 20], [16, 22], [18, 20],
+  [11, 23], [12, 24], [23, 24],
+  [23, 25], [24, 26], [25, 27], [26, 28],
+  [27, 29], [28, 30], [29, 31], [30, 32],
+  [27, 31], [28, 32],
+];
+
+export type LimbKey = 'leftArm' | 'rightArm' | 'leftLeg' | 'rightLeg' | 'torso' | 'head';
+
+export const LIMB_BASE_COLORS: Record<LimbKey, string> = {
+  leftArm: '#3b82f6',
+  rightArm: '#f59e0b',
+  leftLeg: '#22c55e',
+  rightLeg: '#a855f7',
+  torso: '#06b6d4',
+  head: '#94a3b8',
+};
+
+export const ALERT_COLOR = '#ef4444';
+export const DEFAULT_LINE_COLOR = '#14b8a6';
+export const DEFAULT_POINT_FILL = '#f8fafc';
+export const DEFAULT_POINT_STROKE = '#0f766e';
+export const SKELETON_LINE_STROKE_WIDTH = 4;
+
+const HEAD_LANDMARKS = new Set([0, 1, 2, 3, 4, 5, 6, 7, 8, 9, 10]);
+const LEFT_ARM_LANDMARKS = new Set([11, 13, 15, 17, 19, 21]);
+const RIGHT_ARM_LANDMARKS = new Set([12, 14, 16, 18, 20, 22]);
+const LEFT_LEG_LANDMARKS = new Set([23, 25, 27, 29, 31]);
+const RIGHT_LEG_LANDMARKS = new Set([24, 26, 28, 30, 32]);
+export const ANGLE_LIMB_MAP: Record<BuiltInPoseAngleMetricId, LimbKey> = {
+  'left-knee': 'leftLeg',
+  'right-knee': 'rightLeg',
+  'left-hip': 'leftLeg',
+  'right-hip': 'rightLeg',
+  'left-elbow': 'leftArm',
+  'right-elbow': 'rightArm',
+  'left-shoulder': 'leftArm',
+  'right-shoulder': 'rightArm',
+  'left-ankle': 'leftLeg',
+  'right-ankle': 'rightLeg',
+  'left-wrist': 'leftArm',
+  'right-wrist': 'rightArm',
+  trunk: 'torso',
+  neck: 'head',
+  'left-shank-vertical': 'leftLeg',
+  'right-shank-vertical': 'rightLeg',
+  'left-thigh-horizontal': 'leftLeg',
+  'right-thigh-horizontal': 'rightLeg',
+  'trunk-vertical': 'torso',
+  'left-trunk-shin': 'leftLeg',
+  'right-trunk-shin': 'rightLeg',
+};
+
+const connectionKey = (a: number, b: number) => (a < b ? `${a}-${b}` : `${b}-${a}`);
+
+const CONNECTION_LIMB_MAP: Record<string, LimbKey> = {
+  [connectionKey(0, 1)]: 'head',
+  [connectionKey(1, 2)]: 'head',
+  [connectionKey(2, 3)]: 'head',
+  [connectionKey(3, 7)]: 'head',
+  [connectionKey(0, 4)]: 'head',
+  [connectionKey(4, 5)]: 'head',
+  [connectionKey(5, 6)]: 'head',
+  [connectionKey(6, 8)]: 'head',
+  [connectionKey(9, 10)]: 'head',
+  [connectionKey(11, 12)]: 'torso',
+  [connectionKey(11, 23)]: 'torso',
+  [connectionKey(12, 24)]: 'torso',
+  [connectionKey(23, 24)]: 'torso',
+  [connectionKey(11, 13)]: 'leftArm',
+  [connectionKey(13, 15)]: 'leftArm',
+  [connectionKey(15, 17)]: 'leftArm',
+  [connectionKey(15, 19)]: 'leftArm',
+  [connectionKey(15, 21)]: 'leftArm',
+  [connectionKey(17, 19)]: 'leftArm',
+  [connectionKey(12, 14)]: 'rightArm',
+  [connectionKey(14, 16)]: 'rightArm',
+  [connectionKey(16, 18)]: 'rightArm',
+  [connectionKey(16, 20)]: 'rightArm',
+  [connectionKey(16, 22)]: 'rightArm',
+  [connectionKey(18, 20)]: 'rightArm',
+  [connectionKey(23, 25)]: 'leftLeg',
+  [connectionKey(25, 27)]: 'leftLeg',
+  [connectionKey(27, 29)]: 'leftLeg',
+  [connectionKey(29, 31)]: 'leftLeg',
+  [connectionKey(27, 31)]: 'leftLeg',
+  [connectionKey(24, 26)]: 'rightLeg',
+  [connectionKey(26, 28)]: 'rightLeg',
+  [connectionKey(28, 30)]: 'rightLeg',
+  [connectionKey(30, 32)]: 'rightLeg',
+  [connectionKey(28, 32)]: 'rightLeg',
+};
+
+interface Rgb {
+  r: number;
+  g: number;
+  b: number;
+}
+
+const hexToRgb = (hex: string): Rgb => {
+  const clean = hex.replace('#', '').trim();
+  const full = clean.length === 3
+    ? clean.split('').map((ch) => `${ch}${ch}`).join('')
+    : clean;
+  const parsed = Number.parseInt(full, 16);
+  if (!Number.isFinite(parsed)) {
+    return { r: 255, g: 255, b: 255 };
+  }
+  return {
+    r: (parsed >> 16) & 255,
+    g: (parsed >> 8) & 255,
+    b: parsed & 255,
+  };
+};
+
+const toHex = (value: number) => Math.round(clamp01(value / 255) * 255).toString(16).padStart(2, '0');
+
+export const blendHexColor = (startHex: string, endHex: string, amount: number) => {
+  const t = clamp01(amount);
+  const start = hexToRgb(startHex);
+  const end = hexToRgb(endHex);
+  const r = start.r + (end.r - start.r) * t;
+  const g = start.g + (end.g - start.g) * t;
+  const b = start.b + (end.b - start.b) * t;
+  return `#${toHex(r)}${toHex(g)}${toHex(b)}`;
+};
+
+export const getPointLimb = (index: number): LimbKey | null => {
+  if (LEFT_ARM_LANDMARKS.has(index)) return 'leftArm';
+  if (RIGHT_ARM_LANDMARKS.has(index)) return 'rightArm';
+  if (LEFT_LEG_LANDMARKS.has(index)) return 'leftLeg';
+  if (RIGHT_LEG_LANDMARKS.has(index)) return 'rightLeg';
+  if (HEAD_LANDMARKS.has(index)) return 'head';
+  return null;
+};
+
+/** Limb an angle arc is coloured by; custom angles follow the limb of their vertex landmark. */
+export const getAngleLimb = (angle: { id: PoseAngleMetricId; jointIndex: number }): LimbKey | null =>
+  (ANGLE_LIMB_MAP as Partial<Record<PoseAngleMetricId, LimbKey>>)[angle.id] ?? getPointLimb(angle.jointIndex);
+
+export const getConnectionLimb = (fromIndex: number, toIndex: number): LimbKey | null =>
+  CONNECTION_LIMB_MAP[connectionKey(fromIndex, toIndex)] ?? null;
+
+const hasVisibility = (point: ProjectedPoint | undefined, threshold = 0.1): point is ProjectedPoint =>
+  Boolean(point && point.visibility >= threshold);
+
+const computeAngleDegrees = (
+  a: ProjectedPoint | undefined,
+  b: ProjectedPoint | undefined,
+  c: ProjectedPoint | undefined
+) => {
+  if (!hasVisibility(a) || !hasVisibility(b) || !hasVisibility(c)) return null;
+  const baX = a.x - b.x;
+  const baY = a.y - b.y;
+  const bcX = c.x - b.x;
+  const bcY = c.y - b.y;
+  const dot = baX * bcX + baY * bcY;
+  const magBA = Math.hypot(baX, baY);
+  const magBC = Math.hypot(bcX, bcY);
+  if (magBA < 1e-5 || magBC < 1e-5) return null;
+  const cosAngle = Math.max(-1, Math.min(1, dot / (magBA * magBC)));
+  return Math.acos(cosAngle) * (180 / Math.PI);
+};
+
+export const computeLegSpreadDegrees = (pose: ProjectedPoint[]) => {
+  const leftHip = pose[23];
+  const rightHip = pose[24];
+  const leftKnee = pose[25];
+  const rightKnee = pose[26];
+  if (!hasVisibility(leftHip) || !hasVisibility(rightHip) || !hasVisibility(leftKnee) || !hasVisibility(rightKnee)) {
+    return null;
+  }
+
+  const pelvis = {
+    x: (leftHip.x + rightHip.x) / 2,
+    y: (leftHip.y + rightHip.y) / 2,
+    visibility: Math.min(leftHip.visibility, rightHip.visibility),
+  };
+  return computeAngleDegrees(leftKnee, pelvis, rightKnee);
+};
+
+const computeTorsoLeanDegrees = (pose: ProjectedPoint[]) => {
+  const leftShoulder = pose[11];
+  const rightShoulder = pose[12];
+  const leftHip = pose[23];
+  const rightHip = pose[24];
+  if (!hasVisibility(leftShoulder) || !hasVisibility(rightShoulder) || !hasVisibility(leftHip) || !hasVisibility(rightHip)) {
+    return null;
+  }
+  const shoulderMidX = (leftShoulder.x + rightShoulder.x) / 2;
+  const shoulderMidY = (leftShoulder.y + rightShoulder.y) / 2;
+  const hipMidX = (leftHip.x + rightHip.x) / 2;
+  const hipMidY = (leftHip.y + rightHip.y) / 2;
+  const dx = shoulderMidX - hipMidX;
+  const dy = hipMidY - shoulderMidY;
+  return Math.abs(Math.atan2(dx, dy) * (180 / Math.PI));
+};
+
+/** 0 inside the safe band, rising linearly to 1 at the end of the ramp past either bound. */
+export const computeRuleStrain = (angleDeg: number | null, rule: StrainRule) => {
+  if (angleDeg === null) return 0;
+  if (rule.minSafeDeg !== null && angleDeg < rule.minSafeDeg) {
+    return Math.min(1, (rule.minSafeDeg - angleDeg) / Math.max(1, rule.minRampDeg));
+  }
+  if (rule.maxSafeDeg !== null && angleDeg > rule.maxSafeDeg) {
+    return Math.min(1, (angleDeg - rule.maxSafeDeg) / Math.max(1, rule.maxRampDeg));
+  }
+  return 0;
+};
+
+/** Strain per limb in [0, 1] from how far each measured angle sits outside its rule's safe band. */
+export const computeLimbStrain = (pose: ProjectedPoint[], strainRules: StrainRuleSet): Record<LimbKey, number> => {
+  const { rules } = strainRules;
+  const leftArmStrain = computeRuleStrain(computeAngleDegrees(pose[11], pose[13], pose[15]), rules['left-elbow']);
+  const rightArmStrain = computeRuleStrain(computeAngleDegrees(pose[12], pose[14], pose[16]), rules['right-elbow']);
+  const leftHipStrain = computeRuleStrain(computeAngleDegrees(pose[11], pose[23], pose[25]), rules['left-hip']);
+  const rightHipStrain = computeRuleStrain(computeAngleDegrees(pose[12], pose[24], pose[26]), rules['right-hip']);
+  const leftKneeStrain = computeRuleStrain(computeAngleDegrees(pose[23], pose[25], pose[27]), rules['left-knee']);
+  const rightKneeStrain = computeRuleStrain(computeAngleDegrees(pose[24], pose[26], pose[28]), rules['right-knee']);
+  const spreadStrain = computeRuleStrain(computeLegSpreadDegrees(pose), rules['leg-spread']);
+  const torsoLeanStrain = computeRuleStrain(computeTorsoLeanDegrees(pose), rules['torso-lean']);
+
+  return {
+    leftArm: leftArmStrain,
+    rightArm: rightArmStrain,
+    leftLeg: Math.max(leftHipStrain, leftKneeStrain, spreadStrain),
+    rightLeg: Math.max(rightHipStrain, rightKneeStrain, spreadStrain),
+    torso: Math.max((leftHipStrain + rightHipStrain) / 2, spreadStrain, torsoLeanStrain),
+    head: torsoLeanStrain * 0.6,
+  };
+};
+
+export const getLimbColor = (limb: LimbKey, strain: number, strainRules: StrainRuleSet) =>
+  blendHexColor(strainRules.limbColors[limb], strainRules.alertColor, strain);
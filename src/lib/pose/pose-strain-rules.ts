@@ -0,0 +1,132 @@
+import { ALERT_COLOR, LIMB_BASE_COLORS, type LimbKey } from '@/lib/pose/pose-skeleton';
+
+/**
+ * User-editable safe ranges behind the strain colouring. Each measured angle has an optional
+ * lower and upper safe bound; outside a bound strain ramps from 0 to 1 over the bound's ramp.
+ * The rule set is part of the persisted settings, so every settings profile carries its own.
+ */
+
+export type StrainMetricId =
+  | 'left-elbow'
+  | 'right-elbow'
+  | 'left-hip'
+  | 'right-hip'
+  | 'left-knee'
+  | 'right-knee'
+  | 'leg-spread'
+  | 'torso-lean';
+
+export interface StrainRule {
+  /** Angles below this build strain; null disables the lower bound */
+  minSafeDeg: number | null;
+  /** Degrees below `minSafeDeg` at which strain reaches full alert */
+  minRampDeg: number;
+  /** Angles above this build strain; null disables the upper bound */
+  maxSafeDeg: number | null;
+  /** Degrees above `maxSafeDeg` at which strain reaches full alert */
+  maxRampDeg: number;
+}
+
+export interface StrainRuleSet {
+  rules: Record<StrainMetricId, StrainRule>;
+  limbColors: Record<LimbKey, string>;
+  alertColor: string;
+}
+
+export interface StrainMetricDefinition {
+  id: StrainMetricId;
+  label: string;
+  description: string;
+}
+
+export const STRAIN_METRICS: StrainMetricDefinition[] = [
+  { id: 'left-knee', label: 'L Knee', description: 'Hip–knee–ankle angle' },
+  { id: 'right-knee', label: 'R Knee', description: 'Hip–knee–ankle angle' },
+  { id: 'left-hip', label: 'L Hip', description: 'Shoulder–hip–knee angle' },
+  { id: 'right-hip', label: 'R Hip', description: 'Shoulder–hip–knee angle' },
+  { id: 'left-elbow', label: 'L Elbow', description: 'Shoulder–elbow–wrist angle' },
+  { id: 'right-elbow', label: 'R Elbow', description: 'Shoulder–elbow–wrist angle' },
+  { id: 'leg-spread', label: 'Leg Spread', description: 'Angle between thighs at the pelvis' },
+  { id: 'torso-lean', label: 'Torso Lean', description: 'Trunk tilt from vertical' },
+];
+
+export const STRAIN_LIMB_LABELS: Record<LimbKey, string> = {
+  leftArm: 'Left arm',
+  rightArm: 'Right arm',
+  leftLeg: 'Left leg',
+  rightLeg: 'Right leg',
+  torso: 'Torso',
+  head: 'Head',
+};
+
+export const STRAIN_ANGLE_MAX_DEG = 180;
+
+export const createDefaultStrainRules = (): StrainRuleSet => ({
+  rules: {
+    'left-elbow': { minSafeDeg: 30, minRampDeg: 30, maxSafeDeg: 165, maxRampDeg: 15 },
+    'right-elbow': { minSafeDeg: 30, minRampDeg: 30, maxSafeDeg: 165, maxRampDeg: 15 },
+    'left-hip': { minSafeDeg: 50, minRampDeg: 50, maxSafeDeg: 165, maxRampDeg: 15 },
+    'right-hip': { minSafeDeg: 50, minRampDeg: 50, maxSafeDeg: 165, maxRampDeg: 15 },
+    'left-knee': { minSafeDeg: 30, minRampDeg: 30, maxSafeDeg: 170, maxRampDeg: 10 },
+    'right-knee': { minSafeDeg: 30, minRampDeg: 30, maxSafeDeg: 170, maxRampDeg: 10 },
+    'leg-spread': { minSafeDeg: null, minRampDeg: 30, maxSafeDeg: 75, maxRampDeg: 60 },
+    'torso-lean': { minSafeDeg: null, minRampDeg: 10, maxSafeDeg: 20, maxRampDeg: 25 },
+  },
+  limbColors: { ...LIMB_BASE_COLORS },
+  alertColor: ALERT_COLOR,
+});
+
+const HEX_COLOR_PATTERN = /^#[0-9a-f]{6}$/i;
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const clampAngle = (value: number) => Math.max(0, Math.min(STRAIN_ANGLE_MAX_DEG, value));
+
+const normalizeBound = (value: unknown, fallback: number | null) => {
+  if (value === null) return null;
+  return typeof value === 'number' && Number.isFinite(value) ? clampAngle(value) : fallback;
+};
+
+const normalizeRamp = (value: unknown, fallback: number) =>
+  typeof value === 'number' && Number.isFinite(value) ? Math.max(1, clampAngle(value)) : fallback;
+
+const normalizeColor = (value: unknown, fallback: string) =>
+  typeof value === 'string' && HEX_COLOR_PATTERN.test(value) ? value : fallback;
+
+/** Fills missing or invalid fields from the defaults; a crossed safe band is swapped back into order. */
+export const normalizeStrainRules = (value: unknown): StrainRuleSet => {
+  const defaults = createDefaultStrainRules();
+  if (!isRecord(value)) return defaults;
+
+  const rawRules = isRecord(value.rules) ? value.rules : {};
+  const rules = { ...defaults.rules };
+  STRAIN_METRICS.forEach(({ id }) => {
+    const raw = rawRules[id];
+    if (!isRecord(raw)) return;
+    const fallback = defaults.rules[id];
+    let minSafeDeg = normalizeBound(raw.minSafeDeg, fallback.minSafeDeg);
+    let maxSafeDeg = normalizeBound(raw.maxSafeDeg, fallback.maxSafeDeg);
+    if (minSafeDeg !== null && maxSafeDeg !== null && minSafeDeg > maxSafeDeg) {
+      [minSafeDeg, maxSafeDeg] = [maxSafeDeg, minSafeDeg];
+    }
+    rules[id] = {
+      minSafeDeg,
+      minRampDeg: normalizeRamp(raw.minRampDeg, fallback.minRampDeg),
+      maxSafeDeg,
+      maxRampDeg: normalizeRamp(raw.maxRampDeg, fallback.maxRampDeg),
+    };
+  });
+
+  const rawColors = isRecord(value.limbColors) ? value.limbColors : {};
+  const limbColors = { ...defaults.limbColors };
+  (Object.keys(limbColors) as LimbKey[]).forEach((limb) => {
+    limbColors[limb] = normalizeColor(rawColors[limb], defaults.limbColors[limb]);
+  });
+
+  return {
+    rules,
+    limbColors,
+    alertColor: normalizeColor(value.alertColor, defaults.alertColor),
+  };
+};
@@ -0,0 +1,296 @@
+import type { Drawing, Marker, PoseModelVariant, PosePreprocessPresetId, Video } from '@/types';
+import {
+  addVideo,
+  getDrawings,
+  getMarkersByVideoId,
+  getPoseAnalysis,
+  getPoseAnalysisIdsByVideoId,
+  putDrawings,
+  putMarker,
+  putPoseAnalysis,
+  type PoseAnalysisRecord,
+} from '@/lib/db';
+import { buildPoseAnalysisCacheId, getPoseCacheTrimRangeMs } from '@/lib/pose/pose-analysis-cache';
+import { downloadBlob, toSafeFileName } from '@/lib/file-utils';
+import { createId } from '@/lib/utils';
+
+/**
+ * Single-file project bundle for handing clips and their analysis to another install:
+ *
+ *   "UMBUNDLE" | uint32 LE manifest length | manifest JSON (UTF-8) | video payloads
+ *
+ * The manifest carries video metadata, pose analysis records, drawings and markers; each video
+ * entry points at its blob by offset into the payload section, so imports slice the file lazily
+ * instead of reading every video into memory.
+ */
+
+export const PROJECT_BUNDLE_FORMAT = 'ultimamotion.project-bundle';
+export const PROJECT_BUNDLE_VERSION = 1;
+export const PROJECT_BUNDLE_EXTENSION = '.umbundle';
+
+const BUNDLE_MAGIC = 'UMBUNDLE';
+const HEADER_BYTES = BUNDLE_MAGIC.length + 4;
+const EXCLUDED_VIDEO_KEYS = new Set(['url', 'blob']);
+
+type BundledVideo = Omit<Video, 'url' | 'blob' | 'createdAt'> & { createdAt: string };
+
+export interface ProjectBundleEntry {
+  video: BundledVideo;
+  blob: { offset: number; size: number; type: string };
+  poseAnalyses: PoseAnalysisRecord[];
+  drawings: Drawing[];
+  markers: Marker[];
+}
+
+export interface ProjectBundleManifest {
+  format: typeof PROJECT_BUNDLE_FORMAT;
+  version: typeof PROJECT_BUNDLE_VERSION;
+  exportedAt: string;
+  entries: ProjectBundleEntry[];
+}
+
+export interface ProjectBundleImportResult {
+  /** Videos written to the library, with their final ids */
+  addedVideos: Omit<Video, 'url'>[];
+  /** Clips already in the library; only data missing locally was merged into them */
+  mergedVideoIds: string[];
+  /** Bundle id -> new id for clips whose id was taken by a different local clip */
+  reassignedIds: Record<string, string>;
+  poseAnalysisCount: number;
+  /** Bundled analyses not imported because the clip already has one locally */
+  skippedPoseAnalysisCount: number;
+  /** Bundled analyses dropped because they cover a different trim range than the clip */
+  trimMismatchPoseAnalysisCount: number;
+  /** Older analyses of the clip's range, dropped in favour of the newest */
+  supersededPoseAnalysisCount: number;
+  drawingLayers: Array<{ videoId: string; drawings: Drawing[] }>;
+  markers: Marker[];
+}
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const toBundledVideo = (video: Video) =>
+  Object.fromEntries(
+    Object.entries(video).filter(([key]) => !EXCLUDED_VIDEO_KEYS.has(key))
+  ) as unknown as BundledVideo;
+
+export const buildProjectBundle = async (videos: Video[]): Promise<Blob> => {
+  const entries: ProjectBundleEntry[] = [];
+  const payloadBlobs: Blob[] = [];
+  // Sub-clips of one recording point at the same payload range, so the blob is written once.
+  const sourceOffsets = new Map<string, number>();
+  let offset = 0;
+
+  for (const video of videos) {
+    const sharedOffset = video.sourceId ? sourceOffsets.get(video.sourceId) : undefined;
+    const analysisIds = await getPoseAnalysisIdsByVideoId(video.id);
+    const poseAnalyses = (await Promise.all(analysisIds.map((id) => getPoseAnalysis(id))))
+      .filter((record): record is PoseAnalysisRecord => record !== null);
+    entries.push({
+      video: toBundledVideo(video),
+      blob: { offset: sharedOffset ?? offset, size: video.blob.size, type: video.blob.type },
+      poseAnalyses,
+      drawings: (await getDrawings(video.id)) ?? [],
+      markers: await getMarkersByVideoId(video.id),
+    });
+    if (sharedOffset !== undefined) continue;
+    if (video.sourceId) sourceOffsets.set(video.sourceId, offset);
+    payloadBlobs.push(video.blob);
+    offset += video.blob.size;
+  }
+
+  const manifest: ProjectBundleManifest = {
+    format: PROJECT_BUNDLE_FORMAT,
+    version: PROJECT_BUNDLE_VERSION,
+    exportedAt: new Date().toISOString(),
+    entries,
+  };
+  const manifestBytes = new TextEncoder().encode(JSON.stringify(manifest));
+  const header = new Uint8Array(HEADER_BYTES);
+  header.set(new TextEncoder().encode(BUNDLE_MAGIC), 0);
+  new DataView(header.buffer).setUint32(BUNDLE_MAGIC.length, manifestBytes.byteLength, true);
+
+  return new Blob([header, manifestBytes, ...payloadBlobs], {
+    type: 'application/octet-stream',
+  });
+};
+
+export const exportProjectBundle = async (videos: Video[], name: string) => {
+  const bundle = await buildProjectBundle(videos);
+  downloadBlob(bundle, `${toSafeFileName(name, 'project')}${PROJECT_BUNDLE_EXTENSION}`);
+};
+
+const parseEntry = (value: unknown, index: number, payloadSize: number): ProjectBundleEntry => {
+  const fail = () => {
+    throw new Error(`Entry ${index + 1} in the bundle is damaged.`);
+  };
+  if (!isRecord(value) || !isRecord(value.video) || !isRecord(value.blob)) return fail();
+  const { video, blob } = value;
+  if (typeof video.id !== 'string' || typeof video.name !== 'string' || typeof video.duration !== 'number') return fail();
+  if (typeof blob.offset !== 'number' || typeof blob.size !== 'number' || blob.offset + blob.size > payloadSize) return fail();
+  return {
+    video: video as unknown as BundledVideo,
+    blob: { offset: blob.offset, size: blob.size, type: typeof blob.type === 'string' ? blob.type : '' },
+    poseAnalyses: Array.isArray(value.poseAnalyses) ? value.poseAnalyses.filter(isRecord) as unknown as PoseAnalysisRecord[] : [],
+    drawings: Array.isArray(value.drawings) ? value.drawings as Drawing[] : [],
+    markers: Array.isArray(value.markers) ? value.markers.filter(isRecord) as unknown as Marker[] : [],
+  };
+};
+
+export const readProjectBundle = async (file: Blob) => {
+  if (file.size < HEADER_BYTES) throw new Error('File is too small to be a project bundle.');
+  const header = new Uint8Array(await file.slice(0, HEADER_BYTES).arrayBuffer());
+  if (new TextDecoder().decode(header.slice(0, BUNDLE_MAGIC.length)) !== BUNDLE_MAGIC) {
+    throw new Error('This is not a project bundle.');
+  }
+  const manifestLength = new DataView(header.buffer).getUint32(BUNDLE_MAGIC.length, true);
+  const payloadStart = HEADER_BYTES + manifestLength;
+  if (payloadStart > file.size) throw new Error('The bundle is truncated.');
+
+  let manifest: unknown;
+  try {
+    manifest = JSON.parse(await file.slice(HEADER_BYTES, payloadStart).text());
+  } catch {
+    throw new Error('The bundle manifest is damaged.');
+  }
+  if (!isRecord(manifest) || manifest.format !== PROJECT_BUNDLE_FORMAT || !Array.isArray(manifest.entries)) {
+    throw new Error('The bundle manifest is not recognized.');
+  }
+  if (typeof manifest.version !== 'number' || manifest.version > PROJECT_BUNDLE_VERSION) {
+    throw new Error(`Bundle version ${String(manifest.version)} is newer than this app supports.`);
+  }
+
+  const payloadSize = file.size - payloadStart;
+  const entries = manifest.entries.map((entry, index) => parseEntry(entry, index, payloadSize));
+  const getVideoBlob = (entry: ProjectBundleEntry) =>
+    file.slice(payloadStart + entry.blob.offset, payloadStart + entry.blob.offset + entry.blob.size, entry.blob.type);
+
+  return { entries, getVideoBlob };
+};
+
+// Same blob and trim means the clip was exported from (or already imported into) this library.
+const isSameClip = (local: Video, entry: ProjectBundleEntry) =>
+  local.blob.size === entry.blob.size &&
+  Math.abs(local.duration - entry.video.duration) < 0.01 &&
+  local.trimStart === entry.video.trimStart &&
+  local.trimEnd === entry.video.trimEnd;
+
+/**
+ * Writes a bundle into IndexedDB next to `library`. Clips already present are kept and only
+ * receive analysis, drawings and markers they are missing; clips whose id is taken by a
+ * different local clip are imported under a new id. Pose analysis ids are rebuilt from the
+ * final video id and trim so they resolve exactly like locally processed clips.
+ */
+export const importProjectBundle = async (file: Blob, library: Video[]): Promise<ProjectBundleImportResult> => {
+  const { entries, getVideoBlob } = await readProjectBundle(file);
+  const localById = new Map(library.map((video) => [video.id, video]));
+  const takenIds = new Set(localById.keys());
+  const result: ProjectBundleImportResult = {
+    addedVideos: [],
+    mergedVideoIds: [],
+    reassignedIds: {},
+    poseAnalysisCount: 0,
+    skippedPoseAnalysisCount: 0,
+    trimMismatchPoseAnalysisCount: 0,
+    supersededPoseAnalysisCount: 0,
+    drawingLayers: [],
+    markers: [],
+  };
+
+  for (const entry of entries) {
+    const bundleId = entry.video.id;
+    const local = localById.get(bundleId);
+    const isMerge = Boolean(local && isSameClip(local, entry) && !result.addedVideos.some((video) => video.id === bundleId));
+    let target: Omit<Video, 'url'>;
+
+    if (isMerge && local) {
+      target = local;
+      result.mergedVideoIds.push(local.id);
+    } else {
+      const videoId = takenIds.has(bundleId) ? createId() : bundleId;
+      if (videoId !== bundleId) result.reassignedIds[bundleId] = videoId;
+      target = {
+        ...entry.video,
+        id: videoId,
+        createdAt: new Date(entry.video.createdAt),
+        blob: getVideoBlob(entry),
+      };
+      await addVideo(target);
+      takenIds.add(videoId);
+      result.addedVideos.push(target);
+    }
+
+    const videoId = target.id;
+    const hasLocalAnalysis = isMerge && (await getPoseAnalysisIdsByVideoId(videoId)).length > 0;
+    const trimRange = getPoseCacheTrimRangeMs(target);
+    const matchingAnalyses = entry.poseAnalyses.filter(
+      (record) => record.trimStartMs === trimRange.trimStartMs && record.trimEndMs === trimRange.trimEndMs
+    );
+    // The cache keeps one analysis per clip, so only the newest matching record is imported.
+    const analysis = hasLocalAnalysis
+      ? null
+      : [...matchingAnalyses].sort((a, b) => b.createdAtMs - a.createdAtMs)[0] ?? null;
+    if (analysis) {
+      const id = buildPoseAnalysisCacheId({
+        videoId,
+        modelVariant: analysis.modelVariant as PoseModelVariant,
+        preprocessPreset: analysis.preprocessPreset as PosePreprocessPresetId,
+        targetFps: analysis.targetFps,
+        inputSize: analysis.inputSize,
+        yoloMultiPerson: analysis.yoloMultiPerson,
+        ...trimRange,
+      });
+      await putPoseAnalysis({ ...analysis, id, videoId });
+      result.poseAnalysisCount += 1;
+    }
+    if (hasLocalAnalysis) {
+      result.skippedPoseAnalysisCount += entry.poseAnalyses.length;
+    } else {
+      result.trimMismatchPoseAnalysisCount += entry.poseAnalyses.length - matchingAnalyses.length;
+      result.supersededPoseAnalysisCount += matchingAnalyses.length - (analysis ? 1 : 0);
+    }
+
+    const localDrawings = isMerge ? await getDrawings(videoId) : null;
+    if (entry.drawings.length > 0 && !(localDrawings && localDrawings.length > 0)) {
+      await putDrawings(videoId, entry.drawings);
+      result.drawingLayers.push({ videoId, drawings: entry.drawings });
+    }
+
+    const localMarkerIds = new Set(isMerge ? (await getMarkersByVideoId(videoId)).map((marker) => marker.id) : []);
+    for (const marker of entry.markers) {
+      if (localMarkerIds.has(marker.id)) continue;
+      const next: Marker = { ...marker, id: videoId === bundleId ? marker.id : createId(), videoId };
+      await putMarker(next);
+      result.markers.push(next);
+    }
+  }
+
+  return result;
+};
+
+export const describeProjectBundleImport = (result: ProjectBundleImportResult) => {
+  const parts = [
+    `${result.addedVideos.length} clip${result.addedVideos.length === 1 ? '' : 's'} added`,
+  ];
+  if (result.mergedVideoIds.length > 0) {
+    parts.push(`${result.mergedVideoIds.length} already in library`);
+  }
+  const reassignedCount = Object.keys(result.reassignedIds).length;
+  if (reassignedCount > 0) {
+    parts.push(`${reassignedCount} duplicate id${reassignedCount === 1 ? '' : 's'} renamed`);
+  }
+  parts.push(`${result.poseAnalysisCount} pose analys${result.poseAnalysisCount === 1 ? 'is' : 'es'}`);
+  if (result.skippedPoseAnalysisCount > 0) {
+    parts.push(`${result.skippedPoseAnalysisCount} kept local`);
+  }
+  if (result.trimMismatchPoseAnalysisCount > 0) {
+    parts.push(`${result.trimMismatchPoseAnalysisCount} for another trim dropped`);
+  }
+  if (result.supersededPoseAnalysisCount > 0) {
+    parts.push(`${result.supersededPoseAnalysisCount} older dropped`);
+  }
+  parts.push(`${result.drawingLayers.length} drawing layer${result.drawingLayers.length === 1 ? '' : 's'}`);
+  parts.push(`${result.markers.length} marker${result.markers.length === 1 ? '' : 's'}`);
+  return parts.join(' · ');
+};
@@ -0,0 +1,344 @@
+import type {
+  CustomPoseAngle,
+  DrawingTimeScope,
+  DrawingType,
+  PoseAnalyzeScope,
+  PoseAngleSelectionMap,
+  PoseModelVariant,
+  PosePreprocessPresetId,
+} from '@/types';
+import type { OverlayBlendMode, OverlayColorFilter } from '@/contexts/app-context';
+import { getSettingsRecord, putSettingsRecord } from '@/lib/db';
+import { downloadBlob, toSafeFileName } from '@/lib/file-utils';
+import {
+  POSE_ANGLE_METRICS,
+  createDefaultVisibleAngleSelection,
+  createPoseAngleSelectionMap,
+  isCustomPoseAngleMetricId,
+  normalizeCustomPoseAngles,
+} from '@/lib/pose/pose-angle-metrics';
+import { createDefaultKeymap, normalizeKeymap, type ShortcutKeymap } from '@/lib/keyboard-shortcuts';
+import { createDefaultStrainRules, normalizeStrainRules, type StrainRuleSet } from '@/lib/pose/pose-strain-rules';
+import { createDefaultPoseAlertRules, normalizePoseAlertRules, type PoseAlertRule } from '@/lib/pose/pose-alerts';
+import { createId } from '@/lib/utils';
+
+/**
+ * Persisted user preferences. The live values stay in AppProvider state; this module owns the
+ * stored shape, its version and the migration from older versions, plus named profiles that can
+ * be switched or shared as JSON.
+ */
+
+export const SETTINGS_VERSION = 1;
+export const SETTINGS_PROFILE_EXPORT_FORMAT = 'ultimamotion.settings-profile';
+
+const SETTINGS_RECORD_ID = 'app-settings';
+
+export interface AppSettings {
+  layout: 1 | 2 | 4;
+  isPortraitMode: boolean;
+  playbackRate: number;
+  overlayOpacity: number;
+  overlayBlendMode: OverlayBlendMode;
+  overlayTopColorFilter: OverlayColorFilter;
+  overlayTopBlackAndWhite: boolean;
+  drawingTool: DrawingType;
+  drawingColor: string;
+  drawingTimeScope: DrawingTimeScope;
+  drawingHoldSec: number;
+  poseModelVariant: PoseModelVariant;
+  poseAnalyzeScope: PoseAnalyzeScope;
+  posePreprocessPreset: PosePreprocessPresetId;
+  poseMinVisibility: number;
+  poseTargetFps: number;
+  poseMinPoseDetectionConfidence: number;
+  poseMinPosePresenceConfidence: number;
+  poseMinTrackingConfidence: number;
+  poseUseExactFrameSync: boolean;
+  poseUseSmoothing: boolean;
+  poseUsePreprocessCache: boolean;
+  poseUseYoloMultiPerson: boolean;
+  poseShowCoG: boolean;
+  poseShowCoGCharts: boolean;
+  poseShowAngleRateCharts: boolean;
+  poseVisibleAngles: PoseAngleSelectionMap;
+  posePlottedAngles: PoseAngleSelectionMap;
+  poseCustomAngles: CustomPoseAngle[];
+  poseShowBodyLean: boolean;
+  poseShowJumpHeight: boolean;
+  poseLabelScale: number;
+  poseBackgroundBlackout: number;
+  poseStrainRules: StrainRuleSet;
+  poseAlertRules: PoseAlertRule[];
+  keymap: ShortcutKeymap;
+}
+
+export interface SettingsProfile {
+  id: string;
+  name: string;
+  settings: AppSettings;
+  updatedAtMs: number;
+}
+
+export interface SettingsState {
+  settings: AppSettings;
+  profiles: SettingsProfile[];
+  /** Profile last applied or saved; edits after that are not written back automatically */
+  activeProfileId: string | null;
+}
+
+export interface SettingsProfileExportDocument {
+  format: typeof SETTINGS_PROFILE_EXPORT_FORMAT;
+  version: typeof SETTINGS_VERSION;
+  exportedAt: string;
+  profile: {
+    name: string;
+    settings: AppSettings;
+  };
+}
+
+export const createDefaultAppSettings = (): AppSettings => ({
+  layout: 1,
+  isPortraitMode: false,
+  playbackRate: 1,
+  overlayOpacity: 0.5,
+  overlayBlendMode: 'overlay',
+  overlayTopColorFilter: 'none',
+  overlayTopBlackAndWhite: false,
+  drawingTool: 'free',
+  drawingColor: '#ef4444',
+  drawingTimeScope: 'clip',
+  drawingHoldSec: 1,
+  poseModelVariant: 'yolo26-xlarge',
+  poseAnalyzeScope: 'all-visible',
+  posePreprocessPreset: 'accurate',
+  poseMinVisibility: 0.25,
+  poseTargetFps: 60,
+  poseMinPoseDetectionConfidence: 0.55,
+  poseMinPosePresenceConfidence: 0.65,
+  poseMinTrackingConfidence: 0.65,
+  poseUseExactFrameSync: true,
+  poseUseSmoothing: false,
+  poseUsePreprocessCache: true,
+  poseUseYoloMultiPerson: true,
+  poseShowCoG: false,
+  poseShowCoGCharts: true,
+  poseShowAngleRateCharts: false,
+  poseVisibleAngles: createDefaultVisibleAngleSelection(),
+  posePlottedAngles: createPoseAngleSelectionMap(false),
+  poseCustomAngles: [],
+  poseShowBodyLean: false,
+  poseShowJumpHeight: false,
+  poseLabelScale: 1,
+  poseBackgroundBlackout: 0,
+  poseStrainRules: createDefaultStrainRules(),
+  poseAlertRules: createDefaultPoseAlertRules(),
+  keymap: createDefaultKeymap(),
+});
+
+// Values outside these lists (e.g. a removed model variant) fall back to the default.
+const SETTING_CHOICES: Partial<Record<keyof AppSettings, readonly unknown[]>> = {
+  layout: [1, 2, 4],
+  overlayBlendMode: ['normal', 'multiply', 'screen', 'overlay', 'difference', 'lighten', 'darken'],
+  overlayTopColorFilter: ['none', 'red', 'orange', 'yellow', 'green', 'blue'],
+  drawingTool: ['free', 'line', 'arrow', 'angle', 'rectangle', 'circle', 'text'],
+  drawingTimeScope: ['clip', 'frame'],
+  poseModelVariant: [
+    'lite',
+    'full',
+    'heavy',
+    'yolo26-nano',
+    'yolo26-small',
+    'yolo26-medium',
+    'yolo26-large',
+    'yolo26-xlarge',
+  ],
+  poseAnalyzeScope: ['active-tile', 'all-visible'],
+  posePreprocessPreset: ['accurate', 'balanced', 'fast'],
+};
+
+// Same bounds the setters and playback controls enforce.
+const SETTING_RANGES: Partial<Record<keyof AppSettings, [number, number]>> = {
+  playbackRate: [0.1, 4],
+  overlayOpacity: [0, 1],
+  drawingHoldSec: [0, 10],
+  poseMinVisibility: [0, 1],
+  poseTargetFps: [5, 60],
+  poseMinPoseDetectionConfidence: [0, 1],
+  poseMinPosePresenceConfidence: [0, 1],
+  poseMinTrackingConfidence: [0, 1],
+  poseLabelScale: [0.7, 3],
+  poseBackgroundBlackout: [0, 1],
+};
+
+type SettingsMigration = (settings: Record<string, unknown>) => Record<string, unknown>;
+
+/**
+ * Step migrations keyed by the version they upgrade from. Only renames or changed meanings need
+ * a step; new settings pick up their default during normalization.
+ */
+const SETTINGS_MIGRATIONS: Record<number, SettingsMigration> = {};
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const normalizeAngleSelection = (value: unknown, fallback: PoseAngleSelectionMap): PoseAngleSelectionMap => {
+  const next = { ...fallback };
+  if (!isRecord(value)) return next;
+  POSE_ANGLE_METRICS.forEach((metric) => {
+    if (typeof value[metric.id] === 'boolean') {
+      next[metric.id] = value[metric.id] as boolean;
+    }
+  });
+  Object.entries(value).forEach(([id, selected]) => {
+    if (isCustomPoseAngleMetricId(id) && typeof selected === 'boolean') {
+      next[id] = selected;
+    }
+  });
+  return next;
+};
+
+const normalizeSettings = (raw: Record<string, unknown>): AppSettings => {
+  const defaults = createDefaultAppSettings();
+  const next: Record<string, unknown> = { ...defaults };
+
+  (Object.keys(defaults) as Array<keyof AppSettings>).forEach((key) => {
+    const value = raw[key];
+    const fallback = defaults[key];
+    if (key === 'poseVisibleAngles' || key === 'posePlottedAngles') {
+      next[key] = normalizeAngleSelection(value, fallback as PoseAngleSelectionMap);
+      return;
+    }
+    if (key === 'poseCustomAngles') {
+      next[key] = normalizeCustomPoseAngles(value);
+      return;
+    }
+    if (key === 'poseStrainRules') {
+      next[key] = normalizeStrainRules(value);
+      return;
+    }
+    if (key === 'poseAlertRules') {
+      next[key] = normalizePoseAlertRules(value);
+      return;
+    }
+    if (key === 'keymap') {
+      next[key] = normalizeKeymap(value);
+      return;
+    }
+    if (typeof value !== typeof fallback) return;
+    if (typeof value === 'number' && !Number.isFinite(value)) return;
+    const choices = SETTING_CHOICES[key];
+    if (choices && !choices.includes(value)) return;
+    const range = SETTING_RANGES[key];
+    next[key] = range && typeof value === 'number' ? Math.max(range[0], Math.min(range[1], value)) : value;
+  });
+
+  return next as unknown as AppSettings;
+};
+
+/**
+ * Brings settings written by any earlier version up to the current shape. Unknown keys are
+ * dropped and invalid values replaced with defaults, so a damaged record never blocks startup.
+ */
+export const migrateSettings = (raw: unknown, fromVersion: number): AppSettings => {
+  let current = isRecord(raw) ? raw : {};
+  for (let version = fromVersion; version < SETTINGS_VERSION; version += 1) {
+    const migration = SETTINGS_MIGRATIONS[version];
+    if (migration) current = migration(current);
+  }
+  return normalizeSettings(current);
+};
+
+const createDefaultSettingsState = (): SettingsState => ({
+  settings: createDefaultAppSettings(),
+  profiles: [],
+  activeProfileId: null,
+});
+
+const migrateProfile = (raw: unknown, fromVersion: number): SettingsProfile | null => {
+  if (!isRecord(raw) || typeof raw.id !== 'string' || typeof raw.name !== 'string') return null;
+  return {
+    id: raw.id,
+    name: raw.name,
+    settings: migrateSettings(raw.settings, fromVersion),
+    updatedAtMs: typeof raw.updatedAtMs === 'number' ? raw.updatedAtMs : Date.now(),
+  };
+};
+
+export const loadSettingsState = async (): Promise<SettingsState> => {
+  const record = await getSettingsRecord(SETTINGS_RECORD_ID);
+  if (!record || !isRecord(record.data)) return createDefaultSettingsState();
+  if (record.version > SETTINGS_VERSION) {
+    console.warn(`Settings were saved by a newer version (${record.version}); reading what is understood.`);
+  }
+
+  const { data } = record;
+  const profiles = (Array.isArray(data.profiles) ? data.profiles : [])
+    .map((profile) => migrateProfile(profile, record.version))
+    .filter((profile): profile is SettingsProfile => profile !== null);
+  const activeProfileId = typeof data.activeProfileId === 'string' && profiles.some((profile) => profile.id === data.activeProfileId)
+    ? data.activeProfileId
+    : null;
+
+  return {
+    settings: migrateSettings(data.settings, record.version),
+    profiles,
+    activeProfileId,
+  };
+};
+
+export const saveSettingsState = (state: SettingsState): Promise<void> =>
+  putSettingsRecord({
+    id: SETTINGS_RECORD_ID,
+    version: SETTINGS_VERSION,
+    data: state,
+    updatedAtMs: Date.now(),
+  });
+
+export const createSettingsProfile = (name: string, settings: AppSettings): SettingsProfile => ({
+  id: createId(),
+  name,
+  settings,
+  updatedAtMs: Date.now(),
+});
+
+export const exportSettingsProfile = (profile: SettingsProfile) => {
+  const document: SettingsProfileExportDocument = {
+    format: SETTINGS_PROFILE_EXPORT_FORMAT,
+    version: SETTINGS_VERSION,
+    exportedAt: new Date().toISOString(),
+    profile: {
+      name: profile.name,
+      settings: profile.settings,
+    },
+  };
+  const blob = new Blob([JSON.stringify(document, null, 2)], { type: 'application/json' });
+  downloadBlob(blob, `${toSafeFileName(profile.name, 'profile')}.settings.json`);
+};
+
+/**
+ * Parses an exported profile. The returned profile gets a fresh id so importing the same file
+ * twice never overwrites a local profile.
+ */
+export const parseSettingsProfileImport = (text: string): SettingsProfile => {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(text);
+  } catch {
+    throw new Error('File is not valid JSON.');
+  }
+  if (!isRecord(parsed) || parsed.format !== SETTINGS_PROFILE_EXPORT_FORMAT) {
+    throw new Error('This is not a settings profile export.');
+  }
+  const version = typeof parsed.version === 'number' ? parsed.version : 0;
+  if (version > SETTINGS_VERSION) {
+    throw new Error(`Profile version ${version} is newer than this app supports.`);
+  }
+  if (!isRecord(parsed.profile)) {
+    throw new Error('The file does not contain a profile.');
+  }
+
+  const name = typeof parsed.profile.name === 'string' && parsed.profile.name.trim().length > 0
+    ? parsed.profile.name.trim()
+    : 'Imported profile';
+  return createSettingsProfile(name, migrateSettings(parsed.profile.settings, version));
+};
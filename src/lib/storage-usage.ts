@@ -0,0 +1,179 @@
+import type { Video } from '@/types';
+import { getAllPoseAnalysisSummaries, type PoseAnalysisSummary } from '@/lib/db';
+import { getPoseCacheTrimRangeMs } from '@/lib/pose/pose-analysis-cache';
+
+/**
+ * Storage accounting for the IndexedDB library. Browser estimates only cover the whole origin,
+ * so per-clip numbers come from blob sizes and an estimate of each analysis record's frames.
+ */
+
+/** Share of the quota above which the app warns before storing more clips */
+export const STORAGE_WARNING_RATIO = 0.8;
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+// Structured clone stores landmark numbers as doubles; each frame adds a timestamp and array headers.
+const BYTES_PER_LANDMARK_VALUE = 8;
+const BYTES_PER_FRAME = 24;
+
+export interface StorageEstimateInfo {
+  usageBytes: number;
+  quotaBytes: number;
+  persisted: boolean;
+}
+
+export type PoseAnalysisStaleReason = 'orphaned' | 'trim-mismatch';
+
+export interface PoseAnalysisUsage extends PoseAnalysisSummary {
+  estimatedBytes: number;
+  staleReason: PoseAnalysisStaleReason | null;
+}
+
+export interface VideoStorageUsage {
+  video: Video;
+  videoBytes: number;
+  thumbnailBytes: number;
+  /** True when the recording is shared with another sub-clip and counted there instead */
+  sharesRecording: boolean;
+  analyses: PoseAnalysisUsage[];
+  totalBytes: number;
+}
+
+export interface StorageReport {
+  estimate: StorageEstimateInfo | null;
+  videos: VideoStorageUsage[];
+  /** Analyses whose clip was deleted */
+  orphanedAnalyses: PoseAnalysisUsage[];
+  totalBytes: number;
+}
+
+export const formatBytes = (bytes: number) => {
+  if (bytes < 1024) return `${bytes} B`;
+  const units = ['KB', 'MB', 'GB', 'TB'];
+  let value = bytes / 1024;
+  let unitIndex = 0;
+  while (value >= 1024 && unitIndex < units.length - 1) {
+    value /= 1024;
+    unitIndex += 1;
+  }
+  return `${value.toFixed(value >= 100 ? 0 : 1)} ${units[unitIndex]}`;
+};
+
+export const getStorageEstimate = async (): Promise<StorageEstimateInfo | null> => {
+  if (typeof navigator === 'undefined' || !navigator.storage?.estimate) return null;
+  try {
+    const [estimate, persisted] = await Promise.all([
+      navigator.storage.estimate(),
+      navigator.storage.persisted?.() ?? Promise.resolve(false),
+    ]);
+    return {
+      usageBytes: estimate.usage ?? 0,
+      quotaBytes: estimate.quota ?? 0,
+      persisted,
+    };
+  } catch (error) {
+    console.warn('Storage estimate unavailable', error);
+    return null;
+  }
+};
+
+/** Resolves true when the browser granted persistence, so clips are not evicted under pressure. */
+export const requestPersistentStorage = async () => {
+  if (typeof navigator === 'undefined' || !navigator.storage?.persist) return false;
+  try {
+    return await navigator.storage.persist();
+  } catch (error) {
+    console.warn('Persistent storage request failed', error);
+    return false;
+  }
+};
+
+/**
+ * Message for a toast when storing `additionalBytes` would take usage past the warning ratio,
+ * or null when there is room (or the browser gives no estimate).
+ */
+export const getStorageHeadroomWarning = async (additionalBytes: number) => {
+  const estimate = await getStorageEstimate();
+  if (!estimate || estimate.quotaBytes <= 0) return null;
+  const projected = estimate.usageBytes + additionalBytes;
+  if (projected < estimate.quotaBytes * STORAGE_WARNING_RATIO) return null;
+  const percent = Math.min(100, Math.round((projected / estimate.quotaBytes) * 100));
+  return `Storage will be ${percent}% full (${formatBytes(projected)} of ${formatBytes(estimate.quotaBytes)}). Free space from the storage view.`;
+};
+
+const estimateDataUrlBytes = (dataUrl: string | undefined) => {
+  if (!dataUrl) return 0;
+  const commaIndex = dataUrl.indexOf(',');
+  return Math.round((dataUrl.length - commaIndex - 1) * 0.75);
+};
+
+const toAnalysisUsage = (summary: PoseAnalysisSummary, video: Video | undefined): PoseAnalysisUsage => {
+  let staleReason: PoseAnalysisStaleReason | null = null;
+  if (!video) {
+    staleReason = 'orphaned';
+  } else {
+    const trimRange = getPoseCacheTrimRangeMs(video);
+    if (summary.trimStartMs !== trimRange.trimStartMs || summary.trimEndMs !== trimRange.trimEndMs) {
+      staleReason = 'trim-mismatch';
+    }
+  }
+  return {
+    ...summary,
+    estimatedBytes: summary.landmarkValueCount * BYTES_PER_LANDMARK_VALUE + summary.frameCount * BYTES_PER_FRAME,
+    staleReason,
+  };
+};
+
+export const buildStorageReport = async (library: Video[]): Promise<StorageReport> => {
+  const [estimate, summaries] = await Promise.all([getStorageEstimate(), getAllPoseAnalysisSummaries()]);
+  const videosById = new Map(library.map((video) => [video.id, video]));
+  const analysesByVideo = new Map<string, PoseAnalysisUsage[]>();
+  const orphanedAnalyses: PoseAnalysisUsage[] = [];
+
+  summaries.forEach((summary) => {
+    const usage = toAnalysisUsage(summary, videosById.get(summary.videoId));
+    if (usage.staleReason === 'orphaned') {
+      orphanedAnalyses.push(usage);
+      return;
+    }
+    analysesByVideo.set(summary.videoId, [...(analysesByVideo.get(summary.videoId) ?? []), usage]);
+  });
+
+  const countedSourceIds = new Set<string>();
+  const videos = library
+    .map((video) => {
+      const analyses = analysesByVideo.get(video.id) ?? [];
+      const sharesRecording = Boolean(video.sourceId && countedSourceIds.has(video.sourceId));
+      if (video.sourceId) countedSourceIds.add(video.sourceId);
+      const videoBytes = sharesRecording ? 0 : video.blob.size;
+      const thumbnailBytes = estimateDataUrlBytes(video.thumbnail);
+      return {
+        video,
+        videoBytes,
+        thumbnailBytes,
+        sharesRecording,
+        analyses,
+        totalBytes: videoBytes + thumbnailBytes + analyses.reduce((sum, item) => sum + item.estimatedBytes, 0),
+      };
+    })
+    .sort((a, b) => b.totalBytes - a.totalBytes);
+
+  return {
+    estimate,
+    videos,
+    orphanedAnalyses,
+    totalBytes:
+      videos.reduce((sum, item) => sum + item.totalBytes, 0) +
+      orphanedAnalyses.reduce((sum, item) => sum + item.estimatedBytes, 0),
+  };
+};
+
+const getAllAnalyses = (report: StorageReport) => [
+  ...report.videos.flatMap((item) => item.analyses),
+  ...report.orphanedAnalyses,
+];
+
+export const findStaleAnalyses = (report: StorageReport) =>
+  getAllAnalyses(report).filter((analysis) => analysis.staleReason !== null);
+
+export const findAnalysesOlderThan = (report: StorageReport, days: number, nowMs = Date.now()) =>
+  getAllAnalyses(report).filter((analysis) => nowMs - analysis.createdAtMs > days * MS_PER_DAY);
@@ -112,6 +112,43 @@ export async function extractThumbnail(
     });
 }
 
+/**
+ * Reads the intrinsic pixel dimensions of a video file/blob.
+ * Resolves with zeros if metadata cannot be decoded.
+ */
+export async function getVideoDimensions(
+    source: Blob | File
+): Promise<{ width: number; height: number; duration: number }> {
+    return new Promise((resolve) => {
+        const video = document.createElement('video');
+        video.preload = 'metadata';
+        video.muted = true;
+        video.playsInline = true;
+        video.setAttribute('playsinline', '');
+
+        const url = URL.createObjectURL(source);
+        let resolved = false;
+        const finish = (width: number, height: number, duration: number) => {
+            if (resolved) return;
+            resolved = true;
+            clearTimeout(timeout);
+            video.removeAttribute('src');
+            video.load();
+            URL.revokeObjectURL(url);
+            resolve({ width, height, duration });
+        };
+
+        const timeout = setTimeout(() => finish(0, 0, 0), 5000);
+
+        video.onloadedmetadata = () => {
+            finish(video.videoWidth || 0, video.videoHeight || 0, Number.isFinite(video.duration) ? video.duration : 0);
+        };
+        video.onerror = () => finish(0, 0, 0);
+
+        video.src = url;
+    });
+}
+
 /**
  * Generates filmstrip thumbnails from a video blob.
  * Returns an array of data URL strings.
@@ -9,8 +9,35 @@ export type Video = {
   trimEnd?: number;   // New: End time in seconds
   thumbnail?: string; // New: Base64 data URL for thumbnail
   isFavorite?: boolean;
+  sourceId?: string;  // Shared recording blob; sub-clips cut from one file all reference it
+  frameTiming?: VideoFrameTiming; // Measured frame cadence, used for frame stepping and counting
+  athlete?: string;
+  tags?: string[];
+  sessionDate?: string; // Recording session day as YYYY-MM-DD
+  notes?: string;
 };
 
+/** Frame cadence measured from requestVideoFrameCallback while the clip plays */
+export interface VideoFrameTiming {
+  /** Median cadence; only nominal when `isVariable` */
+  fps: number;
+  frameDurationSec: number;
+  /** Phase of the frame grid: presentation time of frame 0, within ±half a frame of zero */
+  frameOffsetSec: number;
+  /** Frame intervals varied noticeably (variable-frame-rate recording) */
+  isVariable: boolean;
+}
+
+/** Named range of a recording, saved as its own library clip */
+export interface ClipSegment {
+  name: string;
+  trimStart: number;
+  trimEnd: number;
+}
+
+/** User-editable library fields, indexed in IndexedDB for search and grouping */
+export type VideoMetadata = Pick<Video, 'athlete' | 'tags' | 'sessionDate' | 'notes'>;
+
 export type DrawingType = 'free' | 'line' | 'arrow' | 'angle' | 'rectangle' | 'circle' | 'text';
 
 export type PoseModelVariant =
@@ -23,14 +50,39 @@ export type PoseModelVariant =
   | 'yolo26-large'
   | 'yolo26-xlarge';
 export type PosePreprocessPresetId = 'accurate' | 'balanced' | 'fast';
-export type PoseAngleMetricId =
+export type BuiltInPoseAngleMetricId =
   | 'left-knee'
   | 'right-knee'
   | 'left-hip'
   | 'right-hip'
   | 'left-elbow'
-  | 'right-elbow';
+  | 'right-elbow'
+  | 'left-shoulder'
+  | 'right-shoulder'
+  | 'left-ankle'
+  | 'right-ankle'
+  | 'left-wrist'
+  | 'right-wrist'
+  | 'trunk'
+  | 'neck'
+  | 'left-shank-vertical'
+  | 'right-shank-vertical'
+  | 'left-thigh-horizontal'
+  | 'right-thigh-horizontal'
+  | 'trunk-vertical'
+  | 'left-trunk-shin'
+  | 'right-trunk-shin';
+export type CustomPoseAngleMetricId = `custom-${string}`;
+export type PoseAngleMetricId = BuiltInPoseAngleMetricId | CustomPoseAngleMetricId;
 export type PoseAngleSelectionMap = Record<PoseAngleMetricId, boolean>;
+
+/** User-defined angle measured at `landmarks[1]` between rays to `landmarks[0]` and `landmarks[2]` */
+export interface CustomPoseAngle {
+  id: CustomPoseAngleMetricId;
+  label: string;
+  /** MediaPipe landmark indices: first ray end, vertex, second ray end */
+  landmarks: [number, number, number];
+}
 export type PoseAnalyzeScope = 'active-tile' | 'all-visible';
 
 export interface Point {
@@ -47,4 +99,40 @@ export interface Drawing {
   color: string;
   strokeWidth: number;
   text?: string;        // For text labels
+  startTime?: number;   // Media time (s) the drawing appears; unset = whole clip
+  endTime?: number;     // Media time (s) the drawing disappears
+}
+
+export type DrawingTimeScope = 'clip' | 'frame';
+
+export interface Marker {
+  id: string;
+  videoId: string;
+  time: number;         // Media time in seconds (not trim-relative)
+  label: string;
+  color: string;
+  note?: string;
+  createdAt: number;
+}
+
+export interface WorkspaceSessionTile {
+  videoId: string;
+  time: number;         // Media time in seconds when the session was saved
+  syncOffset: number;
+  zoom: number;
+  pan: Point;
+}
+
+export interface WorkspaceSession {
+  id: string;
+  name: string;
+  createdAt: Date;
+  updatedAt: Date;
+  layout: 1 | 2 | 4;
+  compareViewMode: 'grid' | 'overlay';
+  isSyncEnabled: boolean;
+  activeTileIndex: number | null;
+  tiles: (WorkspaceSessionTile | null)[];  // One entry per grid slot
+  drawings: Record<string, Drawing[]>;     // Keyed like the live drawing layers (video id or sync key)
+  isSyncDrawingsEnabled: boolean;
 }